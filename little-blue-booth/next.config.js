@@ -2,10 +2,17 @@
  * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially useful
  * for Docker builds.
  */
+import { readFileSync } from "fs";
 import "./src/env.js";
 
+const { version } = JSON.parse(
+  readFileSync(new URL("./package.json", import.meta.url), "utf8"),
+);
+
 /** @type {import("next").NextConfig} */
 const config = {
+  // Reported by each kiosk in its heartbeat
+  env: { NEXT_PUBLIC_APP_VERSION: version },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "clientMessageId" TEXT;
+ALTER TABLE "ChatMessage" ADD COLUMN "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_conversationId_sequence_idx" ON "ChatMessage"("conversationId", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMessage_conversationId_clientMessageId_key" ON "ChatMessage"("conversationId", "clientMessageId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "HealthMarker" ADD COLUMN "flagReason" TEXT;
+ALTER TABLE "HealthMarker" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'unknown';
+ALTER TABLE "HealthMarker" ADD COLUMN "unit" TEXT;
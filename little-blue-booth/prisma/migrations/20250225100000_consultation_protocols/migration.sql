@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Kiosk" ADD COLUMN "protocolKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConsultationProtocol" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "persona" TEXT NOT NULL,
+    "phases" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "kioskId" TEXT NOT NULL,
+    "startTime" DATETIME,
+    "endTime" DATETIME,
+    "state" TEXT NOT NULL,
+    "protocolId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Session_kioskId_fkey" FOREIGN KEY ("kioskId") REFERENCES "Kiosk" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Session_protocolId_fkey" FOREIGN KEY ("protocolId") REFERENCES "ConsultationProtocol" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Session" ("createdAt", "endTime", "id", "kioskId", "startTime", "state", "updatedAt", "userId") SELECT "createdAt", "endTime", "id", "kioskId", "startTime", "state", "updatedAt", "userId" FROM "Session";
+DROP TABLE "Session";
+ALTER TABLE "new_Session" RENAME TO "Session";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsultationProtocol_key_version_key" ON "ConsultationProtocol"("key", "version");
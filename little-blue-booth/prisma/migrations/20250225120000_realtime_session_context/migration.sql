@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RealtimeSession" ADD COLUMN "context" TEXT;
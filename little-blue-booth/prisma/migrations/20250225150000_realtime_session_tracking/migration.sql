@@ -0,0 +1,26 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RealtimeSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT,
+    "openaiSessionId" TEXT,
+    "ephemeralKey" TEXT,
+    "keyExpiresAt" DATETIME,
+    "model" TEXT,
+    "voice" TEXT,
+    "turnDetection" TEXT,
+    "context" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHeartbeatAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" DATETIME,
+    "endReason" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    CONSTRAINT "RealtimeSession_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_RealtimeSession" ("active", "context", "endedAt", "ephemeralKey", "id", "sessionId", "startedAt", "lastHeartbeatAt") SELECT "active", "context", "endedAt", "ephemeralKey", "id", "sessionId", "startedAt", "startedAt" FROM "RealtimeSession";
+DROP TABLE "RealtimeSession";
+ALTER TABLE "new_RealtimeSession" RENAME TO "RealtimeSession";
+CREATE INDEX "RealtimeSession_active_lastHeartbeatAt_idx" ON "RealtimeSession"("active", "lastHeartbeatAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisStatus" ADD COLUMN "redFlags" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Kiosk" ADD COLUMN "country" TEXT NOT NULL DEFAULT 'IE';
+ALTER TABLE "Kiosk" ADD COLUMN "emergencyConfig" TEXT;
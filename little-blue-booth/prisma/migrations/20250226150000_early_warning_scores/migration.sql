@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "EarlyWarningScore" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "news2" INTEGER NOT NULL,
+    "news2Risk" TEXT NOT NULL,
+    "qsofa" INTEGER NOT NULL,
+    "complete" BOOLEAN NOT NULL,
+    "breakdown" TEXT NOT NULL,
+    "computedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EarlyWarningScore_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EarlyWarningScore_sessionId_computedAt_idx" ON "EarlyWarningScore"("sessionId", "computedAt");
@@ -0,0 +1,39 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Recommendation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT NOT NULL DEFAULT 'selfCare',
+    "priority" TEXT NOT NULL DEFAULT 'routine',
+    "externalLinks" TEXT,
+    "clinicalNoteId" TEXT,
+    "jobId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Recommendation_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Recommendation" ("createdAt", "description", "externalLinks", "id", "sessionId", "title") SELECT "createdAt", "description", "externalLinks", "id", "sessionId", "title" FROM "Recommendation";
+DROP TABLE "Recommendation";
+ALTER TABLE "new_Recommendation" RENAME TO "Recommendation";
+CREATE INDEX "Recommendation_sessionId_idx" ON "Recommendation"("sessionId");
+CREATE TABLE "new_Referral" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "recommendationId" TEXT,
+    "referredTo" TEXT,
+    "reason" TEXT,
+    "scheduledTime" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusChangedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Referral_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Referral_recommendationId_fkey" FOREIGN KEY ("recommendationId") REFERENCES "Recommendation" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Referral" ("id", "referredTo", "scheduledTime", "sessionId", "status") SELECT "id", "referredTo", "scheduledTime", "sessionId", CASE WHEN "status" = 'canceled' THEN 'cancelled' ELSE COALESCE("status", 'pending') END FROM "Referral";
+DROP TABLE "Referral";
+ALTER TABLE "new_Referral" RENAME TO "Referral";
+CREATE INDEX "Referral_sessionId_idx" ON "Referral"("sessionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
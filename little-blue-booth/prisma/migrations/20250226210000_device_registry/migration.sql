@@ -0,0 +1,23 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Device" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "deviceTypeId" TEXT NOT NULL,
+    "kioskId" TEXT,
+    "connectionMethod" TEXT,
+    "apiKeyHash" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastReadingAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Device_deviceTypeId_fkey" FOREIGN KEY ("deviceTypeId") REFERENCES "DeviceType" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Device_kioskId_fkey" FOREIGN KEY ("kioskId") REFERENCES "Kiosk" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Device" ("connectionMethod", "createdAt", "deviceTypeId", "id", "lastReadingAt", "name", "updatedAt") SELECT "connectionMethod", "createdAt", "deviceTypeId", "id", "lastReadingAt", "name", "updatedAt" FROM "Device";
+DROP TABLE "Device";
+ALTER TABLE "new_Device" RENAME TO "Device";
+CREATE INDEX "Device_kioskId_idx" ON "Device"("kioskId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Kiosk" ADD COLUMN "name" TEXT;
+ALTER TABLE "Kiosk" ADD COLUMN "statusChangedAt" DATETIME;
+ALTER TABLE "Kiosk" ADD COLUMN "latitude" REAL;
+ALTER TABLE "Kiosk" ADD COLUMN "longitude" REAL;
+ALTER TABLE "Kiosk" ADD COLUMN "credentialHash" TEXT;
+ALTER TABLE "Kiosk" ADD COLUMN "enrollmentCodeHash" TEXT;
+ALTER TABLE "Kiosk" ADD COLUMN "enrollmentCodeExpiresAt" DATETIME;
+ALTER TABLE "Kiosk" ADD COLUMN "enrolledAt" DATETIME;
+ALTER TABLE "Kiosk" ADD COLUMN "lastHeartbeatAt" DATETIME;
+ALTER TABLE "Kiosk" ADD COLUMN "appVersion" TEXT;
+ALTER TABLE "Kiosk" ADD COLUMN "health" TEXT;
+
+-- Kiosks created before enrollment have no credential and must be enrolled
+UPDATE "Kiosk" SET "status" = 'OFFLINE' WHERE "status" = 'ACTIVE';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Kiosk_credentialHash_key" ON "Kiosk"("credentialHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Kiosk_enrollmentCodeHash_key" ON "Kiosk"("enrollmentCodeHash");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "endReason" TEXT;
+ALTER TABLE "Session" ADD COLUMN "lastActivityAt" DATETIME;
+
+-- Existing sessions were last active when they were last written
+UPDATE "Session" SET "lastActivityAt" = "updatedAt";
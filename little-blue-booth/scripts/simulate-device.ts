@@ -0,0 +1,140 @@
+// Posts realistic readings to POST /api/devices/[deviceId]/readings, as a
+// booth peripheral would. Register the device first (api.device.register)
+// to get its id and API key, then start a session on the same kiosk.
+//
+//   npx tsx scripts/simulate-device.ts --device <id> --key <apiKey> \
+//     --type bloodPressureMonitor [--profile unhealthy] [--count 3] \
+//     [--interval 5] [--url http://localhost:3000]
+
+import { parseArgs } from "node:util";
+import {
+  DEVICE_TYPE_KEYS,
+  isDeviceTypeKey,
+  type DeviceReadings,
+  type DeviceTypeKey,
+} from "../src/lib/devices";
+
+type Profile = "healthy" | "unhealthy";
+type Reading = DeviceReadings["readings"][number];
+
+/** Centre of each profile's readings; jitter is added per reading */
+const PROFILES = {
+  healthy: {
+    weight: 72,
+    height: 1.75,
+    systolic: 118,
+    diastolic: 76,
+    heartRate: 68,
+    bloodOxygen: 98,
+    temperature: 36.7,
+  },
+  unhealthy: {
+    weight: 104,
+    height: 1.72,
+    systolic: 162,
+    diastolic: 98,
+    heartRate: 108,
+    bloodOxygen: 91,
+    temperature: 38.6,
+  },
+} satisfies Record<Profile, Record<string, number>>;
+
+const jitter = (centre: number, spread: number, decimals = 0) =>
+  Number((centre + (Math.random() * 2 - 1) * spread).toFixed(decimals));
+
+function generateReadings(type: DeviceTypeKey, profile: Profile): Reading[] {
+  const p = PROFILES[profile];
+  switch (type) {
+    case "scale": {
+      const weight = jitter(p.weight, 0.4, 1);
+      return [
+        { type: "weight", value: weight, unit: "kg" },
+        { type: "bmi", value: Number((weight / p.height ** 2).toFixed(1)) },
+        { type: "height", value: p.height, unit: "m" },
+      ];
+    }
+    case "bloodPressureMonitor":
+      return [
+        {
+          type: "bloodPressure",
+          systolic: jitter(p.systolic, 6),
+          diastolic: jitter(p.diastolic, 4),
+          unit: "mmHg",
+        },
+        { type: "heartRate", value: jitter(p.heartRate, 5), unit: "bpm" },
+      ];
+    case "pulseOximeter":
+      return [
+        {
+          type: "bloodOxygen",
+          value: Math.min(100, jitter(p.bloodOxygen, 1)),
+          unit: "%",
+        },
+        { type: "heartRate", value: jitter(p.heartRate, 5), unit: "bpm" },
+      ];
+    case "heartRateMonitor":
+      return [
+        { type: "heartRate", value: jitter(p.heartRate, 5), unit: "bpm" },
+      ];
+    case "thermometer":
+      return [
+        {
+          type: "temperature",
+          value: jitter(p.temperature, 0.2, 1),
+          unit: "C",
+        },
+      ];
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    device: { type: "string" },
+    key: { type: "string" },
+    type: { type: "string" },
+    url: { type: "string", default: "http://localhost:3000" },
+    count: { type: "string", default: "1" },
+    interval: { type: "string", default: "5" },
+    profile: { type: "string", default: "healthy" },
+  },
+});
+
+const type = values.type ?? "";
+const profile = values.profile;
+if (!values.device || !values.key || !isDeviceTypeKey(type)) {
+  console.error(
+    `Usage: simulate-device --device <id> --key <apiKey> --type <${DEVICE_TYPE_KEYS.join("|")}>`,
+  );
+  process.exit(1);
+}
+if (profile !== "healthy" && profile !== "unhealthy") {
+  console.error("--profile must be healthy or unhealthy");
+  process.exit(1);
+}
+
+const endpoint = `${values.url}/api/devices/${values.device}/readings`;
+const count = Number(values.count);
+const intervalMs = Number(values.interval) * 1000;
+
+for (let i = 0; i < count; i++) {
+  if (i > 0) await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+  const body: DeviceReadings = {
+    readings: generateReadings(type, profile),
+    capturedAt: new Date(),
+  };
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${values.key}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  console.log(
+    `[${i + 1}/${count}] ${response.status}`,
+    JSON.stringify(body.readings),
+    await response.text(),
+  );
+}
@@ -0,0 +1,91 @@
+// Copies the parts of the official FHIR R4 JSON schema a session export needs
+// into src/server/fhir/r4/fhir.schema.json, which validateFhirBundle checks
+// Bundles against offline. Get fhir.schema.json from
+// https://hl7.org/fhir/R4/fhir.schema.json.zip, or from the npm package
+// @medplum/definitions (dist/fhir/r4/fhir.schema.json), then run:
+//
+//   npx tsx scripts/vendor-fhir-schema.ts path/to/fhir.schema.json
+//
+// Definitions are copied unchanged apart from their descriptions.
+// ResourceList is narrowed to FHIR_RESOURCE_TYPES, so only those resources
+// and the data types they use are kept.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { FHIR_RESOURCE_TYPES } from "../src/server/fhir/types";
+
+const OUTPUT = new URL(
+  "../src/server/fhir/r4/fhir.schema.json",
+  import.meta.url,
+);
+
+interface OfficialSchema {
+  id: string;
+  definitions: Record<string, unknown>;
+}
+
+/** Drops description annotations, keeping properties named `description` */
+const withoutDescriptions = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(withoutDescriptions);
+  if (schema === null || typeof schema !== "object") return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(
+        ([key, value]) => key !== "description" || typeof value !== "string",
+      )
+      .map(([key, value]) => [key, withoutDescriptions(value)]),
+  );
+};
+
+/** The definition names a schema refers to, at any depth */
+const refsIn = (schema: unknown): string[] => {
+  if (Array.isArray(schema)) return schema.flatMap(refsIn);
+  if (schema === null || typeof schema !== "object") return [];
+  return Object.entries(schema).flatMap(([key, value]) =>
+    key === "$ref" && typeof value === "string"
+      ? [value.replace("#/definitions/", "")]
+      : refsIn(value),
+  );
+};
+
+const [source] = process.argv.slice(2);
+if (!source) {
+  console.error(
+    "Usage: npx tsx scripts/vendor-fhir-schema.ts <fhir.schema.json>",
+  );
+  process.exit(1);
+}
+
+const official = JSON.parse(readFileSync(source, "utf8")) as OfficialSchema;
+const definitions: Record<string, unknown> = {
+  ...official.definitions,
+  ResourceList: {
+    oneOf: FHIR_RESOURCE_TYPES.map((type) => ({
+      $ref: `#/definitions/${type}`,
+    })),
+  },
+};
+
+// Everything reachable from Bundle, in the official order
+const kept = new Set<string>();
+const pending = ["Bundle"];
+while (pending.length > 0) {
+  const name = pending.pop()!;
+  if (kept.has(name)) continue;
+  if (!(name in definitions)) throw new Error(`No definition for ${name}`);
+  kept.add(name);
+  pending.push(...refsIn(definitions[name]));
+}
+
+const vendored = {
+  $schema: "http://json-schema.org/draft-06/schema#",
+  $id: official.id,
+  $ref: "#/definitions/Bundle",
+  definitions: Object.fromEntries(
+    Object.keys(definitions)
+      .filter((name) => kept.has(name))
+      .map((name) => [name, withoutDescriptions(definitions[name])]),
+  ),
+};
+
+writeFileSync(OUTPUT, `${JSON.stringify(vendored, null, 2)}\n`);
+console.log(`Wrote ${kept.size} definitions to ${OUTPUT.pathname}`);
@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  forgetBoothDevice,
+  loadBoothDevices,
+  saveBoothDevice,
+} from "~/lib/bluetooth/boothDevices";
+import {
+  DEVICE_TYPE_KEYS,
+  DEVICE_TYPES,
+  type DeviceTypeKey,
+} from "~/lib/devices";
+import { api } from "~/trpc/react";
+
+/**
+ * Registers this booth's peripherals. Open it in the booth's own (enrolled) browser:
+ * each device's API key is only shown once and is kept in this browser so
+ * the kiosk page can post the device's readings.
+ */
+export default function AdminDevicesPage() {
+  const utils = api.useUtils();
+  const { data: kiosk, error: kioskError } = api.kiosk.current.useQuery(
+    undefined,
+    { retry: false },
+  );
+  const kioskId = kiosk?.id ?? "";
+
+  const { data: devices, isLoading } = api.device.listForKiosk.useQuery(
+    { kioskId },
+    { enabled: !!kioskId },
+  );
+
+  // Devices whose key is stored in this browser
+  const [paired, setPaired] = useState<Set<string>>(new Set());
+  const refreshPaired = () =>
+    setPaired(new Set(loadBoothDevices().map((device) => device.deviceId)));
+  useEffect(refreshPaired, []);
+
+  const [typeKey, setTypeKey] = useState<DeviceTypeKey>("scale");
+  const [name, setName] = useState("");
+
+  const onSettled = () => {
+    refreshPaired();
+    void utils.device.listForKiosk.invalidate({ kioskId });
+  };
+
+  const register = api.device.register.useMutation({
+    onSuccess: ({ deviceId, apiKey }, variables) => {
+      saveBoothDevice({
+        deviceId,
+        apiKey,
+        typeKey: variables.typeKey,
+        name: variables.name ?? DEVICE_TYPES[variables.typeKey].label,
+      });
+      setName("");
+    },
+    onSettled,
+  });
+
+  const rotateKey = api.device.rotateKey.useMutation({
+    onSuccess: ({ deviceId, apiKey }) => {
+      const device = devices?.find((d) => d.id === deviceId);
+      if (!device) return;
+      saveBoothDevice({
+        deviceId,
+        apiKey,
+        typeKey: device.deviceType.typeKey as DeviceTypeKey,
+        name: device.name,
+      });
+    },
+    onSettled,
+  });
+
+  const deactivate = api.device.deactivate.useMutation({
+    onSuccess: (device) => forgetBoothDevice(device.id),
+    onSettled,
+  });
+
+  if (kioskError) {
+    return (
+      <div className="text-red-500">
+        This browser is not an enrolled booth. Enroll it first, then register
+        its devices here.
+      </div>
+    );
+  }
+  if (!kioskId || isLoading) return <div>Loading devices...</div>;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="mb-4 text-xl font-semibold">
+          Devices for kiosk {kioskId}
+        </h2>
+        {devices?.length === 0 && (
+          <p className="text-gray-500">No devices registered.</p>
+        )}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2">Name</th>
+              <th>Type</th>
+              <th>Last reading</th>
+              <th>This browser</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {devices?.map((device) => (
+              <tr key={device.id} className="border-b">
+                <td className="py-2">{device.name}</td>
+                <td>
+                  {device.deviceType.description ?? device.deviceType.typeKey}
+                </td>
+                <td>
+                  {device.lastReadingAt
+                    ? new Date(device.lastReadingAt).toLocaleString()
+                    : "Never"}
+                </td>
+                <td>
+                  {!device.active
+                    ? "Deactivated"
+                    : paired.has(device.id)
+                      ? "Paired"
+                      : "Key not stored"}
+                </td>
+                <td className="space-x-3 text-right">
+                  {device.active && (
+                    <>
+                      <button
+                        onClick={() =>
+                          rotateKey.mutate({ deviceId: device.id })
+                        }
+                        className="text-blue-600 hover:underline"
+                      >
+                        {paired.has(device.id) ? "Rotate key" : "Pair here"}
+                      </button>
+                      <button
+                        onClick={() =>
+                          deactivate.mutate({ deviceId: device.id })
+                        }
+                        className="text-red-600 hover:underline"
+                      >
+                        Deactivate
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          register.mutate({
+            kioskId,
+            typeKey,
+            name: name || undefined,
+            connectionMethod: "bluetooth",
+          });
+        }}
+        className="flex items-end gap-4"
+      >
+        <label className="flex flex-col text-sm">
+          Type
+          <select
+            value={typeKey}
+            onChange={(e) => setTypeKey(e.target.value as DeviceTypeKey)}
+            className="rounded-md border p-2"
+          >
+            {DEVICE_TYPE_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {DEVICE_TYPES[key].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm">
+          Name
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={DEVICE_TYPES[typeKey].label}
+            className="rounded-md border p-2"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={register.isPending}
+          className="rounded-md bg-blue-600 px-4 py-2 text-white disabled:opacity-50"
+        >
+          Register
+        </button>
+      </form>
+      {register.error && (
+        <p className="text-red-500">{register.error.message}</p>
+      )}
+    </div>
+  );
+}
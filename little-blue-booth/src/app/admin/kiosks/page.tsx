@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import type { KioskHealth } from "~/lib/kiosks";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type KioskRecord = RouterOutputs["kiosk"]["list"][number];
+
+const STATUS_STYLES: Record<string, string> = {
+  ACTIVE: "text-green-600",
+  OFFLINE: "text-red-600",
+  MAINTENANCE: "text-amber-600",
+};
+
+const describeHealth = (health: KioskHealth | null) => {
+  if (!health) return "No report";
+  const devices = health.devices.filter((d) => d.status === "connected");
+  return `Camera ${health.camera}, mic ${health.microphone}, ${devices.length}/${health.devices.length} devices connected`;
+};
+
+/** Inline editor for a booth's name and location */
+function KioskEditor({
+  kiosk,
+  onDone,
+}: {
+  kiosk: KioskRecord;
+  onDone: () => void;
+}) {
+  const [name, setName] = useState(kiosk.name ?? "");
+  const [location, setLocation] = useState(kiosk.location ?? "");
+  const [latitude, setLatitude] = useState(kiosk.latitude?.toString() ?? "");
+  const [longitude, setLongitude] = useState(kiosk.longitude?.toString() ?? "");
+
+  const rename = api.kiosk.rename.useMutation();
+  const locate = api.kiosk.locate.useMutation();
+  const error = rename.error ?? locate.error;
+
+  const save = async () => {
+    if (name && name !== kiosk.name) {
+      await rename.mutateAsync({ kioskId: kiosk.id, name });
+    }
+    if (location) {
+      await locate.mutateAsync({
+        kioskId: kiosk.id,
+        location,
+        latitude: latitude ? Number(latitude) : null,
+        longitude: longitude ? Number(longitude) : null,
+      });
+    }
+    onDone();
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 py-2">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        className="rounded-md border p-1"
+      />
+      <input
+        value={location}
+        onChange={(e) => setLocation(e.target.value)}
+        placeholder="Location"
+        className="rounded-md border p-1"
+      />
+      <input
+        value={latitude}
+        onChange={(e) => setLatitude(e.target.value)}
+        placeholder="Latitude"
+        className="w-24 rounded-md border p-1"
+      />
+      <input
+        value={longitude}
+        onChange={(e) => setLongitude(e.target.value)}
+        placeholder="Longitude"
+        className="w-24 rounded-md border p-1"
+      />
+      <button
+        onClick={() => void save().catch(() => undefined)}
+        className="text-blue-600 hover:underline"
+      >
+        Save
+      </button>
+      <button onClick={onDone} className="text-gray-500 hover:underline">
+        Cancel
+      </button>
+      {error && <span className="text-red-500">{error.message}</span>}
+    </div>
+  );
+}
+
+/** The booth fleet: status from heartbeats, enrollment, name and location */
+export default function AdminKiosksPage() {
+  const utils = api.useUtils();
+  const { data, isLoading, isError, error } = api.kiosk.list.useQuery(
+    undefined,
+    { refetchInterval: 30000 },
+  );
+
+  const [editing, setEditing] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [enrollment, setEnrollment] = useState<{
+    kioskId: string;
+    code: string;
+    expiresAt: Date;
+  } | null>(null);
+
+  const refresh = () => void utils.kiosk.list.invalidate();
+
+  const createEnrollment = api.kiosk.createEnrollment.useMutation({
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setNewName("");
+    },
+    onSettled: refresh,
+  });
+  const setMaintenance = api.kiosk.setMaintenance.useMutation({
+    onSettled: refresh,
+  });
+
+  if (isLoading) return <div>Loading kiosks...</div>;
+  if (isError)
+    return <div className="text-red-500">Error: {error.message}</div>;
+
+  return (
+    <div className="space-y-8">
+      {enrollment && (
+        <div className="rounded-md border border-blue-300 bg-blue-50 p-4">
+          <p>
+            Enrollment code for kiosk {enrollment.kioskId}. Type it in at the
+            booth on <code>/enroll</code>. It works once, until{" "}
+            {enrollment.expiresAt.toLocaleString()}.
+          </p>
+          <p className="mt-2 font-mono text-3xl tracking-widest">
+            {enrollment.code}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <h2 className="mb-4 text-xl font-semibold">
+          Kiosks ({data?.length ?? 0})
+        </h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2">Name</th>
+              <th>Status</th>
+              <th>Location</th>
+              <th>Last heartbeat</th>
+              <th>Version</th>
+              <th>Health</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {data?.map((kiosk) =>
+              editing === kiosk.id ? (
+                <tr key={kiosk.id} className="border-b">
+                  <td colSpan={7}>
+                    <KioskEditor
+                      kiosk={kiosk}
+                      onDone={() => {
+                        setEditing(null);
+                        refresh();
+                      }}
+                    />
+                  </td>
+                </tr>
+              ) : (
+                <tr key={kiosk.id} className="border-b">
+                  <td className="py-2">
+                    {kiosk.name ?? kiosk.id}
+                    {!kiosk.enrolled && (
+                      <span className="ml-2 text-gray-500">
+                        (
+                        {kiosk.enrollmentPending
+                          ? "enrollment pending"
+                          : "not enrolled"}
+                        )
+                      </span>
+                    )}
+                  </td>
+                  <td className={STATUS_STYLES[kiosk.status] ?? ""}>
+                    {kiosk.status}
+                  </td>
+                  <td>
+                    {kiosk.location ?? "-"}
+                    {kiosk.latitude !== null && kiosk.longitude !== null && (
+                      <span className="block text-gray-500">
+                        {kiosk.latitude}, {kiosk.longitude}
+                      </span>
+                    )}
+                  </td>
+                  <td>
+                    {kiosk.lastHeartbeatAt
+                      ? kiosk.lastHeartbeatAt.toLocaleString()
+                      : "Never"}
+                  </td>
+                  <td>{kiosk.appVersion ?? "-"}</td>
+                  <td>{describeHealth(kiosk.health)}</td>
+                  <td className="space-x-3 text-right">
+                    <button
+                      onClick={() => setEditing(kiosk.id)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() =>
+                        setMaintenance.mutate({
+                          kioskId: kiosk.id,
+                          maintenance: kiosk.status !== "MAINTENANCE",
+                        })
+                      }
+                      className="text-amber-600 hover:underline"
+                    >
+                      {kiosk.status === "MAINTENANCE"
+                        ? "End maintenance"
+                        : "Maintenance"}
+                    </button>
+                    <button
+                      onClick={() =>
+                        createEnrollment.mutate({ kioskId: kiosk.id })
+                      }
+                      className="text-red-600 hover:underline"
+                    >
+                      Re-enroll
+                    </button>
+                  </td>
+                </tr>
+              ),
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createEnrollment.mutate({ name: newName || undefined });
+        }}
+        className="flex items-end gap-4"
+      >
+        <label className="flex flex-col text-sm">
+          New booth name
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="rounded-md border p-2"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={createEnrollment.isPending}
+          className="rounded-md bg-blue-600 px-4 py-2 text-white disabled:opacity-50"
+        >
+          Add booth
+        </button>
+      </form>
+      {(createEnrollment.error ?? setMaintenance.error) && (
+        <p className="text-red-500">
+          {(createEnrollment.error ?? setMaintenance.error)?.message}
+        </p>
+      )}
+    </div>
+  );
+}
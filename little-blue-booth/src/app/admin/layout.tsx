@@ -1,18 +1,49 @@
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
 import { type ReactNode } from "react";
+import { hasRole, isStaffRole } from "~/lib/roles";
+import { resolveUserRole } from "~/server/staff";
 
 export const metadata = {
   title: "Admin Panel",
 };
 
-export default function AdminLayout({ children }: { children: ReactNode }) {
+export default async function AdminLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  // Patients never see the admin area; each page's procedures check the
+  // specific role they need
+  const { userId, sessionClaims } = await auth();
+  const role = userId ? await resolveUserRole(userId, sessionClaims) : null;
+
+  if (!role || !isStaffRole(role)) {
+    return (
+      <section className="p-4">
+        <h1 className="text-3xl font-bold mb-6">Admin Dashboard</h1>
+        <p>You do not have access to the admin area.</p>
+      </section>
+    );
+  }
+
   return (
     <section className="p-4">
       <h1 className="text-3xl font-bold mb-6">Admin Dashboard</h1>
       <nav className="mb-4 flex gap-4">
         {/* Nav links out to each data model page */}
-        <a href="/admin">Home</a>
-        <a href="/admin/users">Users</a>
-        <a href="/admin/conversations">Conversations</a>
+        <Link href="/admin">Home</Link>
+        {hasRole(role) && <Link href="/admin/users">Users</Link>}
+        {hasRole(role, "clinician") && (
+          <Link href="/admin/conversations">Conversations</Link>
+        )}
+        {hasRole(role, "kioskOperator") && (
+          <>
+            <Link href="/admin/realtime">Voice Sessions</Link>
+            <Link href="/admin/kiosks">Kiosks</Link>
+            <Link href="/admin/devices">Devices</Link>
+          </>
+        )}
         {/* etc. */}
       </nav>
       <hr className="mb-6 border-gray-300" />
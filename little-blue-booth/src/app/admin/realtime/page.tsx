@@ -0,0 +1,89 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+export default function AdminRealtimePage() {
+  const { data, isLoading, isError, error } =
+    api.admin.getRealtimeSessions.useQuery(undefined, {
+      refetchInterval: 15000,
+    });
+
+  if (isLoading) return <div>Loading voice sessions...</div>;
+  if (isError) return <div className="text-red-500">Error: {error.message}</div>;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">
+          Live Voice Agents ({data?.live.length ?? 0})
+        </h2>
+        {data?.live.length === 0 && (
+          <p className="text-gray-500">No booth has a live voice agent.</p>
+        )}
+        <ul className="space-y-3">
+          {data?.live.map((session) => (
+            <li key={session.id} className="p-3 border rounded-md bg-white">
+              <div>
+                <strong>Kiosk:</strong>{" "}
+                {session.session?.kiosk.location ??
+                  session.session?.kiosk.id ??
+                  "Unknown"}
+              </div>
+              <div>
+                <strong>Session ID:</strong> {session.sessionId}
+              </div>
+              <div>
+                <strong>Running for:</strong>{" "}
+                {formatDuration(session.durationMs)}
+              </div>
+              <div>
+                <strong>Last heartbeat:</strong>{" "}
+                {new Date(session.lastHeartbeatAt).toLocaleTimeString()}
+              </div>
+              <div className="text-sm text-gray-500">
+                {session.model} · {session.voice}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Last 24 Hours</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Started</th>
+              <th>Kiosk</th>
+              <th>Duration</th>
+              <th>End Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data?.recent.map((session) => (
+              <tr key={session.id} className="border-b">
+                <td className="py-2">
+                  {new Date(session.startedAt).toLocaleString()}
+                </td>
+                <td>
+                  {session.session?.kiosk.location ??
+                    session.session?.kiosk.id ??
+                    "Unknown"}
+                </td>
+                <td>{formatDuration(session.durationMs)}</td>
+                <td>{session.endReason ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,24 @@
 "use client";
 
 import { useParams } from "next/navigation";
+import { ROLE_LABELS, ROLES, isRole } from "~/lib/roles";
 import { api } from "~/trpc/react";
 
 export default function SingleUserPage() {
-  const { userId } = useParams() as { userId: string };
+  const userId = useParams<{ userId: string }>()?.userId ?? "";
 
   // Use the admin.getUserById procedure
-  const { data, isLoading, isError, error } = api.admin.getUserById.useQuery({ userId });
+  const { data, isLoading, isError, error } = api.admin.getUserById.useQuery(
+    { userId },
+    { enabled: !!userId },
+  );
+  const utils = api.useUtils();
+  const setRole = api.admin.setUserRole.useMutation({
+    onSuccess: () => {
+      void utils.admin.getUserById.invalidate({ userId });
+      void utils.admin.getAllUsers.invalidate();
+    },
+  });
 
   if (isLoading) return <div>Loading user details...</div>;
   if (isError) return <div className="text-red-500">Error: {error.message}</div>;
@@ -25,6 +36,28 @@ export default function SingleUserPage() {
         <strong>Created:</strong>{" "}
         {new Date(data.createdAt).toLocaleString()}
       </p>
+      <p className="mt-2">
+        <strong>Role:</strong>{" "}
+        <select
+          value={data.role}
+          disabled={setRole.isPending}
+          onChange={(e) => {
+            if (isRole(e.target.value)) {
+              setRole.mutate({ userId, role: e.target.value });
+            }
+          }}
+          className="rounded border border-gray-300 p-1"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {ROLE_LABELS[role]}
+            </option>
+          ))}
+        </select>
+      </p>
+      {setRole.error && (
+        <p className="text-red-500">{setRole.error.message}</p>
+      )}
       {/* Show sessions, accounts, etc. */}
       <h3 className="mt-6 font-semibold">Sessions:</h3>
       <ul className="list-disc ml-5">
@@ -1,5 +1,7 @@
 "use client";
 
+import Link from "next/link";
+import { ROLE_LABELS } from "~/lib/roles";
 import { api } from "~/trpc/react";
 
 export default function AdminUsersPage() {
@@ -18,17 +20,23 @@ export default function AdminUsersPage() {
             <th className="p-2 border-b border-gray-300">ID</th>
             <th className="p-2 border-b border-gray-300">Name</th>
             <th className="p-2 border-b border-gray-300">Email</th>
+            <th className="p-2 border-b border-gray-300">Role</th>
             <th className="p-2 border-b border-gray-300">Created</th>
           </tr>
         </thead>
         <tbody>
           {data?.map((user) => (
             <tr key={user.id} className="hover:bg-gray-50">
-              <td className="p-2 border-b border-gray-200">{user.id}</td>
+              <td className="p-2 border-b border-gray-200">
+                <Link href={`/admin/users/${user.id}`}>{user.id}</Link>
+              </td>
               <td className="p-2 border-b border-gray-200">
                 {user.firstName} {user.lastName}
               </td>
               <td className="p-2 border-b border-gray-200">{user.email ?? "(none)"}</td>
+              <td className="p-2 border-b border-gray-200">
+                {ROLE_LABELS[user.role]}
+              </td>
               <td className="p-2 border-b border-gray-200">
                 {new Date(user.createdAt).toLocaleString()}
               </td>
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { deviceReadingsSchema } from "~/lib/devices";
+import { db } from "~/server/db";
+import { authenticateDevice, ingestDeviceReadings } from "~/server/devices";
+
+/**
+ * Accepts readings from a booth peripheral. The device authenticates with
+ * its own API key (`Authorization: Bearer <key>`), not a user session, and
+ * the readings are stored on the session in progress at its kiosk.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ deviceId: string }> },
+) {
+  const { deviceId } = await params;
+
+  try {
+    const device = await authenticateDevice(
+      deviceId,
+      request.headers.get("authorization"),
+    );
+    if (!device) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = deviceReadingsSchema.parse(await request.json());
+    const result = await ingestDeviceReadings(device, body);
+
+    switch (result.status) {
+      case "unsupported":
+        return NextResponse.json(
+          {
+            error: `A ${device.deviceType.typeKey} cannot report ${result.markerTypes.join(", ")}`,
+          },
+          { status: 422 },
+        );
+      case "noKiosk":
+      case "noActiveSession":
+        await db.auditLog.create({
+          data: {
+            eventType: "warning",
+            description: "Device reading without an active session",
+            details: JSON.stringify({ reason: result.status, body }),
+            deviceId,
+            associatedId: device.kioskId,
+            associatedType: "kiosk",
+          },
+        });
+        return NextResponse.json(
+          {
+            error:
+              result.status === "noKiosk"
+                ? "Device is not installed in a kiosk"
+                : "No consultation in progress at this kiosk",
+          },
+          { status: 409 },
+        );
+      case "stored":
+        return NextResponse.json(
+          {
+            sessionId: result.sessionId,
+            stored: result.markers.map((marker) => ({
+              id: marker.id,
+              markerType: marker.markerType,
+              flagReason: marker.flagReason,
+            })),
+            // Rejected readings are recorded to AuditLog by recordHealthMarkers
+            rejected: body.readings.length - result.markers.length,
+          },
+          { status: 201 },
+        );
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid readings", details: error.message },
+        { status: 400 },
+      );
+    }
+    console.error(`Error storing readings from device ${deviceId}:`, error);
+    return NextResponse.json(
+      { error: "Failed to store readings" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Job } from "bullmq";
+import { myQueue } from "~/server/api/reasoning_bots/bull_mq_process";
+import {
+  checkSessionAccess,
+  sessionCallerFromRequest,
+} from "~/server/sessions/access";
+
+const PollSchema = z.object({
+  jobId: z.string(),
+});
+
+interface SummaryJobResult {
+  processed: boolean;
+  summaryId: string;
+  version: number;
+  summaryContent: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as unknown;
+    const { jobId } = PollSchema.parse(body);
+
+    const job = (await myQueue.getJob(jobId)) as
+      | Job<{ sessionId: string }, SummaryJobResult | null>
+      | undefined;
+    if (!job || job.name !== "generateSummary") {
+      return NextResponse.json({ status: "not_found" }, { status: 404 });
+    }
+
+    // The result is the patient's summary; to anyone else the job does not exist
+    const access = await checkSessionAccess(
+      await sessionCallerFromRequest(request),
+      job.data.sessionId,
+    );
+    if (access !== "granted") {
+      return NextResponse.json({ status: "not_found" }, { status: 404 });
+    }
+
+    const state = await job.getState();
+    if (state === "failed") {
+      return NextResponse.json({
+        status: "failed",
+        error: job.failedReason,
+      });
+    }
+
+    if (state !== "completed") {
+      return NextResponse.json({ status: state });
+    }
+
+    const result = job.returnvalue;
+
+    return NextResponse.json({
+      status: "completed",
+      summaryId: result?.summaryId ?? null,
+      version: result?.version ?? null,
+      summaryContent: result?.summaryContent ?? null,
+    });
+  } catch (error) {
+    console.error("Polling error:", error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
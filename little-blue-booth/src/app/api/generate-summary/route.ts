@@ -1,64 +1,56 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI();
-
-interface Message {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
-
-export async function POST(req: Request) {
+import { z } from "zod";
+import { enqueueAnalysisJob } from "~/server/background/AnalysisManager";
+import {
+  SESSION_ACCESS_DENIED,
+  checkSessionAccess,
+  sessionCallerFromRequest,
+} from "~/server/sessions/access";
+
+// The summary is built from the persisted session, so only the id is needed
+const GenerateSummarySchema = z.object({
+  sessionId: z.string().uuid(),
+});
+
+export async function POST(request: Request) {
   try {
-    const { conversation } = await req.json() as { conversation: Message[] };
+    const body = (await request.json()) as unknown;
+    const { sessionId } = GenerateSummarySchema.parse(body);
 
-    if (!Array.isArray(conversation)) {
-      return NextResponse.json(
-        { error: "Invalid conversation format" },
-        { status: 400 }
-      );
+    // Only the session's patient or its booth may have it summarised
+    const access = await checkSessionAccess(
+      await sessionCallerFromRequest(request),
+      sessionId,
+    );
+    if (access !== "granted") {
+      const { status, error } = SESSION_ACCESS_DENIED[access];
+      return NextResponse.json({ success: false, error }, { status });
     }
 
-    // Create a system message to guide the summary generation
-    const systemMessage = {
-      role: "system",
-      content: `Please provide a comprehensive summary of this medical consultation. The summary should:
-1. Start with a brief overview of the consultation
-2. List the main topics discussed
-3. Highlight any key medical findings or concerns
-4. Include any recommendations or next steps
-5. Mention any analyzed files or documents
-6. Include any important insights generated during the consultation
-
-Format the summary with clear sections and bullet points where appropriate.`,
-    };
-
-    // Add the system message at the start of the conversation
-    const messages = [systemMessage, ...conversation];
-
-    // Generate the summary using OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: messages.map(msg => ({
-        role: msg.role as "system" | "user" | "assistant",
-        content: msg.content,
-      })),
-      temperature: 0,
-      max_tokens: 2000,
+    const jobId = await enqueueAnalysisJob("generateSummary", { sessionId });
+    // The clinician's note is written from the same session, in the background
+    const clinicalNoteJobId = await enqueueAnalysisJob("generateClinicalNote", {
+      sessionId,
     });
 
-    const summary = response.choices[0]?.message?.content;
+    return NextResponse.json({
+      success: true,
+      jobId, // let the client poll for completion
+      clinicalNoteJobId,
+    });
+  } catch (error) {
+    console.error("Error spawning summary job:", error);
 
-    if (!summary) {
-      throw new Error("Failed to generate summary");
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input format" },
+        { status: 400 },
+      );
     }
 
-    return NextResponse.json({ summary });
-  } catch (error) {
-    console.error("Error generating summary:", error);
     return NextResponse.json(
-      { error: "Failed to generate summary" },
-      { status: 500 }
+      { success: false, error: "Failed to start summary job" },
+      { status: 500 },
     );
   }
-} 
\ No newline at end of file
+}
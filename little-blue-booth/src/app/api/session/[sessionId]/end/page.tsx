@@ -2,16 +2,27 @@
 
 import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
+import type { EarlyWarningScores } from "~/lib/earlyWarningScores";
+import {
+  CATEGORY_LABELS,
+  type EvidenceLink,
+  type RecommendationCategory,
+  type ReferralRecord,
+} from "~/lib/recommendations";
 
 interface Summary {
   sessionId: string;
   endedAt: string;
   disclaimers: string[];
   markerTrends: Record<string, any>;
+  earlyWarningScores: EarlyWarningScores;
   recommendedSteps: Array<{
     title: string;
     description?: string;
-    externalLinks?: string[];
+    category: RecommendationCategory;
+    priority: string;
+    externalLinks?: EvidenceLink[];
+    referrals: ReferralRecord[];
   }>;
 }
 
@@ -92,20 +103,56 @@ export default function EndSessionPage() {
         ))}
       </section>
 
+      <section className="mb-6">
+        <h2 className="text-xl font-semibold mb-2">Early Warning Scores</h2>
+        <p>
+          <strong>NEWS2:</strong> {summary.earlyWarningScores.news2.total} (
+          {summary.earlyWarningScores.news2.risk} risk)
+        </p>
+        <ul className="list-disc ml-6 text-sm">
+          {summary.earlyWarningScores.news2.components.map((component) => (
+            <li key={component.parameter}>
+              {component.label}: {component.value ?? "not measured"}
+              {component.points !== null && ` (${component.points})`}
+              {component.assumed && " (assumed)"}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-2">
+          <strong>qSOFA:</strong> {summary.earlyWarningScores.qsofa.score}
+          {summary.earlyWarningScores.qsofa.positive === null
+            ? ` (missing ${summary.earlyWarningScores.qsofa.missing.join(", ")})`
+            : summary.earlyWarningScores.qsofa.positive
+              ? " (positive)"
+              : " (negative)"}
+        </p>
+      </section>
+
       <section className="mb-6">
         <h2 className="text-xl font-semibold mb-2">Recommended Steps</h2>
         {summary.recommendedSteps.length === 0 && <p>No recommendations found.</p>}
         <ol className="list-decimal ml-6 space-y-3">
           {summary.recommendedSteps.map((step, index) => (
             <li key={index}>
-              <strong>{step.title}</strong>
+              <strong>{step.title}</strong>{" "}
+              <span className="text-sm text-gray-600">
+                ({CATEGORY_LABELS[step.category] ?? step.category}, {step.priority})
+              </span>
               {step.description && <p>{step.description}</p>}
+              {step.referrals.map((referral) => (
+                <p key={referral.id} className="text-sm">
+                  Referral to {referral.referredTo ?? "a clinician"}:{" "}
+                  {referral.status}
+                  {referral.scheduledTime &&
+                    `, ${new Date(referral.scheduledTime).toLocaleString()}`}
+                </p>
+              ))}
               {step.externalLinks && step.externalLinks.length > 0 && (
                 <ul className="list-disc ml-5">
                   {step.externalLinks.map((link, i) => (
                     <li key={i}>
-                      <a href={link} className="text-blue-600 underline">
-                        {link}
+                      <a href={link.url} className="text-blue-600 underline">
+                        {link.title}
                       </a>
                     </li>
                   ))}
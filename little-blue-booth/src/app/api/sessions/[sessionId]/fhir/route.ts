@@ -0,0 +1,94 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { hasRole } from "~/lib/roles";
+import { db } from "~/server/db";
+import { exportSessionFhir } from "~/server/fhir";
+import { resolveUserRole } from "~/server/staff";
+
+/** FHIR's JSON media type */
+const FHIR_JSON = "application/fhir+json";
+
+/**
+ * Exports a completed session as a FHIR R4 Bundle for a practice management
+ * system. The Bundle is validated before it is returned; a Bundle that fails
+ * validation is logged and never sent. Only the session's patient and
+ * clinicians may export it.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+
+  const { userId, sessionClaims } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, endTime: true },
+  });
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  if (
+    session.userId !== userId &&
+    !hasRole(await resolveUserRole(userId, sessionClaims), "clinician")
+  ) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!session.endTime) {
+    return NextResponse.json(
+      { error: "Session has not ended" },
+      { status: 409 },
+    );
+  }
+
+  try {
+    const result = await exportSessionFhir(sessionId);
+    if (!result) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (!result.valid) {
+      console.error(
+        `FHIR export for session ${sessionId} failed validation:`,
+        result.issues,
+      );
+      await db.auditLog.create({
+        data: {
+          eventType: "error",
+          description: "Invalid FHIR export",
+          details: JSON.stringify({ issues: result.issues }),
+          sessionId,
+          userId,
+        },
+      });
+      return NextResponse.json(
+        { error: "Failed to build a valid FHIR Bundle" },
+        { status: 500 },
+      );
+    }
+
+    await db.auditLog.create({
+      data: {
+        eventType: "info",
+        description: "FHIR export",
+        details: JSON.stringify({ entries: result.bundle.entry.length }),
+        sessionId,
+        userId,
+      },
+    });
+
+    return NextResponse.json(result.bundle, {
+      headers: { "Content-Type": FHIR_JSON },
+    });
+  } catch (error) {
+    console.error("Error exporting session as FHIR:", error);
+    return NextResponse.json(
+      { error: "Failed to export session" },
+      { status: 500 },
+    );
+  }
+}
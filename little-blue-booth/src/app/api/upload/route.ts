@@ -1,19 +1,16 @@
 // ./src/app/api/upload/route.ts
 
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import { randomUUID } from "crypto";
 import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
+import { isOpenSessionState } from "~/lib/sessions";
 import { db } from "~/server/db";
-import { env } from "~/env";
+import { touchSession } from "~/server/sessions";
 import { uploadToS3, s3Client } from "~/server/utils/s3";
 import { convertPdfToImagesAndUpload } from "~/server/utils/pdfToImages";
-
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
+import { llm } from "~/server/llm";
 
 /**
  * Read the uploaded files from the FormData.
@@ -63,12 +60,13 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (session.state !== "IN_PROGRESS") {
+      if (!isOpenSessionState(session.state)) {
         return NextResponse.json(
           { success: false, error: "Session is not in progress" },
           { status: 400 },
         );
       }
+      await touchSession(sessionId);
     }
 
     const results: Array<{
@@ -154,23 +152,12 @@ export async function POST(request: NextRequest) {
         finalStoredLocations.map(location => getPresignedUrl(location))
       );
 
-      const messages = [{
-        role: "user" as const,
-        content: [
-          { type: "text" as const, text: "Please summarize what is in these images." },
-          ...presignedUrls.map(url => ({
-            type: "image_url" as const,
-            image_url: { url }
-          }))
-        ]
-      }];
-
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages,
-        store: true,
+      const completion = await llm.vision({
+        task: "mediaAnalysis",
+        prompt: "Please summarize what is in these images.",
+        imageUrls: presignedUrls,
       });
-      const analysis = completion.choices[0]?.message?.content ?? "No analysis available";
+      const analysis = completion.content || "No analysis available";
 
       // 2d) Store analysis in VisionAnalysis table
       //     For simplicity, we just store one combined analysis for the entire file's images
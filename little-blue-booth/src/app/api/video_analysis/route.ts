@@ -1,10 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY!,
-});
+import { llm } from "~/server/llm";
 
 export const config = {
     api: { bodyParser: false }, // Required for handling formData manually
@@ -28,23 +23,10 @@ export async function POST(request: NextRequest) {
         const data = Buffer.from(arrayBuffer).toString("base64");
 
 
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                {
-                    role: "user",
-                    content: [
-                        { type: "text", text: "Describe in general terms what is happening in this image. What is the main subject? What is the main action? What is the main setting? We want to help in a medical context - describe anything that might be medically relevant. Make this exceptionally detailed." },
-                        {
-                            type: "image_url",
-                            image_url: {
-                                "url": `data:image/png;base64,${data}`,
-                            },
-                        },
-                    ],
-                },
-            ],
-            store: true,
+        const response = await llm.vision({
+            task: "mediaAnalysis",
+            prompt: "Describe in general terms what is happening in this image. What is the main subject? What is the main action? What is the main setting? We want to help in a medical context - describe anything that might be medically relevant. Make this exceptionally detailed.",
+            imageUrls: [`data:image/png;base64,${data}`],
         });
 
         // 5️⃣ Return the response (for debugging)
@@ -54,7 +36,7 @@ export async function POST(request: NextRequest) {
             filename: (file as File).name,
             fileType: (file as File).type,
             fileSize: (file as File).size,
-            description: response.choices[0].message
+            description: { role: "assistant", content: response.content }
         });
 
 
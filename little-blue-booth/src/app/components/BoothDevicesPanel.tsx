@@ -0,0 +1,76 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Bluetooth } from "lucide-react";
+import { isWebBluetoothAvailable } from "~/lib/bluetooth/webBluetooth";
+import type { BoothDevice } from "~/lib/bluetooth/boothDevices";
+import type {
+  BoothDeviceState,
+  BoothDeviceStatus,
+} from "~/lib/hooks/useBoothDevices";
+
+const STATUS_LABELS: Record<BoothDeviceStatus, string> = {
+  idle: "Not connected",
+  connecting: "Connecting...",
+  connected: "Connected",
+  error: "Connection failed",
+};
+
+interface BoothDevicesPanelProps {
+  devices: BoothDeviceState[];
+  onConnect: (device: BoothDevice) => void;
+  onReplay: (device: BoothDevice) => void;
+}
+
+/** The booth's paired peripherals, with their connection and last reading */
+export const BoothDevicesPanel = ({
+  devices,
+  onConnect,
+  onReplay,
+}: BoothDevicesPanelProps) => {
+  // navigator is only available after hydration
+  const [canConnect, setCanConnect] = useState(false);
+  useEffect(() => setCanConnect(isWebBluetoothAvailable()), []);
+
+  if (devices.length === 0) return null;
+  const canReplay = process.env.NODE_ENV !== "production";
+
+  return (
+    <div className="rounded-lg border border-blue-500/20 bg-[#020817] p-4">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-blue-400">
+        <Bluetooth className="h-4 w-4" />
+        Booth Devices
+      </h3>
+      <ul className="space-y-2 text-xs text-gray-400">
+        {devices.map((device) => (
+          <li key={device.deviceId}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-white">{device.name}</span>
+              <span>{STATUS_LABELS[device.status]}</span>
+            </div>
+            {device.lastReading && <p>Last reading: {device.lastReading}</p>}
+            {device.error && <p className="text-red-400">{device.error}</p>}
+            <div className="mt-1 flex gap-3">
+              {canConnect && device.status !== "connected" && (
+                <button
+                  onClick={() => onConnect(device)}
+                  className="text-blue-400 hover:underline"
+                >
+                  Connect
+                </button>
+              )}
+              {canReplay && (
+                <button
+                  onClick={() => onReplay(device)}
+                  className="text-gray-500 hover:underline"
+                >
+                  Replay recorded readings
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+"use client";
+
+import React from "react";
+import type {
+  EarlyWarningScoreRecord,
+  News2Risk,
+} from "~/lib/earlyWarningScores";
+
+const RISK_STYLES: Record<News2Risk, { label: string; className: string }> = {
+  low: { label: "Low", className: "text-green-400" },
+  lowMedium: { label: "Low-medium", className: "text-yellow-400" },
+  medium: { label: "Medium", className: "text-orange-400" },
+  high: { label: "High", className: "text-red-400" },
+};
+
+interface EarlyWarningScoreProps {
+  scores: EarlyWarningScoreRecord | null;
+  isLive: boolean;
+}
+
+/** NEWS2 and qSOFA for the session, with the vitals still to be measured */
+export const EarlyWarningScore = ({
+  scores,
+  isLive,
+}: EarlyWarningScoreProps) => {
+  if (!scores) return null;
+
+  const { news2, qsofa } = scores;
+  const risk = RISK_STYLES[news2.risk];
+
+  return (
+    <div className="rounded-lg border border-blue-500/20 bg-[#020817] p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-blue-400">
+          Early Warning Score
+        </h3>
+        <span className="text-xs text-gray-500">
+          {isLive ? "Live" : "Polling"}
+        </span>
+      </div>
+
+      <div className="flex items-baseline justify-between">
+        <p className="text-2xl font-bold text-white">
+          NEWS2 {news2.total}
+          {!news2.complete && <span className="text-sm text-gray-500">+</span>}
+        </p>
+        <p className={`text-sm font-semibold ${risk.className}`}>
+          {risk.label} risk
+        </p>
+      </div>
+
+      <ul className="mt-2 space-y-1 text-xs text-gray-400">
+        {news2.components.map((component) => (
+          <li key={component.parameter} className="flex justify-between">
+            <span>
+              {component.label}
+              {component.value && `: ${component.value}`}
+              {component.assumed && " (assumed)"}
+            </span>
+            <span className={component.points ? "text-white" : ""}>
+              {component.points ?? "–"}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {news2.missing.length > 0 && (
+        <p className="mt-2 text-xs text-yellow-400">
+          Still needed: {news2.missing.join(", ")}
+        </p>
+      )}
+
+      <p className="mt-2 text-xs text-gray-400">
+        qSOFA {qsofa.score}
+        {qsofa.positive === true && (
+          <span className="text-red-400"> · positive</span>
+        )}
+        {qsofa.positive === null && ` · needs ${qsofa.missing.join(", ")}`}
+      </p>
+    </div>
+  );
+};
@@ -2,9 +2,14 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import type { JobState } from "bullmq";
-import { useState, useEffect } from "react";
-
-interface WorkerData {
+import { useState, useEffect, useMemo } from "react";
+import { MARKER_CATALOGUE } from "~/lib/healthMarkers";
+import {
+  formatMarkerValue,
+  type ReconciledMarker,
+} from "~/lib/markerReconciliation";
+
+export interface WorkerData {
   id: string;
   data: {
     processed: boolean;
@@ -16,9 +21,30 @@ interface WorkerData {
       capturedAt?: string;
       deviceId?: string | null;
     }>;
+    /** Set by extractHealthMetrics: the session's markers across all sources */
+    reconciled?: ReconciledMarker[];
+    reconciledAt?: string;
   };
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  device: 'Device',
+  manual: 'Manual',
+  llmExtraction: 'Stated',
+  googleFit: 'Google Fit',
+};
+
+/**
+ * The most recent reconciliation among the health metrics job results.
+ */
+export const latestReconciliation = (workerData: WorkerData[] | undefined) =>
+  (workerData ?? [])
+    .filter(worker =>
+      worker.id.startsWith('extractHealthMetrics-') && worker.data.reconciled && worker.data.reconciledAt
+    )
+    .sort((a, b) => (b.data.reconciledAt ?? '').localeCompare(a.data.reconciledAt ?? ''))[0]
+    ?.data.reconciled ?? [];
+
 interface JobStatus {
   jobId: string;
   status: JobState | "not_found";
@@ -37,22 +63,11 @@ interface JobStatus {
 
 interface MetricData {
   value?: number | string;
-  systolic?: number;
-  diastolic?: number;
 }
 
 interface AggregatedMetrics {
   name: string | null;
   dob: string | null;
-  bmi: number | null;
-  height: number | null;
-  weight: number | null;
-  heartRate: number | null;
-  bloodPressure: {
-    systolic: number | null;
-    diastolic: number | null;
-  } | null;
-  bloodOxygen: number | null;
   lastUpdated: Date | null;
 }
 
@@ -60,25 +75,26 @@ interface WorkerDataDisplayProps {
   workerData: WorkerData[] | undefined;
   jobStatuses: JobStatus[] | undefined;
   isPollingLoading: boolean;
+  /** Results are being pushed over the socket rather than polled */
+  isLive?: boolean;
 }
 
 export const WorkerDataDisplay: React.FC<WorkerDataDisplayProps> = ({
   workerData,
   jobStatuses,
   isPollingLoading,
+  isLive = false,
 }) => {
   const [metrics, setMetrics] = useState<AggregatedMetrics>({
     name: null,
     dob: null,
-    bmi: null,
-    height: null,
-    weight: null,
-    heartRate: null,
-    bloodPressure: { systolic: null, diastolic: null },
-    bloodOxygen: null,
     lastUpdated: null,
   });
 
+  // Measurements come reconciled across sources; identity details are read
+  // from the stored rows
+  const reconciled = useMemo(() => latestReconciliation(workerData), [workerData]);
+
   useEffect(() => {
     // Update metrics whenever new worker data comes in
     if (workerData) {
@@ -101,29 +117,6 @@ export const WorkerDataDisplay: React.FC<WorkerDataDisplayProps> = ({
                   case 'dob':
                     if (typeof parsedData.value === 'string') newMetrics.dob = parsedData.value;
                     break;
-                  case 'bmi':
-                    if (typeof parsedData.value === 'number') newMetrics.bmi = parsedData.value;
-                    break;
-                  case 'height':
-                    if (typeof parsedData.value === 'number') newMetrics.height = parsedData.value;
-                    break;
-                  case 'weight':
-                    if (typeof parsedData.value === 'number') newMetrics.weight = parsedData.value;
-                    break;
-                  case 'heartRate':
-                    if (typeof parsedData.value === 'number') newMetrics.heartRate = parsedData.value;
-                    break;
-                  case 'bloodPressure':
-                    if (typeof parsedData.systolic === 'number' && typeof parsedData.diastolic === 'number') {
-                      newMetrics.bloodPressure = {
-                        systolic: parsedData.systolic,
-                        diastolic: parsedData.diastolic,
-                      };
-                    }
-                    break;
-                  case 'bloodOxygen':
-                    if (typeof parsedData.value === 'number') newMetrics.bloodOxygen = parsedData.value;
-                    break;
                 }
                 newMetrics.lastUpdated = new Date();
                 return newMetrics;
@@ -148,6 +141,7 @@ export const WorkerDataDisplay: React.FC<WorkerDataDisplayProps> = ({
         <div className="flex items-center gap-2 w-full">
           <div className={`h-2 w-2 rounded-full ${isPollingLoading ? 'bg-blue-400 animate-pulse' : 'bg-gray-400'}`} />
           <h3 className="text-sm font-semibold text-blue-400">Health Metrics</h3>
+          <span className="ml-auto text-xs text-gray-400">{isLive ? 'Live' : 'Polling'}</span>
         </div>
         {metrics.lastUpdated && (
           <span className="text-xs text-gray-400">
@@ -173,57 +167,38 @@ export const WorkerDataDisplay: React.FC<WorkerDataDisplayProps> = ({
       </div>
 
       <div className="grid grid-cols-2 gap-4">
-        {metrics.bmi !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">BMI</span>
-            <div className="text-lg font-semibold text-blue-300">{metrics.bmi.toFixed(1)}</div>
-          </div>
-        )}
-
-        {metrics.height !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">Height</span>
-            <div className="text-lg font-semibold text-blue-300">{metrics.height} cm</div>
-          </div>
-        )}
-
-        {metrics.weight !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">Weight</span>
-            <div className="text-lg font-semibold text-blue-300">{metrics.weight} kg</div>
-          </div>
-        )}
-
-        {metrics.heartRate !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">Heart Rate</span>
-            <div className="text-lg font-semibold text-blue-300">{metrics.heartRate} bpm</div>
-          </div>
-        )}
-
-        {metrics.bloodPressure?.systolic !== null && metrics.bloodPressure?.diastolic !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">Blood Pressure</span>
+        {reconciled.map(marker => (
+          <div
+            key={marker.markerType}
+            className={`rounded border p-3 ${marker.conflict ? 'border-amber-500/40 bg-amber-500/5' : 'border-blue-500/10 bg-blue-500/5'}`}
+            title={marker.conflict ?? marker.current.flagReason ?? undefined}
+          >
+            <span className="text-xs text-gray-400">
+              {MARKER_CATALOGUE[marker.markerType]?.label ?? marker.markerType}
+            </span>
             <div className="text-lg font-semibold text-blue-300">
-              {metrics.bloodPressure?.systolic}/{metrics.bloodPressure?.diastolic} mmHg
+              {formatMarkerValue(marker.current.value, marker.current.unit)}
             </div>
+            <div className="text-xs text-gray-500">
+              {SOURCE_LABELS[marker.current.source] ?? marker.current.source}
+              {marker.current.flagReason && ' · unusual'}
+            </div>
+            {marker.alternatives.length > 0 && (
+              <ul className={`mt-1 text-xs ${marker.conflict ? 'text-amber-400' : 'text-gray-500'}`}>
+                {marker.alternatives.map(alternative => (
+                  <li key={alternative.id}>
+                    {formatMarkerValue(alternative.value, alternative.unit)} ({SOURCE_LABELS[alternative.source] ?? alternative.source})
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        )}
-
-        {metrics.bloodOxygen !== null && (
-          <div className="rounded border border-blue-500/10 bg-blue-500/5 p-3">
-            <span className="text-xs text-gray-400">Blood Oxygen</span>
-            <div className="text-lg font-semibold text-blue-300">{metrics.bloodOxygen}%</div>
-          </div>
-        )}
+        ))}
       </div>
 
-      {Object.values(metrics).every(value =>
-        value === null ||
-        (typeof value === 'object' && value !== null && Object.values(value as Record<string, unknown>).every(v => v === null))
-      ) && (
+      {!metrics.name && !metrics.dob && reconciled.length === 0 && (
           <p className="text-xs text-gray-500">No health metrics available</p>
         )}
     </motion.div>
   );
-}; 
\ No newline at end of file
+};
@@ -1,10 +1,98 @@
 'use client';
 
-import React from 'react';
+import React, { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { api } from '~/trpc/react';
+import {
+  COUNTRY_EMERGENCY_DEFAULTS,
+  DEFAULT_EMERGENCY_COUNTRY,
+  telHref,
+  toPublicEmergencyConfig,
+  type EmergencyContact,
+} from '~/lib/emergency';
+
+const defaultConfig = COUNTRY_EMERGENCY_DEFAULTS[DEFAULT_EMERGENCY_COUNTRY];
+
+/** How often to check whether staff were paged, until triage records it */
+const ESCALATION_POLL_MS = 3000;
+
+/** Why the kiosk stopped the consultation, when it sent the patient here */
+function TriageReasons({ sessionId }: { sessionId: string }) {
+  const { data: triage } = api.triage.latest.useQuery({ sessionId });
+  const { data: escalation } = api.triage.escalation.useQuery(
+    { sessionId },
+    {
+      refetchInterval: (query) =>
+        query.state.data === null ? ESCALATION_POLL_MS : false,
+    },
+  );
+
+  if (!triage || triage.urgencyLevel !== 'high') return null;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-8 rounded-lg border border-red-700 bg-red-950/60 p-6">
+      <h2 className="text-xl font-semibold mb-3 text-white">
+        Your symptoms may need emergency care
+      </h2>
+      <ul className="space-y-2 text-gray-200">
+        {triage.redFlags.map((flag, index) => (
+          <li key={`${flag.id}-${index}`} className="flex items-center">
+            <span className="mr-2 text-red-500">•</span>
+            {flag.label}
+          </li>
+        ))}
+      </ul>
+      {escalation?.staffAlerted && (
+        <p className="mt-4 text-gray-300">
+          A member of staff here has been alerted and is on their way.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ContactLine({ title, contact }: { title: string; contact: EmergencyContact }) {
+  return (
+    <li className="flex items-center justify-between">
+      <div>
+        <p className="text-white">{title}</p>
+        <p className="text-sm text-gray-400">
+          {contact.name}
+          {contact.description && ` · ${contact.description}`}
+        </p>
+      </div>
+      <a href={telHref(contact.phone)} className="text-lg font-semibold text-red-400">
+        {contact.phone}
+      </a>
+    </li>
+  );
+}
+
+function EmergencyScreen() {
+  const searchParams = useSearchParams();
+  const sessionId = searchParams?.get('sessionId');
+  const kioskId = searchParams?.get('kioskId');
+
+  // The country defaults are shown straight away so the call button never waits
+  const { data: config } = api.emergency.config.useQuery(
+    { sessionId: sessionId ?? undefined, kioskId: kioskId ?? undefined },
+    { placeholderData: defaultConfig && toPublicEmergencyConfig(defaultConfig) },
+  );
+
+  if (!config) return null;
+
+  const [primaryNumber, ...otherNumbers] = config.emergencyNumbers;
+  const otherHelp = [
+    { title: 'Out-of-hours GP', contact: config.outOfHoursGp },
+    { title: 'Poisons information', contact: config.poisonLine },
+    { title: 'Mental health crisis support', contact: config.mentalHealthLine },
+  ].filter(
+    (line): line is { title: string; contact: EmergencyContact } =>
+      line.contact !== null,
+  );
 
-export default function EmergencyServices() {
   const handleEmergencyCall = () => {
-    window.location.href = 'tel:911';
+    if (primaryNumber) window.location.href = telHref(primaryNumber);
   };
 
   return (
@@ -15,37 +103,44 @@ export default function EmergencyServices() {
           Emergency Services
         </h1>
         <p className="text-gray-300 mb-2">
-          If you are experiencing a medical emergency, please don't hesitate to call for help
+          If you are experiencing a medical emergency, please don&apos;t hesitate to call for help
         </p>
       </div>
 
+      {sessionId && <TriageReasons sessionId={sessionId} />}
+
       {/* Emergency Call Button */}
       <div className="max-w-md mx-auto mb-12">
         <button
           onClick={handleEmergencyCall}
           className="w-full py-6 px-4 bg-red-600 hover:bg-red-700 text-white text-2xl font-bold rounded-lg shadow-lg transition-colors duration-200 flex items-center justify-center space-x-3"
         >
-          <svg 
-            className="w-8 h-8" 
-            fill="none" 
-            stroke="currentColor" 
+          <svg
+            className="w-8 h-8"
+            fill="none"
+            stroke="currentColor"
             viewBox="0 0 24 24"
           >
-            <path 
-              strokeLinecap="round" 
-              strokeLinejoin="round" 
-              strokeWidth={2} 
-              d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" 
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
             />
           </svg>
-          <span>Call Emergency Number</span>
+          <span>Call {primaryNumber}</span>
         </button>
+        {otherNumbers.length > 0 && (
+          <p className="mt-3 text-center text-gray-400">
+            You can also call {otherNumbers.join(' or ')}
+          </p>
+        )}
       </div>
 
       {/* Important Information */}
       <div className="max-w-2xl mx-auto">
         <div className="bg-gray-900 rounded-lg p-6 shadow-sm border border-gray-800">
-          <h2 className="text-xl font-semibold mb-4 text-white">When to Call 911:</h2>
+          <h2 className="text-xl font-semibold mb-4 text-white">When to Call {primaryNumber}:</h2>
           <ul className="space-y-2 text-gray-300">
             <li className="flex items-center">
               <span className="mr-2 text-red-500">•</span>
@@ -70,13 +165,32 @@ export default function EmergencyServices() {
           </ul>
         </div>
 
+        {otherHelp.length > 0 && (
+          <div className="mt-6 bg-gray-900 rounded-lg p-6 shadow-sm border border-gray-800">
+            <h2 className="text-xl font-semibold mb-4 text-white">Other Help</h2>
+            <ul className="space-y-4">
+              {otherHelp.map((line) => (
+                <ContactLine key={line.title} title={line.title} contact={line.contact} />
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-6 text-sm text-gray-400 text-center">
           <p>
-            If you're not sure whether it's an emergency,
-            it's better to call an emergency numer and let professionals assess the situation.
+            If you&apos;re not sure whether it&apos;s an emergency,
+            it&apos;s better to call an emergency number and let professionals assess the situation.
           </p>
         </div>
       </div>
     </div>
   );
 }
+
+export default function EmergencyServices() {
+  return (
+    <Suspense fallback={null}>
+      <EmergencyScreen />
+    </Suspense>
+  );
+}
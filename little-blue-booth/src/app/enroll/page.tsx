@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { BoothLogo } from "~/app/components/BoothLogo";
+import { saveKioskCredential } from "~/lib/kioskCredential";
+import { api } from "~/trpc/react";
+
+/**
+ * Enrolls this browser as a booth. Staff create the one-time code on the
+ * admin kiosks page and type it in here; the booth keeps the credential it
+ * gets back.
+ */
+export default function EnrollPage() {
+  const router = useRouter();
+  const utils = api.useUtils();
+  const [code, setCode] = useState("");
+
+  const enroll = api.kiosk.enroll.useMutation({
+    onSuccess: async ({ credential }) => {
+      saveKioskCredential(credential);
+      await utils.kiosk.current.invalidate();
+      router.push("/");
+    },
+  });
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-6 bg-[#020817] p-4 text-white">
+      <div className="flex items-center gap-3">
+        <BoothLogo />
+        <span className="text-xl font-semibold text-blue-500">
+          Enroll this booth
+        </span>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          enroll.mutate({ code });
+        }}
+        className="flex flex-col items-center gap-4"
+      >
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="XXXX-XXXX"
+          autoComplete="off"
+          className="rounded-lg border border-blue-500/40 bg-transparent px-4 py-3 text-center font-mono text-2xl uppercase tracking-widest"
+        />
+        <button
+          type="submit"
+          disabled={!code || enroll.isPending}
+          className="rounded-lg bg-blue-600 px-6 py-2 font-semibold disabled:opacity-50"
+        >
+          {enroll.isPending ? "Enrolling..." : "Enroll"}
+        </button>
+        {enroll.error && <p className="text-red-400">{enroll.error.message}</p>}
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { BoothLogo } from "~/app/components/BoothLogo";
+import { formatMarkerValue } from "~/lib/markerReconciliation";
+import type { MarkerHistory } from "~/lib/patientHistory";
+import { api } from "~/trpc/react";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+/** First non-heading line of a Markdown summary */
+const summaryExcerpt = (summary: string) =>
+  summary
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("#")) ?? "";
+
+const MarkerRow = ({ marker }: { marker: MarkerHistory }) => {
+  const latest = marker.points.at(-1);
+  if (!latest) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900/50 p-4">
+      <div className="flex items-baseline justify-between">
+        <h3 className="font-medium text-white">{marker.label}</h3>
+        <p className="text-lg font-semibold text-white">
+          {formatMarkerValue(latest.value, latest.unit)}
+        </p>
+      </div>
+      {marker.points.length > 1 && (
+        <ul className="mt-2 space-y-1 text-xs text-gray-400">
+          {marker.points
+            .slice(0, -1)
+            .reverse()
+            .map((point) => (
+              <li
+                key={`${point.sessionId}-${point.date}`}
+                className="flex justify-between"
+              >
+                <span>{formatDate(point.date)}</span>
+                <span>{formatMarkerValue(point.value, point.unit)}</span>
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default function HistoryPage() {
+  const { data: history, error, isLoading } = api.history.mine.useQuery();
+
+  return (
+    <main className="relative flex min-h-screen flex-col items-center overflow-hidden bg-gradient-to-b from-[#020817] to-[#050c1f]">
+      {/* Header */}
+      <motion.div
+        className="mt-8 flex items-center gap-3"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <BoothLogo />
+        <span className="text-xl font-semibold text-blue-500">
+          Little Blue Booth
+        </span>
+      </motion.div>
+
+      {/* Content */}
+      <motion.div
+        className="mt-12 w-full max-w-4xl px-4 pb-12"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, delay: 0.2 }}
+      >
+        <h1 className="mb-8 text-center text-3xl font-bold text-white">
+          My History
+        </h1>
+
+        {error ? (
+          <div className="rounded-lg bg-red-500/10 p-4 text-center text-red-400">
+            {error.data?.code === "UNAUTHORIZED"
+              ? "Sign in to see your history"
+              : "Failed to load your history"}
+          </div>
+        ) : isLoading || !history ? (
+          <p className="text-gray-300">Loading history...</p>
+        ) : history.sessions.length === 0 ? (
+          <p className="text-center text-gray-300">
+            You have not had a consultation yet.
+          </p>
+        ) : (
+          <div className="space-y-10">
+            {history.trendFlags.length > 0 && (
+              <section>
+                <h2 className="mb-4 text-xl font-semibold text-white">
+                  Changes Worth Discussing
+                </h2>
+                <ul className="space-y-2">
+                  {history.trendFlags.map((flag) => (
+                    <li
+                      key={flag.markerType}
+                      className="rounded-lg bg-yellow-500/10 p-3 text-yellow-300"
+                    >
+                      {flag.message}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {history.markers.length > 0 && (
+              <section>
+                <h2 className="mb-4 text-xl font-semibold text-white">
+                  Measurements
+                </h2>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {history.markers.map((marker) => (
+                    <MarkerRow key={marker.markerType} marker={marker} />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="mb-4 text-xl font-semibold text-white">
+                Consultations
+              </h2>
+              <ul className="space-y-4">
+                {history.sessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="rounded-lg border border-gray-800 bg-gray-900/50 p-4"
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <h3 className="font-medium text-white">
+                        {formatDate(session.date)}
+                        {session.kioskLocation && (
+                          <span className="text-gray-400">
+                            {" "}
+                            - {session.kioskLocation}
+                          </span>
+                        )}
+                      </h3>
+                      {session.summary ? (
+                        <Link
+                          href={`/session/${session.id}/end`}
+                          className="text-sm text-blue-400 hover:text-blue-300"
+                        >
+                          View summary
+                        </Link>
+                      ) : (
+                        !session.ended && (
+                          <span className="text-sm text-gray-500">
+                            In progress
+                          </span>
+                        )
+                      )}
+                    </div>
+                    {session.summary && (
+                      <p className="mt-2 text-sm text-gray-300">
+                        {summaryExcerpt(session.summary)}
+                      </p>
+                    )}
+                    {session.diagnoses.length > 0 && (
+                      <p className="mt-2 text-sm text-gray-400">
+                        Possible causes discussed:{" "}
+                        {session.diagnoses.map((d) => d.diagnosis).join(", ")}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        )}
+      </motion.div>
+    </main>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useAuth, useUser } from "@clerk/nextjs";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Mic, MicOff, Pause, Play, X, Check, Video } from "lucide-react";
@@ -12,6 +13,9 @@ import { Mic, MicOff, Pause, Play, X, Check, Video } from "lucide-react";
 import { useConversation } from "~/lib/context/ConversationContext";
 import { useWebRTC } from "~/lib/hooks/useWebRTC";
 import { useKioskSession } from "~/lib/hooks/useKioskSession";
+import { useAnalysisEvents } from "~/lib/hooks/useAnalysisEvents";
+import { useBoothDevices } from "~/lib/hooks/useBoothDevices";
+import { useKioskHeartbeat } from "~/lib/hooks/useKioskHeartbeat";
 import { api } from "~/trpc/react";
 
 // ────────────────────────────
@@ -23,8 +27,18 @@ import { ConfirmDialog } from "~/app/components/ConfirmDialog";
 import { ControlButton } from "~/app/components/ControlButton";
 import { FileUploadSection } from "~/app/components/FileUploadSection";
 import { SessionIdDisplay } from "~/app/components/SessionIdDisplay";
-import { WorkerDataDisplay } from "~/app/components/WorkerDataDisplay";
+import {
+  WorkerDataDisplay,
+  latestReconciliation,
+  type WorkerData,
+} from "~/app/components/WorkerDataDisplay";
+import { MARKER_CATALOGUE } from "~/lib/healthMarkers";
+import { shouldInterrupt, type TriageAssessment } from "~/lib/triage";
+import { isOpenSessionState, type SessionEndedEvent } from "~/lib/sessions";
 import { AnalysisStatus } from "~/app/components/AnalysisStatus";
+import { EarlyWarningScore } from "~/app/components/EarlyWarningScore";
+import { BoothDevicesPanel } from "~/app/components/BoothDevicesPanel";
+import type { EarlyWarningScoreRecord } from "~/lib/earlyWarningScores";
 import { AnalyzedFilesList } from "~/app/components/AnalyzedFilesList";
 import { InsightsList } from "~/app/components/InsightsList";
 import type { UserAssistantMessage } from "~/lib/types";
@@ -77,14 +91,15 @@ interface Insight {
 
 // Add these types near the top of the file with other interfaces
 interface GenerateSummaryResponse {
-  summary: string;
+  success: boolean;
   error?: string;
-  jobId: string;
+  jobId?: string;
 }
 
 interface PollSummaryResponse {
-  status: "pending" | "completed" | "failed" | "not_found";
-  summaryContent?: string;
+  status: JobState | "not_found";
+  summaryId?: string | null;
+  summaryContent?: string | null;
   error?: string;
 }
 
@@ -104,12 +119,16 @@ const HomeContent: FC = () => {
     string | null
   >(null);
   const [workerIds, setWorkerIds] = useState<string[]>([]);
+  const [pushedWorkerData, setPushedWorkerData] = useState<WorkerData[]>([]);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [analyzedFiles, setAnalyzedFiles] = useState<AnalyzedFile[]>([]);
   const [isAssistantSpeaking, setIsAssistantSpeaking] = useState(false);
   const [summaryJobId, setSummaryJobId] = useState<string | null>(null);
-  const [summaryMarkdown, setSummaryMarkdown] = useState<string | null>(null);
+  const [summaryId, setSummaryId] = useState<string | null>(null);
   const [isCheckingSummary, setIsCheckingSummary] = useState(false);
+  const [sessionEndedNotice, setSessionEndedNotice] = useState<string | null>(
+    null,
+  );
 
   // ─────────────────────────────────────
   // Hooks
@@ -126,6 +145,8 @@ const HomeContent: FC = () => {
     resumeSession,
     sendMessage,
     isConnecting,
+    isReconnecting,
+    reconnectAttempt,
   } = useWebRTC();
 
   const { isSignedIn, isLoaded, userId } = useAuth();
@@ -147,6 +168,9 @@ const HomeContent: FC = () => {
     isCreatingSession,
     error,
     sessionId,
+    isEnrolled,
+    needsEnrollment,
+    kioskStatus,
   } = useKioskSession({
     onSessionCreated: () => setIsConsultationStarted(true),
     onError: () => setIsConsultationStarted(false),
@@ -155,19 +179,181 @@ const HomeContent: FC = () => {
   // Conversation context
   const {
     state: { messages },
+    setSessionId: bindConversationSession,
   } = useConversation();
 
+  // Persist transcript turns against the kiosk session's conversation
+  useEffect(() => {
+    bindConversationSession(sessionId);
+  }, [sessionId, bindConversationSession]);
+
+  // A high triage result stops the voice agent and shows the emergency
+  // screen. It can arrive over the socket and from polling, so only the first
+  // delivery of each assessment is acted on.
+  const handledTriageRef = useRef<string | null>(null);
+  const handleTriageInterrupt = useCallback(
+    (assessment: TriageAssessment) => {
+      if (
+        !shouldInterrupt(assessment) ||
+        handledTriageRef.current === assessment.id
+      ) {
+        return;
+      }
+      handledTriageRef.current = assessment.id;
+      setIsConsultationStarted(false);
+      disconnect("emergency");
+      router.push(`/emergency_number?sessionId=${assessment.sessionId}`);
+    },
+    [disconnect, router],
+  );
+
+  const [pushedEarlyWarning, setPushedEarlyWarning] =
+    useState<EarlyWarningScoreRecord | null>(null);
+
+  // Clears everything the patient said, uploaded or measured from the screen
+  // so the next person at the booth cannot see it
+  const resetConsultation = useCallback(() => {
+    setIsConsultationStarted(false);
+    setIsPaused(false);
+    disconnect();
+    clearSession();
+    setFiles(null);
+    setUploadError(null);
+    setWorkerIds([]);
+    setPushedWorkerData([]);
+    setInsights([]);
+    setAnalyzedFiles([]);
+    setPushedEarlyWarning(null);
+  }, [disconnect, clearSession]);
+
+  // The server abandons a session the patient walked away from. Other ends
+  // are started by this kiosk, or by triage, which has its own screen.
+  const handleSessionEnded = useCallback(
+    (event: SessionEndedEvent) => {
+      if (event.sessionId !== sessionId || event.state !== "ABANDONED") return;
+      resetConsultation();
+      setSessionEndedNotice(
+        "The previous consultation ended because the booth was left unattended.",
+      );
+    },
+    [sessionId, resetConsultation],
+  );
+
+  // Analysis results are pushed over the socket; polling below is only a
+  // fallback for when the socket is unavailable
+  const { isConnected: isAnalysisSocketConnected } = useAnalysisEvents({
+    sessionId,
+    onTriageInterrupt: handleTriageInterrupt,
+    onEarlyWarningUpdated: setPushedEarlyWarning,
+    onSessionEnded: handleSessionEnded,
+    onCompleted: (event) => {
+      const result = event.result as WorkerData["data"] | null;
+      if (result) {
+        setPushedWorkerData((prev) => [
+          ...prev.filter((worker) => worker.id !== event.jobId),
+          { id: event.jobId, data: result },
+        ]);
+        if (result.processed && typeof result.data === "string") {
+          handleAnalysisResult(event.jobId, result.data);
+        }
+      }
+      setWorkerIds((prev) => prev.filter((id) => id !== event.jobId));
+    },
+    onFailed: (event) => {
+      console.error(`Analysis job ${event.jobId} failed:`, event.failedReason);
+      setWorkerIds((prev) => prev.filter((id) => id !== event.jobId));
+    },
+  });
+
+  // Bluetooth peripherals post their readings straight to the session; the
+  // voice agent is told so it does not ask for them again
+  const {
+    devices: boothDevices,
+    connect: connectBoothDevice,
+    replay: replayBoothDevice,
+  } = useBoothDevices({
+    enabled: isConsultationStarted,
+    onReadingsStored: (device, description) =>
+      sendMessage({
+        type: "response.create",
+        response: {
+          instructions: `[Device Reading] The ${device.name.toLowerCase()} measured ${description}. Tell the patient the reading was recorded, then carry on with the consultation.`,
+        },
+      }),
+  });
+
+  const { status: heartbeatStatus } = useKioskHeartbeat({
+    enabled: isEnrolled,
+    devices: boothDevices,
+  });
+  const isUnderMaintenance = (heartbeatStatus ?? kioskStatus) === "MAINTENANCE";
+
   // Polling worker data
   const { data: workerData, isLoading: isPollingLoading } =
     api.polling.polling.useQuery(
-      { workerIds },
+      { sessionId: sessionId ?? "", workerIds },
       {
         refetchInterval: 2000,
         refetchIntervalInBackground: true,
-        enabled: isConsultationStarted && workerIds.length > 0,
+        enabled:
+          isConsultationStarted &&
+          !!sessionId &&
+          workerIds.length > 0 &&
+          !isAnalysisSocketConnected,
       },
     );
 
+  // Polling fallback for triage interrupts
+  const { data: latestTriage } = api.triage.latest.useQuery(
+    { sessionId: sessionId ?? "" },
+    {
+      refetchInterval: 3000,
+      enabled: isConsultationStarted && !!sessionId && !isAnalysisSocketConnected,
+    },
+  );
+
+  useEffect(() => {
+    if (latestTriage) handleTriageInterrupt(latestTriage);
+  }, [latestTriage, handleTriageInterrupt]);
+
+  // Early-warning scores: pushed when a marker lands, polled as a fallback
+  const { data: polledEarlyWarning } = api.earlyWarning.latest.useQuery(
+    { sessionId: sessionId ?? "" },
+    {
+      refetchInterval: 5000,
+      enabled: isConsultationStarted && !!sessionId && !isAnalysisSocketConnected,
+    },
+  );
+  const earlyWarning = [pushedEarlyWarning, polledEarlyWarning ?? null]
+    .filter((scores): scores is EarlyWarningScoreRecord => scores !== null)
+    .sort((a, b) => b.computedAt.localeCompare(a.computedAt))[0] ?? null;
+
+  // Notices a session ended server-side while the socket is down
+  const { data: polledSessionState } = api.session.state.useQuery(
+    { sessionId: sessionId ?? "" },
+    {
+      refetchInterval: 15000,
+      enabled: isConsultationStarted && !!sessionId && !isAnalysisSocketConnected,
+    },
+  );
+  useEffect(() => {
+    if (!sessionId || !polledSessionState) return;
+    if (isOpenSessionState(polledSessionState.state)) return;
+    handleSessionEnded({
+      sessionId,
+      state: polledSessionState.state as SessionEndedEvent["state"],
+      reason: polledSessionState.endReason as SessionEndedEvent["reason"],
+    });
+  }, [polledSessionState, sessionId, handleSessionEnded]);
+
+  // Session lifecycle changes the patient makes at the booth
+  const pauseMutation = api.session.pause.useMutation();
+  const resumeMutation = api.session.resume.useMutation();
+  const cancelMutation = api.session.cancel.useMutation({
+    onError: (err) => console.error("Failed to cancel session:", err),
+  });
+  const completeMutation = api.session.endSession.useMutation();
+
   // Analyze conversation
   const analyzeMutation = api.reasoning_bots.analyzeConversation.useMutation({
     onSuccess(data) {
@@ -181,15 +367,28 @@ const HomeContent: FC = () => {
   const { data: jobStatuses } = api.reasoning_bots.pollJobStatus.useQuery(
     { jobIds: workerIds },
     {
-      enabled: workerIds.length > 0,
+      enabled: workerIds.length > 0 && !isAnalysisSocketConnected,
       refetchInterval: 2000,
     },
   );
 
+  // Socket results first, then anything the polling fallback picked up
+  const combinedWorkerData = useMemo<WorkerData[]>(
+    () => [
+      ...pushedWorkerData,
+      ...(workerData ?? []).map(worker => ({
+        id: worker.id!,
+        data: worker.data as WorkerData["data"]
+      })),
+    ],
+    [pushedWorkerData, workerData],
+  );
+
   // ─────────────────────────────────────
   // Refs
   // ─────────────────────────────────────
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const confirmedConflictsRef = useRef<Set<string>>(new Set());
   const lastAnalyzedMessageRef = useRef<{
     timestamp: string;
     content: string;
@@ -212,11 +411,12 @@ const HomeContent: FC = () => {
         // Only attempt to connect if we're not already connected or in the process of connecting
         if (
           isConsultationStarted &&
+          sessionId &&
           !isConnected &&
           !isLoading &&
           !isConnecting
         ) {
-          await connect();
+          await connect(sessionId);
         } else if (!isConsultationStarted && isConnected) {
           disconnect();
         }
@@ -232,6 +432,7 @@ const HomeContent: FC = () => {
     isConnecting,
     connect,
     disconnect,
+    sessionId,
   ]);
 
   // ─────────────────────────────────────
@@ -295,6 +496,38 @@ const HomeContent: FC = () => {
   // ─────────────────────────────────────
   // Effects: Handle completed jobs
   // ─────────────────────────────────────
+  const handleAnalysisResult = useCallback(
+    (jobId: string, analysisData: string) => {
+      // Timestamp
+      const currentTimestamp = new Date().toISOString();
+      setLastAnalysisTimestamp(currentTimestamp);
+
+      // Add to insights (a job can be reported by both the socket and polling)
+      setInsights((prev) =>
+        prev.some((insight) => insight.id === jobId)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: jobId,
+                content: analysisData,
+                timestamp: currentTimestamp,
+              },
+            ],
+      );
+
+      // Send the analysis message into conversation
+      sendMessage({
+        type: "response.create",
+        response: {
+          modalities: ["text"],
+          instructions: `[Background Analysis] ${analysisData}`,
+        },
+      });
+    },
+    [sendMessage],
+  );
+
   useEffect(() => {
     if (!jobStatuses) return;
 
@@ -312,31 +545,7 @@ const HomeContent: FC = () => {
 
     if (completedJobs.length > 0) {
       completedJobs.forEach((job) => {
-        const analysisData = job.data.data;
-
-        // Timestamp
-        const currentTimestamp = new Date().toISOString();
-        setLastAnalysisTimestamp(currentTimestamp);
-
-        
-        // Add to insights
-        setInsights((prev) => [
-          ...prev,
-          {
-            id: job.jobId,
-            content: analysisData,
-            timestamp: currentTimestamp,
-          },
-        ]);
-
-        // Send the analysis message into conversation
-        sendMessage({
-          type: "response.create",
-          response: {
-            modalities: ["text"],
-            instructions: `[Background Analysis] ${analysisData}`,
-          },
-        });
+        handleAnalysisResult(job.jobId, job.data.data);
       });
 
       // Remove completed job IDs from workerIds
@@ -344,7 +553,30 @@ const HomeContent: FC = () => {
         prev.filter((id) => !completedJobs.find((job) => job.jobId === id)),
       );
     }
-  }, [jobStatuses, sendMessage]);
+  }, [jobStatuses, handleAnalysisResult]);
+
+  // ─────────────────────────────────────
+  // Effects: Ask the patient to settle conflicting readings
+  // ─────────────────────────────────────
+  useEffect(() => {
+    for (const marker of latestReconciliation(combinedWorkerData)) {
+      if (!marker.conflict || confirmedConflictsRef.current.has(marker.conflict)) {
+        continue;
+      }
+      confirmedConflictsRef.current.add(marker.conflict);
+
+      const label = (
+        MARKER_CATALOGUE[marker.markerType]?.label ?? marker.markerType
+      ).toLowerCase();
+      sendMessage({
+        type: "response.create",
+        response: {
+          modalities: ["text"],
+          instructions: `[Background Analysis] ${marker.conflict}. Politely ask the patient to confirm their current ${label}.`,
+        },
+      });
+    }
+  }, [combinedWorkerData, sendMessage]);
 
   // ─────────────────────────────────────
   // Summary Generation
@@ -354,22 +586,17 @@ const HomeContent: FC = () => {
     try {
       setIsCheckingSummary(true);
 
-      // Filter out system messages and format conversation
-      const conversationForSummary = messages
-        .filter(
-          (msg): msg is UserAssistantMessage =>
-            msg.role === "user" || msg.role === "assistant",
-        )
-        .map(({ role, content }) => ({ role, content }));
+      // The patient is done; the summary is written from what was captured
+      await completeMutation.mutateAsync({ sessionId });
 
-      // 1) Call the route to spawn the job
+      // 1) Call the route to spawn the job; the transcript is read server-side
       const res = await fetch("/api/generate-summary", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ conversation: conversationForSummary }),
+        body: JSON.stringify({ sessionId }),
       });
       const data = (await res.json()) as GenerateSummaryResponse;
-      if (!data.summary) {
+      if (!data.success || !data.jobId) {
         throw new Error(data.error ?? "Failed to start summary job");
       }
 
@@ -386,8 +613,8 @@ const HomeContent: FC = () => {
           body: JSON.stringify({ jobId: data.jobId }),
         });
         const pollData = (await pollRes.json()) as PollSummaryResponse;
-        if (pollData.status === "completed" && pollData.summaryContent) {
-          setSummaryMarkdown(pollData.summaryContent);
+        if (pollData.status === "completed" && pollData.summaryId) {
+          setSummaryId(pollData.summaryId);
           polling = false;
         } else if (
           pollData.status === "failed" ||
@@ -406,10 +633,10 @@ const HomeContent: FC = () => {
 
   // Add effect to handle summary navigation
   useEffect(() => {
-    if (summaryMarkdown) {
-      router.push(`/end?summary=${encodeURIComponent(summaryMarkdown)}`);
+    if (summaryId && sessionId) {
+      router.push(`/session/${sessionId}/end?summaryId=${summaryId}`);
     }
-  }, [summaryMarkdown, router]);
+  }, [summaryId, sessionId, router]);
 
   // ─────────────────────────────────────
   // Event Handlers
@@ -417,36 +644,27 @@ const HomeContent: FC = () => {
 
   const handleStartConsultation = async () => {
     if (!userId || !user) return;
+    setSessionEndedNotice(null);
 
-    // Construct the full name, ensuring both first and last name exist
-    const fullName = [user.firstName, user.lastName]
-      .filter(Boolean)
-      .join(" ")
-      .trim();
-
-    // Log the name being used
-    console.debug("[HomePage] Starting consultation with name:", fullName);
-
-    if (!fullName) {
-      console.warn("[HomePage] No name available from Clerk user profile");
-    }
-
-    await startSession(userId);
-    await connect(fullName);
+    // The agent's prompt, including the patient's name, is built server-side
+    // from the session
+    const newSessionId = await startSession(userId);
+    if (newSessionId) await connect(newSessionId);
   };
 
   const handleEndConsultation = () => {
-    setIsConsultationStarted(false);
-    clearSession();
-    disconnect();
+    if (sessionId) cancelMutation.mutate({ sessionId });
+    resetConsultation();
   };
 
   const handleTogglePause = async () => {
     try {
       if (!isPaused) {
+        if (sessionId) await pauseMutation.mutateAsync({ sessionId });
         await pauseSession();
         setIsPaused(true);
       } else {
+        if (sessionId) await resumeMutation.mutateAsync({ sessionId });
         await resumeSession();
         setIsPaused(false);
       }
@@ -636,14 +854,18 @@ const HomeContent: FC = () => {
         </div>
       )}
 
+      {/* Voice link dropped and is being re-established */}
+      {isReconnecting && (
+        <div className="absolute left-1/2 top-16 z-50 -translate-x-1/2 transform rounded-lg bg-amber-500/90 px-4 py-2 text-white">
+          Connection lost, reconnecting (attempt {reconnectAttempt})...
+        </div>
+      )}
+
       {/* Worker & Analysis Status (top-right corner) */}
       {isConsultationStarted && (
         <div className="absolute right-4 w-64 top-20 z-50 space-y-4">
           <WorkerDataDisplay 
-            workerData={workerData?.map(worker => ({
-              id: worker.id!,
-              data: worker.data
-            }))} 
+            workerData={combinedWorkerData}
             jobStatuses={jobStatuses?.map(status => ({
               jobId: status.jobId,
               status: status.status,
@@ -653,6 +875,16 @@ const HomeContent: FC = () => {
               } : null
             }))} 
             isPollingLoading={isPollingLoading} 
+            isLive={isAnalysisSocketConnected}
+          />
+          <EarlyWarningScore
+            scores={earlyWarning}
+            isLive={isAnalysisSocketConnected}
+          />
+          <BoothDevicesPanel
+            devices={boothDevices}
+            onConnect={(device) => void connectBoothDevice(device)}
+            onReplay={(device) => void replayBoothDevice(device)}
           />
         </div>
       )}
@@ -732,6 +964,9 @@ const HomeContent: FC = () => {
                   new Set(analyzedFiles.map((file) => file.filename))
                 }
               />
+              {sessionEndedNotice && (
+                <p className="mb-4 text-amber-300">{sessionEndedNotice}</p>
+              )}
               {uploadError && (
                 <motion.p
                   initial={{ opacity: 0 }}
@@ -743,15 +978,31 @@ const HomeContent: FC = () => {
               )}
 
               <div className="flex flex-col items-center gap-4">
-                <motion.button
-                  onClick={handleStartConsultation}
-                  className="group relative inline-flex items-center justify-center overflow-hidden rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 p-0.5 text-lg font-semibold text-white hover:text-white focus:outline-none focus:ring-4 focus:ring-blue-800"
-                  transition={{ duration: 1, ease: "easeInOut", delay: 0.4 }}
-                >
-                  <span className="relative rounded-md bg-[#020817] px-8 py-3.5 transition-all duration-300 ease-in-out group-hover:bg-opacity-0">
-                    {isCreatingSession ? "Starting..." : "Start Consultation"}
-                  </span>
-                </motion.button>
+                {needsEnrollment ? (
+                  <p className="text-gray-400">
+                    This booth is not enrolled yet.{" "}
+                    <Link
+                      href="/enroll"
+                      className="text-blue-400 hover:underline"
+                    >
+                      Enroll it
+                    </Link>
+                  </p>
+                ) : isUnderMaintenance ? (
+                  <p className="text-gray-400">
+                    This booth is under maintenance. Please use another booth.
+                  </p>
+                ) : (
+                  <motion.button
+                    onClick={handleStartConsultation}
+                    className="group relative inline-flex items-center justify-center overflow-hidden rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 p-0.5 text-lg font-semibold text-white hover:text-white focus:outline-none focus:ring-4 focus:ring-blue-800"
+                    transition={{ duration: 1, ease: "easeInOut", delay: 0.4 }}
+                  >
+                    <span className="relative rounded-md bg-[#020817] px-8 py-3.5 transition-all duration-300 ease-in-out group-hover:bg-opacity-0">
+                      {isCreatingSession ? "Starting..." : "Start Consultation"}
+                    </span>
+                  </motion.button>
+                )}
               </div>
             </div>
           </motion.div>
@@ -1,31 +1,33 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
 import { BoothLogo } from "~/app/components/BoothLogo";
 import { marked } from "marked";
+import { api } from "~/trpc/react";
 
 export default function EndPage() {
   const router = useRouter();
+  const sessionId = useParams<{ sessionId: string }>()?.sessionId ?? "";
   const searchParams = useSearchParams();
-  const [summary, setSummary] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const summaryId = searchParams?.get("summaryId") ?? undefined;
 
-  useEffect(() => {
-    const summaryData = searchParams.get("summary");
-    if (summaryData) {
-      try {
-        const decodedSummary = decodeURIComponent(summaryData);
-        setSummary(decodedSummary);
-      } catch (err) {
-        setError("Failed to load consultation summary");
-        console.error("Error decoding summary:", err);
-      }
-    } else {
-      setError("No consultation summary available");
-    }
-  }, [searchParams]);
+  // Without a summaryId the latest summary for the session is returned
+  const {
+    data: summaryData,
+    error: summaryError,
+  } = api.session.getSummary.useQuery(
+    { sessionId, summaryId },
+    { enabled: !!sessionId, retry: false },
+  );
+
+  const summary = summaryData?.content ?? null;
+  const error = summaryError
+    ? summaryError.data?.code === "NOT_FOUND"
+      ? "No consultation summary available"
+      : "Failed to load consultation summary"
+    : null;
 
   const renderMarkdown = (text: string) => {
     try {
@@ -91,6 +93,14 @@ export default function EndPage() {
             </span>
           </button>
         </motion.div>
+        <div className="mt-6 flex justify-center">
+          <Link
+            href="/history"
+            className="text-sm text-blue-400 hover:text-blue-300"
+          >
+            View my history
+          </Link>
+        </div>
       </motion.div>
     </main>
   );
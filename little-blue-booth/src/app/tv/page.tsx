@@ -1,45 +1,53 @@
 "use client";
 
-import { useState } from "react";
-import { useTaskSocket } from "~/hooks/useTaskSocket";
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useAnalysisEvents } from "~/lib/hooks/useAnalysisEvents";
 
-export default function TVPage() {
-  // In a real app you might get this from URL params, from user input, etc.
-  // For now, pick a conversationId or sessionId to subscribe to.
-  const conversationId = "YOUR-CONVERSATION-ID-HERE";
+function TVEvents() {
+  // The session to follow is passed as /tv?sessionId=...
+  const sessionId = useSearchParams()?.get("sessionId") ?? null;
 
   // We'll store all incoming socket messages in state.
   const [events, setEvents] = useState<string[]>([]);
 
-  // Reuse your existing useTaskSocket hook
-  useTaskSocket({
-    conversationId,
-    onConversationProcessed: (data) => {
+  const { isConnected } = useAnalysisEvents({
+    sessionId,
+    onCompleted: (data) => {
       setEvents((prev) => [
         ...prev,
-        `Conversation processed: ${JSON.stringify(data)}`,
+        `${data.jobName} completed: ${JSON.stringify(data.result)}`,
       ]);
     },
-    onAnalysisCompleted: (data) => {
+    onFailed: (data) => {
       setEvents((prev) => [
         ...prev,
-        `Analysis completed: ${JSON.stringify(data)}`,
+        `${data.jobName} failed: ${data.failedReason}`,
       ]);
     },
-    onReasoningCompleted: (data) => {
+    onProgress: (data) => {
       setEvents((prev) => [
         ...prev,
-        `Reasoning completed: ${JSON.stringify(data)}`,
+        `${data.jobName} progress: ${JSON.stringify(data.progress)}`,
       ]);
     },
   });
 
-  return (
-    <main className="min-h-screen flex flex-col items-center justify-center p-4">
-      <h1 className="text-2xl font-bold mb-6">TV Mode</h1>
+  if (!sessionId) {
+    return (
+      <p className="mb-4 text-gray-300">
+        Add <code>?sessionId=</code> to the URL to follow a session.
+      </p>
+    );
+  }
 
+  return (
+    <>
       <p className="mb-4 text-gray-300">
-        Subscribed to conversation: <strong>{conversationId}</strong>
+        Subscribed to session: <strong>{sessionId}</strong>{" "}
+        <span className="text-xs text-gray-400">
+          ({isConnected ? "connected" : "connecting..."})
+        </span>
       </p>
 
       <div className="w-full max-w-3xl bg-gray-800 text-white rounded-lg p-4 shadow">
@@ -52,6 +60,18 @@ export default function TVPage() {
           ))}
         </ul>
       </div>
+    </>
+  );
+}
+
+export default function TVPage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <h1 className="text-2xl font-bold mb-6">TV Mode</h1>
+
+      <Suspense fallback={null}>
+        <TVEvents />
+      </Suspense>
     </main>
   );
 }
@@ -13,8 +13,8 @@ export function GoogleFitButton() {
   const { isConnected, isLoading, data, error } = useGoogleFit();
 
   // Check for success or error params in URL
-  const success = searchParams.get("success") === "true";
-  const urlError = searchParams.get("error");
+  const success = searchParams?.get("success") === "true";
+  const urlError = searchParams?.get("error");
 
   const handleConnect = async () => {
     try {
@@ -12,13 +12,30 @@ export const env = createEnv({
       .enum(["development", "test", "production"])
       .default("production"),
     CLERK_SECRET_KEY: z.string(),
-    OPENAI_API_KEY: z.string(),
+    // The fake provider never calls OpenAI, so it runs without a key
+    OPENAI_API_KEY:
+      process.env.LLM_PROVIDER === "fake" ? z.string().optional() : z.string(),
     AWS_REGION: z.string().default("us-east-1"),
     AWS_ACCESS_KEY_ID: z.string(),
     AWS_SECRET_ACCESS_KEY: z.string(),
     GOOGLE_CLIENT_ID: z.string().optional(),
     GOOGLE_CLIENT_SECRET: z.string().optional(),
     TAVILY_API_KEY: z.string(),
+    // "fake" serves canned responses from LLM_FIXTURES_DIR, no network needed
+    LLM_PROVIDER: z.enum(["openai", "fake"]).default("openai"),
+    LLM_FIXTURES_DIR: z.string().optional(),
+    LLM_MODEL_ROUGH_OVERVIEW: z.string().default("o1-mini"),
+    LLM_MODEL_HEALTH_METRICS: z.string().default("gpt-4o"),
+    LLM_MODEL_INFORMATION_COMPLETENESS: z.string().default("gpt-4o"),
+    LLM_MODEL_SUMMARY: z.string().default("gpt-4-turbo-preview"),
+    LLM_MODEL_MEDIA_ANALYSIS: z.string().default("gpt-4o-mini"),
+    LLM_MODEL_HEART_CHECK: z.string().default("gpt-4o"),
+    LLM_MODEL_RED_FLAG_TRIAGE: z.string().default("gpt-4o"),
+    LLM_MODEL_CLINICAL_NOTE: z.string().default("gpt-4o"),
+    LLM_MODEL_RECOMMENDATIONS: z.string().default("gpt-4o"),
+    // How on-site staff are told about escalations; see src/server/emergency/notifiers
+    ESCALATION_NOTIFIER: z.enum(["log", "webhook"]).default("log"),
+    ESCALATION_WEBHOOK_URL: z.string().url().optional(),
   },
 
   /**
@@ -54,6 +71,20 @@ export const env = createEnv({
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
     GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
     TAVILY_API_KEY: process.env.TAVILY_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_FIXTURES_DIR: process.env.LLM_FIXTURES_DIR,
+    LLM_MODEL_ROUGH_OVERVIEW: process.env.LLM_MODEL_ROUGH_OVERVIEW,
+    LLM_MODEL_HEALTH_METRICS: process.env.LLM_MODEL_HEALTH_METRICS,
+    LLM_MODEL_INFORMATION_COMPLETENESS:
+      process.env.LLM_MODEL_INFORMATION_COMPLETENESS,
+    LLM_MODEL_SUMMARY: process.env.LLM_MODEL_SUMMARY,
+    LLM_MODEL_MEDIA_ANALYSIS: process.env.LLM_MODEL_MEDIA_ANALYSIS,
+    LLM_MODEL_HEART_CHECK: process.env.LLM_MODEL_HEART_CHECK,
+    LLM_MODEL_RED_FLAG_TRIAGE: process.env.LLM_MODEL_RED_FLAG_TRIAGE,
+    LLM_MODEL_CLINICAL_NOTE: process.env.LLM_MODEL_CLINICAL_NOTE,
+    LLM_MODEL_RECOMMENDATIONS: process.env.LLM_MODEL_RECOMMENDATIONS,
+    ESCALATION_NOTIFIER: process.env.ESCALATION_NOTIFIER,
+    ESCALATION_WEBHOOK_URL: process.env.ESCALATION_WEBHOOK_URL,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -1,5 +1,7 @@
+import { useAuth } from '@clerk/nextjs';
 import { useEffect, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { loadKioskCredential } from '~/lib/kioskCredential';
 
 interface TaskUpdate {
     conversationId: string;
@@ -24,10 +26,18 @@ export const useTaskSocket = ({
     onAnalysisCompleted,
     onReasoningCompleted,
 }: UseTaskSocketProps) => {
+    const { getToken } = useAuth();
+
     const connectSocket = useCallback(() => {
+        // The server refuses sockets without a Clerk token or kiosk credential
         const socket = io({
             path: '/api/socket',
             addTrailingSlash: false,
+            auth: (send) => {
+                void getToken()
+                    .catch(() => null)
+                    .then((token) => send({ token, kioskCredential: loadKioskCredential() }));
+            },
         });
 
         socket.on('connect', () => {
@@ -59,7 +69,7 @@ export const useTaskSocket = ({
         });
 
         return socket;
-    }, [conversationId, onConversationProcessed, onAnalysisCompleted, onReasoningCompleted]);
+    }, [conversationId, getToken, onConversationProcessed, onAnalysisCompleted, onReasoningCompleted]);
 
     useEffect(() => {
         const socket = connectSocket();
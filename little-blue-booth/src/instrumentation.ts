@@ -0,0 +1,15 @@
+/**
+ * Runs once when the Next.js server starts. Background maintenance (e.g.
+ * closing realtime sessions whose kiosk went away) is scheduled from here
+ * so it runs without a separate process.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startMaintenance } = await import("~/server/background/maintenance");
+  try {
+    await startMaintenance();
+  } catch (error) {
+    console.error("Failed to start maintenance tasks:", error);
+  }
+}
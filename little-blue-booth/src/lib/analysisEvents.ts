@@ -0,0 +1,39 @@
+// Shared between the socket server and the clients that subscribe to
+// background analysis updates for a kiosk session.
+
+/** Path the Socket.IO server is mounted on (initialised via `/api/socket`) */
+export const ANALYSIS_SOCKET_PATH = "/api/socket/io";
+
+export const ANALYSIS_EVENTS = {
+  subscribe: "subscribe-to-session",
+  unsubscribe: "unsubscribe-from-session",
+  completed: "analysis-job-completed",
+  failed: "analysis-job-failed",
+  progress: "analysis-job-progress",
+  /** A TriageAssessment urgent enough to stop the consultation */
+  triageInterrupt: "triage-interrupt",
+  /** An EarlyWarningScoreRecord, recomputed after new markers were stored */
+  earlyWarningUpdated: "early-warning-updated",
+  /** A SessionEndedEvent, e.g. after the inactivity sweeper abandoned it */
+  sessionEnded: "session-ended",
+} as const;
+
+export const sessionRoom = (sessionId: string) => `session-${sessionId}`;
+
+interface AnalysisJobEvent {
+  jobId: string;
+  jobName: string;
+  sessionId: string;
+}
+
+export interface AnalysisJobCompletedEvent extends AnalysisJobEvent {
+  result: unknown;
+}
+
+export interface AnalysisJobFailedEvent extends AnalysisJobEvent {
+  failedReason: string;
+}
+
+export interface AnalysisJobProgressEvent extends AnalysisJobEvent {
+  progress: number | object;
+}
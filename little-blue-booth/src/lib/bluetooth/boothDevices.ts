@@ -0,0 +1,53 @@
+// The peripherals paired with this booth's browser, with the API keys they
+// post readings with. Keys are shown once at registration, so they are kept
+// in the browser of the booth the devices are installed in.
+
+import { isDeviceTypeKey, type DeviceTypeKey } from "~/lib/devices";
+
+export interface BoothDevice {
+  deviceId: string;
+  apiKey: string;
+  typeKey: DeviceTypeKey;
+  name: string;
+}
+
+const STORAGE_KEY = "boothDevices";
+
+export function loadBoothDevices(): BoothDevice[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(
+      window.localStorage.getItem(STORAGE_KEY) ?? "[]",
+    ) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (device): device is BoothDevice =>
+        typeof device === "object" &&
+        device !== null &&
+        typeof (device as BoothDevice).deviceId === "string" &&
+        typeof (device as BoothDevice).apiKey === "string" &&
+        typeof (device as BoothDevice).name === "string" &&
+        isDeviceTypeKey(String((device as BoothDevice).typeKey)),
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Adds the device, or replaces its stored key */
+export function saveBoothDevice(device: BoothDevice) {
+  window.localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify([
+      ...loadBoothDevices().filter((d) => d.deviceId !== device.deviceId),
+      device,
+    ]),
+  );
+}
+
+export function forgetBoothDevice(deviceId: string) {
+  window.localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(loadBoothDevices().filter((d) => d.deviceId !== deviceId)),
+  );
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  GattParseError,
+  hexToDataView,
+  parseBloodPressureMeasurement,
+  parseHeartRateMeasurement,
+  parsePlxSpotCheckMeasurement,
+  parseTemperatureMeasurement,
+  parseWeightMeasurement,
+  type GattMeasurement,
+} from "~/lib/bluetooth/gatt";
+import { RECORDED_PACKETS } from "~/lib/bluetooth/recordedPackets";
+import type { DeviceTypeKey } from "~/lib/devices";
+
+/** The `index`th recorded packet of a device type, decoded by `parse` */
+const decodeRecorded = (
+  deviceType: DeviceTypeKey,
+  index: number,
+  parse: (data: DataView) => GattMeasurement,
+) => {
+  const packet = RECORDED_PACKETS[deviceType][index];
+  if (!packet) throw new Error(`No recorded ${deviceType} packet ${index}`);
+  return parse(hexToDataView(packet.hex));
+};
+
+/** Device clocks carry no timezone, so timestamps are read as local time */
+const localTime = (
+  ...parts: [number, number, number, number, number, number]
+) => new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+
+describe("Weight Measurement (0x2A9D)", () => {
+  const decode = (index: number) =>
+    decodeRecorded("scale", index, parseWeightMeasurement);
+
+  it("decodes a metric weight with its timestamp, BMI and height", () => {
+    expect(decode(0)).toEqual({
+      readings: [
+        { type: "weight", value: 72.5, unit: "kg" },
+        { type: "bmi", value: 23.7 },
+        { type: "height", value: 1.75, unit: "m" },
+      ],
+      capturedAt: localTime(2025, 2, 26, 8, 15, 0),
+    });
+  });
+
+  it("decodes an imperial weight in pounds", () => {
+    expect(decode(1)).toEqual({
+      readings: [{ type: "weight", value: 160.4, unit: "lb" }],
+      capturedAt: undefined,
+    });
+  });
+
+  it("reports nothing for an unsuccessful measurement", () => {
+    expect(decode(2).readings).toEqual([]);
+  });
+});
+
+describe("Blood Pressure Measurement (0x2A35)", () => {
+  const decode = (index: number) =>
+    decodeRecorded(
+      "bloodPressureMonitor",
+      index,
+      parseBloodPressureMeasurement,
+    );
+
+  it("decodes mmHg with a timestamp and pulse rate", () => {
+    expect(decode(0)).toEqual({
+      readings: [
+        { type: "bloodPressure", systolic: 128, diastolic: 82, unit: "mmHg" },
+        { type: "heartRate", value: 71, unit: "bpm" },
+      ],
+      capturedAt: localTime(2025, 2, 26, 14, 30, 5),
+    });
+  });
+
+  it("decodes kPa", () => {
+    expect(decode(1)).toEqual({
+      readings: [
+        { type: "bloodPressure", systolic: 16, diastolic: 10.5, unit: "kPa" },
+      ],
+      capturedAt: undefined,
+    });
+  });
+
+  it("drops a pulse rate sent as SFLOAT NaN", () => {
+    expect(decode(2).readings).toEqual([
+      { type: "bloodPressure", systolic: 120, diastolic: 80, unit: "mmHg" },
+    ]);
+  });
+
+  it("fails clearly on a truncated packet", () => {
+    expect(() =>
+      parseBloodPressureMeasurement(hexToDataView("00 80 00 52")),
+    ).toThrow(
+      new GattParseError(
+        "Blood Pressure Measurement",
+        "packet ends at byte 4, expected at least 5",
+      ),
+    );
+  });
+});
+
+describe("PLX Spot-Check Measurement (0x2A5E)", () => {
+  const decode = (index: number) =>
+    decodeRecorded("pulseOximeter", index, parsePlxSpotCheckMeasurement);
+
+  it("decodes SpO2 and pulse rate", () => {
+    expect(decode(0)).toEqual({
+      readings: [
+        { type: "bloodOxygen", value: 97, unit: "%" },
+        { type: "heartRate", value: 72, unit: "bpm" },
+      ],
+      capturedAt: undefined,
+    });
+  });
+
+  it("keeps the timestamp of an oximeter whose clock is set", () => {
+    expect(decode(1)).toEqual({
+      readings: [
+        { type: "bloodOxygen", value: 94, unit: "%" },
+        { type: "heartRate", value: 88, unit: "bpm" },
+      ],
+      capturedAt: localTime(2025, 2, 26, 9, 0, 0),
+    });
+  });
+
+  it("ignores the timestamp of an oximeter whose clock was never set", () => {
+    expect(decode(2)).toEqual({
+      readings: [
+        { type: "bloodOxygen", value: 98, unit: "%" },
+        { type: "heartRate", value: 64, unit: "bpm" },
+      ],
+      capturedAt: undefined,
+    });
+  });
+
+  it("drops an SpO2 sent as SFLOAT NRes", () => {
+    expect(
+      parsePlxSpotCheckMeasurement(hexToDataView("00 00 08 48 00")).readings,
+    ).toEqual([{ type: "heartRate", value: 72, unit: "bpm" }]);
+  });
+});
+
+describe("Heart Rate Measurement (0x2A37)", () => {
+  const decode = (index: number) =>
+    decodeRecorded("heartRateMonitor", index, parseHeartRateMeasurement);
+
+  it("decodes an 8-bit heart rate with skin contact", () => {
+    expect(decode(0)).toEqual({
+      readings: [{ type: "heartRate", value: 72, unit: "bpm" }],
+      sensorContact: true,
+    });
+  });
+
+  it("decodes a 16-bit heart rate", () => {
+    expect(decode(1)).toEqual({
+      readings: [{ type: "heartRate", value: 80, unit: "bpm" }],
+      sensorContact: undefined,
+    });
+  });
+
+  it("ignores the energy expended field", () => {
+    expect(decode(2).readings).toEqual([
+      { type: "heartRate", value: 75, unit: "bpm" },
+    ]);
+  });
+
+  it("reports nothing when the strap is not on the skin", () => {
+    expect(decode(3)).toEqual({ readings: [], sensorContact: false });
+  });
+});
+
+describe("Temperature Measurement (0x2A1C)", () => {
+  const decode = (index: number) =>
+    decodeRecorded("thermometer", index, parseTemperatureMeasurement);
+
+  it("decodes Celsius", () => {
+    expect(decode(0)).toEqual({
+      readings: [{ type: "temperature", value: 36.8, unit: "C" }],
+      capturedAt: undefined,
+    });
+  });
+
+  it("decodes Fahrenheit with a timestamp", () => {
+    expect(decode(1)).toEqual({
+      readings: [{ type: "temperature", value: 98.6, unit: "F" }],
+      capturedAt: localTime(2025, 2, 26, 10, 20, 30),
+    });
+  });
+
+  it("reports nothing for a FLOAT NaN", () => {
+    expect(decode(2).readings).toEqual([]);
+  });
+});
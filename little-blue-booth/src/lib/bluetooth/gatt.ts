@@ -0,0 +1,224 @@
+// Decoders for the Bluetooth SIG health-device characteristics the booth's
+// peripherals send. Each parser takes the characteristic value exactly as
+// Web Bluetooth delivers it (a little-endian DataView) and returns marker
+// readings in the shape recordHealthMarkers accepts. Nothing here touches the
+// browser, so packets can be decoded anywhere.
+
+import type { MarkerReading } from "~/lib/healthMarkers";
+
+export interface GattMeasurement {
+  readings: MarkerReading[];
+  /** The device's own timestamp, when it sent one and its clock is set */
+  capturedAt?: Date;
+  /** Heart Rate Measurement only: false when the strap is not on the skin */
+  sensorContact?: boolean;
+}
+
+export class GattParseError extends Error {
+  constructor(
+    public readonly characteristic: string,
+    message: string,
+  ) {
+    super(`${characteristic}: ${message}`);
+    this.name = "GattParseError";
+  }
+}
+
+/** Reads fields in order, failing clearly on a truncated packet */
+class PacketReader {
+  private offset = 0;
+
+  constructor(
+    private readonly data: DataView,
+    private readonly characteristic: string,
+  ) {}
+
+  private take(bytes: number) {
+    if (this.offset + bytes > this.data.byteLength) {
+      throw new GattParseError(
+        this.characteristic,
+        `packet ends at byte ${this.data.byteLength}, expected at least ${this.offset + bytes}`,
+      );
+    }
+    const at = this.offset;
+    this.offset += bytes;
+    return at;
+  }
+
+  uint8() {
+    return this.data.getUint8(this.take(1));
+  }
+
+  uint16() {
+    return this.data.getUint16(this.take(2), true);
+  }
+
+  skip(bytes: number) {
+    this.take(bytes);
+  }
+
+  /** IEEE 11073-20601 16-bit SFLOAT; NaN for the reserved special values */
+  sfloat() {
+    const raw = this.uint16();
+    if (raw >= 0x07fe && raw <= 0x0802) return NaN;
+    const exponent = (raw >> 12) - (raw & 0x8000 ? 16 : 0);
+    const mantissa = (raw & 0x0fff) - (raw & 0x0800 ? 0x1000 : 0);
+    return scale(mantissa, exponent);
+  }
+
+  /** IEEE 11073-20601 32-bit FLOAT; NaN for the reserved special values */
+  float() {
+    const raw = this.data.getUint32(this.take(4), true);
+    if (raw >= 0x007ffffe && raw <= 0x00800002) return NaN;
+    const mantissaBits = raw & 0x00ffffff;
+    const exponent = this.data.getInt8(this.offset - 1);
+    const mantissa =
+      mantissaBits - (mantissaBits & 0x00800000 ? 0x01000000 : 0);
+    return scale(mantissa, exponent);
+  }
+
+  /** Date Time (0x2A08); undefined when the device leaves it unset */
+  dateTime() {
+    const year = this.uint16();
+    const [month, day, hours, minutes, seconds] = [
+      this.uint8(),
+      this.uint8(),
+      this.uint8(),
+      this.uint8(),
+      this.uint8(),
+    ];
+    if (year === 0 || month === 0 || day === 0) return undefined;
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+}
+
+/** mantissa × 10^exponent, without binary floating-point noise */
+const scale = (mantissa: number, exponent: number) =>
+  exponent < 0
+    ? Number((mantissa * 10 ** exponent).toFixed(-exponent))
+    : mantissa * 10 ** exponent;
+
+const flag = (flags: number, bit: number) => (flags & (1 << bit)) !== 0;
+
+/** Blood Pressure Measurement (0x2A35) */
+export function parseBloodPressureMeasurement(data: DataView): GattMeasurement {
+  const packet = new PacketReader(data, "Blood Pressure Measurement");
+  const flags = packet.uint8();
+  const systolic = packet.sfloat();
+  const diastolic = packet.sfloat();
+  packet.sfloat(); // mean arterial pressure
+  const capturedAt = flag(flags, 1) ? packet.dateTime() : undefined;
+  const pulseRate = flag(flags, 2) ? packet.sfloat() : NaN;
+
+  const readings: MarkerReading[] = [];
+  if (!Number.isNaN(systolic) && !Number.isNaN(diastolic)) {
+    readings.push({
+      type: "bloodPressure",
+      systolic,
+      diastolic,
+      unit: flag(flags, 0) ? "kPa" : "mmHg",
+    });
+  }
+  if (!Number.isNaN(pulseRate)) {
+    readings.push({ type: "heartRate", value: pulseRate, unit: "bpm" });
+  }
+  return { readings, capturedAt };
+}
+
+/** Weight Measurement (0x2A9D) */
+export function parseWeightMeasurement(data: DataView): GattMeasurement {
+  const packet = new PacketReader(data, "Weight Measurement");
+  const flags = packet.uint8();
+  const imperial = flag(flags, 0);
+  const rawWeight = packet.uint16();
+  const capturedAt = flag(flags, 1) ? packet.dateTime() : undefined;
+  if (flag(flags, 2)) packet.skip(1); // user id
+
+  const readings: MarkerReading[] = [];
+  // 0xFFFF means the measurement was unsuccessful
+  if (rawWeight !== 0xffff) {
+    readings.push(
+      imperial
+        ? { type: "weight", value: scale(rawWeight, -2), unit: "lb" }
+        : { type: "weight", value: scale(rawWeight * 5, -3), unit: "kg" },
+    );
+  }
+  if (flag(flags, 3)) {
+    const bmi = packet.uint16();
+    const height = packet.uint16();
+    if (bmi > 0) readings.push({ type: "bmi", value: scale(bmi, -1) });
+    if (height > 0) {
+      readings.push(
+        imperial
+          ? { type: "height", value: scale(height, -1), unit: "in" }
+          : { type: "height", value: scale(height, -3), unit: "m" },
+      );
+    }
+  }
+  return { readings, capturedAt };
+}
+
+/** PLX Spot-Check Measurement (0x2A5E) */
+export function parsePlxSpotCheckMeasurement(data: DataView): GattMeasurement {
+  const packet = new PacketReader(data, "PLX Spot-Check Measurement");
+  const flags = packet.uint8();
+  const spo2 = packet.sfloat();
+  const pulseRate = packet.sfloat();
+  const timestamp = flag(flags, 0) ? packet.dateTime() : undefined;
+
+  const readings: MarkerReading[] = [];
+  if (!Number.isNaN(spo2)) {
+    readings.push({ type: "bloodOxygen", value: spo2, unit: "%" });
+  }
+  if (!Number.isNaN(pulseRate)) {
+    readings.push({ type: "heartRate", value: pulseRate, unit: "bpm" });
+  }
+  // Bit 4: the oximeter's clock was never set, so its timestamp is meaningless
+  return { readings, capturedAt: flag(flags, 4) ? undefined : timestamp };
+}
+
+/** Heart Rate Measurement (0x2A37) */
+export function parseHeartRateMeasurement(data: DataView): GattMeasurement {
+  const packet = new PacketReader(data, "Heart Rate Measurement");
+  const flags = packet.uint8();
+  const heartRate = flag(flags, 0) ? packet.uint16() : packet.uint8();
+  // Bit 2: contact detection is supported; bit 1: contact is detected
+  const sensorContact = flag(flags, 2) ? flag(flags, 1) : undefined;
+
+  return {
+    readings:
+      heartRate > 0 && sensorContact !== false
+        ? [{ type: "heartRate", value: heartRate, unit: "bpm" }]
+        : [],
+    sensorContact,
+  };
+}
+
+/** Temperature Measurement (0x2A1C) */
+export function parseTemperatureMeasurement(data: DataView): GattMeasurement {
+  const packet = new PacketReader(data, "Temperature Measurement");
+  const flags = packet.uint8();
+  const temperature = packet.float();
+  const capturedAt = flag(flags, 1) ? packet.dateTime() : undefined;
+
+  return {
+    readings: Number.isNaN(temperature)
+      ? []
+      : [
+          {
+            type: "temperature",
+            value: temperature,
+            unit: flag(flags, 0) ? "F" : "C",
+          },
+        ],
+    capturedAt,
+  };
+}
+
+/** Hex dump ("0e 80 00 …") to the DataView a characteristic would deliver */
+export function hexToDataView(hex: string): DataView {
+  const bytes = hex.replace(/\s+/g, "").match(/../g) ?? [];
+  return new DataView(
+    new Uint8Array(bytes.map((byte) => parseInt(byte, 16))).buffer,
+  );
+}
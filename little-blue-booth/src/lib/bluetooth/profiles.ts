@@ -0,0 +1,92 @@
+// Which standard GATT service and characteristic each kind of booth
+// peripheral measures through, and the parser for its packets.
+
+import type { DeviceTypeKey } from "~/lib/devices";
+import type { ScalarMarkerType } from "~/lib/healthMarkers";
+import {
+  parseBloodPressureMeasurement,
+  parseHeartRateMeasurement,
+  parsePlxSpotCheckMeasurement,
+  parseTemperatureMeasurement,
+  parseWeightMeasurement,
+  type GattMeasurement,
+} from "./gatt";
+
+export interface GattProfile {
+  /** 16-bit assigned numbers, as Web Bluetooth accepts them */
+  service: number;
+  characteristic: number;
+  parse: (data: DataView) => GattMeasurement;
+  /**
+   * Streams a value every second or so (notify) instead of sending one
+   * finished measurement (indicate). Streams are settled before storing.
+   */
+  streaming: boolean;
+}
+
+export const GATT_PROFILES: Record<DeviceTypeKey, GattProfile> = {
+  scale: {
+    service: 0x181d,
+    characteristic: 0x2a9d,
+    parse: parseWeightMeasurement,
+    streaming: false,
+  },
+  bloodPressureMonitor: {
+    service: 0x1810,
+    characteristic: 0x2a35,
+    parse: parseBloodPressureMeasurement,
+    streaming: false,
+  },
+  pulseOximeter: {
+    service: 0x1822,
+    characteristic: 0x2a5e,
+    parse: parsePlxSpotCheckMeasurement,
+    streaming: false,
+  },
+  heartRateMonitor: {
+    service: 0x180d,
+    characteristic: 0x2a37,
+    parse: parseHeartRateMeasurement,
+    streaming: true,
+  },
+  thermometer: {
+    service: 0x1809,
+    characteristic: 0x2a1c,
+    parse: parseTemperatureMeasurement,
+    streaming: false,
+  },
+};
+
+/** Samples of a streaming profile that are settled into one reading */
+export const STREAM_SAMPLE_COUNT = 10;
+
+/**
+ * The median of a stream's readings, per marker type. Used so a heart rate
+ * strap stores one steady value rather than a reading every second.
+ */
+export function settleStream(samples: GattMeasurement[]): GattMeasurement {
+  const byType = new Map<
+    ScalarMarkerType,
+    { unit?: string; values: number[] }
+  >();
+  for (const reading of samples.flatMap((sample) => sample.readings)) {
+    if (reading.type === "bloodPressure") continue;
+    const entry = byType.get(reading.type) ?? {
+      unit: reading.unit,
+      values: [],
+    };
+    entry.values.push(reading.value);
+    byType.set(reading.type, entry);
+  }
+
+  return {
+    readings: [...byType].map(([type, { unit, values }]) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        type,
+        unit,
+        value: sorted[Math.floor(sorted.length / 2)] ?? NaN,
+      };
+    }),
+  };
+}
@@ -0,0 +1,62 @@
+// Characteristic values as the booth's peripherals send them, byte for byte,
+// with what each decodes to. Replaying them through the same path as a live
+// device exercises the parsers, ingestion and the voice agent announcement
+// without any hardware.
+
+import type { DeviceTypeKey } from "~/lib/devices";
+
+export interface RecordedPacket {
+  /** What the packet decodes to */
+  description: string;
+  hex: string;
+}
+
+export const RECORDED_PACKETS: Record<DeviceTypeKey, RecordedPacket[]> = {
+  scale: [
+    {
+      description: "72.5 kg, BMI 23.7, height 1.75 m, 26 Feb 2025 08:15",
+      hex: "0a a4 38 e9 07 02 1a 08 0f 00 ed 00 d6 06",
+    },
+    { description: "160.4 lb", hex: "01 a8 3e" },
+    { description: "Unsuccessful measurement (no readings)", hex: "00 ff ff" },
+  ],
+  bloodPressureMonitor: [
+    {
+      description: "128/82 mmHg, pulse 71, user 1, 26 Feb 2025 14:30:05",
+      hex: "0e 80 00 52 00 61 00 e9 07 02 1a 0e 1e 05 47 00 01",
+    },
+    { description: "16.0/10.5 kPa", hex: "01 a0 f0 69 f0 7b f0" },
+    {
+      description: "120/80 mmHg, pulse not available",
+      hex: "04 78 00 50 00 5d 00 ff 07",
+    },
+  ],
+  pulseOximeter: [
+    { description: "SpO2 97%, pulse 72", hex: "00 61 00 48 00" },
+    {
+      description: "SpO2 94%, pulse 88, 26 Feb 2025 09:00",
+      hex: "01 5e 00 58 00 e9 07 02 1a 09 00 00",
+    },
+    {
+      description: "SpO2 98%, pulse 64, clock not set (timestamp ignored)",
+      hex: "11 62 00 40 00 e9 07 01 01 00 00 00",
+    },
+  ],
+  heartRateMonitor: [
+    { description: "72 bpm, skin contact", hex: "06 48" },
+    {
+      description: "80 bpm (16-bit) with an RR interval",
+      hex: "11 50 00 00 03",
+    },
+    { description: "75 bpm with energy expended", hex: "08 4b 10 00" },
+    { description: "No skin contact (no readings)", hex: "04 00" },
+  ],
+  thermometer: [
+    { description: "36.8 °C", hex: "00 70 01 00 ff" },
+    {
+      description: "98.6 °F in the mouth, 26 Feb 2025 10:20:30",
+      hex: "07 da 03 00 ff e9 07 02 1a 0a 14 1e 06",
+    },
+    { description: "Not a number (no readings)", hex: "00 ff ff 7f 00" },
+  ],
+};
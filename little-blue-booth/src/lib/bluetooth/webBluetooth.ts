@@ -0,0 +1,75 @@
+// The part of the Web Bluetooth API the booth uses. TypeScript's DOM library
+// does not include it, and it only exists in Chromium browsers.
+
+import type { GattProfile } from "./profiles";
+
+interface BluetoothCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications(): Promise<BluetoothCharacteristic>;
+}
+
+interface BluetoothDevice extends EventTarget {
+  name?: string;
+  gatt?: {
+    connected: boolean;
+    connect(): Promise<{
+      getPrimaryService(service: number): Promise<{
+        getCharacteristic(
+          characteristic: number,
+        ): Promise<BluetoothCharacteristic>;
+      }>;
+    }>;
+    disconnect(): void;
+  };
+}
+
+interface Bluetooth {
+  requestDevice(options: {
+    filters: { services: number[] }[];
+  }): Promise<BluetoothDevice>;
+}
+
+const getBluetooth = () =>
+  typeof navigator === "undefined"
+    ? undefined
+    : (navigator as Navigator & { bluetooth?: Bluetooth }).bluetooth;
+
+export const isWebBluetoothAvailable = () => getBluetooth() !== undefined;
+
+/**
+ * Asks the user to pick a nearby device offering the profile's service (so
+ * it must run from a click), then subscribes to the measurement
+ * characteristic. Returns a function that disconnects.
+ */
+export async function connectGattDevice(
+  profile: GattProfile,
+  onValue: (value: DataView) => void,
+  onDisconnected: () => void,
+): Promise<() => void> {
+  const bluetooth = getBluetooth();
+  if (!bluetooth) {
+    throw new Error("Web Bluetooth is not available in this browser");
+  }
+
+  const device = await bluetooth.requestDevice({
+    filters: [{ services: [profile.service] }],
+  });
+  if (!device.gatt) throw new Error("Device has no GATT server");
+
+  const server = await device.gatt.connect();
+  const service = await server.getPrimaryService(profile.service);
+  const characteristic = await service.getCharacteristic(
+    profile.characteristic,
+  );
+
+  characteristic.addEventListener("characteristicvaluechanged", () => {
+    if (characteristic.value) onValue(characteristic.value);
+  });
+  device.addEventListener("gattserverdisconnected", onDisconnected);
+  await characteristic.startNotifications();
+
+  return () => {
+    device.removeEventListener("gattserverdisconnected", onDisconnected);
+    if (device.gatt?.connected) device.gatt.disconnect();
+  };
+}
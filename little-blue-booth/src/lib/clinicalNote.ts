@@ -0,0 +1,141 @@
+// Clinician-facing SOAP note for a session, stored separately from the
+// patient summary (ClinicalNote). Every statement cites the sources it came
+// from: transcript turns (T1, T2, ...), uploaded documents (D1, ...), health
+// markers (M1, ...) and the triage result (R1), listed in the note's
+// `sources`.
+
+import { z } from "zod";
+
+export const citedStatementSchema = z.object({
+  text: z.string().min(1),
+  /** Source ids, e.g. ["T3", "D1"] */
+  citations: z.array(z.string()).min(1),
+});
+
+export type CitedStatement = z.infer<typeof citedStatementSchema>;
+
+export const DIFFERENTIAL_LIKELIHOODS = [
+  "likely",
+  "possible",
+  "less likely",
+] as const;
+
+export const differentialSchema = z.object({
+  diagnosis: z.string().min(1),
+  likelihood: z.enum(DIFFERENTIAL_LIKELIHOODS),
+  reasoning: z.array(citedStatementSchema).min(1),
+});
+
+export type Differential = z.infer<typeof differentialSchema>;
+
+/** What the model writes; Objective markers are filled in from the database */
+export const clinicalNoteDraftSchema = z.object({
+  subjective: z.array(citedStatementSchema),
+  /** Findings from uploaded documents or described observations */
+  objectiveFindings: z.array(citedStatementSchema).default([]),
+  assessment: z.array(differentialSchema),
+  plan: z.array(citedStatementSchema),
+  redFlags: z.array(citedStatementSchema).default([]),
+});
+
+export type ClinicalNoteDraft = z.infer<typeof clinicalNoteDraftSchema>;
+
+export const NOTE_SOURCE_KINDS = [
+  "transcript",
+  "document",
+  "marker",
+  "triage",
+] as const;
+export type NoteSourceKind = (typeof NOTE_SOURCE_KINDS)[number];
+
+export interface NoteSource {
+  /** Citation id used in the note, e.g. "T3" */
+  id: string;
+  kind: NoteSourceKind;
+  /** ChatMessage, VisionAnalysis, HealthMarker or AnalysisStatus id */
+  refId: string;
+  /** Short excerpt shown in the handover document */
+  label: string;
+}
+
+export interface ObjectiveMarker {
+  label: string;
+  value: string;
+  source: string;
+  flagReason: string | null;
+  conflict: string | null;
+  citations: string[];
+}
+
+export interface ClinicalNoteContent {
+  subjective: CitedStatement[];
+  objective: {
+    markers: ObjectiveMarker[];
+    /** e.g. "NEWS2 3 (low risk), qSOFA 0 (negative)" */
+    earlyWarningScores: string;
+    findings: CitedStatement[];
+  };
+  assessment: Differential[];
+  plan: CitedStatement[];
+  redFlags: CitedStatement[];
+  sources: NoteSource[];
+  /** Statements dropped because none of their citations were real sources */
+  droppedStatements: number;
+}
+
+/** A stored note, as served by tRPC */
+export interface ClinicalNoteRecord {
+  id: string;
+  sessionId: string;
+  version: number;
+  content: ClinicalNoteContent;
+  model: string | null;
+  createdAt: string;
+}
+
+const cite = (citations: string[]) => ` [${citations.join(", ")}]`;
+
+const statementLines = (statements: CitedStatement[], empty: string) =>
+  statements.length > 0
+    ? statements.map((s) => `- ${s.text}${cite(s.citations)}`)
+    : [`- ${empty}`];
+
+/** The handover document: the note as Markdown with a source appendix */
+export function renderClinicalNoteMarkdown(note: ClinicalNoteRecord): string {
+  const { content } = note;
+
+  return [
+    "# Clinical Handover Note",
+    `Session ${note.sessionId} · version ${note.version} · ${new Date(note.createdAt).toLocaleString()}`,
+    "",
+    "## Red Flags",
+    ...statementLines(content.redFlags, "None identified"),
+    "",
+    "## Subjective",
+    ...statementLines(content.subjective, "Nothing recorded"),
+    "",
+    "## Objective",
+    ...(content.objective.markers.length > 0
+      ? content.objective.markers.map(
+          (m) =>
+            `- ${m.label}: ${m.value} (${m.source}${m.flagReason ? `; flagged: ${m.flagReason}` : ""}${m.conflict ? `; conflict: ${m.conflict}` : ""})${cite(m.citations)}`,
+        )
+      : ["- No measurements recorded"]),
+    `- Early warning scores: ${content.objective.earlyWarningScores}`,
+    ...content.objective.findings.map((s) => `- ${s.text}${cite(s.citations)}`),
+    "",
+    "## Assessment",
+    ...(content.assessment.length > 0
+      ? content.assessment.flatMap((d) => [
+          `- **${d.diagnosis}** (${d.likelihood})`,
+          ...d.reasoning.map((s) => `  - ${s.text}${cite(s.citations)}`),
+        ])
+      : ["- No differentials"]),
+    "",
+    "## Plan",
+    ...statementLines(content.plan, "No plan recorded"),
+    "",
+    "## Sources",
+    ...content.sources.map((s) => `- **${s.id}** (${s.kind}): ${s.label}`),
+  ].join("\n");
+}
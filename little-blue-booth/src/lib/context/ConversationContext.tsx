@@ -1,6 +1,6 @@
 "use client";
 
-import { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
+import { createContext, useContext, useReducer, ReactNode, useEffect, useRef, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { api } from "~/trpc/react";
 
@@ -13,7 +13,7 @@ export interface Message {
 }
 
 interface ConversationState {
-  conversationId: string;
+  sessionId: string | null;
   messages: Message[];
 }
 
@@ -21,13 +21,24 @@ interface ConversationContextType {
   state: ConversationState;
   addMessage: (role: Message['role'], content: string) => void;
   clearMessages: () => void;
+  setSessionId: (sessionId: string | null) => void;
 }
 
+// A message waiting to be written to the server. `sessionId` is null when the
+// message was added before the kiosk session existed; it is bound on flush.
+interface PendingWrite {
+  message: Message;
+  sessionId: string | null;
+}
+
+const RETRY_DELAY_MS = 3000;
+
 const ConversationContext = createContext<ConversationContextType | undefined>(undefined);
 
 type ConversationAction = 
   | { type: 'ADD_MESSAGE'; payload: Message }
-  | { type: 'CLEAR_MESSAGES' };
+  | { type: 'CLEAR_MESSAGES' }
+  | { type: 'SET_SESSION'; payload: string | null };
 
 const conversationReducer = (state: ConversationState, action: ConversationAction): ConversationState => {
   switch (action.type) {
@@ -44,27 +55,94 @@ const conversationReducer = (state: ConversationState, action: ConversationActio
         ...state,
         messages: []
       };
+    case 'SET_SESSION':
+      return {
+        ...state,
+        sessionId: action.payload
+      };
     default:
       return state;
   }
 };
 
 export const ConversationProvider = ({ children }: { children: ReactNode }) => {
-  // Initialize with a unique conversationId
   const initialState: ConversationState = {
-    conversationId: uuidv4(),
+    sessionId: null,
     messages: []
   };
 
   const [state, dispatch] = useReducer(conversationReducer, initialState);
 
-  // Get the tRPC mutation hook for saving a message
-  const addMessageMutation = api.conversation.addMessage.useMutation();
+  // The vanilla tRPC client is stable across renders, which matters because
+  // useWebRTC captures addMessage once when the data channel is opened
+  const utils = api.useUtils();
+
+  // Refs rather than state so that stale closures still see the latest values
+  const sessionIdRef = useRef<string | null>(null);
+  const pendingWritesRef = useRef<PendingWrite[]>([]);
+  const isFlushingRef = useRef(false);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     console.log('[ConversationContext] Current state:', state.messages);
   }, [state.messages]);
 
+  /**
+   * Writes queued messages to the server one at a time so that the server
+   * assigns sequence numbers in the order the messages were created. Failed
+   * writes stay at the head of the queue and are retried with the same
+   * clientMessageId, which the server de-duplicates.
+   */
+  const flushPendingWrites = useCallback(async () => {
+    if (isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    try {
+      while (pendingWritesRef.current.length > 0) {
+        const next = pendingWritesRef.current[0]!;
+        const sessionId = next.sessionId ?? sessionIdRef.current;
+
+        // Nothing to write against yet; setSessionId will flush again
+        if (!sessionId) return;
+        next.sessionId = sessionId;
+
+        await utils.client.conversation.addMessage.mutate({
+          sessionId,
+          clientMessageId: next.message.id,
+          sender: next.message.role,
+          messageText: next.message.content,
+          sentAt: next.message.timestamp,
+        });
+
+        pendingWritesRef.current.shift();
+      }
+    } catch (error) {
+      console.error('[ConversationContext] Failed to save message:', error);
+      if (!retryTimeoutRef.current) {
+        retryTimeoutRef.current = setTimeout(() => {
+          retryTimeoutRef.current = null;
+          void flushPendingWrites();
+        }, RETRY_DELAY_MS);
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [utils]);
+
+  useEffect(() => {
+    return () => {
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    };
+  }, []);
+
+  const setSessionId = useCallback((sessionId: string | null) => {
+    sessionIdRef.current = sessionId;
+    dispatch({ type: 'SET_SESSION', payload: sessionId });
+    if (sessionId) {
+      void flushPendingWrites();
+    }
+  }, [flushPendingWrites]);
+
   const addMessage = (role: Message['role'], content: string) => {
     console.log('[ConversationContext] Adding message:', { role, content });
     const timestamp = new Date().toISOString();
@@ -83,24 +161,12 @@ export const ConversationProvider = ({ children }: { children: ReactNode }) => {
       payload: message
     });
 
-    // Log the current messages array after update
-    console.log('[ConversationContext] All messages after update:', state.messages.map(msg => ({
-      id: msg.id,
-      role: msg.role,
-      timestamp: msg.timestamp
-    })));
-
-    // Save the message to the backend
-    try {
-      addMessageMutation.mutate({
-        conversationId: state.conversationId,
-        sender: role,
-        messageText: content,
-      });
-    } catch (error) {
-      console.error('[ConversationContext] Failed to save message:', error);
-      // You might want to show a toast notification here
-    }
+    // Queue the message for the backend, bound to the current session
+    pendingWritesRef.current.push({
+      message,
+      sessionId: sessionIdRef.current,
+    });
+    void flushPendingWrites();
   };
 
   const clearMessages = () => {
@@ -108,7 +174,7 @@ export const ConversationProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <ConversationContext.Provider value={{ state, addMessage, clearMessages }}>
+    <ConversationContext.Provider value={{ state, addMessage, clearMessages, setSessionId }}>
       {children}
     </ConversationContext.Provider>
   );
@@ -0,0 +1,69 @@
+// Catalogue of the peripherals a booth can have. Each DeviceType row is
+// keyed by one of these; the catalogue says which markers a device of that
+// type may report.
+
+import { z } from "zod";
+import { MARKER_CATALOGUE, type MarkerType } from "~/lib/healthMarkers";
+
+interface DeviceTypeDefinition {
+  label: string;
+  /** Markers a device of this type may report */
+  markerTypes: MarkerType[];
+}
+
+export const DEVICE_TYPES = {
+  scale: { label: "Scale", markerTypes: ["weight", "bmi", "height"] },
+  bloodPressureMonitor: {
+    label: "Blood pressure cuff",
+    markerTypes: ["bloodPressure", "heartRate"],
+  },
+  pulseOximeter: {
+    label: "Pulse oximeter",
+    markerTypes: ["bloodOxygen", "heartRate"],
+  },
+  heartRateMonitor: {
+    label: "Heart rate monitor",
+    markerTypes: ["heartRate"],
+  },
+  thermometer: { label: "Thermometer", markerTypes: ["temperature"] },
+} satisfies Record<string, DeviceTypeDefinition>;
+
+export type DeviceTypeKey = keyof typeof DEVICE_TYPES;
+
+export const DEVICE_TYPE_KEYS = Object.keys(DEVICE_TYPES) as [
+  DeviceTypeKey,
+  ...DeviceTypeKey[],
+];
+
+export const isDeviceTypeKey = (key: string): key is DeviceTypeKey =>
+  key in DEVICE_TYPES;
+
+export const CONNECTION_METHODS = ["bluetooth", "usb", "network"] as const;
+
+const scalarReadingSchema = z.object({
+  type: z.enum(
+    Object.keys(MARKER_CATALOGUE).filter(
+      (type) => type !== "bloodPressure",
+    ) as [Exclude<MarkerType, "bloodPressure">],
+  ),
+  value: z.number().finite(),
+  unit: z.string().optional(),
+});
+
+const bloodPressureReadingSchema = z.object({
+  type: z.literal("bloodPressure"),
+  systolic: z.number().finite(),
+  diastolic: z.number().finite(),
+  unit: z.string().optional(),
+});
+
+/** Body of POST /api/devices/[deviceId]/readings */
+export const deviceReadingsSchema = z.object({
+  readings: z
+    .array(z.union([bloodPressureReadingSchema, scalarReadingSchema]))
+    .min(1),
+  /** When the device took the readings; defaults to when they arrive */
+  capturedAt: z.coerce.date().optional(),
+});
+
+export type DeviceReadings = z.infer<typeof deviceReadingsSchema>;
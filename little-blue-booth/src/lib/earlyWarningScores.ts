@@ -0,0 +1,274 @@
+// Clinical early-warning scores computed from a session's reconciled
+// markers. Pure, so the kiosk, the summary and triage all score the same way.
+//
+// NEWS2: Royal College of Physicians, National Early Warning Score 2 (2017),
+// SpO2 scale 1. qSOFA: Sepsis-3 (Singer et al., JAMA 2016).
+
+import type { ReconciledMarker } from "~/lib/markerReconciliation";
+
+/** Observations that are not health markers */
+export interface ClinicalObservations {
+  /** ACVPU; anything other than alert scores as new confusion or worse */
+  consciousness?: "alert" | "confusion" | "voice" | "pain" | "unresponsive";
+  onSupplementalOxygen?: boolean;
+}
+
+export interface ScoreComponent {
+  parameter: string;
+  label: string;
+  /** The value scored, as displayed; null when missing */
+  value: string | null;
+  /** null when the parameter is missing */
+  points: number | null;
+  /** Not measured; the kiosk default was used (see computeEarlyWarningScores) */
+  assumed?: boolean;
+}
+
+export const NEWS2_RISKS = ["low", "lowMedium", "medium", "high"] as const;
+export type News2Risk = (typeof NEWS2_RISKS)[number];
+
+export interface News2Score {
+  /** Sum over the parameters available, so a lower bound when incomplete */
+  total: number;
+  risk: News2Risk;
+  components: ScoreComponent[];
+  /** Labels of the parameters that could not be scored */
+  missing: string[];
+  complete: boolean;
+}
+
+export interface QsofaScore {
+  score: number;
+  /** ≥2 criteria met; null when the missing criteria could still decide it */
+  positive: boolean | null;
+  components: ScoreComponent[];
+  missing: string[];
+}
+
+export interface EarlyWarningScores {
+  news2: News2Score;
+  qsofa: QsofaScore;
+}
+
+/** Points for `value` from bands of [upper bound (inclusive), points] */
+const band = (value: number, bands: [number, number][], above: number) =>
+  bands.find(([max]) => value <= max)?.[1] ?? above;
+
+const scalar = (markers: ReconciledMarker[], type: string) => {
+  const value = markers.find((m) => m.markerType === type)?.current.value;
+  return value && "value" in value ? value.value : null;
+};
+
+const systolicOf = (markers: ReconciledMarker[]) => {
+  const value = markers.find((m) => m.markerType === "bloodPressure")?.current
+    .value;
+  return value && "systolic" in value ? value.systolic : null;
+};
+
+const measured = (
+  parameter: string,
+  label: string,
+  value: number | null,
+  unit: string,
+  score: (value: number) => number,
+): ScoreComponent =>
+  value === null
+    ? { parameter, label, value: null, points: null }
+    : { parameter, label, value: `${value} ${unit}`, points: score(value) };
+
+function news2Risk(total: number, components: ScoreComponent[]): News2Risk {
+  if (total >= 7) return "high";
+  if (total >= 5) return "medium";
+  if (components.some((c) => c.points === 3)) return "lowMedium";
+  return "low";
+}
+
+/**
+ * Scores NEWS2 and qSOFA from the session's current markers.
+ *
+ * Consciousness and supplemental oxygen are not captured as markers. A
+ * patient using the kiosk unaided is taken to be alert and on room air
+ * unless `observations` says otherwise; those components are marked
+ * `assumed`. Missing vitals are listed and left out of the total.
+ */
+export function computeEarlyWarningScores(
+  markers: ReconciledMarker[],
+  observations: ClinicalObservations = {},
+): EarlyWarningScores {
+  const respiratoryRate = scalar(markers, "respiratoryRate");
+  const spo2 = scalar(markers, "bloodOxygen");
+  const systolic = systolicOf(markers);
+  const heartRate = scalar(markers, "heartRate");
+  const temperature = scalar(markers, "temperature");
+  const consciousness = observations.consciousness ?? "alert";
+  const onOxygen = observations.onSupplementalOxygen ?? false;
+
+  const news2Components: ScoreComponent[] = [
+    measured(
+      "respiratoryRate",
+      "Respiration rate",
+      respiratoryRate,
+      "/min",
+      (v) =>
+        band(
+          v,
+          [
+            [8, 3],
+            [11, 1],
+            [20, 0],
+            [24, 2],
+          ],
+          3,
+        ),
+    ),
+    measured("bloodOxygen", "SpO2", spo2, "%", (v) =>
+      band(
+        v,
+        [
+          [91, 3],
+          [93, 2],
+          [95, 1],
+        ],
+        0,
+      ),
+    ),
+    {
+      parameter: "supplementalOxygen",
+      label: "Air or oxygen",
+      value: onOxygen ? "Oxygen" : "Air",
+      points: onOxygen ? 2 : 0,
+      assumed: observations.onSupplementalOxygen === undefined,
+    },
+    measured("systolic", "Systolic blood pressure", systolic, "mmHg", (v) =>
+      band(
+        v,
+        [
+          [90, 3],
+          [100, 2],
+          [110, 1],
+          [219, 0],
+        ],
+        3,
+      ),
+    ),
+    measured("heartRate", "Pulse", heartRate, "bpm", (v) =>
+      band(
+        v,
+        [
+          [40, 3],
+          [50, 1],
+          [90, 0],
+          [110, 1],
+          [130, 2],
+        ],
+        3,
+      ),
+    ),
+    {
+      parameter: "consciousness",
+      label: "Consciousness",
+      value: consciousness === "alert" ? "Alert" : "New confusion or worse",
+      points: consciousness === "alert" ? 0 : 3,
+      assumed: observations.consciousness === undefined,
+    },
+    measured("temperature", "Temperature", temperature, "°C", (v) =>
+      band(
+        v,
+        [
+          [35, 3],
+          [36, 1],
+          [38, 0],
+          [39, 1],
+        ],
+        2,
+      ),
+    ),
+  ];
+
+  const news2Total = news2Components.reduce(
+    (sum, c) => sum + (c.points ?? 0),
+    0,
+  );
+  const news2Missing = news2Components
+    .filter((c) => c.points === null)
+    .map((c) => c.label);
+
+  const qsofaComponents: ScoreComponent[] = [
+    measured(
+      "respiratoryRate",
+      "Respiration rate ≥ 22/min",
+      respiratoryRate,
+      "/min",
+      (v) => (v >= 22 ? 1 : 0),
+    ),
+    measured(
+      "systolic",
+      "Systolic blood pressure ≤ 100 mmHg",
+      systolic,
+      "mmHg",
+      (v) => (v <= 100 ? 1 : 0),
+    ),
+    observations.consciousness === undefined
+      ? {
+          parameter: "mentation",
+          label: "Altered mentation",
+          value: null,
+          points: null,
+        }
+      : {
+          parameter: "mentation",
+          label: "Altered mentation",
+          value: consciousness === "alert" ? "Alert" : "Altered",
+          points: consciousness === "alert" ? 0 : 1,
+        },
+  ];
+
+  const qsofaScore = qsofaComponents.reduce(
+    (sum, c) => sum + (c.points ?? 0),
+    0,
+  );
+  const qsofaMissing = qsofaComponents
+    .filter((c) => c.points === null)
+    .map((c) => c.label);
+
+  return {
+    news2: {
+      total: news2Total,
+      risk: news2Risk(news2Total, news2Components),
+      components: news2Components,
+      missing: news2Missing,
+      complete: news2Missing.length === 0,
+    },
+    qsofa: {
+      score: qsofaScore,
+      positive:
+        qsofaScore >= 2
+          ? true
+          : qsofaScore + qsofaMissing.length < 2
+            ? false
+            : null,
+      components: qsofaComponents,
+      missing: qsofaMissing,
+    },
+  };
+}
+
+/** One-line description for prompts and summaries */
+export function describeEarlyWarningScores({
+  news2,
+  qsofa,
+}: EarlyWarningScores) {
+  const news2Text = `NEWS2 ${news2.total} (${news2.risk} risk${news2.complete ? "" : `; missing ${news2.missing.join(", ")}`})`;
+  const qsofaText =
+    qsofa.positive === null
+      ? `qSOFA ${qsofa.score} (undetermined; missing ${qsofa.missing.join(", ")})`
+      : `qSOFA ${qsofa.score} (${qsofa.positive ? "positive" : "negative"})`;
+  return `${news2Text}, ${qsofaText}`;
+}
+
+/** A stored computation, as served by tRPC and pushed to the kiosk */
+export interface EarlyWarningScoreRecord extends EarlyWarningScores {
+  id: string;
+  sessionId: string;
+  computedAt: string;
+}
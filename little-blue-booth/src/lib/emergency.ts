@@ -0,0 +1,116 @@
+// Emergency contacts a kiosk shows when a patient may need urgent care.
+// Each kiosk has a country, whose defaults below can be overridden per kiosk
+// (Kiosk.emergencyConfig); src/server/emergency resolves the two.
+
+import { z } from "zod";
+
+export const emergencyContactSchema = z.object({
+  name: z.string().min(1),
+  /** Dialable number, e.g. "116 123" */
+  phone: z.string().min(1),
+  description: z.string().optional(),
+});
+
+export type EmergencyContact = z.infer<typeof emergencyContactSchema>;
+
+/** Who is told on site when triage interrupts a consultation */
+export const staffPagerSchema = z.object({
+  name: z.string().min(1),
+  /** Passed to the escalation notifier, e.g. a webhook URL or pager id */
+  address: z.string().min(1),
+});
+
+export type StaffPager = z.infer<typeof staffPagerSchema>;
+
+export const emergencyConfigSchema = z.object({
+  /** ISO 3166-1 alpha-2 code */
+  country: z.string().length(2),
+  /** The first number is the one the call button dials */
+  emergencyNumbers: z.array(z.string().min(1)).min(1),
+  outOfHoursGp: emergencyContactSchema.nullable(),
+  poisonLine: emergencyContactSchema.nullable(),
+  mentalHealthLine: emergencyContactSchema.nullable(),
+  staffPager: staffPagerSchema.nullable(),
+});
+
+export type EmergencyConfig = z.infer<typeof emergencyConfigSchema>;
+
+/** What the kiosk is shown; the pager's address never leaves the server */
+export type PublicEmergencyConfig = Omit<EmergencyConfig, "staffPager"> & {
+  hasOnSiteStaff: boolean;
+};
+
+export const toPublicEmergencyConfig = ({
+  staffPager,
+  ...config
+}: EmergencyConfig): PublicEmergencyConfig => ({
+  ...config,
+  hasOnSiteStaff: staffPager !== null,
+});
+
+/** What a kiosk may override; anything left out comes from its country */
+export const emergencyConfigOverridesSchema = emergencyConfigSchema
+  .omit({ country: true })
+  .partial();
+
+export type EmergencyConfigOverrides = z.infer<
+  typeof emergencyConfigOverridesSchema
+>;
+
+/** Booths are in Ireland unless configured otherwise */
+export const DEFAULT_EMERGENCY_COUNTRY = "IE";
+
+const SAMARITANS: EmergencyContact = {
+  name: "Samaritans",
+  phone: "116 123",
+  description: "Free, 24 hours a day",
+};
+
+export const COUNTRY_EMERGENCY_DEFAULTS: Record<string, EmergencyConfig> = {
+  IE: {
+    country: "IE",
+    emergencyNumbers: ["112", "999"],
+    // Out-of-hours GP co-ops are regional, so each kiosk sets its own
+    outOfHoursGp: null,
+    poisonLine: {
+      name: "National Poisons Information Centre",
+      phone: "01 809 2166",
+      description: "8am to 10pm, every day",
+    },
+    mentalHealthLine: SAMARITANS,
+    staffPager: null,
+  },
+  GB: {
+    country: "GB",
+    emergencyNumbers: ["999", "112"],
+    outOfHoursGp: {
+      name: "NHS 111",
+      phone: "111",
+      description: "Urgent medical help when your GP is closed",
+    },
+    poisonLine: {
+      name: "NHS 111",
+      phone: "111",
+      description: "Advice on poisoning and overdoses",
+    },
+    mentalHealthLine: SAMARITANS,
+    staffPager: null,
+  },
+  US: {
+    country: "US",
+    emergencyNumbers: ["911"],
+    outOfHoursGp: null,
+    poisonLine: {
+      name: "Poison Control",
+      phone: "1-800-222-1222",
+    },
+    mentalHealthLine: {
+      name: "988 Suicide & Crisis Lifeline",
+      phone: "988",
+    },
+    staffPager: null,
+  },
+};
+
+/** `tel:` link for a number as printed, e.g. "01 809 2166" */
+export const telHref = (phone: string) => `tel:${phone.replace(/[^\d+]/g, "")}`;
@@ -0,0 +1,282 @@
+// Catalogue of the measurable health markers the booth records. Every reading
+// is converted to the marker's canonical unit and checked against two ranges:
+// outside `possible` it is rejected outright, outside `plausible` it is kept
+// but flagged for review.
+
+export const MARKER_SOURCES = [
+  "googleFit",
+  "llmExtraction",
+  "device",
+  "manual",
+] as const;
+
+export type MarkerSource = (typeof MARKER_SOURCES)[number];
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+interface ScalarMarkerDefinition {
+  kind: "scalar";
+  label: string;
+  unit: string;
+  /** Converters from each accepted unit into `unit` */
+  conversions: Record<string, (value: number) => number>;
+  possible: Range;
+  plausible: Range;
+  /** Readings from different sources further apart than this disagree */
+  tolerance: number;
+}
+
+interface BloodPressureDefinition {
+  kind: "bloodPressure";
+  label: string;
+  unit: string;
+  conversions: Record<string, (value: number) => number>;
+  systolic: { possible: Range; plausible: Range };
+  diastolic: { possible: Range; plausible: Range };
+  /** Applies to systolic and diastolic separately */
+  tolerance: number;
+}
+
+const identity = (value: number) => value;
+
+export const MARKER_CATALOGUE = {
+  weight: {
+    kind: "scalar",
+    label: "Weight",
+    unit: "kg",
+    conversions: {
+      kg: identity,
+      g: (g) => g / 1000,
+      lb: (lb) => lb * 0.45359237,
+      st: (st) => st * 6.35029318,
+    },
+    possible: { min: 0.5, max: 650 },
+    plausible: { min: 2, max: 300 },
+    tolerance: 2,
+  },
+  height: {
+    kind: "scalar",
+    label: "Height",
+    unit: "cm",
+    conversions: {
+      cm: identity,
+      m: (m) => m * 100,
+      in: (inches) => inches * 2.54,
+      ft: (feet) => feet * 30.48,
+    },
+    possible: { min: 20, max: 275 },
+    plausible: { min: 45, max: 230 },
+    tolerance: 3,
+  },
+  bmi: {
+    kind: "scalar",
+    label: "BMI",
+    unit: "kg/m2",
+    conversions: { "kg/m2": identity },
+    possible: { min: 5, max: 150 },
+    plausible: { min: 12, max: 70 },
+    tolerance: 1,
+  },
+  heartRate: {
+    kind: "scalar",
+    label: "Heart Rate",
+    unit: "bpm",
+    conversions: { bpm: identity },
+    possible: { min: 10, max: 350 },
+    plausible: { min: 30, max: 220 },
+    tolerance: 15,
+  },
+  bloodOxygen: {
+    kind: "scalar",
+    label: "Blood Oxygen",
+    unit: "%",
+    conversions: { "%": identity, fraction: (f) => f * 100 },
+    possible: { min: 30, max: 100 },
+    plausible: { min: 70, max: 100 },
+    tolerance: 3,
+  },
+  temperature: {
+    kind: "scalar",
+    label: "Temperature",
+    unit: "C",
+    conversions: { C: identity, F: (f) => ((f - 32) * 5) / 9 },
+    possible: { min: 20, max: 46 },
+    plausible: { min: 34, max: 42 },
+    tolerance: 0.5,
+  },
+  glucose: {
+    kind: "scalar",
+    label: "Blood Glucose",
+    unit: "mmol/L",
+    conversions: { "mmol/L": identity, "mg/dL": (mg) => mg / 18.016 },
+    possible: { min: 0.5, max: 60 },
+    plausible: { min: 2, max: 30 },
+    tolerance: 1,
+  },
+  respiratoryRate: {
+    kind: "scalar",
+    label: "Respiratory Rate",
+    unit: "breaths/min",
+    conversions: { "breaths/min": identity },
+    possible: { min: 1, max: 100 },
+    plausible: { min: 6, max: 40 },
+    tolerance: 6,
+  },
+  bloodPressure: {
+    kind: "bloodPressure",
+    label: "Blood Pressure",
+    unit: "mmHg",
+    conversions: { mmHg: identity, kPa: (kpa) => kpa * 7.50062 },
+    systolic: {
+      possible: { min: 30, max: 320 },
+      plausible: { min: 70, max: 250 },
+    },
+    diastolic: {
+      possible: { min: 10, max: 200 },
+      plausible: { min: 40, max: 150 },
+    },
+    tolerance: 15,
+  },
+} satisfies Record<string, ScalarMarkerDefinition | BloodPressureDefinition>;
+
+export type MarkerType = keyof typeof MARKER_CATALOGUE;
+export type ScalarMarkerType = Exclude<MarkerType, "bloodPressure">;
+
+export const MARKER_TYPES = Object.keys(MARKER_CATALOGUE) as MarkerType[];
+
+export const isMarkerType = (type: string): type is MarkerType =>
+  type in MARKER_CATALOGUE;
+
+/** Units a reading of `type` may be given in */
+export const acceptedUnits = (type: MarkerType) =>
+  Object.keys(MARKER_CATALOGUE[type].conversions);
+
+/** Converts a height given as feet and inches (e.g. 5 ft 10 in) to cm */
+export const feetAndInchesToCm = (feet: number, inches = 0) =>
+  (feet * 12 + inches) * 2.54;
+
+export type MarkerReading =
+  | {
+      type: ScalarMarkerType;
+      value: number;
+      unit?: string;
+      /** A height in feet may carry the remaining inches, e.g. 5 ft 10 in */
+      inches?: number;
+    }
+  | {
+      type: "bloodPressure";
+      systolic: number;
+      diastolic: number;
+      unit?: string;
+    };
+
+export type NormalizedMarker =
+  | {
+      status: "accepted" | "flagged";
+      markerType: MarkerType;
+      unit: string;
+      data: { value: number } | { systolic: number; diastolic: number };
+      /** Set when status is "flagged" */
+      flagReason: string | null;
+    }
+  | { status: "rejected"; markerType: string; reason: string };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const outside = (value: number, range: Range) =>
+  value < range.min || value > range.max;
+
+/**
+ * Converts a reading to its canonical unit and applies the plausibility
+ * bounds. Readings in an unknown unit or outside the possible range are
+ * rejected; readings outside the plausible range are flagged.
+ */
+export function normalizeMarkerReading(
+  reading: MarkerReading,
+): NormalizedMarker {
+  const definition = MARKER_CATALOGUE[reading.type];
+  const unit = reading.unit ?? definition.unit;
+  const convert = (definition.conversions as Record<string, (v: number) => number>)[unit];
+
+  if (!convert) {
+    return {
+      status: "rejected",
+      markerType: reading.type,
+      reason: `Unsupported unit "${unit}" for ${reading.type}; expected one of ${acceptedUnits(reading.type).join(", ")}`,
+    };
+  }
+
+  if (reading.type === "bloodPressure") {
+    const bp = MARKER_CATALOGUE.bloodPressure;
+    const systolic = round(convert(reading.systolic));
+    const diastolic = round(convert(reading.diastolic));
+
+    if (
+      !Number.isFinite(systolic) ||
+      !Number.isFinite(diastolic) ||
+      outside(systolic, bp.systolic.possible) ||
+      outside(diastolic, bp.diastolic.possible) ||
+      systolic <= diastolic
+    ) {
+      return {
+        status: "rejected",
+        markerType: reading.type,
+        reason: `Impossible blood pressure ${systolic}/${diastolic} ${bp.unit}`,
+      };
+    }
+
+    const flagged =
+      outside(systolic, bp.systolic.plausible) ||
+      outside(diastolic, bp.diastolic.plausible);
+
+    return {
+      status: flagged ? "flagged" : "accepted",
+      markerType: reading.type,
+      unit: bp.unit,
+      data: { systolic, diastolic },
+      flagReason: flagged
+        ? `Blood pressure ${systolic}/${diastolic} ${bp.unit} is outside the expected range`
+        : null,
+    };
+  }
+
+  const scalar: ScalarMarkerDefinition = MARKER_CATALOGUE[reading.type];
+  if (
+    reading.inches !== undefined &&
+    !(reading.type === "height" && unit === "ft")
+  ) {
+    return {
+      status: "rejected",
+      markerType: reading.type,
+      reason: "Inches can only be given with a height in ft",
+    };
+  }
+  const value = round(
+    reading.inches !== undefined
+      ? feetAndInchesToCm(reading.value, reading.inches)
+      : convert(reading.value),
+  );
+
+  if (!Number.isFinite(value) || outside(value, scalar.possible)) {
+    return {
+      status: "rejected",
+      markerType: reading.type,
+      reason: `Impossible ${scalar.label.toLowerCase()} ${value} ${scalar.unit}`,
+    };
+  }
+
+  const flagged = outside(value, scalar.plausible);
+
+  return {
+    status: flagged ? "flagged" : "accepted",
+    markerType: reading.type,
+    unit: scalar.unit,
+    data: { value },
+    flagReason: flagged
+      ? `${scalar.label} ${value} ${scalar.unit} is outside the expected range ${scalar.plausible.min}-${scalar.plausible.max}`
+      : null,
+  };
+}
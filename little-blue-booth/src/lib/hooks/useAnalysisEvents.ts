@@ -0,0 +1,156 @@
+import { useAuth } from "@clerk/nextjs";
+import { useEffect, useRef, useState } from "react";
+import { io } from "socket.io-client";
+import {
+  ANALYSIS_EVENTS,
+  ANALYSIS_SOCKET_PATH,
+  type AnalysisJobCompletedEvent,
+  type AnalysisJobFailedEvent,
+  type AnalysisJobProgressEvent,
+} from "~/lib/analysisEvents";
+import type { EarlyWarningScoreRecord } from "~/lib/earlyWarningScores";
+import { loadKioskCredential } from "~/lib/kioskCredential";
+import type { SessionEndedEvent } from "~/lib/sessions";
+import type { TriageAssessment } from "~/lib/triage";
+
+interface UseAnalysisEventsProps {
+  sessionId: string | null;
+  onCompleted?: (event: AnalysisJobCompletedEvent) => void;
+  onFailed?: (event: AnalysisJobFailedEvent) => void;
+  onProgress?: (event: AnalysisJobProgressEvent) => void;
+  /** A triage result urgent enough to stop the consultation */
+  onTriageInterrupt?: (assessment: TriageAssessment) => void;
+  /** NEWS2 and qSOFA, recomputed after a new marker was recorded */
+  onEarlyWarningUpdated?: (scores: EarlyWarningScoreRecord) => void;
+  /** The session ended server-side, e.g. abandoned after inactivity */
+  onSessionEnded?: (event: SessionEndedEvent) => void;
+}
+
+/**
+ * Subscribes to background analysis updates for a session. `isConnected` is
+ * false until the socket has joined the session room, so callers can keep
+ * polling as a fallback while it is unavailable. The socket authenticates
+ * like tRPC calls do, with the Clerk session and the booth's kiosk credential.
+ */
+export function useAnalysisEvents({
+  sessionId,
+  onCompleted,
+  onFailed,
+  onProgress,
+  onTriageInterrupt,
+  onEarlyWarningUpdated,
+  onSessionEnded,
+}: UseAnalysisEventsProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const { getToken } = useAuth();
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  // Keep the latest handlers without reconnecting when they change
+  const handlersRef = useRef({
+    onCompleted,
+    onFailed,
+    onProgress,
+    onTriageInterrupt,
+    onEarlyWarningUpdated,
+    onSessionEnded,
+  });
+  handlersRef.current = {
+    onCompleted,
+    onFailed,
+    onProgress,
+    onTriageInterrupt,
+    onEarlyWarningUpdated,
+    onSessionEnded,
+  };
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    const socket = io({
+      path: ANALYSIS_SOCKET_PATH,
+      addTrailingSlash: false,
+      autoConnect: false,
+      // Called again on every reconnect, so an expired token is refreshed
+      auth: (send) => {
+        getTokenRef
+          .current()
+          .catch(() => null)
+          .then((token) =>
+            send({ token, kioskCredential: loadKioskCredential() }),
+          )
+          .catch((error) => {
+            console.error("Failed to authenticate analysis socket:", error);
+          });
+      },
+    });
+
+    socket.on("connect", () => {
+      socket.emit(
+        ANALYSIS_EVENTS.subscribe,
+        sessionId,
+        (subscribed: boolean) => {
+          if (!cancelled) setIsConnected(subscribed);
+        },
+      );
+    });
+
+    socket.on("disconnect", () => {
+      setIsConnected(false);
+    });
+
+    socket.on("connect_error", (error) => {
+      console.error("Analysis socket error:", error.message);
+      setIsConnected(false);
+    });
+
+    socket.on(ANALYSIS_EVENTS.completed, (event: AnalysisJobCompletedEvent) => {
+      handlersRef.current.onCompleted?.(event);
+    });
+
+    socket.on(ANALYSIS_EVENTS.failed, (event: AnalysisJobFailedEvent) => {
+      handlersRef.current.onFailed?.(event);
+    });
+
+    socket.on(ANALYSIS_EVENTS.progress, (event: AnalysisJobProgressEvent) => {
+      handlersRef.current.onProgress?.(event);
+    });
+
+    socket.on(
+      ANALYSIS_EVENTS.triageInterrupt,
+      (assessment: TriageAssessment) => {
+        handlersRef.current.onTriageInterrupt?.(assessment);
+      },
+    );
+
+    socket.on(
+      ANALYSIS_EVENTS.earlyWarningUpdated,
+      (scores: EarlyWarningScoreRecord) => {
+        handlersRef.current.onEarlyWarningUpdated?.(scores);
+      },
+    );
+
+    socket.on(ANALYSIS_EVENTS.sessionEnded, (event: SessionEndedEvent) => {
+      handlersRef.current.onSessionEnded?.(event);
+    });
+
+    // The server only starts Socket.IO once /api/socket has been requested
+    fetch("/api/socket")
+      .catch((error) => {
+        console.error("Failed to initialise analysis socket:", error);
+      })
+      .finally(() => {
+        if (!cancelled) socket.connect();
+      });
+
+    return () => {
+      cancelled = true;
+      socket.emit(ANALYSIS_EVENTS.unsubscribe, sessionId);
+      socket.disconnect();
+      setIsConnected(false);
+    };
+  }, [sessionId]);
+
+  return { isConnected };
+}
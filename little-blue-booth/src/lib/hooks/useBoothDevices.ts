@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  loadBoothDevices,
+  type BoothDevice,
+} from "~/lib/bluetooth/boothDevices";
+import { hexToDataView, type GattMeasurement } from "~/lib/bluetooth/gatt";
+import {
+  GATT_PROFILES,
+  STREAM_SAMPLE_COUNT,
+  settleStream,
+} from "~/lib/bluetooth/profiles";
+import { RECORDED_PACKETS } from "~/lib/bluetooth/recordedPackets";
+import { connectGattDevice } from "~/lib/bluetooth/webBluetooth";
+import { MARKER_CATALOGUE, type MarkerReading } from "~/lib/healthMarkers";
+
+export type BoothDeviceStatus = "idle" | "connecting" | "connected" | "error";
+
+export interface BoothDeviceState extends BoothDevice {
+  status: BoothDeviceStatus;
+  /** The last stored measurement, as announced to the voice agent */
+  lastReading: string | null;
+  error: string | null;
+}
+
+interface UseBoothDevicesProps {
+  /** Readings are only sent while a consultation is running */
+  enabled: boolean;
+  /** Called once the readings are stored against the session */
+  onReadingsStored?: (device: BoothDevice, description: string) => void;
+}
+
+/** Delay between replayed packets, so each announcement can be heard */
+const REPLAY_INTERVAL_MS = 1500;
+
+const describeReading = (reading: MarkerReading) => {
+  const { label, unit } = MARKER_CATALOGUE[reading.type];
+  const value =
+    reading.type === "bloodPressure"
+      ? `${reading.systolic}/${reading.diastolic}`
+      : reading.value;
+  return `${label.toLowerCase()} ${value} ${reading.unit ?? unit}`;
+};
+
+/**
+ * Connects the booth's paired Bluetooth peripherals, decodes their GATT
+ * measurements and posts them to the device ingestion endpoint with each
+ * device's own key. Devices are paired with this browser on the admin
+ * devices page.
+ */
+export function useBoothDevices({
+  enabled,
+  onReadingsStored,
+}: UseBoothDevicesProps) {
+  const [devices, setDevices] = useState<BoothDeviceState[]>([]);
+  const disconnectors = useRef(new Map<string, () => void>());
+  const streamSamples = useRef(new Map<string, GattMeasurement[]>());
+
+  const enabledRef = useRef(enabled);
+  const onReadingsStoredRef = useRef(onReadingsStored);
+  enabledRef.current = enabled;
+  onReadingsStoredRef.current = onReadingsStored;
+
+  useEffect(() => {
+    setDevices(
+      loadBoothDevices().map((device) => ({
+        ...device,
+        status: "idle",
+        lastReading: null,
+        error: null,
+      })),
+    );
+    const connected = disconnectors.current;
+    return () => {
+      connected.forEach((disconnect) => disconnect());
+      connected.clear();
+    };
+  }, []);
+
+  const update = (deviceId: string, changes: Partial<BoothDeviceState>) =>
+    setDevices((prev) =>
+      prev.map((device) =>
+        device.deviceId === deviceId ? { ...device, ...changes } : device,
+      ),
+    );
+
+  const submit = useCallback(
+    async (device: BoothDevice, measurement: GattMeasurement) => {
+      if (measurement.readings.length === 0 || !enabledRef.current) return;
+
+      const response = await fetch(`/api/devices/${device.deviceId}/readings`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${device.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          readings: measurement.readings,
+          capturedAt: measurement.capturedAt,
+        }),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        update(device.deviceId, {
+          error: error ?? `Readings were not stored (${response.status})`,
+        });
+        return;
+      }
+
+      const description = measurement.readings.map(describeReading).join(", ");
+      update(device.deviceId, { lastReading: description, error: null });
+      onReadingsStoredRef.current?.(device, description);
+    },
+    [],
+  );
+
+  /** Decodes one characteristic value, settling streams first */
+  const handleValue = useCallback(
+    (device: BoothDevice, value: DataView) => {
+      const profile = GATT_PROFILES[device.typeKey];
+      let measurement: GattMeasurement;
+      try {
+        measurement = profile.parse(value);
+      } catch (err) {
+        console.error(`[BoothDevices] ${device.name}:`, err);
+        update(device.deviceId, {
+          error: err instanceof Error ? err.message : "Unreadable measurement",
+        });
+        return;
+      }
+
+      if (profile.streaming) {
+        if (measurement.readings.length === 0) return;
+        const samples = [
+          ...(streamSamples.current.get(device.deviceId) ?? []),
+          measurement,
+        ];
+        if (samples.length < STREAM_SAMPLE_COUNT) {
+          streamSamples.current.set(device.deviceId, samples);
+          return;
+        }
+        streamSamples.current.delete(device.deviceId);
+        measurement = settleStream(samples);
+      }
+
+      submit(device, measurement).catch((err) => {
+        console.error(`[BoothDevices] Failed to store readings:`, err);
+        update(device.deviceId, { error: "Failed to store readings" });
+      });
+    },
+    [submit],
+  );
+
+  /** Pairs the peripheral over Bluetooth; must be called from a click */
+  const connect = useCallback(
+    async (device: BoothDevice) => {
+      update(device.deviceId, { status: "connecting", error: null });
+      try {
+        const disconnect = await connectGattDevice(
+          GATT_PROFILES[device.typeKey],
+          (value) => handleValue(device, value),
+          () => {
+            disconnectors.current.delete(device.deviceId);
+            update(device.deviceId, { status: "idle" });
+          },
+        );
+        disconnectors.current.set(device.deviceId, disconnect);
+        update(device.deviceId, { status: "connected" });
+      } catch (err) {
+        update(device.deviceId, {
+          status: "error",
+          error: err instanceof Error ? err.message : "Could not connect",
+        });
+      }
+    },
+    [handleValue],
+  );
+
+  /**
+   * Feeds the device type's recorded packets through the same path as a
+   * live device, for trying the booth without hardware.
+   */
+  const replay = useCallback(
+    async (device: BoothDevice) => {
+      // A stream only stores a value once it has enough samples, so each
+      // recorded packet is repeated as a steady stream
+      const repeats = GATT_PROFILES[device.typeKey].streaming
+        ? STREAM_SAMPLE_COUNT
+        : 1;
+
+      for (const packet of RECORDED_PACKETS[device.typeKey]) {
+        for (let i = 0; i < repeats; i++) {
+          handleValue(device, hexToDataView(packet.hex));
+        }
+        await new Promise((resolve) => setTimeout(resolve, REPLAY_INTERVAL_MS));
+      }
+    },
+    [handleValue],
+  );
+
+  return { devices, connect, replay };
+}
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  KIOSK_HEARTBEAT_INTERVAL_MS,
+  type ComponentHealth,
+  type KioskHealth,
+  type KioskStatus,
+} from "~/lib/kiosks";
+import type { BoothDeviceState } from "~/lib/hooks/useBoothDevices";
+import { api } from "~/trpc/react";
+
+const DEVICE_HEALTH: Record<
+  BoothDeviceState["status"],
+  KioskHealth["devices"][number]["status"]
+> = {
+  idle: "disconnected",
+  connecting: "disconnected",
+  connected: "connected",
+  error: "error",
+};
+
+/** Whether the booth can use its camera or microphone */
+async function checkComponent(
+  permission: "camera" | "microphone",
+  kind: MediaDeviceKind,
+): Promise<ComponentHealth> {
+  try {
+    const { state } = await navigator.permissions.query({
+      name: permission as PermissionName,
+    });
+    if (state === "denied") return "denied";
+  } catch {
+    // Not every browser can query camera and microphone permissions
+  }
+  if (!navigator.mediaDevices) return "unavailable";
+  const inputs = await navigator.mediaDevices.enumerateDevices();
+  return inputs.some((input) => input.kind === kind) ? "ok" : "unavailable";
+}
+
+interface UseKioskHeartbeatProps {
+  /** Only an enrolled booth sends heartbeats */
+  enabled: boolean;
+  devices: BoothDeviceState[];
+}
+
+/**
+ * Reports the booth as alive every KIOSK_HEARTBEAT_INTERVAL_MS, with its app
+ * version and the health of its camera, microphone and paired devices.
+ * `status` is the booth's status as of the last heartbeat.
+ */
+export function useKioskHeartbeat({
+  enabled,
+  devices,
+}: UseKioskHeartbeatProps) {
+  const [status, setStatus] = useState<KioskStatus | null>(null);
+  const { mutateAsync: sendHeartbeat } = api.kiosk.heartbeat.useMutation();
+
+  // Keep the latest values without restarting the interval
+  const latest = useRef({ devices, sendHeartbeat });
+  latest.current = { devices, sendHeartbeat };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const beat = async () => {
+      const [camera, microphone] = await Promise.all([
+        checkComponent("camera", "videoinput"),
+        checkComponent("microphone", "audioinput"),
+      ]);
+      const result = await latest.current.sendHeartbeat({
+        appVersion: process.env.NEXT_PUBLIC_APP_VERSION ?? "unknown",
+        health: {
+          camera,
+          microphone,
+          devices: latest.current.devices.map((device) => ({
+            deviceId: device.deviceId,
+            status: DEVICE_HEALTH[device.status],
+          })),
+        },
+      });
+      if (!cancelled) setStatus(result.status);
+    };
+
+    const beatSafely = () => {
+      beat().catch((err) => console.error("[Kiosk] Heartbeat failed:", err));
+    };
+    beatSafely();
+    const timer = setInterval(beatSafely, KIOSK_HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled]);
+
+  return { status };
+}
@@ -15,10 +15,13 @@ export function useKioskSession({
   const [kioskId, setKioskId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  // Get or create kiosk query
-  const { data: kioskData } = api.kiosk.getOrCreateKiosk.useQuery(undefined, {
-    retry: 2,
-  });
+  // The booth this browser is enrolled as; fails until it is enrolled
+  const { data: kioskData, error: kioskError } = api.kiosk.current.useQuery(
+    undefined,
+    { retry: false },
+  );
+  const isEnrolled = !!kioskData;
+  const needsEnrollment = kioskError?.data?.code === "UNAUTHORIZED";
 
   // Set kiosk ID when data is available
   useEffect(() => {
@@ -55,20 +58,19 @@ export function useKioskSession({
       }
 
       if (!kioskId) {
-        throw new Error("No kiosk available");
+        throw new Error("This booth is not enrolled");
       }
 
-      // Create a new session
-      await createSession.mutateAsync({
-        kioskId,
-        userId,
-      });
+      // Create a new session at the booth the kiosk credential belongs to
+      const session = await createSession.mutateAsync({ userId });
+      return session.id;
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to start consultation";
       setError(errorMessage);
       onError?.(errorMessage);
       setIsCreatingSession(false);
+      return null;
     }
   };
 
@@ -80,13 +82,10 @@ export function useKioskSession({
     }
 
     if (!kioskId) {
-      throw new Error("No kiosk available");
+      throw new Error("This booth is not enrolled");
     }
 
-    const session = await createSession.mutateAsync({
-      kioskId,
-      userId,
-    });
+    const session = await createSession.mutateAsync({ userId });
 
     return session.id;
   };
@@ -103,6 +102,9 @@ export function useKioskSession({
     isCreatingSession,
     sessionId,
     kioskId,
+    kioskStatus: kioskData?.status ?? null,
+    isEnrolled,
+    needsEnrollment,
     error,
   };
 }
@@ -2,6 +2,23 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useConversation, Message } from "../context/ConversationContext";
+import { api, type RouterInputs } from "~/trpc/react";
+import {
+  toolsSessionUpdate,
+  type RealtimeToolDescriptor,
+  type RealtimeToolResult,
+} from "~/lib/realtimeTools";
+
+type RealtimeEndReason = NonNullable<RouterInputs["realtime"]["end"]["reason"]>;
+
+/** Backoff for re-establishing a dropped voice link: 1s, 2s, 4s, ... up to 15s */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+/** A "disconnected" peer connection often recovers by itself; wait this long first */
+const DISCONNECTED_GRACE_MS = 5000;
+/** Most recent messages replayed into a new realtime session on reconnect */
+const REPLAY_MESSAGE_LIMIT = 60;
 
 interface WebRTCState {
   isConnected: boolean;
@@ -9,43 +26,55 @@ interface WebRTCState {
   error: string | null;
   isMuted: boolean;
   isConnecting: boolean;
+  /** Set while a dropped connection is being re-established */
+  isReconnecting: boolean;
+  reconnectAttempt: number;
 }
 
+const INITIAL_STATE: WebRTCState = {
+  isConnected: false,
+  isLoading: false,
+  error: null,
+  isMuted: false,
+  isConnecting: false,
+  isReconnecting: false,
+  reconnectAttempt: 0,
+};
+
 interface WebRTCMessage {
   type: string;
   response?: {
     modalities?: string[];
     instructions?: string;
   };
-  session?: {
-    tools: {
-      type: string;
-      name: string;
-      description: string;
-      parameters: {
-        type: string;
-        properties: Record<string, unknown>;
-        required: string[];
-      };
-    }[];
-    tool_choice: string;
-  };
+  session?: ReturnType<typeof toolsSessionUpdate>["session"];
   item?: {
     type: string;
     call_id?: string;
     output?: string;
     role?: string;
-    content?: {
-      type: string;
-      text: string;
-    };
+    content?:
+      | {
+          type: string;
+          text: string;
+        }
+      | {
+          type: string;
+          text: string;
+        }[];
   };
 }
 
 interface SessionResponse {
+  model: string;
   client_secret: {
     value: string;
   };
+  /** Server-side record of this connection; kept alive by heartbeats */
+  realtimeSessionId: string;
+  heartbeatIntervalMs: number;
+  /** Tools the agent may call, registered via session.update */
+  tools: RealtimeToolDescriptor[];
 }
 
 export interface WebRTCEvent {
@@ -61,26 +90,26 @@ export interface WebRTCEvent {
   response?: {
     output?: Array<{
       type: string;
+      role?: string;
       text?: string;
       name?: string;
       arguments?: string;
       call_id?: string;
       id?: string;
+      content?: Array<{
+        type: string;
+        text?: string;
+        transcript?: string;
+      }>;
     }>;
   };
   error?: string;
 }
 
-interface ReasonResponse {
-  success: boolean;
-  analysis?: string;
-  error?: string;
-}
-
 interface WebRTCHook extends WebRTCState {
   messages: Message[];
-  connect: (userName?: string) => Promise<void>;
-  disconnect: () => void;
+  connect: (sessionId: string) => Promise<void>;
+  disconnect: (reason?: RealtimeEndReason) => void;
   sendMessage: (message: WebRTCMessage) => void;
   sendUserMessage: (text: string) => void;
   toggleMic: () => Promise<void>;
@@ -91,35 +120,72 @@ interface WebRTCHook extends WebRTCState {
 
 export const useWebRTC = (): WebRTCHook => {
   const { state, addMessage, clearMessages } = useConversation();
-  const [webRTCState, setWebRTCState] = useState<WebRTCState>({
-    isConnected: false,
-    isLoading: false,
-    error: null,
-    isMuted: false,
-    isConnecting: false,
-  });
+  const [webRTCState, setWebRTCState] = useState<WebRTCState>(INITIAL_STATE);
 
   const peerConnection = useRef<RTCPeerConnection | null>(null);
   const dataChannel = useRef<RTCDataChannel | null>(null);
   const audioElement = useRef<HTMLAudioElement | null>(null);
   const audioStream = useRef<MediaStream | null>(null);
   const conversationRef = useRef<Message[]>(state.messages);
+  const realtimeSessionId = useRef<string | null>(null);
+  const heartbeatTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const { mutateAsync: sendRealtimeHeartbeat } =
+    api.realtime.heartbeat.useMutation();
+  const { mutate: endRealtime } = api.realtime.end.useMutation();
+
+  /** Stops the heartbeat and records why the connection ended */
+  const stopRealtimeTracking = (reason: RealtimeEndReason) => {
+    if (heartbeatTimer.current) {
+      clearInterval(heartbeatTimer.current);
+      heartbeatTimer.current = null;
+    }
+    if (realtimeSessionId.current) {
+      endRealtime({ realtimeSessionId: realtimeSessionId.current, reason });
+      realtimeSessionId.current = null;
+    }
+  };
+
+  const startRealtimeTracking = (id: string, intervalMs: number) => {
+    realtimeSessionId.current = id;
+    heartbeatTimer.current = setInterval(() => {
+      sendRealtimeHeartbeat({ realtimeSessionId: id })
+        .then(({ active }) => {
+          // Closed server-side, e.g. by the sweeper after an outage
+          if (!active && realtimeSessionId.current === id) {
+            console.warn("[WebRTC] Realtime session closed by the server");
+            stopRealtimeTracking("stale");
+          }
+        })
+        .catch((error) => {
+          console.warn("[WebRTC] Heartbeat failed:", error);
+        });
+    }, intervalMs);
+  };
+
+  // Tools offered to the model for this connection, and the kiosk session
+  // their calls run against
+  const toolsRef = useRef(new Map<string, RealtimeToolDescriptor>());
+  const kioskSessionId = useRef<string | null>(null);
+  // Call ids already being handled, and how many running calls need the mic muted
+  const toolCallsInFlight = useRef(new Set<string>());
+  const mutingToolCalls = useRef(0);
 
-  // Track pending medical reasoning calls using both state and ref
-  const [pendingMedicalReasoningCalls, setPendingMedicalReasoningCalls] =
-    useState<string[]>([]);
-  const pendingCallsRef = useRef<string[]>([]);
+  const { mutateAsync: callTool } = api.realtime.callTool.useMutation();
+  const { mutate: logReconnect } = api.realtime.logReconnect.useMutation();
+
+  // Reconnection: set when the patient or the page hangs up on purpose, so a
+  // closing connection isn't mistaken for a dropped one
+  const intentionalDisconnect = useRef(false);
+  const reconnectAttempts = useRef(0);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const disconnectedTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Keep conversationRef up to date with latest messages
   useEffect(() => {
     conversationRef.current = state.messages;
   }, [state.messages]);
 
-  // Keep pendingCallsRef in sync with state
-  useEffect(() => {
-    pendingCallsRef.current = pendingMedicalReasoningCalls;
-  }, [pendingMedicalReasoningCalls]);
-
   const toggleMic = async () => {
     if (audioStream.current) {
       const audioTracks = audioStream.current.getAudioTracks();
@@ -130,18 +196,19 @@ export const useWebRTC = (): WebRTCHook => {
     }
   };
 
-  const initializeConnection = async (userName?: string) => {
+  const initializeConnection = async (
+    sessionId: string,
+    { resume = false }: { resume?: boolean } = {},
+  ) => {
     try {
       console.debug(
-        "[WebRTC] Initializing connection with userName:",
-        userName,
+        "[WebRTC] Initializing connection for session:",
+        sessionId,
       );
 
-      // Construct URL with userName parameter if provided
+      // The server builds the agent's instructions from the kiosk session
       const url = new URL("/api/session", window.location.origin);
-      if (userName?.trim()) {
-        url.searchParams.append("userName", userName.trim());
-      }
+      url.searchParams.append("sessionId", sessionId);
       console.debug("[WebRTC] Session URL:", url.toString());
 
       const tokenResponse = await fetch(url);
@@ -149,7 +216,15 @@ export const useWebRTC = (): WebRTCHook => {
         throw new Error("Failed to get session token");
       }
 
-      const { client_secret } = (await tokenResponse.json()) as SessionResponse;
+      const {
+        client_secret,
+        model,
+        realtimeSessionId,
+        heartbeatIntervalMs,
+        tools,
+      } = (await tokenResponse.json()) as SessionResponse;
+      kioskSessionId.current = sessionId;
+      toolsRef.current = new Map(tools.map((tool) => [tool.name, tool]));
 
       const EPHEMERAL_KEY = client_secret.value;
 
@@ -157,16 +232,67 @@ export const useWebRTC = (): WebRTCHook => {
         throw new Error("Failed to get valid ephemeral key");
       }
 
+      startRealtimeTracking(realtimeSessionId, heartbeatIntervalMs);
+
       // Create peer connection
       const pc = new RTCPeerConnection();
       peerConnection.current = pc;
 
+      pc.onconnectionstatechange = () => {
+        // Ignore connections that have already been replaced
+        if (peerConnection.current !== pc) return;
+
+        if (disconnectedTimer.current) {
+          clearTimeout(disconnectedTimer.current);
+          disconnectedTimer.current = null;
+        }
+
+        if (pc.connectionState === "failed") {
+          console.error("[WebRTC] Peer connection failed");
+          handleConnectionLost("peer connection failed");
+        } else if (pc.connectionState === "disconnected") {
+          disconnectedTimer.current = setTimeout(() => {
+            if (
+              peerConnection.current === pc &&
+              pc.connectionState === "disconnected"
+            ) {
+              handleConnectionLost("peer connection disconnected");
+            }
+          }, DISCONNECTED_GRACE_MS);
+        }
+      };
+
       // Set up data channel
       const dc = pc.createDataChannel("oai-events");
       dataChannel.current = dc;
 
       dc.onopen = () => {
-        setWebRTCState((prev) => ({ ...prev, isConnected: true }));
+        setWebRTCState((prev) => ({
+          ...prev,
+          isConnected: true,
+          isConnecting: false,
+          isReconnecting: false,
+          reconnectAttempt: 0,
+          error: null,
+        }));
+        dc.send(JSON.stringify(toolsSessionUpdate(tools)));
+
+        if (resume) {
+          replayConversation();
+          logReconnect({
+            sessionId,
+            realtimeSessionId,
+            event: "reconnected",
+            attempt: reconnectAttempts.current,
+          });
+          reconnectAttempts.current = 0;
+        }
+      };
+
+      dc.onclose = () => {
+        if (peerConnection.current === pc) {
+          handleConnectionLost("data channel closed");
+        }
       };
 
       dc.onmessage = (e: MessageEvent<string>) => {
@@ -214,22 +340,6 @@ export const useWebRTC = (): WebRTCHook => {
                   "[WebRTC] Skipped adding duplicate transcription message",
                 );
               }
-
-              // Process any pending medical reasoning calls
-              if (pendingCallsRef.current.length > 0) {
-                console.debug(
-                  "[WebRTC] We have pending calls:",
-                  pendingCallsRef.current,
-                );
-                pendingCallsRef.current.forEach((callId) => {
-                  void doMedicalReasoning(
-                    callId,
-                    isDuplicate ? undefined : newMessage,
-                  );
-                });
-                setPendingMedicalReasoningCalls([]);
-                pendingCallsRef.current = [];
-              }
             }
             break;
           }
@@ -278,29 +388,18 @@ export const useWebRTC = (): WebRTCHook => {
             console.debug("[WebRTC] response.done event:", event.response);
             if (event.response?.output) {
               event.response.output.forEach((outputItem) => {
-                if (
-                  outputItem.type === "function_call" &&
-                  outputItem.name === "medical_reasoning"
-                ) {
+                if (outputItem.type === "function_call" && outputItem.name) {
                   const callId = outputItem.call_id ?? outputItem.id;
                   console.debug(
-                    "[WebRTC] Detected function_call for medical_reasoning, callId:",
+                    `[WebRTC] Detected function_call for ${outputItem.name}, callId:`,
                     callId,
                   );
                   if (callId) {
-                    setPendingMedicalReasoningCalls((prev) => [
-                      ...prev,
+                    void handleToolCall(
                       callId,
-                    ]);
-                    pendingCallsRef.current.push(callId);
-
-                    // Mute ourselves
-                    if (audioStream.current) {
-                      audioStream.current
-                        .getAudioTracks()
-                        .forEach((track) => (track.enabled = false));
-                      setWebRTCState((prev) => ({ ...prev, isMuted: true }));
-                    }
+                      outputItem.name,
+                      outputItem.arguments ?? "{}",
+                    );
                   }
                 } else if (outputItem.type === "text" && outputItem.text) {
                   console.debug(
@@ -308,6 +407,22 @@ export const useWebRTC = (): WebRTCHook => {
                     outputItem.text,
                   );
                   addMessage("assistant", outputItem.text.trim());
+                } else if (
+                  outputItem.type === "message" &&
+                  outputItem.role === "assistant"
+                ) {
+                  // Spoken responses carry their words as audio transcripts
+                  const spoken = (outputItem.content ?? [])
+                    .map((part) => part.transcript ?? part.text ?? "")
+                    .join(" ")
+                    .trim();
+                  console.debug(
+                    "[WebRTC] response.done -> assistant message:",
+                    spoken,
+                  );
+                  if (spoken) {
+                    addMessage("assistant", spoken);
+                  }
                 }
               });
             }
@@ -348,7 +463,6 @@ export const useWebRTC = (): WebRTCHook => {
 
       // Send offer to server and get answer
       const baseUrl = "https://api.openai.com/v1/realtime";
-      const model = "gpt-4o-realtime-preview-2024-12-17";
       const sdpResponse = await fetch(`${baseUrl}?model=${model}`, {
         method: "POST",
         body: offer.sdp,
@@ -367,6 +481,9 @@ export const useWebRTC = (): WebRTCHook => {
       setWebRTCState((prev) => ({ ...prev, isLoading: false }));
     } catch (error) {
       console.error("[WebRTC] Initialization error:", error);
+      stopRealtimeTracking("connectionFailed");
+      // A failed reconnect attempt is retried by handleConnectionLost
+      if (resume) throw error;
       setWebRTCState((prev) => ({
         ...prev,
         error:
@@ -380,11 +497,151 @@ export const useWebRTC = (): WebRTCHook => {
     }
   };
 
-  const connect = async (userName?: string) => {
+  /** Closes the current peer connection and microphone without ending the consultation */
+  const teardownPeerConnection = () => {
+    if (disconnectedTimer.current) {
+      clearTimeout(disconnectedTimer.current);
+      disconnectedTimer.current = null;
+    }
+    const pc = peerConnection.current;
+    peerConnection.current = null;
+    dataChannel.current = null;
+    pc?.close();
+    audioStream.current?.getTracks().forEach((track) => track.stop());
+    audioStream.current = null;
+  };
+
+  /**
+   * Replays the conversation so far into a fresh realtime session so the
+   * agent picks up mid-consultation, then asks it to carry on.
+   */
+  const replayConversation = () => {
+    const history = conversationRef.current
+      .filter((message) => message.role !== "system")
+      .slice(-REPLAY_MESSAGE_LIMIT);
+    console.debug(`[WebRTC] Replaying ${history.length} messages`);
+
+    for (const message of history) {
+      sendMessage({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: message.role,
+          content: [
+            {
+              type: message.role === "user" ? "input_text" : "text",
+              text: message.content,
+            },
+          ],
+        },
+      });
+    }
+
+    sendMessage({
+      type: "response.create",
+      response: {
+        instructions:
+          "The connection dropped briefly. Apologise in one short sentence, then continue the consultation exactly where you left off. Do not start over or repeat questions that were already answered.",
+      },
+    });
+  };
+
+  /**
+   * Called when the voice link drops. Schedules a reconnect with exponential
+   * backoff, minting a new ephemeral key and realtime session each time,
+   * until MAX_RECONNECT_ATTEMPTS is reached.
+   */
+  const handleConnectionLost = (reason: string) => {
+    const sessionId = kioskSessionId.current;
+    if (intentionalDisconnect.current || reconnectTimer.current || !sessionId) {
+      return;
+    }
+
+    const lostRealtimeSessionId = realtimeSessionId.current ?? undefined;
+    stopRealtimeTracking("connectionFailed");
+    teardownPeerConnection();
+
+    const attempt = reconnectAttempts.current + 1;
+    reconnectAttempts.current = attempt;
+
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      console.error(`[WebRTC] Giving up after ${attempt - 1} reconnect attempts`);
+      logReconnect({
+        sessionId,
+        realtimeSessionId: lostRealtimeSessionId,
+        event: "gaveUp",
+        attempt: attempt - 1,
+        reason,
+      });
+      reconnectAttempts.current = 0;
+      setWebRTCState((prev) => ({
+        ...prev,
+        isConnected: false,
+        isConnecting: false,
+        isReconnecting: false,
+        reconnectAttempt: 0,
+        error: "Connection lost. Please restart the consultation.",
+      }));
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+      RECONNECT_MAX_DELAY_MS,
+    );
+    console.warn(
+      `[WebRTC] Connection lost (${reason}); reconnect attempt ${attempt} in ${delay} ms`,
+    );
+    logReconnect({
+      sessionId,
+      realtimeSessionId: lostRealtimeSessionId,
+      event: attempt === 1 ? "connectionLost" : "reconnecting",
+      attempt,
+      reason,
+    });
+
+    // isConnecting stays set so nothing else starts a parallel connection
+    setWebRTCState((prev) => ({
+      ...prev,
+      isConnected: false,
+      isConnecting: true,
+      isReconnecting: true,
+      reconnectAttempt: attempt,
+      isMuted: false,
+    }));
+
+    reconnectTimer.current = setTimeout(() => {
+      reconnectTimer.current = null;
+      if (intentionalDisconnect.current) return;
+      initializeConnection(sessionId, { resume: true }).catch(() => {
+        handleConnectionLost("reconnect failed");
+      });
+    }, delay);
+  };
+
+  // A sleeping tab can come back with a dead connection and no state event
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      const pc = peerConnection.current;
+      if (
+        document.visibilityState === "visible" &&
+        pc &&
+        (pc.connectionState === "failed" || pc.connectionState === "closed")
+      ) {
+        handleConnectionLost("connection dead after tab resumed");
+      }
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+  });
+
+  const connect = async (sessionId: string) => {
+    intentionalDisconnect.current = false;
+    reconnectAttempts.current = 0;
     try {
       setWebRTCState((prev) => ({ ...prev, isConnecting: true }));
-      // Only pass userName if it exists and isn't empty
-      await initializeConnection(userName?.trim() ?? undefined);
+      await initializeConnection(sessionId);
     } catch (error) {
       console.error("WebRTC connection error:", error);
       setWebRTCState((prev) => ({
@@ -482,20 +739,18 @@ export const useWebRTC = (): WebRTCHook => {
     }
   };
 
-  const disconnect = () => {
-    if (peerConnection.current) {
-      peerConnection.current.close();
+  const disconnect = (reason: RealtimeEndReason = "ended") => {
+    intentionalDisconnect.current = true;
+    if (reconnectTimer.current) {
+      clearTimeout(reconnectTimer.current);
+      reconnectTimer.current = null;
     }
+    stopRealtimeTracking(reason);
+    teardownPeerConnection();
     if (audioElement.current) {
       audioElement.current.srcObject = null;
     }
-    setWebRTCState({
-      isConnected: false,
-      isLoading: false,
-      error: null,
-      isMuted: false,
-      isConnecting: false,
-    });
+    setWebRTCState(INITIAL_STATE);
     clearMessages();
   };
 
@@ -505,82 +760,80 @@ export const useWebRTC = (): WebRTCHook => {
     };
   }, []);
 
-  // NEW: Helper function for medical reasoning
-  async function doMedicalReasoning(callId: string, latestMessage?: Message) {
-    try {
-      console.debug(
-        "[WebRTC] Current messages state before API call:",
-        conversationRef.current,
-      );
-
-      // Combine existing conversation with the latest message
-      const conversation = [
-        ...conversationRef.current,
-        ...(latestMessage ? [latestMessage] : []),
-      ].map((msg) => ({
-        ...msg,
-        timestamp: new Date(msg.timestamp).toISOString(),
-      }));
-
-      console.debug(
-        "[WebRTC] Formatted conversation for reason API:",
-        conversation,
-      );
-
-      if (conversation.length === 0) {
-        throw new Error("No conversation available for analysis");
-      }
-
-      const response = await fetch("/api/reason", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ conversation }),
-      });
-
-      const data = (await response.json()) as ReasonResponse;
-      console.debug("[WebRTC] Reason API response:", data);
-
-      // Unmute the mic after getting the response
-      if (audioStream.current) {
-        const audioTracks = audioStream.current.getAudioTracks();
-        audioTracks.forEach((track) => {
-          track.enabled = true;
-        });
-        setWebRTCState((prev) => ({ ...prev, isMuted: false }));
-      }
+  const setMicEnabled = (enabled: boolean) => {
+    audioStream.current?.getAudioTracks().forEach((track) => {
+      track.enabled = enabled;
+    });
+    setWebRTCState((prev) => ({ ...prev, isMuted: !enabled }));
+  };
 
-      if (data.success && data.analysis) {
-        console.debug("[WebRTC] Sending function call output back to model");
-        sendMessage({
-          type: "conversation.item.create",
-          item: {
-            type: "function_call_output",
-            call_id: callId,
-            output: JSON.stringify({ analysis: data.analysis }),
-          },
-        });
+  /**
+   * Runs a function call from the model on the server and returns the result
+   * as a function_call_output item. Unknown tools, failures and timeouts are
+   * returned to the model as errors so it can carry on.
+   */
+  async function handleToolCall(callId: string, name: string, args: string) {
+    if (toolCallsInFlight.current.has(callId)) return;
+    toolCallsInFlight.current.add(callId);
+
+    const tool = toolsRef.current.get(name);
+    const sessionId = kioskSessionId.current;
+    const mute = tool?.muteMicrophone ?? false;
+
+    if (mute) {
+      mutingToolCalls.current += 1;
+      setMicEnabled(false);
+    }
 
-        console.debug("[WebRTC] Requesting new response from model");
-        sendMessage({
-          type: "response.create",
-        });
+    let result: RealtimeToolResult;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      if (!tool || !sessionId) {
+        result = { ok: false, error: `Unknown tool ${name}` };
       } else {
-        console.error("[WebRTC] Medical reasoning API call failed:", data);
-        addMessage("system", "Medical reasoning tool call failed.");
+        result = await Promise.race([
+          callTool({ sessionId, name, arguments: args, callId }),
+          new Promise<RealtimeToolResult>((resolve) => {
+            timer = setTimeout(
+              () =>
+                resolve({
+                  ok: false,
+                  error: `${name} timed out after ${tool.timeoutMs} ms`,
+                }),
+              tool.timeoutMs,
+            );
+          }),
+        ]);
       }
     } catch (err) {
-      console.error("[WebRTC] Medical reasoning error:", err);
-      addMessage("system", "Error during medical reasoning.");
-
-      // Also unmute the mic in case of error
-      if (audioStream.current) {
-        const audioTracks = audioStream.current.getAudioTracks();
-        audioTracks.forEach((track) => {
-          track.enabled = true;
-        });
-        setWebRTCState((prev) => ({ ...prev, isMuted: false }));
+      console.error(`[WebRTC] Tool ${name} failed:`, err);
+      result = {
+        ok: false,
+        error: err instanceof Error ? err.message : "Tool call failed",
+      };
+    } finally {
+      clearTimeout(timer);
+      toolCallsInFlight.current.delete(callId);
+      if (mute) {
+        mutingToolCalls.current -= 1;
+        if (mutingToolCalls.current === 0) setMicEnabled(true);
       }
     }
+
+    console.debug(`[WebRTC] Tool ${name} result:`, result);
+    if (!result.ok) {
+      addMessage("system", `Tool ${name} failed: ${result.error}`);
+    }
+
+    sendMessage({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: callId,
+        output: JSON.stringify(result.ok ? result.output : { error: result.error }),
+      },
+    });
+    sendMessage({ type: "response.create" });
   }
 
   return {
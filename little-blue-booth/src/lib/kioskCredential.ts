@@ -0,0 +1,13 @@
+// The credential this browser uses as a booth, from enrollment. Sent with
+// every tRPC request in the KIOSK_CREDENTIAL_HEADER.
+
+const STORAGE_KEY = "kioskCredential";
+
+export function loadKioskCredential(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(STORAGE_KEY);
+}
+
+export function saveKioskCredential(credential: string) {
+  window.localStorage.setItem(STORAGE_KEY, credential);
+}
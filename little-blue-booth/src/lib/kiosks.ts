@@ -0,0 +1,58 @@
+// Booth fleet: how a kiosk proves which booth it is, and the heartbeat it
+// sends while running. A booth is enrolled once with a one-time code and
+// then sends its kiosk credential with every request. Its status follows its
+// heartbeats: a booth that stops sending them goes OFFLINE, and comes back
+// ACTIVE with the next one. MAINTENANCE is only set and cleared by staff.
+
+import { z } from "zod";
+
+export const KIOSK_STATUSES = ["ACTIVE", "OFFLINE", "MAINTENANCE"] as const;
+export type KioskStatus = (typeof KIOSK_STATUSES)[number];
+
+/** Request header carrying the kiosk credential */
+export const KIOSK_CREDENTIAL_HEADER = "x-kiosk-credential";
+
+/** The booth sends a heartbeat this often */
+export const KIOSK_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/** A booth with no heartbeat for this long is marked OFFLINE */
+export const KIOSK_OFFLINE_AFTER_MS = 3 * 60 * 1000;
+
+const componentHealthSchema = z.enum(["ok", "unavailable", "denied"]);
+export type ComponentHealth = z.infer<typeof componentHealthSchema>;
+
+export const kioskHealthSchema = z.object({
+  camera: componentHealthSchema,
+  microphone: componentHealthSchema,
+  /** The booth's paired peripherals, as the kiosk page sees them */
+  devices: z
+    .array(
+      z.object({
+        deviceId: z.string().uuid(),
+        status: z.enum(["connected", "disconnected", "error"]),
+      }),
+    )
+    .default([]),
+});
+
+export type KioskHealth = z.infer<typeof kioskHealthSchema>;
+
+export const kioskHeartbeatSchema = z.object({
+  appVersion: z.string().min(1).max(64),
+  health: kioskHealthSchema,
+});
+
+/** Reads Kiosk.health, or null when missing or malformed */
+export const parseKioskHealth = (json: string | null): KioskHealth | null => {
+  if (!json) return null;
+  try {
+    const parsed = kioskHealthSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Codes are shown as XXXX-XXXX; typed input may differ in case and dashes */
+export const normalizeEnrollmentCode = (code: string) =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, "");
@@ -0,0 +1,178 @@
+// Picks a "current" value per marker type when several sources have reported
+// it, keeping the rest as alternatives and flagging real disagreements.
+
+import {
+  MARKER_CATALOGUE,
+  isMarkerType,
+  type MarkerSource,
+  type MarkerType,
+} from "~/lib/healthMarkers";
+
+/**
+ * How much each source is trusted, highest first. A device reading taken at
+ * the booth beats what the patient says, which beats a Google Fit import
+ * that may be days old.
+ */
+const SOURCE_TRUST: Record<MarkerSource | "unknown", number> = {
+  device: 4,
+  manual: 3,
+  llmExtraction: 2,
+  googleFit: 1,
+  unknown: 0,
+};
+
+/** The subset of a HealthMarker row reconciliation needs */
+export interface MarkerObservation {
+  id: string;
+  markerType: string;
+  data: string;
+  unit: string | null;
+  source: string;
+  flagReason: string | null;
+  capturedAt: Date | string;
+}
+
+export type MarkerValue =
+  | { value: number }
+  | { systolic: number; diastolic: number };
+
+export interface ReconciledObservation {
+  id: string;
+  source: string;
+  value: MarkerValue;
+  unit: string | null;
+  flagReason: string | null;
+  capturedAt: string;
+}
+
+export interface ReconciledMarker {
+  markerType: MarkerType;
+  current: ReconciledObservation;
+  /** The latest observation from each other source */
+  alternatives: ReconciledObservation[];
+  /** Set when an alternative differs from `current` by more than the tolerance */
+  conflict: string | null;
+}
+
+const trustOf = (source: string) =>
+  SOURCE_TRUST[source as MarkerSource] ?? SOURCE_TRUST.unknown;
+
+const parseValue = (data: string): MarkerValue | null => {
+  try {
+    const parsed = JSON.parse(data) as Partial<Record<string, unknown>>;
+    if (typeof parsed.value === "number") return { value: parsed.value };
+    if (
+      typeof parsed.systolic === "number" &&
+      typeof parsed.diastolic === "number"
+    ) {
+      return { systolic: parsed.systolic, diastolic: parsed.diastolic };
+    }
+  } catch {
+    // Not a catalogue payload
+  }
+  return null;
+};
+
+export const formatMarkerValue = (value: MarkerValue, unit: string | null) =>
+  "value" in value
+    ? `${value.value}${unit ? ` ${unit}` : ""}`
+    : `${value.systolic}/${value.diastolic}${unit ? ` ${unit}` : ""}`;
+
+/** How each source is described in conflict messages read by the agent */
+const SOURCE_DESCRIPTIONS: Record<string, string> = {
+  device: "from the booth device",
+  manual: "entered manually",
+  llmExtraction: "as stated by the patient",
+  googleFit: "from Google Fit",
+};
+
+const describeObservation = (observation: ReconciledObservation) =>
+  `${formatMarkerValue(observation.value, observation.unit)} ${SOURCE_DESCRIPTIONS[observation.source] ?? `from ${observation.source}`}`;
+
+const differsBeyond = (a: MarkerValue, b: MarkerValue, tolerance: number) => {
+  if ("value" in a && "value" in b) {
+    return Math.abs(a.value - b.value) > tolerance;
+  }
+  if ("systolic" in a && "systolic" in b) {
+    return (
+      Math.abs(a.systolic - b.systolic) > tolerance ||
+      Math.abs(a.diastolic - b.diastolic) > tolerance
+    );
+  }
+  return true;
+};
+
+/**
+ * Orders observations so the preferred one comes first: unflagged before
+ * flagged, then by source trust, then most recent.
+ */
+const compareObservations = (
+  a: ReconciledObservation,
+  b: ReconciledObservation,
+) =>
+  Number(a.flagReason !== null) - Number(b.flagReason !== null) ||
+  trustOf(b.source) - trustOf(a.source) ||
+  new Date(b.capturedAt).getTime() - new Date(a.capturedAt).getTime();
+
+/**
+ * Reconciles every catalogue marker in `observations`. All observations are
+ * kept; within a source only the latest counts, so a corrected value
+ * replaces a misheard one.
+ */
+export function reconcileMarkers(
+  observations: MarkerObservation[],
+): ReconciledMarker[] {
+  const latestBySource = new Map<MarkerType, Map<string, ReconciledObservation>>();
+
+  for (const observation of observations) {
+    if (!isMarkerType(observation.markerType)) continue;
+    const value = parseValue(observation.data);
+    if (!value) continue;
+
+    const candidate: ReconciledObservation = {
+      id: observation.id,
+      source: observation.source,
+      value,
+      unit: observation.unit,
+      flagReason: observation.flagReason,
+      capturedAt: new Date(observation.capturedAt).toISOString(),
+    };
+
+    const bySource =
+      latestBySource.get(observation.markerType) ??
+      new Map<string, ReconciledObservation>();
+    const previous = bySource.get(observation.source);
+    if (!previous || previous.capturedAt <= candidate.capturedAt) {
+      bySource.set(observation.source, candidate);
+    }
+    latestBySource.set(observation.markerType, bySource);
+  }
+
+  const reconciled: ReconciledMarker[] = [];
+
+  for (const [markerType, bySource] of latestBySource) {
+    const [current, ...alternatives] = [...bySource.values()].sort(
+      compareObservations,
+    );
+    if (!current) continue;
+
+    const { tolerance, label } = MARKER_CATALOGUE[markerType];
+    const disagreeing = alternatives.filter((alternative) =>
+      differsBeyond(current.value, alternative.value, tolerance),
+    );
+
+    reconciled.push({
+      markerType,
+      current,
+      alternatives,
+      conflict:
+        disagreeing.length > 0
+          ? `${label} recorded as ${describeObservation(current)} but also ${disagreeing
+              .map(describeObservation)
+              .join(" and ")}`
+          : null,
+    });
+  }
+
+  return reconciled;
+}
@@ -0,0 +1,255 @@
+// A patient's record across all of their kiosk sessions: one value per
+// marker per visit, earlier summaries and diagnoses, and trend flags for
+// changes that only show up between visits. Pure, so the agent prompt, the
+// summary and the "My history" page flag the same trends.
+
+import { MARKER_CATALOGUE, type MarkerType } from "~/lib/healthMarkers";
+import {
+  formatMarkerValue,
+  type MarkerValue,
+  type ReconciledMarker,
+} from "~/lib/markerReconciliation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A marker's reconciled value at one visit */
+export interface HistoryPoint {
+  sessionId: string;
+  /** ISO time the value was captured */
+  date: string;
+  value: MarkerValue;
+  unit: string | null;
+  source: string;
+}
+
+export interface MarkerHistory {
+  markerType: MarkerType;
+  label: string;
+  /** Oldest first */
+  points: HistoryPoint[];
+}
+
+export interface HistoryDiagnosis {
+  diagnosis: string;
+  likelihood: string;
+}
+
+export interface HistorySession {
+  id: string;
+  /** ISO start of the session */
+  date: string;
+  kioskLocation: string | null;
+  ended: boolean;
+  /** Latest consultation summary, if one was written */
+  summary: string | null;
+  /** Differentials from the latest clinical note */
+  diagnoses: HistoryDiagnosis[];
+}
+
+export interface HistoryTrendFlag {
+  markerType: MarkerType;
+  label: string;
+  direction: "up" | "down";
+  /** e.g. "Weight up 5.2 kg in 3 months (80 kg to 85.2 kg)" */
+  message: string;
+  from: HistoryPoint;
+  to: HistoryPoint;
+}
+
+export interface PatientHistory {
+  /** Newest first */
+  sessions: HistorySession[];
+  markers: MarkerHistory[];
+  trendFlags: HistoryTrendFlag[];
+}
+
+/** Flags a change of at least `minChange` within `windowDays` */
+interface ChangeRule {
+  kind: "change";
+  markerType: MarkerType;
+  minChange: number;
+  windowDays: number;
+}
+
+/**
+ * Flags a value that has risen at each of at least `minVisits` consecutive
+ * visits, ending at the latest, by `minRise` overall. Blood pressure rises
+ * when either systolic or diastolic does.
+ */
+interface RisingRule {
+  kind: "rising";
+  markerType: MarkerType;
+  minVisits: number;
+  minRise: number;
+}
+
+type TrendRule = ChangeRule | RisingRule;
+
+export const HISTORY_TREND_RULES: TrendRule[] = [
+  { kind: "change", markerType: "weight", minChange: 5, windowDays: 90 },
+  { kind: "change", markerType: "bmi", minChange: 2, windowDays: 180 },
+  { kind: "rising", markerType: "bloodPressure", minVisits: 3, minRise: 10 },
+  { kind: "rising", markerType: "glucose", minVisits: 3, minRise: 1 },
+  { kind: "rising", markerType: "heartRate", minVisits: 3, minRise: 10 },
+];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const describeSpan = (from: HistoryPoint, to: HistoryPoint) => {
+  const days = Math.round(
+    (new Date(to.date).getTime() - new Date(from.date).getTime()) / DAY_MS,
+  );
+  if (days < 14) return `${days} days`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  const months = Math.round(days / 30);
+  return months === 1 ? "1 month" : `${months} months`;
+};
+
+const describePoint = (point: HistoryPoint) =>
+  formatMarkerValue(point.value, point.unit);
+
+const scalar = (point: HistoryPoint) =>
+  "value" in point.value ? point.value.value : null;
+
+/** The largest change between the latest point and one within the window */
+function checkChange(
+  rule: ChangeRule,
+  history: MarkerHistory,
+): HistoryTrendFlag | null {
+  const latest = history.points.at(-1);
+  const latestValue = latest ? scalar(latest) : null;
+  if (!latest || latestValue === null) return null;
+
+  const windowStart =
+    new Date(latest.date).getTime() - rule.windowDays * DAY_MS;
+  let best: { point: HistoryPoint; change: number } | null = null;
+  for (const point of history.points.slice(0, -1)) {
+    const value = scalar(point);
+    if (value === null || new Date(point.date).getTime() < windowStart) {
+      continue;
+    }
+    const change = latestValue - value;
+    if (!best || Math.abs(change) > Math.abs(best.change)) {
+      best = { point, change };
+    }
+  }
+  if (!best || Math.abs(best.change) < rule.minChange) return null;
+
+  const direction = best.change > 0 ? "up" : "down";
+  const unit = MARKER_CATALOGUE[rule.markerType].unit;
+  return {
+    markerType: rule.markerType,
+    label: history.label,
+    direction,
+    message: `${history.label} ${direction} ${round(Math.abs(best.change))} ${unit} in ${describeSpan(best.point, latest)} (${describePoint(best.point)} to ${describePoint(latest)})`,
+    from: best.point,
+    to: latest,
+  };
+}
+
+/** The values a rising rule follows; systolic and diastolic separately */
+const risingSeries = (point: HistoryPoint): number[] =>
+  "value" in point.value
+    ? [point.value.value]
+    : [point.value.systolic, point.value.diastolic];
+
+function checkRising(
+  rule: RisingRule,
+  history: MarkerHistory,
+): HistoryTrendFlag | null {
+  const { points } = history;
+  const latest = points.at(-1);
+  if (!latest) return null;
+
+  for (let series = 0; series < risingSeries(latest).length; series++) {
+    const values = points.map((point) => risingSeries(point)[series] ?? NaN);
+    let start = values.length - 1;
+    while (start > 0 && (values[start - 1] ?? NaN) < (values[start] ?? NaN)) {
+      start--;
+    }
+
+    const from = points[start];
+    const visits = points.length - start;
+    const rise = (values.at(-1) ?? NaN) - (values[start] ?? NaN);
+    if (!from || visits < rule.minVisits || !(rise >= rule.minRise)) continue;
+
+    return {
+      markerType: rule.markerType,
+      label: history.label,
+      direction: "up",
+      message: `${history.label} rising over ${visits} visits (${describePoint(from)} to ${describePoint(latest)} in ${describeSpan(from, latest)})`,
+      from,
+      to: latest,
+    };
+  }
+  return null;
+}
+
+/** Applies HISTORY_TREND_RULES to each marker's history */
+export function detectHistoryTrends(
+  markers: MarkerHistory[],
+): HistoryTrendFlag[] {
+  return HISTORY_TREND_RULES.flatMap((rule) => {
+    const history = markers.find((m) => m.markerType === rule.markerType);
+    if (!history || history.points.length < 2) return [];
+    const flag =
+      rule.kind === "change"
+        ? checkChange(rule, history)
+        : checkRising(rule, history);
+    return flag ? [flag] : [];
+  });
+}
+
+/**
+ * Builds each marker's history from the reconciled markers of every
+ * session, given oldest first. A session contributes at most one point per
+ * marker.
+ */
+export function buildMarkerHistories(
+  sessions: { sessionId: string; markers: ReconciledMarker[] }[],
+): MarkerHistory[] {
+  const byType = new Map<MarkerType, HistoryPoint[]>();
+  for (const { sessionId, markers } of sessions) {
+    for (const { markerType, current } of markers) {
+      const points = byType.get(markerType) ?? [];
+      points.push({
+        sessionId,
+        date: current.capturedAt,
+        value: current.value,
+        unit: current.unit,
+        source: current.source,
+      });
+      byType.set(markerType, points);
+    }
+  }
+
+  return [...byType].map(([markerType, points]) => ({
+    markerType,
+    label: MARKER_CATALOGUE[markerType].label,
+    points: points.sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+    ),
+  }));
+}
+
+/**
+ * The history as plain-text lines for a prompt: trend flags and earlier
+ * diagnoses, leaving out `excludeSessionId` (usually the current session).
+ */
+export function describePatientHistory(
+  history: PatientHistory,
+  excludeSessionId?: string,
+): string[] {
+  const lines = history.trendFlags.map((flag) => `Trend: ${flag.message}`);
+  for (const session of history.sessions) {
+    if (session.id === excludeSessionId || session.diagnoses.length === 0) {
+      continue;
+    }
+    lines.push(
+      `Diagnoses on ${session.date.slice(0, 10)}: ${session.diagnoses
+        .map((d) => `${d.diagnosis} (${d.likelihood})`)
+        .join(", ")}`,
+    );
+  }
+  return lines;
+}
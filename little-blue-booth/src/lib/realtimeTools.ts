@@ -0,0 +1,42 @@
+// Shapes shared by the kiosk and the server for tools the realtime voice
+// agent can call. The server owns the registry (src/server/realtime/tools)
+// and hands the kiosk these descriptors with each realtime session.
+
+/** JSON schema for a tool's arguments, as the realtime API expects */
+export interface ToolParametersSchema {
+  type: "object";
+  properties: Record<string, unknown>;
+  required: string[];
+  additionalProperties?: boolean;
+}
+
+/** Everything the kiosk needs to offer a tool to the model and run it */
+export interface RealtimeToolDescriptor {
+  /** snake_case name the model calls the tool by */
+  name: string;
+  description: string;
+  parameters: ToolParametersSchema;
+  /** The kiosk answers the model with an error after this long */
+  timeoutMs: number;
+  /** Mute the patient's microphone while the tool runs */
+  muteMicrophone: boolean;
+}
+
+/** The `session.update` event that registers `tools` with the model */
+export const toolsSessionUpdate = (tools: RealtimeToolDescriptor[]) => ({
+  type: "session.update",
+  session: {
+    tools: tools.map(({ name, description, parameters }) => ({
+      type: "function",
+      name,
+      description,
+      parameters,
+    })),
+    tool_choice: "auto",
+  },
+});
+
+/** The result of a tool call, returned to the model as function_call_output */
+export type RealtimeToolResult =
+  | { ok: true; output: unknown }
+  | { ok: false; error: string };
@@ -0,0 +1,113 @@
+// Next steps for the patient after a consultation (Recommendation), and the
+// referrals some of them lead to (Referral). Recommendations are generated
+// from the final assessment; referrals then move through a small lifecycle
+// as staff book or cancel them.
+
+import { z } from "zod";
+
+export const RECOMMENDATION_CATEGORIES = [
+  "selfCare",
+  "pharmacy",
+  "gp",
+  "emergency",
+] as const;
+export type RecommendationCategory = (typeof RECOMMENDATION_CATEGORIES)[number];
+
+export const CATEGORY_LABELS: Record<RecommendationCategory, string> = {
+  selfCare: "Self-care",
+  pharmacy: "Pharmacy",
+  gp: "GP",
+  emergency: "A&E",
+};
+
+/** Lowest first */
+export const RECOMMENDATION_PRIORITIES = ["routine", "soon", "urgent"] as const;
+export type RecommendationPriority = (typeof RECOMMENDATION_PRIORITIES)[number];
+
+/** What the model writes for each recommendation */
+export const recommendationDraftSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(RECOMMENDATION_CATEGORIES),
+  priority: z.enum(RECOMMENDATION_PRIORITIES),
+  /** Guideline search used to find evidence links */
+  evidenceQuery: z.string().min(1).optional(),
+  /** Who to refer to, for recommendations that need someone else to act */
+  referral: z
+    .object({ referredTo: z.string().min(1), reason: z.string().min(1) })
+    .nullable()
+    .default(null),
+});
+
+export const recommendationsDraftSchema = z.object({
+  recommendations: z.array(recommendationDraftSchema),
+});
+
+export type RecommendationDraft = z.infer<typeof recommendationDraftSchema>;
+
+export interface EvidenceLink {
+  title: string;
+  url: string;
+}
+
+export const REFERRAL_STATUSES = ["pending", "confirmed", "cancelled"] as const;
+export type ReferralStatus = (typeof REFERRAL_STATUSES)[number];
+
+/** Statuses a referral may move to from each status */
+export const REFERRAL_TRANSITIONS: Record<ReferralStatus, ReferralStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["cancelled"],
+  cancelled: [],
+};
+
+export const isReferralStatus = (status: string): status is ReferralStatus =>
+  (REFERRAL_STATUSES as readonly string[]).includes(status);
+
+export const canTransitionReferral = (from: string, to: ReferralStatus) =>
+  isReferralStatus(from) && REFERRAL_TRANSITIONS[from].includes(to);
+
+/** Reads Recommendation.externalLinks, skipping anything malformed */
+export const parseEvidenceLinks = (json: string | null): EvidenceLink[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (link): link is EvidenceLink =>
+        typeof link === "object" &&
+        link !== null &&
+        typeof (link as EvidenceLink).title === "string" &&
+        typeof (link as EvidenceLink).url === "string",
+    );
+  } catch {
+    return [];
+  }
+};
+
+export interface ReferralRecord {
+  id: string;
+  recommendationId: string | null;
+  referredTo: string | null;
+  reason: string | null;
+  scheduledTime: string | null;
+  status: string;
+  statusChangedAt: string | null;
+  createdAt: string;
+}
+
+export interface RecommendationRecord {
+  id: string;
+  sessionId: string;
+  title: string;
+  description: string | null;
+  category: string;
+  priority: string;
+  evidenceLinks: EvidenceLink[];
+  referrals: ReferralRecord[];
+  createdAt: string;
+}
+
+/** Most urgent first; keeps the generated order within a priority */
+export const byPriority = (a: { priority: string }, b: { priority: string }) =>
+  RECOMMENDATION_PRIORITIES.indexOf(b.priority as RecommendationPriority) -
+  RECOMMENDATION_PRIORITIES.indexOf(a.priority as RecommendationPriority);
@@ -0,0 +1,37 @@
+// Who may use the admin area. Everyone signed in is a patient unless they
+// have a staff role: clinicians read consultations and clinical notes, kiosk
+// operators run the booth fleet and its devices, and admins can do both and
+// manage staff. A role set in the StaffMember table wins over `role` in the
+// user's Clerk public metadata, so a role granted in Clerk can be revoked here.
+
+import { z } from "zod";
+
+export const ROLES = [
+  "patient",
+  "clinician",
+  "kioskOperator",
+  "admin",
+] as const;
+export type Role = (typeof ROLES)[number];
+
+export const STAFF_ROLES = ["clinician", "kioskOperator", "admin"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  patient: "Patient",
+  clinician: "Clinician",
+  kioskOperator: "Kiosk operator",
+  admin: "Admin",
+};
+
+export const roleSchema = z.enum(ROLES);
+
+export const isRole = (role: string): role is Role =>
+  (ROLES as readonly string[]).includes(role);
+
+export const isStaffRole = (role: string): role is StaffRole =>
+  (STAFF_ROLES as readonly string[]).includes(role);
+
+/** Whether a user with `role` may do what `required` allows; admins may do anything */
+export const hasRole = (role: Role, ...required: Role[]) =>
+  role === "admin" || required.includes(role);
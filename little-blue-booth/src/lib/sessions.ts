@@ -0,0 +1,83 @@
+// Kiosk session lifecycle. A session is CREATED when the patient presses
+// start and IN_PROGRESS once the voice agent connects; it can be PAUSED and
+// resumed. It ends exactly once: COMPLETED when the patient finishes,
+// CANCELED when they stop early, ESCALATED when triage sends them to urgent
+// care, or ABANDONED when they walk away or the next patient starts.
+
+export const SESSION_STATES = [
+  "CREATED",
+  "IN_PROGRESS",
+  "PAUSED",
+  "COMPLETED",
+  "ABANDONED",
+  "CANCELED",
+  "ESCALATED",
+] as const;
+
+export type SessionState = (typeof SESSION_STATES)[number];
+
+/** The states a session can move to from each state */
+export const SESSION_TRANSITIONS: Record<
+  SessionState,
+  readonly SessionState[]
+> = {
+  CREATED: ["IN_PROGRESS", "ABANDONED", "CANCELED", "ESCALATED"],
+  IN_PROGRESS: ["PAUSED", "COMPLETED", "ABANDONED", "CANCELED", "ESCALATED"],
+  PAUSED: ["IN_PROGRESS", "COMPLETED", "ABANDONED", "CANCELED", "ESCALATED"],
+  COMPLETED: [],
+  ABANDONED: [],
+  CANCELED: [],
+  ESCALATED: [],
+};
+
+/** States a session can still take readings, uploads and messages in */
+export const OPEN_SESSION_STATES = [
+  "CREATED",
+  "IN_PROGRESS",
+  "PAUSED",
+] as const;
+
+/** Why a session changed state; recorded in the audit trail */
+export const SESSION_TRANSITION_REASONS = [
+  /** The voice agent connected for the first time */
+  "voiceConnected",
+  /** The patient paused the consultation */
+  "paused",
+  /** The patient resumed a paused consultation */
+  "resumed",
+  /** The patient finished the consultation */
+  "completed",
+  /** The patient stopped the consultation early */
+  "canceled",
+  /** Triage found a possible emergency */
+  "triageInterrupt",
+  /** Nothing happened for too long; closed by the sweeper */
+  "inactivity",
+  /** A new session was started at the same booth */
+  "nextSession",
+] as const;
+
+export type SessionTransitionReason =
+  (typeof SESSION_TRANSITION_REASONS)[number];
+
+/** An open session with no activity for this long is abandoned */
+export const SESSION_INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** A paused session is given longer before it counts as abandoned */
+export const PAUSED_SESSION_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const isSessionState = (state: string): state is SessionState =>
+  (SESSION_STATES as readonly string[]).includes(state);
+
+export const isOpenSessionState = (state: string) =>
+  (OPEN_SESSION_STATES as readonly string[]).includes(state);
+
+export const canTransitionSession = (from: string, to: SessionState) =>
+  isSessionState(from) && SESSION_TRANSITIONS[from].includes(to);
+
+/** Pushed to the session's room when it ends */
+export interface SessionEndedEvent {
+  sessionId: string;
+  state: SessionState;
+  reason: SessionTransitionReason;
+}
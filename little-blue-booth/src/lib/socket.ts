@@ -1,6 +1,12 @@
 import { Server as NetServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import { NextApiResponse } from 'next';
+import { z } from 'zod';
+import { ANALYSIS_EVENTS, ANALYSIS_SOCKET_PATH, sessionRoom } from '~/lib/analysisEvents';
+import { forwardAnalysisEvents } from '~/server/background/analysisEvents';
+import { authenticateSocket } from '~/server/background/socketAuth';
+import { db } from '~/server/db';
+import { checkSessionAccess, type SessionCaller } from '~/server/sessions/access';
 
 export type NextApiResponseWithSocket = NextApiResponse & {
     socket: {
@@ -13,21 +19,74 @@ export type NextApiResponseWithSocket = NextApiResponse & {
 export const initSocket = (res: NextApiResponseWithSocket) => {
     if (!res.socket.server.io) {
         const io = new SocketIOServer(res.socket.server, {
-            path: '/api/socket',
+            path: ANALYSIS_SOCKET_PATH,
             addTrailingSlash: false,
-            cors: {
-                origin: '*',
-                methods: ['GET', 'POST'],
-            },
+        });
+
+        // Refuse connections that carry neither a Clerk token nor a kiosk credential
+        io.use((socket, next) => {
+            authenticateSocket(socket.handshake.auth)
+                .then((caller) => {
+                    if (!caller) return next(new Error('Unauthorized'));
+                    socket.data = { caller };
+                    next();
+                })
+                .catch((error: Error) => next(error));
         });
 
         // Define socket event handlers
         io.on('connection', (socket) => {
             console.log('Client connected:', socket.id);
+            const { caller } = socket.data as { caller: SessionCaller };
+
+            // Rooms carry job results and transcripts, so joining one needs the
+            // same access as reading the session over tRPC
+            const mayFollow = async (sessionId: string) =>
+                (await checkSessionAccess(caller, sessionId, { clinicians: true })) === 'granted';
 
-            socket.on('subscribe-to-conversation', (conversationId: string) => {
-                socket.join(`conversation-${conversationId}`);
+            const followConversation = async (conversationId: unknown) => {
+                if (typeof conversationId !== 'string') return;
+                const conversation = await db.conversation.findUnique({
+                    where: { id: conversationId },
+                    select: { sessionId: true },
+                });
+                if (!conversation || !(await mayFollow(conversation.sessionId))) {
+                    console.warn(`Client ${socket.id} may not follow conversation ${conversationId}`);
+                    return;
+                }
+                await socket.join(`conversation-${conversationId}`);
                 console.log(`Client ${socket.id} subscribed to conversation ${conversationId}`);
+            };
+
+            const followSession = async (sessionId: unknown) => {
+                const parsed = z.string().uuid().safeParse(sessionId);
+                if (!parsed.success || !(await mayFollow(parsed.data))) {
+                    console.warn(`Client ${socket.id} may not follow session ${String(sessionId)}`);
+                    return false;
+                }
+                await socket.join(sessionRoom(parsed.data));
+                console.log(`Client ${socket.id} subscribed to session ${parsed.data}`);
+                return true;
+            };
+
+            socket.on('subscribe-to-conversation', (conversationId: unknown) => {
+                followConversation(conversationId).catch((error) => {
+                    console.error('Failed to subscribe to conversation:', error);
+                });
+            });
+
+            // The ack tells the kiosk whether it joined, so it can keep polling if not
+            socket.on(ANALYSIS_EVENTS.subscribe, (sessionId: unknown, ack?: (subscribed: boolean) => void) => {
+                void followSession(sessionId)
+                    .catch((error) => {
+                        console.error('Failed to subscribe to session:', error);
+                        return false;
+                    })
+                    .then((subscribed) => ack?.(subscribed));
+            });
+
+            socket.on(ANALYSIS_EVENTS.unsubscribe, (sessionId: string) => {
+                void socket.leave(sessionRoom(sessionId));
             });
 
             socket.on('disconnect', () => {
@@ -35,6 +94,8 @@ export const initSocket = (res: NextApiResponseWithSocket) => {
             });
         });
 
+        forwardAnalysisEvents(io);
+
         res.socket.server.io = io;
     }
     return res.socket.server.io;
@@ -0,0 +1,39 @@
+// Triage results shared by the server and the kiosk. The server decides the
+// urgency (src/server/triage); the kiosk only reacts to it.
+
+export const URGENCY_LEVELS = ["low", "medium", "high"] as const;
+
+export type UrgencyLevel = (typeof URGENCY_LEVELS)[number];
+
+/** The more urgent of two levels */
+export const higherUrgency = (a: UrgencyLevel, b: UrgencyLevel) =>
+  URGENCY_LEVELS.indexOf(a) >= URGENCY_LEVELS.indexOf(b) ? a : b;
+
+/** One reason the patient may need emergency care */
+export interface RedFlag {
+  /** Rule id, or "llm" for flags raised by the second opinion */
+  id: string;
+  label: string;
+  urgency: UrgencyLevel;
+  /** What triggered it, e.g. the patient's words or a reading */
+  evidence: string;
+  source: "rule" | "llm";
+}
+
+/** A triage result, stored as an AnalysisStatus row */
+export interface TriageAssessment {
+  /** Id of the AnalysisStatus row */
+  id: string;
+  sessionId: string;
+  urgencyLevel: UrgencyLevel;
+  redFlags: RedFlag[];
+  reasoning: string;
+  timestamp: string;
+}
+
+/** Only a high urgency interrupts the consultation */
+export const shouldInterrupt = ({
+  urgencyLevel,
+}: {
+  urgencyLevel: UrgencyLevel;
+}) => urgencyLevel === "high";
@@ -0,0 +1,16 @@
+import type { NextApiRequest } from 'next';
+import { initSocket, type NextApiResponseWithSocket } from '~/lib/socket';
+
+/**
+ * Starts the Socket.IO server on first request. This has to be a pages API
+ * route: app router handlers have no access to the underlying HTTP server.
+ */
+export default function handler(_req: NextApiRequest, res: NextApiResponseWithSocket) {
+    try {
+        initSocket(res);
+        res.status(200).json({ success: true });
+    } catch (error) {
+        console.error('Socket initialization error:', error);
+        res.status(500).json({ success: false, error: 'Failed to initialize socket' });
+    }
+}
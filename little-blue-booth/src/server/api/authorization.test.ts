@@ -0,0 +1,367 @@
+import { TRPCError } from "@trpc/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { KIOSK_CREDENTIAL_HEADER } from "~/lib/kiosks";
+import { appRouter } from "~/server/api/root";
+import { createCallerFactory, type createTRPCContext } from "~/server/api/trpc";
+
+const { db, clerkClient, runRealtimeTool, myQueue } = vi.hoisted(() => ({
+  db: {
+    staffMember: { findUnique: vi.fn(), upsert: vi.fn() },
+    session: { findUnique: vi.fn(), updateMany: vi.fn() },
+    realtimeSession: { findUnique: vi.fn(), updateMany: vi.fn() },
+    kiosk: { findUnique: vi.fn() },
+    conversation: { findMany: vi.fn(), findUnique: vi.fn() },
+    consultationSummary: { findFirst: vi.fn() },
+    recommendation: { findMany: vi.fn() },
+    clinicalNote: { findFirst: vi.fn() },
+    referral: { findUnique: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+  clerkClient: vi.fn(),
+  runRealtimeTool: vi.fn(),
+  myQueue: { add: vi.fn(), getJob: vi.fn() },
+}));
+
+vi.mock("~/server/db", () => ({ db }));
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn(), clerkClient }));
+vi.mock("@clerk/nextjs/errors", () => ({ isClerkAPIResponseError: vi.fn() }));
+// The analysis queue connects to Redis as soon as it is imported
+vi.mock("~/server/api/reasoning_bots/bull_mq_process", () => ({
+  QUEUE_NAME: "analysisQueue",
+  connection: {},
+  myQueue,
+}));
+vi.mock("~/server/realtime/runTool", () => ({ runRealtimeTool }));
+
+type Context = Awaited<ReturnType<typeof createTRPCContext>>;
+
+const createCaller = createCallerFactory(appRouter);
+
+/**
+ * A caller signed in as `userId` (or signed out), with `metadata` in their
+ * session token, calling from a browser that may hold a kiosk credential
+ */
+const callerFor = (
+  userId: string | null,
+  metadata?: { role: string },
+  kioskCredential?: string,
+) =>
+  createCaller({
+    db: db as unknown as Context["db"],
+    session: {
+      userId,
+      sessionClaims: metadata ? { metadata } : {},
+    } as unknown as Context["session"],
+    headers: new Headers(
+      kioskCredential ? { [KIOSK_CREDENTIAL_HEADER]: kioskCredential } : {},
+    ),
+  });
+
+const sessionId = "7d3f9a52-1c4b-4e8a-9f6d-2b5c8e1a4d70";
+const referralId = "0b6e2c1d-8a47-4f3e-b5d9-6c2a1e7f3b84";
+
+const expectCode = async (call: Promise<unknown>, code: TRPCError["code"]) => {
+  const error: unknown = await call.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(TRPCError);
+  expect((error as TRPCError).code).toBe(code);
+};
+
+const expectForbidden = (call: Promise<unknown>) =>
+  expectCode(call, "FORBIDDEN");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.staffMember.findUnique.mockResolvedValue(null);
+  db.conversation.findMany.mockResolvedValue([]);
+  db.session.findUnique.mockResolvedValue({
+    userId: "user_owner",
+    kioskId: "kiosk_booth",
+  });
+  db.kiosk.findUnique.mockResolvedValue(null);
+  db.recommendation.findMany.mockResolvedValue([]);
+  db.realtimeSession.findUnique.mockResolvedValue({ sessionId });
+});
+
+describe("a patient", () => {
+  // No StaffMember row and no role in their Clerk metadata
+  const patient = () => callerFor("user_patient");
+
+  it("cannot read every conversation", async () => {
+    await expectForbidden(patient().admin.getAllConversations());
+    expect(db.conversation.findMany).not.toHaveBeenCalled();
+  });
+
+  it("cannot list users", async () => {
+    await expectForbidden(patient().admin.getAllUsers());
+    expect(clerkClient).not.toHaveBeenCalled();
+  });
+
+  it("cannot change a role, including their own", async () => {
+    await expectForbidden(
+      patient().admin.setUserRole({ userId: "user_patient", role: "admin" }),
+    );
+    expect(db.staffMember.upsert).not.toHaveBeenCalled();
+  });
+
+  it("cannot read a clinical note", async () => {
+    await expectForbidden(patient().clinicalNote.get({ sessionId }));
+    expect(db.clinicalNote.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("cannot update a referral", async () => {
+    await expectForbidden(
+      patient().recommendation.updateReferralStatus({
+        referralId,
+        status: "confirmed",
+      }),
+    );
+    expect(db.referral.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("role resolution", () => {
+  it("lets a clinician from Clerk metadata read conversations", async () => {
+    const clinician = callerFor("user_clinician", { role: "clinician" });
+    await expect(clinician.admin.getAllConversations()).resolves.toEqual([]);
+  });
+
+  it("prefers a StaffMember row over the Clerk metadata role", async () => {
+    db.staffMember.findUnique.mockResolvedValue({ role: "patient" });
+    const revoked = callerFor("user_revoked", { role: "admin" });
+
+    await expectForbidden(revoked.admin.getAllConversations());
+    await expectForbidden(revoked.admin.getAllUsers());
+  });
+
+  it("grants a role from a StaffMember row without Clerk metadata", async () => {
+    db.staffMember.findUnique.mockResolvedValue({ role: "clinician" });
+    const clinician = callerFor("user_staff");
+
+    await expect(clinician.admin.getAllConversations()).resolves.toEqual([]);
+    await expectForbidden(clinician.admin.getAllUsers());
+  });
+
+  it("treats an unknown metadata role as a patient", async () => {
+    const caller = callerFor("user_unknown", { role: "superuser" });
+    await expectForbidden(caller.admin.getAllConversations());
+  });
+});
+
+describe("session reads", () => {
+  it("refuse a caller who is neither signed in nor a booth", async () => {
+    await expectCode(
+      callerFor(null).conversation.getTranscript({ sessionId }),
+      "UNAUTHORIZED",
+    );
+    expect(db.conversation.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("refuse another patient", async () => {
+    await expectForbidden(
+      callerFor("user_other").session.getSummary({ sessionId }),
+    );
+    expect(db.consultationSummary.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("refuse a booth the session does not run on", async () => {
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_elsewhere" });
+    await expectForbidden(
+      callerFor(null, undefined, "lbbkiosk_elsewhere").triage.latest({
+        sessionId,
+      }),
+    );
+  });
+
+  it("admit the session's patient, its booth and clinicians", async () => {
+    await expect(
+      callerFor("user_owner").recommendation.list({ sessionId }),
+    ).resolves.toEqual([]);
+
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_booth" });
+    await expect(
+      callerFor(null, undefined, "lbbkiosk_booth").recommendation.list({
+        sessionId,
+      }),
+    ).resolves.toEqual([]);
+
+    db.kiosk.findUnique.mockResolvedValue(null);
+    await expect(
+      callerFor("user_clinician", { role: "clinician" }).recommendation.list({
+        sessionId,
+      }),
+    ).resolves.toEqual([]);
+  });
+});
+
+describe("session lifecycle", () => {
+  const elsewhere = () => {
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_elsewhere" });
+    return callerFor(null, undefined, "lbbkiosk_elsewhere");
+  };
+
+  it("refuses to end, pause, resume or cancel another patient's session", async () => {
+    const other = callerFor("user_other");
+
+    await expectForbidden(other.session.endSession({ sessionId }));
+    await expectForbidden(other.session.pause({ sessionId }));
+    await expectForbidden(other.session.resume({ sessionId }));
+    await expectForbidden(other.session.cancel({ sessionId }));
+    expect(db.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses a booth the session does not run on", async () => {
+    await expectForbidden(elsewhere().session.endSession({ sessionId }));
+    await expectForbidden(elsewhere().session.cancel({ sessionId }));
+    expect(db.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses a clinician, who cannot end a consultation", async () => {
+    await expectForbidden(
+      callerFor("user_clinician", { role: "clinician" }).session.endSession({
+        sessionId,
+      }),
+    );
+  });
+
+  it("only shows the session's state to those who may read it", async () => {
+    await expectForbidden(callerFor("user_other").session.state({ sessionId }));
+    await expectForbidden(elsewhere().session.state({ sessionId }));
+    await expectCode(
+      callerFor(null).session.state({ sessionId }),
+      "UNAUTHORIZED",
+    );
+  });
+});
+
+describe("transcript writes", () => {
+  const message = {
+    sessionId,
+    clientMessageId: "msg_1",
+    sender: "user" as const,
+    messageText: "I have a headache",
+  };
+
+  it("refuse a caller who is neither signed in nor a booth", async () => {
+    await expectCode(
+      callerFor(null).conversation.addMessage(message),
+      "UNAUTHORIZED",
+    );
+  });
+
+  it("refuse another patient and another booth", async () => {
+    await expectForbidden(
+      callerFor("user_other").conversation.addMessage(message),
+    );
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_elsewhere" });
+    await expectForbidden(
+      callerFor(null, undefined, "lbbkiosk_elsewhere").conversation.addMessage(
+        message,
+      ),
+    );
+  });
+});
+
+describe("job polling", () => {
+  /** A finished analysis job of `jobSessionId` */
+  const finishedJob = (id: string, jobSessionId: string) => ({
+    id,
+    data: { sessionId: jobSessionId },
+    finishedOn: 1,
+    returnvalue: { processed: true, data: id },
+  });
+
+  it("refuses another patient", async () => {
+    await expectForbidden(
+      callerFor("user_other").polling.polling({
+        sessionId,
+        workerIds: ["job_1"],
+      }),
+    );
+    expect(myQueue.getJob).not.toHaveBeenCalled();
+  });
+
+  it("only returns the session's own jobs", async () => {
+    myQueue.getJob.mockImplementation((id: string) =>
+      Promise.resolve(
+        finishedJob(
+          id,
+          id === "job_own" ? sessionId : "0c9d8e7f-6a5b-4c3d-9e2f-1a0b9c8d7e6f",
+        ),
+      ),
+    );
+
+    const jobs = await callerFor("user_owner").polling.polling({
+      sessionId,
+      workerIds: ["job_own", "job_elsewhere"],
+    });
+
+    expect(jobs.map((job) => job.id)).toEqual(["job_own"]);
+  });
+});
+
+describe("realtime calls", () => {
+  const toolCall = {
+    sessionId,
+    name: "record_vital",
+    arguments: "{}",
+    callId: "call_1",
+  };
+
+  it("refuse to run a tool for a caller who is neither signed in nor a booth", async () => {
+    await expectCode(
+      callerFor(null).realtime.callTool(toolCall),
+      "UNAUTHORIZED",
+    );
+    expect(runRealtimeTool).not.toHaveBeenCalled();
+  });
+
+  it("refuse to run a tool on another patient's session", async () => {
+    await expectForbidden(callerFor("user_other").realtime.callTool(toolCall));
+    expect(runRealtimeTool).not.toHaveBeenCalled();
+  });
+
+  it("refuse a clinician, who is not in the consultation", async () => {
+    await expectForbidden(
+      callerFor("user_clinician", { role: "clinician" }).realtime.callTool(
+        toolCall,
+      ),
+    );
+  });
+
+  it("refuse to end another patient's voice connection", async () => {
+    await expectForbidden(
+      callerFor("user_other").realtime.end({
+        realtimeSessionId: "3a1c5e7b-9d2f-4b6a-8c0e-1f3a5b7d9e2c",
+      }),
+    );
+    expect(db.realtimeSession.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("run a tool from the session's booth", async () => {
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_booth" });
+    runRealtimeTool.mockResolvedValue({ ok: true });
+    await expect(
+      callerFor(null, undefined, "lbbkiosk_booth").realtime.callTool(toolCall),
+    ).resolves.toEqual({ ok: true });
+  });
+});
+
+describe("emergency config", () => {
+  it("says whether there is on-site staff without revealing the pager", async () => {
+    db.session.findUnique.mockResolvedValue({
+      kiosk: {
+        country: "IE",
+        emergencyConfig: JSON.stringify({
+          staffPager: { name: "Pharmacy counter", address: "pager-secret" },
+        }),
+      },
+    });
+
+    const config = await callerFor(null).emergency.config({ sessionId });
+
+    expect(config.hasOnSiteStaff).toBe(true);
+    expect(config).not.toHaveProperty("staffPager");
+    expect(JSON.stringify(config)).not.toContain("pager-secret");
+  });
+});
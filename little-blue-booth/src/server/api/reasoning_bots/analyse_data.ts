@@ -1,8 +1,4 @@
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from "~/server/llm";
 
 const ANALYSIS_PROMPT = `You are an expert clinican.
 
@@ -12,8 +8,9 @@ Refuse to answer if you cannot add any new analysis to the existing hypotheses.
 `;
 
 export async function query_chat_bot(prompt: string) {
-  const completion = await openai.chat.completions.create({
-    model: "o1-mini",
+  // o1 models take no system prompt, so the instructions go in a user turn
+  const completion = await llm.chat({
+    task: "roughOverview",
     messages: [
       {
         role: "user",
@@ -32,10 +29,9 @@ Note that the conversation may just be starting, so don't be too quick to genera
 <transcript>\n${prompt}\n</transcript>`,
       },
     ],
-    store: true,
   });
 
-  const analysis = completion.choices[0]?.message?.content;
+  const analysis = completion.content;
 
   return analysis;
 }
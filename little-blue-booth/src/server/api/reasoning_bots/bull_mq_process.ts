@@ -1,17 +1,13 @@
 // bull.ts
 
-import { Queue, Worker, Job } from "bullmq";
-import { query_chat_bot } from "./analyse_data";
+import { Queue, Worker, type Job } from "bullmq";
 import { db } from "~/server/db";
-import OpenAI from "openai";
+import type { AnalysisJobInput } from "~/server/background/analysisModule";
+import { getAnalysisModule } from "~/server/background/modules";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const QUEUE_NAME = "analysisQueue";
+export const QUEUE_NAME = "analysisQueue";
 
-const connection = {
+export const connection = {
   host: process.env.REDIS_HOST ?? "localhost",
   port: parseInt(process.env.REDIS_PORT ?? "6379"),
   // Add connection retry strategy
@@ -40,30 +36,9 @@ export const myQueue = new Queue(QUEUE_NAME, {
   },
 });
 
-interface JobData {
-  conversation: string;
-  processed?: string; // or store structured data
-  sessionId: string; // Required for database operations
-}
-
-interface ExtractedInfo {
-  personalInfo: {
-    name: string | null;
-    dateOfBirth: string | null;
-    age: number | null;
-  };
-  vitalSigns: {
-    bloodPressure: { systolic: number | null; diastolic: number | null } | null;
-    heartRate: number | null;
-    bloodOxygen: number | null;
-  };
-  symptoms: string[] | null;
-  medications: string[] | null;
-}
-
-export const worker = new Worker<JobData>(
+export const worker = new Worker<AnalysisJobInput>(
   QUEUE_NAME,
-  async (job: Job<JobData>) => {
+  async (job: Job<AnalysisJobInput>) => {
     console.log(`Processing job ${job.id} of type ${job.name}`);
 
     // Validate sessionId is present
@@ -83,21 +58,16 @@ export const worker = new Worker<JobData>(
     }
 
     try {
-      // Switch by job name or define a per-bot function map
-      switch (job.name) {
-        case "roughOverview":
-          return await runRoughOverview(job);
-
-        case "extractHealthMetrics":
-          return await runHealthMetricsExtraction(job);
-
-        case "checkInformationCompleteness":
-          return await runInformationCompletenessCheck(job);
-
-        default:
-          console.log(`Unknown job name ${job.name}`);
-          throw new Error(`Unknown job name ${job.name}`);
+      // Look up the module registered under the job name
+      const analysisModule = getAnalysisModule(job.name);
+      if (!analysisModule) {
+        console.log(`Unknown job name ${job.name}`);
+        throw new Error(`Unknown job name ${job.name}`);
       }
+
+      const input = analysisModule.inputSchema.parse(job.data);
+      const output = await analysisModule.handler(job, input);
+      return analysisModule.outputSchema.parse(output);
     } catch (error) {
       console.error(`Error processing job ${job.id}:`, error);
       throw error; // Re-throw to trigger retry mechanism
@@ -136,390 +106,3 @@ worker.on("completed", (job) => {
     sessionId: job.data.sessionId,
   });
 });
-
-// Another specialized function
-async function runRoughOverview(job: Job<JobData>) {
-  // Pretend we do a different AI call:
-  const res = await query_chat_bot(job.data.conversation);
-  await job.updateData({
-    ...job.data,
-    processed: `[Background Analysis]: ${res}`,
-  });
-}
-
-// New function to extract health metrics
-async function runHealthMetricsExtraction(job: Job<JobData>) {
-  if (!job.data.sessionId) {
-    throw new Error("sessionId is required for health metrics extraction");
-  }
-
-  try {
-    // Retrieve existing metrics (for logging or incremental updates)
-    const existingMarkers = await db.healthMarker.findMany({
-      where: {
-        sessionId: job.data.sessionId,
-        markerType: {
-          in: [
-            "bmi",
-            "height",
-            "weight",
-            "heartRate",
-            "bloodPressure",
-            "bloodOxygen",
-          ],
-        },
-      },
-    });
-
-    console.log("existingMarkers", existingMarkers);
-
-    // Query the AI to extract metrics
-    const prompt = `Extract the following health metrics from the conversation, responding in a strict JSON format.
-{
-  "name": string | null,
-  "dob": string | null, // in DD-MM-YYYY format
-  "bmi": number | null,
-  "height": number | null, // in cm
-  "weight": number | null, // in kg
-  "heartRate": number | null, // in bpm
-  "bloodPressure": { "systolic": number | null, "diastolic": number | null } | null,
-  "bloodOxygen": number | null // percentage
-}
-
-Conversation transcript:
-${job.data.conversation}`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: "You are a precise medical data extraction system. Only extract values that are explicitly stated in the conversation. Do not infer or calculate values unless explicitly mentioned. Respond with a JSON object containing the following fields: name (string|null), dob (string|null), bmi (number|null), height (number|null), weight (number|null), heartRate (number|null), bloodPressure ({systolic: number|null, diastolic: number|null}|null), bloodOxygen (number|null)" },
-        { role: "user", content: prompt }
-      ]
-    });
-
-    if (!completion.choices[0]?.message?.content) {
-      throw new Error("No content in OpenAI response");
-    }
-
-    const metrics = JSON.parse(completion.choices[0].message.content) as {
-      name: string | null;
-      dob: string | null; // in DD-MM-YYYY format
-      bmi: number | null;
-      height: number | null;
-      weight: number | null;
-      heartRate: number | null;
-      bloodPressure: {
-        systolic: number | null;
-        diastolic: number | null;
-      } | null;
-      bloodOxygen: number | null;
-    };
-
-    // Store each metric in the database if not null and not already stored
-    const existingTypes = new Set(existingMarkers.map((m) => m.markerType));
-    const results = [];
-
-    for (const [type, value] of Object.entries(metrics)) {
-      if (value === null || existingTypes.has(type)) continue;
-
-      if (
-        type === "bloodPressure" &&
-        typeof value === "object" &&
-        value !== null
-      ) {
-        const bpValue = value as {
-          systolic: number | null;
-          diastolic: number | null;
-        };
-        if (bpValue.systolic !== null && bpValue.diastolic !== null) {
-          const marker = await db.healthMarker.create({
-            data: {
-              sessionId: job.data.sessionId,
-              markerType: "bloodPressure",
-              data: JSON.stringify({
-                systolic: bpValue.systolic,
-                diastolic: bpValue.diastolic,
-              }),
-            },
-          });
-          results.push(marker);
-        }
-      } else if (typeof value === "number") {
-        const marker = await db.healthMarker.create({
-          data: {
-            sessionId: job.data.sessionId,
-            markerType: type,
-            data: JSON.stringify({ value }),
-          },
-        });
-        results.push(marker);
-
-      } else {
-        results.push(
-          await db.healthMarker.create({
-            data: {
-              sessionId: job.data.sessionId,
-              markerType: type,
-              data: JSON.stringify({ value })
-            }
-          })
-        )
-      }
-    }
-
-    return {
-      processed: true,
-      data: results
-    };
-  } catch (error) {
-    console.error("Error in health metrics extraction:", error);
-    throw error;
-  }
-}
-
-// New function to check if we have enough information for final analysis
-async function runInformationCompletenessCheck(job: Job<JobData>) {
-  try {
-    // First, gather all health markers for this session
-    const healthMarkers = await db.healthMarker.findMany({
-      where: {
-        sessionId: job.data.sessionId,
-      },
-    });
-
-    // Extract basic information from the conversation
-    const prompt = `Extract ONLY explicitly mentioned information from this conversation. Do not make assumptions or recommendations.
-    Respond in this JSON format:
-    {
-      "personalInfo": {
-        "name": string | null,
-        "dateOfBirth": string | null,
-        "age": number | null
-      },
-      "vitalSigns": {
-        "bloodPressure": { "systolic": number | null, "diastolic": number | null } | null,
-        "heartRate": number | null,
-        "bloodOxygen": number | null
-      },
-      "symptoms": string[] | null,
-      "medications": string[] | null
-    }
-
-    Conversation transcript:
-    ${job.data.conversation}`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an information extraction system. Only extract information that is explicitly stated in the conversation. Do not infer, analyze, or make recommendations.",
-        },
-        { role: "user", content: prompt },
-      ],
-    });
-
-    if (!completion.choices[0]?.message?.content) {
-      throw new Error("No content in OpenAI response");
-    }
-
-    const extractedInfo = JSON.parse(
-      completion.choices[0].message.content,
-    ) as ExtractedInfo;
-
-    console.log("extractedInfo", extractedInfo);
-
-    // Simple check if we have enough information to proceed
-    const hasEnoughInformation = Boolean(
-      ((extractedInfo.personalInfo?.name ?? null) &&
-        (extractedInfo.personalInfo?.dateOfBirth ?? null)) ??
-      (healthMarkers && healthMarkers.length > 0) ??
-      ((extractedInfo.symptoms ?? null) &&
-        (extractedInfo.symptoms?.length ?? 0) > 0) ??
-      ((extractedInfo.medications ?? null) &&
-        (extractedInfo.medications?.length ?? 0) > 0),
-    );
-
-    console.log("hasEnoughInformation", hasEnoughInformation);
-
-    // Verify session still exists before creating analysis status
-    const session = await db.session.findUnique({
-      where: { id: job.data.sessionId },
-    });
-
-    if (!session) {
-      throw new Error(`Session ${job.data.sessionId} no longer exists`);
-    }
-
-    // Create analysis status with transaction to ensure consistency
-    const result = await db.$transaction(async (tx) => {
-      const missingInfo = [
-        !extractedInfo.personalInfo?.name && "Name",
-        !extractedInfo.personalInfo?.dateOfBirth && "Date of Birth",
-        !extractedInfo.vitalSigns?.bloodPressure && "Blood Pressure",
-        !extractedInfo.vitalSigns?.heartRate && "Heart Rate",
-        !extractedInfo.symptoms && "Symptoms",
-        !extractedInfo.medications && "Current Medications",
-      ].filter(Boolean);
-
-      const data: {
-        sessionId: string;
-        hasEnoughInformation?: boolean;
-        missingCriticalInfo?: string;
-        recommendedNextSteps?: string;
-        urgencyLevel?: string;
-        reasoning?: string;
-      } = {
-        sessionId: job.data.sessionId,
-      };
-
-      if (hasEnoughInformation !== undefined) {
-        data.hasEnoughInformation = hasEnoughInformation;
-        data.urgencyLevel = "low";
-        data.reasoning = "Information gathering in progress";
-      }
-
-      if (missingInfo.length > 0) {
-        data.missingCriticalInfo = JSON.stringify(missingInfo);
-      }
-
-      if (hasEnoughInformation === false) {
-        data.recommendedNextSteps = JSON.stringify([]);
-      }
-
-      return await tx.analysisStatus.create({ data });
-    });
-
-    return {
-      processed: true,
-      data: result
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("Error in information completeness check:", {
-      jobId: job.id,
-      sessionId: job.data.sessionId,
-      error: errorMessage,
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    throw new Error(`Information completeness check failed: ${errorMessage}`);
-  }
-}
-
-
-
-// Add a new interface for our summary job
-interface SummaryJobData {
-  sessionId: string;
-  summaryContent?: string;
-}
-
-async function runGenerateSummary(job: Job<SummaryJobData>) {
-  /**
-   * 1) Gather relevant session data (conversation, analysis, markers, etc.)
-   */
-  const sessionId = job.data.sessionId;
-
-  const session = await db.session.findUnique({
-    where: { id: sessionId },
-    include: {
-      conversation: {
-        include: {
-          chatMessages: true,
-        },
-      },
-      healthMarkers: true,
-      recommendations: true,
-      analysisStatuses: true,
-      metaReasonings: true,
-      // add any other relations you want to incorporate
-    },
-  });
-
-  if (!session) {
-    throw new Error(`Session ${sessionId} not found while generating summary.`);
-  }
-
-  // Convert messages into a user/assistant/system conversation format
-  let conversationText = "";
-  if (session.conversation) {
-    // Sort messages by timestamp if needed
-    const sortedMessages = [...session.conversation.chatMessages].sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    for (const msg of sortedMessages) {
-      conversationText += `\n[${msg.sender}]: ${msg.messageText}`;
-    }
-  }
-
-  // You can incorporate healthMarkers, recommendations, etc. into a "context" block
-  const additionalContext = `
-Health Markers: ${JSON.stringify(session.healthMarkers, null, 2)}
-Recommendations: ${JSON.stringify(session.recommendations, null, 2)}
-Analysis: ${JSON.stringify(session.analysisStatuses, null, 2)}
-MetaReasoning: ${JSON.stringify(session.metaReasonings, null, 2)}
-`;
-
-  // 2) Prompt GPT-4 or similar
-  const systemPrompt = `
-You are a helpful medical summary assistant.
-Generate a structured summary in valid Markdown, with headings, bullet points, and any relevant details.
-Include key health markers, major conversation points, recommended next steps, etc.
-
-Format:
-# Consultation Summary
-## Overview
-(brief overview)
-## Key Discussion Points
-- ...
-## Health Markers
-- ...
-## Recommendations
-- ...
-## Additional Notes
-(whatever else)
-  `;
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4-turbo-preview",
-    messages: [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-      {
-        role: "user",
-        content: `Conversation:\n${conversationText}\n\nAdditional Context:\n${additionalContext}`,
-      },
-    ],
-    temperature: 0.7,
-    max_tokens: 2000,
-  });
-
-  const summary = response.choices[0]?.message?.content ?? "No summary generated.";
-
-  // 3) Store or return the summary
-  // For demonstration, let's just store the summary in the job's return value
-  await job.updateData({
-    summaryContent: summary,
-  });
-
-  // Optionally also store in DB if you want a permanent record
-  await db.metaReasoning.create({
-    data: {
-      sessionId,
-      agentType: "summaryAgent",
-      analysisContent: summary,
-    },
-  });
-
-  console.log(`Summary generated for session ${sessionId}`);
-  return {
-    processed: true,
-    summaryContent: summary,
-  };
-}
@@ -1,10 +1,19 @@
 import { conversationRouter } from "~/server/api/routers/conversation-router";
 import { adminRouter } from "~/server/api/routers/admin";
 import { kioskRouter } from "~/server/api/routers/kiosk-router";
+import { emergencyRouter } from "~/server/api/routers/emergency-router";
+import { earlyWarningRouter } from "~/server/api/routers/early-warning-router";
+import { clinicalNoteRouter } from "~/server/api/routers/clinical-note-router";
+import { historyRouter } from "~/server/api/routers/history-router";
+import { deviceRouter } from "~/server/api/routers/device-router";
+import { recommendationRouter } from "~/server/api/routers/recommendation-router";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 import { reasoningRouter } from "./reasoning_bots/reason";
 import { pollingrouter } from "./routers/polling";
+import { protocolRouter } from "./routers/protocol-router";
+import { realtimeRouter } from "./routers/realtime-router";
 import { sessionRouter } from "./routers/session-router";
+import { triageRouter } from "./routers/triage-router";
 /**
  * This is the primary router for your server.
  *
@@ -17,6 +26,15 @@ export const appRouter = createTRPCRouter({
   reasoning_bots: reasoningRouter,
   polling: pollingrouter,
   session: sessionRouter,
+  protocol: protocolRouter,
+  realtime: realtimeRouter,
+  triage: triageRouter,
+  emergency: emergencyRouter,
+  earlyWarning: earlyWarningRouter,
+  clinicalNote: clinicalNoteRouter,
+  history: historyRouter,
+  recommendation: recommendationRouter,
+  device: deviceRouter,
 });
 
 // export type definition of API
@@ -1,52 +1,150 @@
+import { clerkClient, type User } from "@clerk/nextjs/server";
+import { isClerkAPIResponseError } from "@clerk/nextjs/errors";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { roleSchema, type Role } from "~/lib/roles";
+import {
+  adminProcedure,
+  clinicianProcedure,
+  createTRPCRouter,
+  operatorProcedure,
+} from "~/server/api/trpc";
+import { findStaffRoles, roleFromMetadata, setUserRole } from "~/server/staff";
 
 /**
- * If you want to enforce an `isAdmin` check, add a small middleware or inline
- * check below. E.g. if your `User` table had an `isAdmin` boolean field, do:
- *
- *   if (!ctx.session.user.isAdmin) {
- *     throw new TRPCError({ code: "UNAUTHORIZED" });
- *   }
- *
- * For simplicity, we skip that and just show `protectedProcedure`, which ensures
- * the user is logged in. Customize as needed.
+ * Users live in Clerk, so they are listed from there. Each procedure requires
+ * a role (see `src/lib/roles.ts`): users and roles are admin-only, while
+ * clinicians read conversations and kiosk operators watch voice connections.
  */
 
+/** The fields the admin pages show for a Clerk user */
+const toAdminUser = (user: User, staffRole: Role | undefined) => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.primaryEmailAddress?.emailAddress ?? null,
+  createdAt: new Date(user.createdAt),
+  role: staffRole ?? roleFromMetadata(user.publicMetadata) ?? "patient",
+});
+
 export const adminRouter = createTRPCRouter({
-  // Example: fetch all users
-  getAllUsers: protectedProcedure.query(async ({ ctx }) => {
-    return ctx.db.user.findMany({
-      orderBy: { createdAt: "desc" },
+  // Everyone who has signed up, newest first
+  getAllUsers: adminProcedure.query(async ({ ctx }) => {
+    const clerk = await clerkClient();
+    const { data: users } = await clerk.users.getUserList({
+      orderBy: "-created_at",
+      limit: 500,
     });
+    const roles = await findStaffRoles(
+      users.map((user) => user.id),
+      ctx.db,
+    );
+    return users.map((user) => toAdminUser(user, roles.get(user.id)));
   }),
 
   // Example: fetch all conversations
-  getAllConversations: protectedProcedure.query(async ({ ctx }) => {
+  getAllConversations: clinicianProcedure.query(async ({ ctx }) => {
     return ctx.db.conversation.findMany({
       orderBy: { createdAt: "desc" },
       include: {
         // You can expand to show related chat messages, session, etc.
-        chatMessages: true,
+        chatMessages: {
+          orderBy: [{ sequence: "asc" }, { timestamp: "asc" }],
+        },
         session: true,
       },
     });
   }),
 
-  // Example: fetch a single user by ID
-  getUserById: protectedProcedure
+  // A single user with their kiosk sessions
+  getUserById: adminProcedure
     .input(z.object({ userId: z.string() }))
     .query(async ({ ctx, input }) => {
-      return ctx.db.user.findUnique({
-        where: { id: input.userId },
-        include: {
-          // e.g. show related sessions, accounts, etc.
-          sessions: true,
-          accounts: true,
-        },
-      });
+      const clerk = await clerkClient();
+      let user: User;
+      try {
+        user = await clerk.users.getUser(input.userId);
+      } catch (error) {
+        if (isClerkAPIResponseError(error) && error.status === 404) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+        }
+        throw error;
+      }
+
+      const [roles, sessions] = await Promise.all([
+        findStaffRoles([user.id], ctx.db),
+        ctx.db.session.findMany({
+          where: { userId: user.id },
+          orderBy: { createdAt: "desc" },
+          select: { id: true, state: true, createdAt: true },
+        }),
+      ]);
+      return { ...toAdminUser(user, roles.get(user.id)), sessions };
+    }),
+
+  // Grants or changes a user's role; it takes precedence over Clerk metadata
+  setUserRole: adminProcedure
+    .input(z.object({ userId: z.string(), role: roleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.userId === ctx.session.user && input.role !== "admin") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You cannot remove your own admin role",
+        });
+      }
+      const staff = await setUserRole(
+        input.userId,
+        input.role,
+        ctx.session.user,
+        ctx.db,
+      );
+      return { userId: staff.userId, role: input.role };
     }),
 
+  // Realtime voice connections: which booths have a live agent right now,
+  // and how long recent conversations ran
+  getRealtimeSessions: operatorProcedure.query(async ({ ctx }) => {
+    const sessions = await ctx.db.realtimeSession.findMany({
+      where: {
+        OR: [
+          { active: true },
+          { startedAt: { gte: new Date(Date.now() - 24 * 3600 * 1000) } },
+        ],
+      },
+      orderBy: { startedAt: "desc" },
+      take: 200,
+      // The ephemeral key is deliberately not selected
+      select: {
+        id: true,
+        sessionId: true,
+        model: true,
+        voice: true,
+        startedAt: true,
+        lastHeartbeatAt: true,
+        endedAt: true,
+        endReason: true,
+        active: true,
+        session: {
+          select: {
+            userId: true,
+            kiosk: { select: { id: true, location: true, description: true } },
+          },
+        },
+      },
+    });
+
+    const now = Date.now();
+    const withDuration = sessions.map((session) => ({
+      ...session,
+      durationMs:
+        (session.endedAt?.getTime() ?? now) - session.startedAt.getTime(),
+    }));
+
+    return {
+      live: withDuration.filter((session) => session.active),
+      recent: withDuration.filter((session) => !session.active),
+    };
+  }),
+
   // Add more queries (and/or mutations) for the various data models
 });
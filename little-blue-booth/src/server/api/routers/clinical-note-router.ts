@@ -0,0 +1,83 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { renderClinicalNoteMarkdown } from "~/lib/clinicalNote";
+import { clinicianProcedure, createTRPCRouter } from "~/server/api/trpc";
+import { enqueueAnalysisJob } from "~/server/background/AnalysisManager";
+import { toClinicalNoteRecord } from "~/server/clinicalNote";
+
+export const clinicalNoteRouter = createTRPCRouter({
+  /**
+   * Loads a clinical note with its handover document. Returns the requested
+   * version when `noteId` is given, otherwise the latest for the session.
+   */
+  get: clinicianProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid(),
+        noteId: z.string().uuid().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const note = await ctx.db.clinicalNote.findFirst({
+        where: {
+          sessionId: input.sessionId,
+          ...(input.noteId ? { id: input.noteId } : {}),
+        },
+        orderBy: { version: "desc" },
+      });
+
+      if (!note) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Clinical note not found",
+        });
+      }
+
+      const record = toClinicalNoteRecord(note);
+      return { ...record, markdown: renderClinicalNoteMarkdown(record) };
+    }),
+
+  /** Every version of the session's note, newest first */
+  versions: clinicianProcedure
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.clinicalNote.findMany({
+        where: { sessionId: input.sessionId },
+        orderBy: { version: "desc" },
+        select: { id: true, version: true, model: true, createdAt: true },
+      });
+    }),
+
+  /** Writes a new version of the note, e.g. after more data arrived */
+  generate: clinicianProcedure
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.session.findUnique({
+        where: { id: input.sessionId },
+        select: { id: true },
+      });
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Session not found",
+        });
+      }
+
+      const jobId = await enqueueAnalysisJob("generateClinicalNote", {
+        sessionId: input.sessionId,
+      });
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Clinical note requested",
+          sessionId: input.sessionId,
+          userId: ctx.session.userId,
+          associatedId: jobId,
+          associatedType: "analysisJob",
+        },
+      });
+
+      return { jobId };
+    }),
+});
@@ -1,27 +1,146 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  sessionProcedure,
+  sessionReadProcedure,
+} from "~/server/api/trpc";
+import { touchSession } from "~/server/sessions";
 
 export const conversationRouter = createTRPCRouter({
-  addMessage: publicProcedure
+  /**
+   * Persists a single conversation turn against the session's conversation.
+   * Writes are keyed by the kiosk-generated `clientMessageId`, so a retried
+   * call returns the already stored row instead of duplicating it. Only the
+   * session's patient or its booth may add turns.
+   */
+  addMessage: sessionProcedure
     .input(
       z.object({
-        conversationId: z.string(),
+        clientMessageId: z.string().min(1),
         sender: z.enum(["user", "assistant", "system"]),
         messageText: z.string(),
+        sentAt: z.string().datetime().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // For now, we'll just log the message
-      // In a real implementation, you would save this to your database
-      console.log("Message saved:", {
-        conversationId: input.conversationId,
-        sender: input.sender,
-        messageText: input.messageText,
-        timestamp: new Date(),
+      const conversation = await ctx.db.conversation.findUnique({
+        where: { sessionId: input.sessionId },
+        select: { id: true },
       });
 
+      if (!conversation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conversation not found for session",
+        });
+      }
+
+      const findExisting = () =>
+        ctx.db.chatMessage.findUnique({
+          where: {
+            conversationId_clientMessageId: {
+              conversationId: conversation.id,
+              clientMessageId: input.clientMessageId,
+            },
+          },
+        });
+
+      const existing = await findExisting();
+      if (existing) {
+        return {
+          success: true,
+          duplicate: true,
+          messageId: existing.id,
+          sequence: existing.sequence,
+        };
+      }
+
+      try {
+        // Allocate the next sequence number and insert in one transaction so
+        // concurrent writers cannot interleave between the read and the write
+        const message = await ctx.db.$transaction(async (tx) => {
+          const last = await tx.chatMessage.findFirst({
+            where: { conversationId: conversation.id },
+            orderBy: { sequence: "desc" },
+            select: { sequence: true },
+          });
+
+          return tx.chatMessage.create({
+            data: {
+              conversationId: conversation.id,
+              clientMessageId: input.clientMessageId,
+              sequence: (last?.sequence ?? 0) + 1,
+              sender: input.sender,
+              messageText: input.messageText,
+              timestamp: input.sentAt ? new Date(input.sentAt) : undefined,
+            },
+          });
+        });
+
+        // Only the patient speaking counts as them still being at the booth
+        if (input.sender === "user") {
+          await touchSession(input.sessionId, ctx.db);
+        }
+
+        return {
+          success: true,
+          duplicate: false,
+          messageId: message.id,
+          sequence: message.sequence,
+        };
+      } catch (error) {
+        // Another request stored the same client message first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          const stored = await findExisting();
+          if (stored) {
+            return {
+              success: true,
+              duplicate: true,
+              messageId: stored.id,
+              sequence: stored.sequence,
+            };
+          }
+        }
+        throw error;
+      }
+    }),
+
+  /**
+   * Returns the persisted transcript for a session in conversation order
+   */
+  getTranscript: sessionReadProcedure.query(async ({ ctx, input }) => {
+      const conversation = await ctx.db.conversation.findUnique({
+        where: { sessionId: input.sessionId },
+        include: {
+          chatMessages: {
+            orderBy: [{ sequence: "asc" }, { timestamp: "asc" }],
+          },
+        },
+      });
+
+      if (!conversation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conversation not found for session",
+        });
+      }
+
       return {
-        success: true,
+        conversationId: conversation.id,
+        sessionId: conversation.sessionId,
+        messages: conversation.chatMessages.map((msg) => ({
+          id: msg.id,
+          clientMessageId: msg.clientMessageId,
+          sequence: msg.sequence,
+          sender: msg.sender,
+          messageText: msg.messageText,
+          timestamp: msg.timestamp,
+        })),
       };
     }),
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,138 @@
+import type { PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { CONNECTION_METHODS, DEVICE_TYPE_KEYS } from "~/lib/devices";
+import { createTRPCRouter, operatorProcedure } from "~/server/api/trpc";
+import { generateDeviceKey, registerDevice } from "~/server/devices";
+
+/** Device fields safe to return; never includes the key hash */
+const deviceSelect = {
+  id: true,
+  name: true,
+  kioskId: true,
+  connectionMethod: true,
+  active: true,
+  lastReadingAt: true,
+  createdAt: true,
+  deviceType: { select: { typeKey: true, description: true } },
+} as const;
+
+async function findDevice(client: PrismaClient, deviceId: string) {
+  const device = await client.device.findUnique({
+    where: { id: deviceId },
+    select: { id: true, active: true },
+  });
+  if (!device) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Device not found" });
+  }
+  return device;
+}
+
+export const deviceRouter = createTRPCRouter({
+  /**
+   * Registers a peripheral against a kiosk. The API key is only returned
+   * here; store it on the device.
+   */
+  register: operatorProcedure
+    .input(
+      z.object({
+        kioskId: z.string().uuid(),
+        typeKey: z.enum(DEVICE_TYPE_KEYS),
+        name: z.string().min(1).optional(),
+        connectionMethod: z.enum(CONNECTION_METHODS).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const kiosk = await ctx.db.kiosk.findUnique({
+        where: { id: input.kioskId },
+        select: { id: true },
+      });
+      if (!kiosk) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Kiosk not found" });
+      }
+
+      const { device, apiKey } = await ctx.db.$transaction((tx) =>
+        registerDevice(input, tx),
+      );
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Device registered",
+          details: JSON.stringify({
+            typeKey: input.typeKey,
+            kioskId: input.kioskId,
+          }),
+          userId: ctx.session.userId,
+          deviceId: device.id,
+          associatedId: input.kioskId,
+          associatedType: "kiosk",
+        },
+      });
+
+      return { deviceId: device.id, apiKey };
+    }),
+
+  listForKiosk: operatorProcedure
+    .input(z.object({ kioskId: z.string().uuid() }))
+    .query(({ ctx, input }) =>
+      ctx.db.device.findMany({
+        where: { kioskId: input.kioskId },
+        orderBy: { createdAt: "asc" },
+        select: deviceSelect,
+      }),
+    ),
+
+  /** Issues a new API key; the old one stops working immediately */
+  rotateKey: operatorProcedure
+    .input(z.object({ deviceId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const device = await findDevice(ctx.db, input.deviceId);
+      if (!device.active) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Device is deactivated",
+        });
+      }
+
+      const { key, hash } = generateDeviceKey();
+      await ctx.db.device.update({
+        where: { id: device.id },
+        data: { apiKeyHash: hash },
+      });
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Device key rotated",
+          userId: ctx.session.userId,
+          deviceId: device.id,
+        },
+      });
+
+      return { deviceId: device.id, apiKey: key };
+    }),
+
+  /** Stops the device posting readings; its past readings are kept */
+  deactivate: operatorProcedure
+    .input(z.object({ deviceId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await findDevice(ctx.db, input.deviceId);
+      const device = await ctx.db.device.update({
+        where: { id: input.deviceId },
+        data: { active: false, apiKeyHash: null },
+        select: deviceSelect,
+      });
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Device deactivated",
+          userId: ctx.session.userId,
+          deviceId: device.id,
+        },
+      });
+
+      return device;
+    }),
+});
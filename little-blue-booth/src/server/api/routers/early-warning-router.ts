@@ -0,0 +1,24 @@
+import { createTRPCRouter, sessionReadProcedure } from "~/server/api/trpc";
+import {
+  getLatestEarlyWarningScores,
+  toEarlyWarningScoreRecord,
+} from "~/server/utils/earlyWarningScores";
+
+export const earlyWarningRouter = createTRPCRouter({
+  /**
+   * The session's current NEWS2 and qSOFA with their breakdown. The kiosk
+   * polls this when the analysis socket is down.
+   */
+  latest: sessionReadProcedure.query(async ({ ctx, input }) => {
+    return getLatestEarlyWarningScores(input.sessionId, ctx.db);
+  }),
+
+  /** Every computation for the session, oldest first */
+  history: sessionReadProcedure.query(async ({ ctx, input }) => {
+    const rows = await ctx.db.earlyWarningScore.findMany({
+      where: { sessionId: input.sessionId },
+      orderBy: { computedAt: "asc" },
+    });
+    return rows.map(toEarlyWarningScoreRecord);
+  }),
+});
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import {
+  createTRPCRouter,
+  operatorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import {
+  emergencyConfigOverridesSchema,
+  toPublicEmergencyConfig,
+} from "~/lib/emergency";
+import {
+  defaultEmergencyConfig,
+  getKioskEmergencyConfig,
+  getSessionEmergencyConfig,
+  updateKioskEmergencyConfig,
+} from "~/server/emergency";
+
+export const emergencyRouter = createTRPCRouter({
+  /**
+   * Emergency contacts for the kiosk a session runs on, or for a kiosk.
+   * Without either, the defaults for Ireland. Only whether there is an
+   * on-site pager is shown, not its address.
+   */
+  config: publicProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid().optional(),
+        kioskId: z.string().uuid().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const config = input.sessionId
+        ? await getSessionEmergencyConfig(input.sessionId, ctx.db)
+        : input.kioskId
+          ? await getKioskEmergencyConfig(input.kioskId, ctx.db)
+          : defaultEmergencyConfig();
+      return toPublicEmergencyConfig(config);
+    }),
+
+  /** Sets a kiosk's country and its overrides of that country's contacts */
+  update: operatorProcedure
+    .input(
+      z.object({
+        kioskId: z.string().uuid(),
+        country: z.string().length(2),
+        overrides: emergencyConfigOverridesSchema.default({}),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const config = await updateKioskEmergencyConfig(input, ctx.db);
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Kiosk emergency config updated",
+          details: JSON.stringify(input),
+          userId: ctx.session.userId,
+          associatedId: input.kioskId,
+          associatedType: "kiosk",
+        },
+      });
+
+      return config;
+    }),
+});
@@ -0,0 +1,12 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { loadPatientHistory } from "~/server/utils/patientHistory";
+
+export const historyRouter = createTRPCRouter({
+  /**
+   * The signed-in user's record across all of their kiosk sessions: marker
+   * time series, earlier summaries and diagnoses, and trend flags.
+   */
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    return loadPatientHistory(ctx.session.userId, ctx.db);
+  }),
+});
@@ -1,80 +1,228 @@
+import type { Kiosk, PrismaClient } from "@prisma/client";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  createTRPCRouter,
+  kioskProcedure,
+  operatorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
-import { randomUUID } from "crypto";
+import { kioskHeartbeatSchema, parseKioskHealth } from "~/lib/kiosks";
+import { OPEN_SESSION_STATES } from "~/lib/sessions";
+import {
+  createEnrollmentCode,
+  enrollKiosk,
+  recordKioskHeartbeat,
+  setKioskMaintenance,
+} from "~/server/kiosks";
 import { getFitData } from "~/services/googleFitService";
+import { recordHealthMarkers } from "~/server/utils/healthMarkers";
+import type { MarkerReading } from "~/lib/healthMarkers";
+import {
+  ProtocolNotFoundError,
+  selectProtocolForKiosk,
+} from "~/server/protocols";
+import { abandonSession } from "~/server/sessions/abandon";
 
 const createSessionSchema = z.object({
-  kioskId: z.string().uuid(),
   userId: z.string(),
+  /** Overrides the kiosk's consultation protocol for this session */
+  protocolKey: z.string().optional(),
 });
 
+/** Fleet view of a booth; never includes the credential or code hashes */
+const toKioskRecord = (kiosk: Kiosk) => ({
+  id: kiosk.id,
+  name: kiosk.name,
+  location: kiosk.location,
+  latitude: kiosk.latitude,
+  longitude: kiosk.longitude,
+  status: kiosk.status,
+  statusChangedAt: kiosk.statusChangedAt,
+  enrolled: kiosk.credentialHash !== null,
+  enrolledAt: kiosk.enrolledAt,
+  enrollmentPending:
+    !!kiosk.enrollmentCodeExpiresAt &&
+    kiosk.enrollmentCodeExpiresAt > new Date(),
+  lastHeartbeatAt: kiosk.lastHeartbeatAt,
+  appVersion: kiosk.appVersion,
+  health: parseKioskHealth(kiosk.health),
+});
+
+async function findKiosk(client: PrismaClient, kioskId: string) {
+  const kiosk = await client.kiosk.findUnique({
+    where: { id: kioskId },
+    select: { id: true },
+  });
+  if (!kiosk) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Kiosk not found" });
+  }
+  return kiosk;
+}
+
 export const kioskRouter = createTRPCRouter({
-  getOrCreateKiosk: publicProcedure.query(async ({ ctx }) => {
-    // Try to find an active kiosk first (in a real app, you might have logic to find the nearest one)
-    const activeKiosk = await ctx.db.kiosk.findFirst({
-      where: { status: "ACTIVE" },
-      select: { id: true },
-    });
+  /** Trades a one-time enrollment code for the booth's kiosk credential */
+  enroll: publicProcedure
+    .input(z.object({ code: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const enrollment = await enrollKiosk(input.code, ctx.db);
+      if (!enrollment) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Enrollment code is invalid, used or expired",
+        });
+      }
 
-    if (activeKiosk) {
-      return activeKiosk;
-    }
-
-    // If no active kiosk found, create a new one
-    const newKiosk = await ctx.db.kiosk.create({
-      data: {
-        id: randomUUID(),
-        status: "ACTIVE",
-      },
-      select: { id: true },
-    });
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Kiosk enrolled",
+          associatedId: enrollment.kioskId,
+          associatedType: "kiosk",
+        },
+      });
+
+      return enrollment;
+    }),
+
+  /** The booth making the request */
+  current: kioskProcedure.query(({ ctx }) => toKioskRecord(ctx.kiosk)),
 
-    return newKiosk;
+  /** Sent every KIOSK_HEARTBEAT_INTERVAL_MS while the kiosk page is open */
+  heartbeat: kioskProcedure
+    .input(kioskHeartbeatSchema)
+    .mutation(async ({ ctx, input }) => {
+      const status = await recordKioskHeartbeat(ctx.kiosk, input, ctx.db);
+      return { status };
+    }),
+
+  /** Every booth, for the admin fleet page */
+  list: operatorProcedure.query(async ({ ctx }) => {
+    const kiosks = await ctx.db.kiosk.findMany({
+      orderBy: [{ name: "asc" }, { createdAt: "asc" }],
+    });
+    return kiosks.map(toKioskRecord);
   }),
 
-  createSession: publicProcedure
-    .input(createSessionSchema)
+  /**
+   * Issues a one-time enrollment code, for a new booth or to re-enroll an
+   * existing one (which revokes its current credential). The code is only
+   * returned here.
+   */
+  createEnrollment: operatorProcedure
+    .input(
+      z.object({
+        kioskId: z.string().uuid().optional(),
+        name: z.string().min(1).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.kioskId) await findKiosk(ctx.db, input.kioskId);
+      const enrollment = await createEnrollmentCode(input, ctx.db);
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: input.kioskId
+            ? "Kiosk re-enrollment issued"
+            : "Kiosk enrollment issued",
+          details: JSON.stringify({ expiresAt: enrollment.expiresAt }),
+          userId: ctx.session.userId,
+          associatedId: enrollment.kioskId,
+          associatedType: "kiosk",
+        },
+      });
+
+      return enrollment;
+    }),
+
+  rename: operatorProcedure
+    .input(z.object({ kioskId: z.string().uuid(), name: z.string().min(1) }))
     .mutation(async ({ ctx, input }) => {
-      const { kioskId, userId } = input;
-
-      // First, try to find the kiosk or create it if it doesn't exist
-      const kiosk = await ctx.db.kiosk.upsert({
-        where: { id: kioskId },
-        create: {
-          id: kioskId,
-          status: "ACTIVE",
+      await findKiosk(ctx.db, input.kioskId);
+      const kiosk = await ctx.db.kiosk.update({
+        where: { id: input.kioskId },
+        data: { name: input.name },
+      });
+      return toKioskRecord(kiosk);
+    }),
+
+  /** Sets where the booth is: an address or description, and coordinates */
+  locate: operatorProcedure
+    .input(
+      z.object({
+        kioskId: z.string().uuid(),
+        location: z.string().min(1),
+        latitude: z.number().min(-90).max(90).nullable().default(null),
+        longitude: z.number().min(-180).max(180).nullable().default(null),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await findKiosk(ctx.db, input.kioskId);
+      const kiosk = await ctx.db.kiosk.update({
+        where: { id: input.kioskId },
+        data: {
+          location: input.location,
+          latitude: input.latitude,
+          longitude: input.longitude,
         },
-        update: {}, // Don't update anything if it exists
-        select: { status: true },
       });
+      return toKioskRecord(kiosk);
+    }),
 
-      if (kiosk.status !== "ACTIVE") {
+  /** Takes a booth out of service, or returns it */
+  setMaintenance: operatorProcedure
+    .input(z.object({ kioskId: z.string().uuid(), maintenance: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await findKiosk(ctx.db, input.kioskId);
+      const kiosk = await setKioskMaintenance(
+        input.kioskId,
+        input.maintenance,
+        ctx.session.userId,
+        ctx.db,
+      );
+      return toKioskRecord(kiosk);
+    }),
+
+  createSession: kioskProcedure
+    .input(createSessionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId, protocolKey } = input;
+      const kioskId = ctx.kiosk.id;
+
+      if (ctx.kiosk.status === "MAINTENANCE") {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Kiosk is not active",
+          message: "This booth is under maintenance",
         });
       }
 
-      // Check for an existing active session
+      // A session still open at the booth was left by the previous patient
       const activeSession = await ctx.db.session.findFirst({
         where: {
           kioskId,
-          state: "IN_PROGRESS",
-          endTime: null,
+          state: { in: [...OPEN_SESSION_STATES] },
         },
         select: { id: true },
       });
 
       if (activeSession) {
-        // End the existing session
-        await ctx.db.session.update({
-          where: { id: activeSession.id },
-          data: {
-            state: "COMPLETED",
-            endTime: new Date(),
-          },
-        });
+        await abandonSession(activeSession.id, "nextSession", ctx.db);
+      }
+
+      // Pin the session to the current version of its protocol so later
+      // edits to the protocol don't change a consultation in progress
+      let protocolId: string;
+      try {
+        ({ id: protocolId } = await selectProtocolForKiosk(
+          { kioskId, protocolKey },
+          ctx.db,
+        ));
+      } catch (error) {
+        if (error instanceof ProtocolNotFoundError) {
+          throw new TRPCError({ code: "NOT_FOUND", message: error.message });
+        }
+        throw error;
       }
 
       try {
@@ -83,8 +231,10 @@ export const kioskRouter = createTRPCRouter({
           data: {
             kioskId,
             userId,
-            state: "IN_PROGRESS",
+            state: "CREATED",
             startTime: new Date(),
+            lastActivityAt: new Date(),
+            protocolId,
           },
         });
 
@@ -95,7 +245,7 @@ export const kioskRouter = createTRPCRouter({
             data: {
               eventType: "info",
               description: activeSession
-                ? "New session created (previous session ended)"
+                ? "New session created (previous session abandoned)"
                 : "New session created",
               sessionId: session.id,
               userId,
@@ -117,108 +267,55 @@ export const kioskRouter = createTRPCRouter({
                 return;
               }
 
-              // Create health markers for each metric
-              const healthMarkerPromises = [];
+              // Google Fit reports weight in kg, height in metres and SpO2
+              // as a percentage; the catalogue converts to canonical units
+              const readings: MarkerReading[] = [];
               console.log("[GoogleFit] Creating health markers...");
 
               if (fitData.bmi !== null) {
-                console.log("[GoogleFit] Adding BMI marker:", fitData.bmi);
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "bmi",
-                      data: JSON.stringify({ value: fitData.bmi }),
-                    },
-                  }),
-                );
+                readings.push({ type: "bmi", value: fitData.bmi });
               }
-
               if (fitData.height !== null) {
-                console.log(
-                  "[GoogleFit] Adding height marker:",
-                  fitData.height,
-                );
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "height",
-                      data: JSON.stringify({ value: fitData.height }),
-                    },
-                  }),
-                );
+                readings.push({
+                  type: "height",
+                  value: fitData.height,
+                  unit: "m",
+                });
               }
-
               if (fitData.weight !== null) {
-                console.log(
-                  "[GoogleFit] Adding weight marker:",
-                  fitData.weight,
-                );
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "weight",
-                      data: JSON.stringify({ value: fitData.weight }),
-                    },
-                  }),
-                );
+                readings.push({
+                  type: "weight",
+                  value: fitData.weight,
+                  unit: "kg",
+                });
               }
-
               if (fitData.heartRate !== null) {
-                console.log(
-                  "[GoogleFit] Adding heart rate marker:",
-                  fitData.heartRate,
-                );
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "heartRate",
-                      data: JSON.stringify({ value: fitData.heartRate }),
-                    },
-                  }),
-                );
+                readings.push({ type: "heartRate", value: fitData.heartRate });
               }
-
-              if (fitData.bloodPressure !== null) {
-                console.log(
-                  "[GoogleFit] Adding blood pressure marker:",
-                  fitData.bloodPressure,
-                );
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "bloodPressure",
-                      data: JSON.stringify({
-                        systolic: fitData.bloodPressure.systolic,
-                        diastolic: fitData.bloodPressure.diastolic,
-                      }),
-                    },
-                  }),
-                );
+              if (
+                fitData.bloodPressure?.systolic != null &&
+                fitData.bloodPressure.diastolic != null
+              ) {
+                readings.push({
+                  type: "bloodPressure",
+                  systolic: fitData.bloodPressure.systolic,
+                  diastolic: fitData.bloodPressure.diastolic,
+                });
               }
-
               if (fitData.bloodOxygen !== null) {
-                console.log(
-                  "[GoogleFit] Adding blood oxygen marker:",
-                  fitData.bloodOxygen,
-                );
-                healthMarkerPromises.push(
-                  ctx.db.healthMarker.create({
-                    data: {
-                      sessionId: session.id,
-                      markerType: "bloodOxygen",
-                      data: JSON.stringify({ value: fitData.bloodOxygen }),
-                    },
-                  }),
-                );
+                readings.push({
+                  type: "bloodOxygen",
+                  value: fitData.bloodOxygen,
+                });
               }
 
-              // Create all health markers
-              await Promise.all(healthMarkerPromises);
+              const stored = await recordHealthMarkers(
+                { sessionId: session.id, source: "googleFit", readings },
+                ctx.db,
+              );
+              console.log(
+                `[GoogleFit] Stored ${stored.length} of ${readings.length} health markers`,
+              );
             } catch (error) {
               // Log the error but don't fail session creation
               console.error("Failed to fetch/store Google Fit data:", error);
@@ -1,32 +1,43 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, sessionProcedure } from "~/server/api/trpc";
 import { myQueue } from "../reasoning_bots/bull_mq_process";
 import type { Job } from "bullmq";
 
 interface JobData {
   processed: boolean;
-  data: string;
+  data: unknown; // shape depends on the analysis module
+  [key: string]: unknown;
 }
 
 export const pollingrouter = createTRPCRouter({
-  polling: publicProcedure
+  // Only the session's own jobs are returned, to its patient or booth
+  polling: sessionProcedure
     .input(
       z.object({
         workerIds: z.array(z.string()).optional(),
       })
     )
     .query(async ({ input }) => {
-      const completed = await myQueue.getCompleted() as Job<JobData>[];
-      const workerIds = input.workerIds ?? [];
-      const filteredJobs = workerIds.length > 0
-        ? completed.filter(job => workerIds.includes(job.id))
-        : completed;
-      
+      // Look up only the requested jobs instead of every completed job in
+      // the queue; this is the fallback path when the socket is unavailable
+      const jobs = await Promise.all(
+        (input.workerIds ?? []).map(
+          (id) => myQueue.getJob(id) as Promise<Job<{ sessionId?: string }, JobData> | undefined>
+        )
+      );
+      const filteredJobs = jobs.filter(
+        (job): job is Job<{ sessionId?: string }, JobData> =>
+          !!job?.finishedOn &&
+          !job.failedReason &&
+          job.data.sessionId === input.sessionId
+      );
+
       return filteredJobs.map(job => ({
         id: job.id,
         data: {
+          ...job.returnvalue,
           processed: job.returnvalue?.processed ?? false,
-          data: job.returnvalue?.data ?? null as any
+          data: job.returnvalue?.data ?? null
         }
       }));
     }),
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  clinicianProcedure,
+  createTRPCRouter,
+  operatorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import {
+  getLatestProtocol,
+  listLatestProtocols,
+  publishProtocol,
+  toProtocolVersion,
+} from "~/server/protocols";
+import { protocolDefinitionSchema } from "~/server/protocols/types";
+
+const requireProtocol = async (
+  key: string,
+  db: Parameters<typeof getLatestProtocol>[1],
+) => {
+  const protocol = await getLatestProtocol(key, db);
+  if (!protocol) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Consultation protocol "${key}" not found`,
+    });
+  }
+  return protocol;
+};
+
+/**
+ * Consultation protocols: which phases, data points and examination steps
+ * the realtime agent follows, and the persona it speaks as
+ */
+export const protocolRouter = createTRPCRouter({
+  /** Latest version of every protocol */
+  list: publicProcedure.query(async ({ ctx }) => {
+    return listLatestProtocols(ctx.db);
+  }),
+
+  /** A protocol by key; the latest version unless `version` is given */
+  get: publicProcedure
+    .input(
+      z.object({
+        key: z.string(),
+        version: z.number().int().positive().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.version === undefined) {
+        return requireProtocol(input.key, ctx.db);
+      }
+
+      const row = await ctx.db.consultationProtocol.findUnique({
+        where: { key_version: { key: input.key, version: input.version } },
+      });
+      if (!row) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Consultation protocol "${input.key}" v${input.version} not found`,
+        });
+      }
+      return toProtocolVersion(row);
+    }),
+
+  /** Every stored version of a protocol, newest first */
+  history: publicProcedure
+    .input(z.object({ key: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const rows = await ctx.db.consultationProtocol.findMany({
+        where: { key: input.key },
+        orderBy: { version: "desc" },
+      });
+      return rows.map(toProtocolVersion);
+    }),
+
+  /**
+   * Publishes a protocol as a new version of its key. Sessions already
+   * pinned to an earlier version keep running it.
+   */
+  publish: clinicianProcedure
+    .input(protocolDefinitionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const protocol = await publishProtocol(input, ctx.db);
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: `Consultation protocol ${protocol.key} v${protocol.version} published`,
+          userId: ctx.session.userId,
+          associatedId: protocol.id,
+          associatedType: "consultationProtocol",
+        },
+      });
+
+      return protocol;
+    }),
+
+  /** Sets the protocol new sessions on a kiosk run; null restores the default */
+  assignToKiosk: operatorProcedure
+    .input(
+      z.object({
+        kioskId: z.string().uuid(),
+        key: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.key) await requireProtocol(input.key, ctx.db);
+
+      return ctx.db.kiosk.update({
+        where: { id: input.kioskId },
+        data: { protocolKey: input.key },
+        select: { id: true, protocolKey: true },
+      });
+    }),
+
+  /**
+   * Switches a session to the latest version of another protocol. Only
+   * allowed before the consultation has started talking.
+   */
+  selectForSession: publicProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid(),
+        key: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.session.findUnique({
+        where: { id: input.sessionId },
+        select: {
+          conversation: {
+            select: { _count: { select: { chatMessages: true } } },
+          },
+        },
+      });
+
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Session not found",
+        });
+      }
+
+      if ((session.conversation?._count.chatMessages ?? 0) > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The consultation has already started",
+        });
+      }
+
+      const protocol = await requireProtocol(input.key, ctx.db);
+      await ctx.db.session.update({
+        where: { id: input.sessionId },
+        data: { protocolId: protocol.id },
+      });
+
+      return { key: protocol.key, version: protocol.version };
+    }),
+});
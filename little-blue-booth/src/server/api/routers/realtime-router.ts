@@ -0,0 +1,139 @@
+import type { PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import {
+  assertSessionAccess,
+  createTRPCRouter,
+  publicProcedure,
+  sessionProcedure,
+} from "~/server/api/trpc";
+import {
+  REALTIME_END_REASONS,
+  REALTIME_RECONNECT_EVENTS,
+  endRealtimeSession,
+  recordRealtimeHeartbeat,
+} from "~/server/realtime/sessions";
+import { runRealtimeTool } from "~/server/realtime/runTool";
+
+async function findRealtimeSession(
+  client: PrismaClient,
+  realtimeSessionId: string,
+) {
+  const realtimeSession = await client.realtimeSession.findUnique({
+    where: { id: realtimeSessionId },
+    select: { sessionId: true },
+  });
+  // Only connections of a kiosk session can be checked against its owner
+  if (!realtimeSession?.sessionId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Realtime session not found",
+    });
+  }
+  return { sessionId: realtimeSession.sessionId };
+}
+
+/**
+ * Calls from the kiosk for a realtime connection registered by /api/session:
+ * lifecycle and tool calls. Like /api/session, only the session's patient or
+ * the booth it runs on may make them.
+ */
+export const realtimeRouter = createTRPCRouter({
+  /**
+   * Sent periodically while the voice agent is connected. `active: false`
+   * tells the kiosk the connection was closed server-side, e.g. by the
+   * sweeper after a network outage.
+   */
+  heartbeat: publicProcedure
+    .input(z.object({ realtimeSessionId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { sessionId } = await findRealtimeSession(
+        ctx.db,
+        input.realtimeSessionId,
+      );
+      await assertSessionAccess(ctx, sessionId);
+      const active = await recordRealtimeHeartbeat(
+        input.realtimeSessionId,
+        ctx.db,
+      );
+      return { active };
+    }),
+
+  /**
+   * Runs a function call the voice agent made. The kiosk returns the result
+   * to the model as a function_call_output item.
+   */
+  callTool: sessionProcedure
+    .input(
+      z.object({
+        name: z.string(),
+        arguments: z.string(),
+        callId: z.string(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return runRealtimeTool({
+        sessionId: input.sessionId,
+        name: input.name,
+        args: input.arguments,
+        callId: input.callId,
+      });
+    }),
+
+  /**
+   * Records a step of the kiosk recovering a dropped connection. Each attempt
+   * registers its own realtime session through /api/session; this only keeps
+   * the audit trail.
+   */
+  logReconnect: sessionProcedure
+    .input(
+      z.object({
+        realtimeSessionId: z.string().uuid().optional(),
+        event: z.enum(REALTIME_RECONNECT_EVENTS),
+        attempt: z.number().int().nonnegative(),
+        reason: z.string().max(200).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.auditLog.create({
+        data: {
+          eventType:
+            input.event === "gaveUp"
+              ? "error"
+              : input.event === "reconnected"
+                ? "info"
+                : "warning",
+          description: `Realtime reconnect: ${input.event}`,
+          details: JSON.stringify({
+            attempt: input.attempt,
+            reason: input.reason,
+          }),
+          sessionId: input.sessionId,
+          associatedId: input.realtimeSessionId,
+          associatedType: "realtimeSession",
+        },
+      });
+      return { success: true };
+    }),
+
+  end: publicProcedure
+    .input(
+      z.object({
+        realtimeSessionId: z.string().uuid(),
+        reason: z.enum(REALTIME_END_REASONS).default("ended"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { sessionId } = await findRealtimeSession(
+        ctx.db,
+        input.realtimeSessionId,
+      );
+      await assertSessionAccess(ctx, sessionId);
+      const ended = await endRealtimeSession(
+        input.realtimeSessionId,
+        input.reason,
+        ctx.db,
+      );
+      return { ended };
+    }),
+});
@@ -0,0 +1,129 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import {
+  byPriority,
+  canTransitionReferral,
+  REFERRAL_STATUSES,
+} from "~/lib/recommendations";
+import {
+  clinicianProcedure,
+  createTRPCRouter,
+  sessionReadProcedure,
+} from "~/server/api/trpc";
+import { enqueueAnalysisJob } from "~/server/background/AnalysisManager";
+import {
+  toRecommendationRecord,
+  toReferralRecord,
+} from "~/server/recommendations";
+
+export const recommendationRouter = createTRPCRouter({
+  /** The session's recommendations with their referrals, most urgent first */
+  list: sessionReadProcedure.query(async ({ ctx, input }) => {
+    const recommendations = await ctx.db.recommendation.findMany({
+      where: { sessionId: input.sessionId },
+      orderBy: { createdAt: "asc" },
+      include: { referrals: { orderBy: { createdAt: "asc" } } },
+    });
+    return recommendations.map(toRecommendationRecord).sort(byPriority);
+  }),
+
+  /** Regenerates the recommendations from the latest final assessment */
+  generate: clinicianProcedure
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.session.findUnique({
+        where: { id: input.sessionId },
+        select: { id: true },
+      });
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Session not found",
+        });
+      }
+
+      const jobId = await enqueueAnalysisJob("generateRecommendations", {
+        sessionId: input.sessionId,
+      });
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: "Recommendations requested",
+          sessionId: input.sessionId,
+          userId: ctx.session.userId,
+          associatedId: jobId,
+          associatedType: "analysisJob",
+        },
+      });
+
+      return { jobId };
+    }),
+
+  /**
+   * Moves a referral along its lifecycle: pending to confirmed or cancelled,
+   * confirmed to cancelled. A confirmed referral may carry its appointment
+   * time.
+   */
+  updateReferralStatus: clinicianProcedure
+    .input(
+      z.object({
+        referralId: z.string().uuid(),
+        status: z.enum(REFERRAL_STATUSES),
+        scheduledTime: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const referral = await ctx.db.referral.findUnique({
+        where: { id: input.referralId },
+      });
+      if (!referral) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Referral not found",
+        });
+      }
+
+      if (!canTransitionReferral(referral.status, input.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Referral cannot move from ${referral.status} to ${input.status}`,
+        });
+      }
+      if (input.scheduledTime && input.status !== "confirmed") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only a confirmed referral can be scheduled",
+        });
+      }
+
+      const updated = await ctx.db.referral.update({
+        where: { id: referral.id },
+        data: {
+          status: input.status,
+          statusChangedAt: new Date(),
+          ...(input.scheduledTime
+            ? { scheduledTime: input.scheduledTime }
+            : {}),
+        },
+      });
+
+      await ctx.db.auditLog.create({
+        data: {
+          eventType: "info",
+          description: `Referral ${input.status}`,
+          details: JSON.stringify({
+            from: referral.status,
+            to: input.status,
+            scheduledTime: input.scheduledTime?.toISOString(),
+          }),
+          sessionId: referral.sessionId,
+          userId: ctx.session.userId,
+          associatedId: referral.id,
+          associatedType: "referral",
+        },
+      });
+
+      return toReferralRecord(updated);
+    }),
+});
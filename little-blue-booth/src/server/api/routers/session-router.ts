@@ -1,22 +1,64 @@
+import type { PrismaClient } from "@prisma/client";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  createTRPCRouter,
+  sessionProcedure,
+  sessionReadProcedure,
+} from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { parseHealthMarkersForTrends } from "./session-utils";
+import { computeEarlyWarningScores } from "~/lib/earlyWarningScores";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import { byPriority } from "~/lib/recommendations";
+import { toRecommendationRecord } from "~/server/recommendations";
+import {
+  InvalidSessionTransitionError,
+  transitionSession,
+} from "~/server/sessions";
+import type { SessionState, SessionTransitionReason } from "~/lib/sessions";
+
+async function findSession(client: PrismaClient, sessionId: string) {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    select: { id: true, userId: true },
+  });
+  if (!session) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+  }
+  return session;
+}
+
+/** Applies a state change the kiosk asked for; a disallowed one is a bad request */
+async function applyTransition(
+  client: PrismaClient,
+  sessionId: string,
+  to: SessionState,
+  reason: SessionTransitionReason,
+) {
+  const { userId } = await findSession(client, sessionId);
+  try {
+    return await transitionSession(sessionId, to, { reason, userId }, client);
+  } catch (error) {
+    if (error instanceof InvalidSessionTransitionError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  }
+}
 
 /**
  * Example new session router for ending a session and returning a final summary
  */
 export const sessionRouter = createTRPCRouter({
   /**
-   * Ends a session by marking `endTime` and `state = COMPLETED`,
+   * Ends a session by moving it to COMPLETED,
    * then gathers disclaimers, health marker trends, and recommended steps
    */
-  endSession: publicProcedure
+  endSession: sessionProcedure
     .input(
       z.object({
-        sessionId: z.string().uuid(),
         email: z.string().email().optional(),
-      })
+      }),
     )
     .mutation(async ({ ctx, input }) => {
       const { sessionId, email } = input;
@@ -27,8 +69,8 @@ export const sessionRouter = createTRPCRouter({
         include: {
           // healthMarkers so we can build marker trends
           healthMarkers: true,
-          // recommendations to show recommended steps
-          recommendations: true,
+          // recommendations to show recommended steps, with their referrals
+          recommendations: { include: { referrals: true } },
         },
       });
 
@@ -39,21 +81,13 @@ export const sessionRouter = createTRPCRouter({
         });
       }
 
-      if (session.endTime) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Session is already ended",
-        });
-      }
-
-      // 2) Mark session as ended in DB
-      const endedSession = await ctx.db.session.update({
-        where: { id: sessionId },
-        data: {
-          endTime: new Date(),
-          state: "COMPLETED",
-        },
-      });
+      // 2) Mark session as ended in DB; this also closes its voice connections
+      const endedSession = await applyTransition(
+        ctx.db,
+        sessionId,
+        "COMPLETED",
+        "completed",
+      );
 
       // 3) Example disclaimers
       const disclaimers = [
@@ -63,13 +97,22 @@ export const sessionRouter = createTRPCRouter({
 
       // 4) Basic health marker trend analysis
       const markerTrends = parseHealthMarkersForTrends(session.healthMarkers);
+      const earlyWarningScores = computeEarlyWarningScores(
+        reconcileMarkers(session.healthMarkers),
+      );
 
-      // 5) Pull out stored recommendations
-      const recommendedSteps = session.recommendations.map((rec) => ({
-        title: rec.title,
-        description: rec.description,
-        externalLinks: rec.externalLinks ? JSON.parse(rec.externalLinks) : [],
-      }));
+      // 5) Pull out stored recommendations, most urgent first
+      const recommendedSteps = session.recommendations
+        .map(toRecommendationRecord)
+        .sort(byPriority)
+        .map((rec) => ({
+          title: rec.title,
+          description: rec.description,
+          category: rec.category,
+          priority: rec.priority,
+          externalLinks: rec.evidenceLinks,
+          referrals: rec.referrals,
+        }));
 
       // 6) Construct final summary payload
       const summary = {
@@ -77,6 +120,7 @@ export const sessionRouter = createTRPCRouter({
         endedAt: endedSession.endTime,
         disclaimers,
         markerTrends,
+        earlyWarningScores,
         recommendedSteps,
       };
 
@@ -87,4 +131,85 @@ export const sessionRouter = createTRPCRouter({
 
       return summary;
     }),
+
+  /** The patient paused the consultation */
+  pause: sessionProcedure.mutation(async ({ ctx, input }) => {
+    const session = await applyTransition(
+      ctx.db,
+      input.sessionId,
+      "PAUSED",
+      "paused",
+    );
+    return { state: session.state };
+  }),
+
+  resume: sessionProcedure.mutation(async ({ ctx, input }) => {
+    const session = await applyTransition(
+      ctx.db,
+      input.sessionId,
+      "IN_PROGRESS",
+      "resumed",
+    );
+    return { state: session.state };
+  }),
+
+  /** The patient stopped the consultation without finishing it */
+  cancel: sessionProcedure.mutation(async ({ ctx, input }) => {
+    const session = await applyTransition(
+      ctx.db,
+      input.sessionId,
+      "CANCELED",
+      "canceled",
+    );
+    return { state: session.state };
+  }),
+
+  /**
+   * The session's lifecycle state. Polled by the kiosk while the analysis
+   * socket is down, so it notices a session ended server-side.
+   */
+  state: sessionReadProcedure.query(async ({ ctx, input }) => {
+    const session = await ctx.db.session.findUnique({
+      where: { id: input.sessionId },
+      select: { state: true, endReason: true, endTime: true },
+    });
+    if (!session) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Session not found",
+      });
+    }
+    return session;
+  }),
+
+  /**
+   * Loads a stored consultation summary. Returns the requested version when
+   * `summaryId` is given, otherwise the latest version for the session.
+   */
+  getSummary: sessionReadProcedure
+    .input(z.object({ summaryId: z.string().uuid().optional() }))
+    .query(async ({ ctx, input }) => {
+      const summary = await ctx.db.consultationSummary.findFirst({
+        where: {
+          sessionId: input.sessionId,
+          ...(input.summaryId ? { id: input.summaryId } : {}),
+        },
+        orderBy: { version: "desc" },
+      });
+
+      if (!summary) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Summary not found",
+        });
+      }
+
+      return {
+        id: summary.id,
+        sessionId: summary.sessionId,
+        version: summary.version,
+        content: summary.content,
+        createdAt: summary.createdAt,
+      };
+    }),
 });
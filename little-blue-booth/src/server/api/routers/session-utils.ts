@@ -1,8 +1,44 @@
 import type { HealthMarker } from "@prisma/client";
 
+/** A number, or systolic and diastolic for blood pressure */
+type TrendValue = number | { systolic: number; diastolic: number };
+
+const parseTrendValue = (data: string): TrendValue | null => {
+  try {
+    const parsed = JSON.parse(data) as Partial<Record<string, unknown>>;
+    if (typeof parsed.value === "number") return parsed.value;
+    if (
+      typeof parsed.systolic === "number" &&
+      typeof parsed.diastolic === "number"
+    ) {
+      return { systolic: parsed.systolic, diastolic: parsed.diastolic };
+    }
+  } catch {
+    // If data isn't parseable or doesn't follow expected shape, just skip
+  }
+  return null;
+};
+
+const differenceOf = (
+  earliest: TrendValue,
+  latest: TrendValue,
+): TrendValue | null => {
+  if (typeof earliest === "number" && typeof latest === "number") {
+    return latest - earliest;
+  }
+  if (typeof earliest === "object" && typeof latest === "object") {
+    return {
+      systolic: latest.systolic - earliest.systolic,
+      diastolic: latest.diastolic - earliest.diastolic,
+    };
+  }
+  return null;
+};
+
 /**
  * A simple helper that groups markers by type and attempts
- * to parse minimal "trend" info
+ * to parse minimal "trend" info. Blood pressure trends carry
+ * systolic and diastolic separately.
  */
 export function parseHealthMarkersForTrends(markers: HealthMarker[]) {
   // Group by markerType
@@ -17,9 +53,9 @@ export function parseHealthMarkersForTrends(markers: HealthMarker[]) {
   const trends: Record<
     string,
     {
-      earliest: number | null;
-      latest: number | null;
-      difference: number | null;
+      earliest: TrendValue | null;
+      latest: TrendValue | null;
+      difference: TrendValue | null;
     }
   > = {};
 
@@ -28,30 +64,13 @@ export function parseHealthMarkersForTrends(markers: HealthMarker[]) {
     const sorted = markerList.sort(
       (a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime(),
     );
-    const first = sorted[0];
-    const last = sorted[sorted.length - 1];
-
-    let earliestValue: number | null = null;
-    let latestValue: number | null = null;
-    let difference: number | null = null;
-
-    // Example: assume `marker.data` holds JSON with shape { value: number }
-    try {
-      const firstData = JSON.parse(first.data);
-      const lastData = JSON.parse(last.data);
-      if (typeof firstData.value === "number") earliestValue = firstData.value;
-      if (typeof lastData.value === "number") latestValue = lastData.value;
-      if (earliestValue !== null && latestValue !== null) {
-        difference = latestValue - earliestValue;
-      }
-    } catch {
-      // If data isn't parseable or doesn't follow expected shape, just skip
-    }
+    const earliest = parseTrendValue(sorted[0].data);
+    const latest = parseTrendValue(sorted[sorted.length - 1].data);
 
     trends[markerType] = {
-      earliest: earliestValue,
-      latest: latestValue,
-      difference,
+      earliest,
+      latest,
+      difference: earliest && latest ? differenceOf(earliest, latest) : null,
     };
   }
 
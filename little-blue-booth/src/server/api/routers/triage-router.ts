@@ -0,0 +1,21 @@
+import { createTRPCRouter, sessionReadProcedure } from "~/server/api/trpc";
+import { getLatestTriage, getTriageEscalation } from "~/server/triage";
+
+export const triageRouter = createTRPCRouter({
+  /**
+   * The session's most recent triage result. The kiosk polls this when the
+   * analysis socket is down, and the emergency screen shows its red flags.
+   */
+  latest: sessionReadProcedure.query(async ({ ctx, input }) => {
+    return getLatestTriage(input.sessionId, ctx.db);
+  }),
+
+  /**
+   * Whether on-site staff were paged when triage interrupted the session, so
+   * the emergency screen only says help is coming when it is. Null until the
+   * interrupt has been recorded.
+   */
+  escalation: sessionReadProcedure.query(async ({ ctx, input }) => {
+    return getTriageEscalation(input.sessionId, ctx.db);
+  }),
+});
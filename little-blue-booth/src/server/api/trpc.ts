@@ -10,9 +10,14 @@
 import { auth } from "@clerk/nextjs/server";
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
-import { ZodError } from "zod";
+import { ZodError, z } from "zod";
 
+import { KIOSK_CREDENTIAL_HEADER } from "~/lib/kiosks";
+import { hasRole, type Role } from "~/lib/roles";
 import { db } from "~/server/db";
+import { authenticateKiosk } from "~/server/kiosks";
+import { checkSessionAccess } from "~/server/sessions/access";
+import { resolveUserRole } from "~/server/staff";
 
 /**
  * 1. CONTEXT
@@ -43,6 +48,8 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
  * ZodErrors so that you get typesafety on the frontend if your procedure fails due to validation
  * errors on the backend.
  */
+type Context = Awaited<ReturnType<typeof createTRPCContext>>;
+
 const t = initTRPC.context<typeof createTRPCContext>().create({
   transformer: superjson,
   errorFormatter({ shape, error }) {
@@ -131,3 +138,98 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Kiosk procedure
+ *
+ * For calls made by an enrolled booth. Resolves the booth from the kiosk credential header (see
+ * `src/lib/kiosks.ts`) and exposes it as `ctx.kiosk`.
+ */
+export const kioskProcedure = t.procedure
+  .use(timingMiddleware)
+  .use(async ({ ctx, next }) => {
+    const kiosk = await authenticateKiosk(
+      ctx.headers.get(KIOSK_CREDENTIAL_HEADER),
+      ctx.db,
+    );
+    if (!kiosk) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "This booth is not enrolled",
+      });
+    }
+    return next({ ctx: { kiosk } });
+  });
+
+/**
+ * Role procedures
+ *
+ * Protected procedures that also require one of the given roles (see `src/lib/roles.ts`), and
+ * expose the caller's role as `ctx.role`. Admins pass every role check.
+ */
+const roleProcedure = (...roles: Role[]) =>
+  protectedProcedure.use(async ({ ctx, next }) => {
+    const role = await resolveUserRole(
+      ctx.session.user,
+      ctx.session.sessionClaims,
+      ctx.db,
+    );
+    if (!hasRole(role, ...roles)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have access to this",
+      });
+    }
+    return next({ ctx: { role } });
+  });
+
+export const adminProcedure = roleProcedure("admin");
+export const clinicianProcedure = roleProcedure("clinician");
+export const operatorProcedure = roleProcedure("kioskOperator");
+
+/**
+ * Throws unless the caller may act on a kiosk session: its own patient signed in with Clerk, or
+ * the enrolled booth it runs on. With `clinicians`, clinicians and admins may too.
+ */
+export async function assertSessionAccess(
+  ctx: Context,
+  sessionId: string,
+  { clinicians = false }: { clinicians?: boolean } = {},
+) {
+  const access = await checkSessionAccess(
+    {
+      userId: ctx.session.userId,
+      sessionClaims: ctx.session.sessionClaims,
+      kioskCredential: ctx.headers.get(KIOSK_CREDENTIAL_HEADER),
+    },
+    sessionId,
+    { clinicians },
+    ctx.db,
+  );
+  if (access === "granted") return;
+  if (access === "notFound") {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+  }
+  throw new TRPCError({
+    code: access === "forbidden" ? "FORBIDDEN" : "UNAUTHORIZED",
+  });
+}
+
+/**
+ * Session procedures
+ *
+ * For calls about one kiosk session; the input carries its `sessionId`, and the caller must pass
+ * `assertSessionAccess`. `sessionProcedure` admits the patient and their booth, and
+ * `sessionReadProcedure` also clinicians, for reading transcripts, summaries and scores.
+ */
+const sessionAccessProcedure = (clinicians: boolean) =>
+  t.procedure
+    .use(timingMiddleware)
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .use(async ({ ctx, input, next }) => {
+      await assertSessionAccess(ctx, input.sessionId, { clinicians });
+      return next();
+    });
+
+export const sessionProcedure = sessionAccessProcedure(false);
+export const sessionReadProcedure = sessionAccessProcedure(true);
@@ -2,26 +2,110 @@
 
 import { myQueue } from "~/server/api/reasoning_bots/bull_mq_process";
 import { v4 as uuidv4 } from "uuid";
+import { db } from "~/server/db";
+import type {
+  AnalysisModule,
+  AnalysisTrigger,
+  AnalysisTriggerContext,
+} from "~/server/background/analysisModule";
+import {
+  analysisModules,
+  getAnalysisModule,
+} from "~/server/background/modules";
 
 /**
- * The shape of a single background analysis module.
+ * Counts patient turns in a transcript formatted as `[role]: content` lines.
  */
-interface AnalysisModule {
-  name: string;
-  description?: string;
-  priority?: number;
+function countUserTurns(conversationText: string): number {
+  return conversationText
+    .split("\n")
+    .filter((line) => line.startsWith("[user]:")).length;
+}
+
+async function shouldTrigger(
+  trigger: AnalysisTrigger,
+  context: AnalysisTriggerContext,
+): Promise<boolean> {
+  if (
+    trigger.minUserTurns !== undefined &&
+    context.userTurnCount < trigger.minUserTurns
+  ) {
+    return false;
+  }
+
+  if (
+    trigger.everyNUserTurns !== undefined &&
+    (context.userTurnCount === 0 ||
+      context.userTurnCount % trigger.everyNUserTurns !== 0)
+  ) {
+    return false;
+  }
+
+  if (
+    trigger.requiresMarkers?.some(
+      (markerType) => !context.markerTypes.has(markerType),
+    )
+  ) {
+    return false;
+  }
+
+  if (trigger.when) {
+    return await trigger.when(context);
+  }
+
+  return true;
+}
+
+async function addModuleJob(
+  analysisModule: AnalysisModule,
+  data: unknown,
+): Promise<string | undefined> {
+  const input = analysisModule.inputSchema.parse(data);
+  const jobId = `${analysisModule.name}-${input.sessionId}-${uuidv4()}`;
+
+  console.log(
+    `Attempting to add job for module ${analysisModule.name} with jobId: ${jobId}`,
+  );
+  const job = await myQueue.add(analysisModule.name, input, {
+    priority: analysisModule.priority,
+    jobId,
+    attempts: 3,
+    backoff: { type: "exponential", delay: 1000 },
+  });
+
+  if (job?.id) {
+    console.log(`Created job ${job.id} for module ${analysisModule.name}`);
+    return job.id;
+  }
+
+  console.error(`Failed to create job for module ${analysisModule.name}`);
+  return undefined;
 }
 
 /**
- * For demonstration, a sample list of modules to run.
- * In a real setup, you can separate them into their own files.
+ * Enqueues a single registered module, regardless of its trigger. Used for
+ * modules that run on request rather than on conversation updates.
  */
-const analysisModules: AnalysisModule[] = [
-  { name: "roughOverview", priority: 1 },
-  { name: "extractHealthMetrics", priority: 2 },
-  { name: "checkInformationCompleteness", priority: 3 }
-];
+export async function enqueueAnalysisJob(
+  name: string,
+  data: unknown,
+): Promise<string> {
+  const analysisModule = getAnalysisModule(name);
+  if (!analysisModule) {
+    throw new Error(`Unknown analysis module ${name}`);
+  }
+
+  const jobId = await addModuleJob(analysisModule, data);
+  if (!jobId) {
+    throw new Error(`Failed to create job for module ${name}`);
+  }
+  return jobId;
+}
 
+/**
+ * Enqueues every registered module whose trigger matches the current state of
+ * the conversation.
+ */
 export async function createJobsFromConversation(
   conversationText: string,
   sessionId: string
@@ -29,28 +113,31 @@ export async function createJobsFromConversation(
   const jobIds: string[] = [];
 
   try {
+    const markers = await db.healthMarker.findMany({
+      where: { sessionId },
+      select: { markerType: true },
+      distinct: ["markerType"],
+    });
+
+    const context: AnalysisTriggerContext = {
+      sessionId,
+      conversation: conversationText,
+      userTurnCount: countUserTurns(conversationText),
+      markerTypes: new Set(markers.map((m) => m.markerType)),
+    };
+
     for (const analysisModule of analysisModules) {
-      console.log(`Attempting to add job for module ${analysisModule.name} with jobId: ${analysisModule.name}-${sessionId}-${uuidv4()}`);
-      const job = await myQueue.add(
-        analysisModule.name,
-        {
-          conversation: conversationText,
-          sessionId,
-          timestamp: new Date().toISOString(),
-        },
-        {
-          priority: analysisModule.priority,
-          jobId: `${analysisModule.name}-${sessionId}-${uuidv4()}`,
-          attempts: 3,
-          backoff: { type: 'exponential', delay: 1000 },
-        }
-      );
-
-      if (job?.id) {
-        jobIds.push(job.id);
-        console.log(`Created job ${job.id} for module ${analysisModule.name}`);
-      } else {
-        console.error(`Failed to create job for module ${analysisModule.name}`);
+      if (!analysisModule.trigger) continue;
+      if (!(await shouldTrigger(analysisModule.trigger, context))) continue;
+
+      const jobId = await addModuleJob(analysisModule, {
+        conversation: conversationText,
+        sessionId,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (jobId) {
+        jobIds.push(jobId);
       }
     }
 
@@ -0,0 +1,78 @@
+// server/background/analysisEvents.ts
+
+import { QueueEvents, type Job } from "bullmq";
+import type { Server as SocketIOServer } from "socket.io";
+import {
+  QUEUE_NAME,
+  connection,
+  myQueue,
+} from "~/server/api/reasoning_bots/bull_mq_process";
+import type { AnalysisJobInput } from "~/server/background/analysisModule";
+import { ANALYSIS_EVENTS, sessionRoom } from "~/lib/analysisEvents";
+import { setSessionSocketServer } from "~/server/background/sessionSocket";
+
+let queueEvents: QueueEvents | null = null;
+
+/**
+ * QueueEvents only carry the job id, so the job is loaded to find out which
+ * session room the update belongs to.
+ */
+async function emitToSession(
+  io: SocketIOServer,
+  jobId: string,
+  event: string,
+  payload: Record<string, unknown>,
+) {
+  try {
+    const job = (await myQueue.getJob(jobId)) as
+      | Job<AnalysisJobInput>
+      | undefined;
+
+    if (!job?.data.sessionId) {
+      console.warn(`No session found for job ${jobId}, dropping ${event}`);
+      return;
+    }
+
+    io.to(sessionRoom(job.data.sessionId)).emit(event, {
+      jobId,
+      jobName: job.name,
+      sessionId: job.data.sessionId,
+      ...payload,
+    });
+  } catch (error) {
+    console.error(`Failed to forward ${event} for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Subscribes to the analysis queue's events and forwards completed, failed
+ * and progress updates to the room of the session that owns each job.
+ * Safe to call more than once; only the first call attaches listeners.
+ */
+export function forwardAnalysisEvents(io: SocketIOServer) {
+  setSessionSocketServer(io);
+  if (queueEvents) return queueEvents;
+
+  queueEvents = new QueueEvents(QUEUE_NAME, { connection });
+
+  queueEvents.on("completed", ({ jobId, returnvalue }) => {
+    // BullMQ parses the return value before emitting, despite the string type
+    void emitToSession(io, jobId, ANALYSIS_EVENTS.completed, {
+      result: returnvalue as unknown,
+    });
+  });
+
+  queueEvents.on("failed", ({ jobId, failedReason }) => {
+    void emitToSession(io, jobId, ANALYSIS_EVENTS.failed, { failedReason });
+  });
+
+  queueEvents.on("progress", ({ jobId, data }) => {
+    void emitToSession(io, jobId, ANALYSIS_EVENTS.progress, { progress: data });
+  });
+
+  queueEvents.on("error", (err) => {
+    console.error("Analysis queue events error:", err);
+  });
+
+  return queueEvents;
+}
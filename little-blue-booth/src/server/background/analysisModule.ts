@@ -0,0 +1,80 @@
+// server/background/analysisModule.ts
+
+import type { Job } from "bullmq";
+import { z } from "zod";
+
+/**
+ * Data every analysis job carries. The worker refuses jobs without a
+ * sessionId, so every module input schema must include it.
+ */
+export interface AnalysisJobInput {
+  sessionId: string;
+}
+
+/**
+ * Input for modules that analyse the running transcript.
+ */
+export const conversationJobInputSchema = z.object({
+  sessionId: z.string().uuid(),
+  conversation: z.string(),
+  timestamp: z.string().optional(),
+  processed: z.string().optional(), // written back by modules that annotate the job
+});
+
+export type ConversationJobInput = z.infer<typeof conversationJobInputSchema>;
+
+/**
+ * What the manager knows about the session when deciding which modules to
+ * enqueue for a conversation update.
+ */
+export interface AnalysisTriggerContext {
+  sessionId: string;
+  conversation: string;
+  userTurnCount: number;
+  markerTypes: Set<string>;
+}
+
+/**
+ * Conditions under which a module runs as the conversation grows. All set
+ * conditions must hold.
+ */
+export interface AnalysisTrigger {
+  /** Run on every Nth user turn (1 = every turn) */
+  everyNUserTurns?: number;
+  /** Do not run until the patient has spoken at least this many times */
+  minUserTurns?: number;
+  /** Only run once a HealthMarker of each listed type exists for the session */
+  requiresMarkers?: string[];
+  /** Escape hatch for conditions the fields above cannot express */
+  when?: (context: AnalysisTriggerContext) => boolean | Promise<boolean>;
+}
+
+/**
+ * The shape of a single background analysis module.
+ *
+ * Modules without a `trigger` are never enqueued from conversation updates;
+ * they only run when enqueued explicitly (e.g. `generateSummary`).
+ */
+export interface AnalysisModule<
+  TInput extends AnalysisJobInput = AnalysisJobInput,
+  TOutput = unknown,
+> {
+  name: string;
+  description?: string;
+  priority: number;
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  outputSchema: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  trigger?: AnalysisTrigger;
+  handler(job: Job<TInput>, input: TInput): Promise<TOutput>;
+}
+
+/**
+ * Identity helper that infers a module's input and output types from its
+ * schemas.
+ */
+export function defineAnalysisModule<
+  TInput extends AnalysisJobInput,
+  TOutput,
+>(analysisModule: AnalysisModule<TInput, TOutput>) {
+  return analysisModule;
+}
@@ -0,0 +1,90 @@
+// server/background/maintenance.ts
+
+import { Queue, Worker } from "bullmq";
+import { connection } from "~/server/api/reasoning_bots/bull_mq_process";
+import { markOfflineKiosks } from "~/server/kiosks";
+import { closeStaleRealtimeSessions } from "~/server/realtime/sessions";
+import { sweepInactiveSessions } from "~/server/sessions/abandon";
+
+export const MAINTENANCE_QUEUE_NAME = "maintenanceQueue";
+
+/** A housekeeping task run on a fixed interval */
+interface MaintenanceTask {
+  name: string;
+  everyMs: number;
+  run: () => Promise<unknown>;
+}
+
+const MAINTENANCE_TASKS: MaintenanceTask[] = [
+  {
+    name: "closeStaleRealtimeSessions",
+    everyMs: 60 * 1000,
+    run: () => closeStaleRealtimeSessions(),
+  },
+  {
+    name: "markOfflineKiosks",
+    everyMs: 60 * 1000,
+    run: () => markOfflineKiosks(),
+  },
+  {
+    name: "sweepInactiveSessions",
+    everyMs: 60 * 1000,
+    run: () => sweepInactiveSessions(),
+  },
+];
+
+const globalForMaintenance = globalThis as unknown as {
+  maintenance: { queue: Queue; worker: Worker } | undefined;
+};
+
+/**
+ * Schedules every maintenance task as a repeatable job and starts the worker
+ * that runs them. Safe to call more than once per process; schedules are
+ * upserted, so several processes calling it share one schedule.
+ */
+export async function startMaintenance() {
+  if (globalForMaintenance.maintenance) return;
+
+  const queue = new Queue(MAINTENANCE_QUEUE_NAME, {
+    connection,
+    defaultJobOptions: {
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 100 },
+    },
+  });
+
+  const worker = new Worker(
+    MAINTENANCE_QUEUE_NAME,
+    async (job) => {
+      const task = MAINTENANCE_TASKS.find((t) => t.name === job.name);
+      if (!task) throw new Error(`Unknown maintenance task ${job.name}`);
+      return task.run();
+    },
+    { connection, concurrency: 1 },
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`Maintenance task ${job?.name} failed:`, err.message);
+  });
+
+  globalForMaintenance.maintenance = { queue, worker };
+
+  for (const task of MAINTENANCE_TASKS) {
+    await queue.upsertJobScheduler(
+      task.name,
+      { every: task.everyMs },
+      { name: task.name },
+    );
+  }
+
+  console.log(
+    `Maintenance scheduled: ${MAINTENANCE_TASKS.map((t) => t.name).join(", ")}`,
+  );
+}
+
+export async function stopMaintenance() {
+  const maintenance = globalForMaintenance.maintenance;
+  if (!maintenance) return;
+  globalForMaintenance.maintenance = undefined;
+  await Promise.all([maintenance.worker.close(), maintenance.queue.close()]);
+}
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import { chatStructured, notMentioned } from "~/server/llm/structured";
+import {
+  conversationJobInputSchema,
+  defineAnalysisModule,
+} from "~/server/background/analysisModule";
+
+const extractedInfoSchema = z.object({
+  personalInfo: z
+    .object({
+      name: notMentioned(z.string().min(1)),
+      dateOfBirth: notMentioned(z.string().min(1)),
+      age: notMentioned(z.number().int().min(0).max(130)),
+    })
+    .default({}),
+  vitalSigns: z
+    .object({
+      bloodPressure: notMentioned(
+        z.object({
+          systolic: z.number().positive().nullable(),
+          diastolic: z.number().positive().nullable(),
+        }),
+      ),
+      heartRate: notMentioned(z.number().positive()),
+      bloodOxygen: notMentioned(z.number().min(0).max(100)),
+    })
+    .default({}),
+  symptoms: notMentioned(z.array(z.string())),
+  medications: notMentioned(z.array(z.string())),
+});
+
+/**
+ * Checks whether enough information has been gathered for a final analysis
+ * and records what is still missing as an AnalysisStatus row.
+ */
+export const checkInformationCompletenessModule = defineAnalysisModule({
+  name: "checkInformationCompleteness",
+  description: "Records which critical information is still missing",
+  priority: 3,
+  inputSchema: conversationJobInputSchema,
+  outputSchema: z.object({
+    processed: z.literal(true),
+    data: z.object({
+      id: z.string(),
+      sessionId: z.string(),
+      hasEnoughInformation: z.boolean().nullable(),
+      missingCriticalInfo: z.string().nullable(),
+      recommendedNextSteps: z.string().nullable(),
+      urgencyLevel: z.string().nullable(),
+      reasoning: z.string().nullable(),
+      redFlags: z.string().nullable(),
+      timestamp: z.date(),
+    }),
+  }),
+  trigger: { everyNUserTurns: 1 },
+  async handler(job, input) {
+    try {
+      // First, gather all health markers for this session
+      const healthMarkers = await db.healthMarker.findMany({
+        where: {
+          sessionId: input.sessionId,
+        },
+      });
+
+      // Extract basic information from the conversation
+      const prompt = `Extract ONLY explicitly mentioned information from this conversation. Do not make assumptions or recommendations.
+    Respond in this JSON format:
+    {
+      "personalInfo": {
+        "name": string | null,
+        "dateOfBirth": string | null,
+        "age": number | null
+      },
+      "vitalSigns": {
+        "bloodPressure": { "systolic": number | null, "diastolic": number | null } | null,
+        "heartRate": number | null,
+        "bloodOxygen": number | null
+      },
+      "symptoms": string[] | null,
+      "medications": string[] | null
+    }
+
+    Conversation transcript:
+    ${input.conversation}`;
+
+      const { data: extractedInfo } = await chatStructured({
+        task: "informationCompleteness",
+        schema: extractedInfoSchema,
+        sessionId: input.sessionId,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an information extraction system. Only extract information that is explicitly stated in the conversation. Do not infer, analyze, or make recommendations.",
+          },
+          { role: "user", content: prompt },
+        ],
+      });
+
+      console.log("extractedInfo", extractedInfo);
+
+      // Simple check if we have enough information to proceed
+      const hasEnoughInformation = Boolean(
+        ((extractedInfo.personalInfo?.name ?? null) &&
+          (extractedInfo.personalInfo?.dateOfBirth ?? null)) ??
+        (healthMarkers && healthMarkers.length > 0) ??
+        ((extractedInfo.symptoms ?? null) &&
+          (extractedInfo.symptoms?.length ?? 0) > 0) ??
+        ((extractedInfo.medications ?? null) &&
+          (extractedInfo.medications?.length ?? 0) > 0),
+      );
+
+      console.log("hasEnoughInformation", hasEnoughInformation);
+
+      // Verify session still exists before creating analysis status
+      const session = await db.session.findUnique({
+        where: { id: input.sessionId },
+      });
+
+      if (!session) {
+        throw new Error(`Session ${input.sessionId} no longer exists`);
+      }
+
+      // Create analysis status with transaction to ensure consistency
+      const result = await db.$transaction(async (tx) => {
+        const missingInfo = [
+          !extractedInfo.personalInfo?.name && "Name",
+          !extractedInfo.personalInfo?.dateOfBirth && "Date of Birth",
+          !extractedInfo.vitalSigns?.bloodPressure && "Blood Pressure",
+          !extractedInfo.vitalSigns?.heartRate && "Heart Rate",
+          !extractedInfo.symptoms && "Symptoms",
+          !extractedInfo.medications && "Current Medications",
+        ].filter(Boolean);
+
+        const data: {
+          sessionId: string;
+          hasEnoughInformation?: boolean;
+          missingCriticalInfo?: string;
+          recommendedNextSteps?: string;
+          reasoning?: string;
+        } = {
+          sessionId: input.sessionId,
+        };
+
+        if (hasEnoughInformation !== undefined) {
+          data.hasEnoughInformation = hasEnoughInformation;
+          data.reasoning = "Information gathering in progress";
+        }
+
+        if (missingInfo.length > 0) {
+          data.missingCriticalInfo = JSON.stringify(missingInfo);
+        }
+
+        if (hasEnoughInformation === false) {
+          data.recommendedNextSteps = JSON.stringify([]);
+        }
+
+        return await tx.analysisStatus.create({ data });
+      });
+
+      return {
+        processed: true,
+        data: result
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("Error in information completeness check:", {
+        jobId: job.id,
+        sessionId: input.sessionId,
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      throw new Error(`Information completeness check failed: ${errorMessage}`);
+    }
+  },
+});
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import { chatStructured, notMentioned } from "~/server/llm/structured";
+import { recordHealthMarkers } from "~/server/utils/healthMarkers";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import {
+  acceptedUnits,
+  type MarkerReading,
+  type ScalarMarkerType,
+} from "~/lib/healthMarkers";
+import {
+  conversationJobInputSchema,
+  defineAnalysisModule,
+} from "~/server/background/analysisModule";
+
+const healthMarkerRowSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  markerType: z.string(),
+  data: z.string(),
+  unit: z.string().nullable(),
+  source: z.string(),
+  flagReason: z.string().nullable(),
+  capturedAt: z.date(),
+  deviceId: z.string().nullable(),
+});
+
+const reconciledObservationSchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  value: z.union([
+    z.object({ value: z.number() }),
+    z.object({ systolic: z.number(), diastolic: z.number() }),
+  ]),
+  unit: z.string().nullable(),
+  flagReason: z.string().nullable(),
+  capturedAt: z.string(),
+});
+
+const SCALAR_MARKERS = [
+  "bmi",
+  "height",
+  "weight",
+  "heartRate",
+  "bloodOxygen",
+  "temperature",
+  "glucose",
+  "respiratoryRate",
+] as const satisfies readonly ScalarMarkerType[];
+
+/** Identity details are stored alongside the measurements, without units */
+const IDENTITY_MARKERS = ["name", "dob"] as const;
+
+/** A measurement as spoken, in any unit the catalogue can convert from */
+const measurementSchema = (type: ScalarMarkerType) =>
+  z.object({
+    value: z.number(),
+    unit: z.enum(acceptedUnits(type) as [string, ...string[]]),
+  });
+
+/**
+ * What the model must return. Types and units are checked here; the marker
+ * catalogue then converts units and applies plausibility bounds.
+ */
+const extractedMetricsSchema = z.object({
+  name: notMentioned(z.string().min(1)),
+  dob: notMentioned(
+    z.string().regex(/^\d{2}-\d{2}-\d{4}$/, "Expected DD-MM-YYYY"),
+  ),
+  bmi: notMentioned(measurementSchema("bmi")),
+  // "5 ft 10 in" is { value: 5, unit: "ft", inches: 10 }
+  height: notMentioned(
+    measurementSchema("height").extend({
+      inches: notMentioned(z.number().min(0).max(12)),
+    }),
+  ),
+  weight: notMentioned(measurementSchema("weight")),
+  heartRate: notMentioned(measurementSchema("heartRate")),
+  bloodOxygen: notMentioned(measurementSchema("bloodOxygen")),
+  temperature: notMentioned(measurementSchema("temperature")),
+  glucose: notMentioned(measurementSchema("glucose")),
+  respiratoryRate: notMentioned(measurementSchema("respiratoryRate")),
+  bloodPressure: notMentioned(
+    z.object({
+      systolic: z.number(),
+      diastolic: z.number(),
+      unit: z.enum(acceptedUnits("bloodPressure") as [string, ...string[]]),
+    }),
+  ),
+});
+
+const measurementFields = [...SCALAR_MARKERS, "bloodPressure" as const]
+  .map(
+    (type) =>
+      `  "${type}": ${type === "bloodPressure" ? '{ "systolic": number, "diastolic": number, "unit": string }' : type === "height" ? '{ "value": number, "unit": string, "inches": number | null }' : '{ "value": number, "unit": string }'} | null, // unit one of: ${acceptedUnits(type).join(", ")}${type === "height" ? '; for feet and inches give the feet as value with unit "ft" and the rest as inches' : ""}`,
+  )
+  .join("\n");
+
+/**
+ * Extracts vitals and demographics stated in the conversation into
+ * HealthMarker rows, then reconciles them with what other sources reported
+ * for the session.
+ */
+export const extractHealthMetricsModule = defineAnalysisModule({
+  name: "extractHealthMetrics",
+  description: "Stores health metrics mentioned in the conversation",
+  priority: 2,
+  inputSchema: conversationJobInputSchema,
+  outputSchema: z.object({
+    processed: z.literal(true),
+    data: z.array(healthMarkerRowSchema),
+    reconciled: z.array(
+      z.object({
+        markerType: z.string(),
+        current: reconciledObservationSchema,
+        alternatives: z.array(reconciledObservationSchema),
+        conflict: z.string().nullable(),
+      }),
+    ),
+    reconciledAt: z.string(),
+  }),
+  trigger: { everyNUserTurns: 1 },
+  async handler(_job, input) {
+    try {
+      // Query the AI to extract metrics
+      const prompt = `Extract the following health metrics from the conversation, responding in a strict JSON format.
+Report each measurement in the unit the patient used.
+{
+  "name": string | null,
+  "dob": string | null, // in DD-MM-YYYY format
+${measurementFields}
+}
+
+Conversation transcript:
+${input.conversation}`;
+
+      const { data: metrics } = await chatStructured({
+        task: "healthMetrics",
+        schema: extractedMetricsSchema,
+        sessionId: input.sessionId,
+        messages: [
+          { role: "system", content: "You are a precise medical data extraction system. Only extract values that are explicitly stated in the conversation. Do not infer or calculate values unless explicitly mentioned. Respond with a JSON object containing exactly the fields requested, using null for anything not mentioned." },
+          { role: "user", content: prompt }
+        ]
+      });
+
+      // Every observation is kept so a misheard value can be corrected; a
+      // value repeated on a later run is not stored again
+      const results = [];
+
+      for (const type of IDENTITY_MARKERS) {
+        const value = metrics[type];
+        if (value === null) continue;
+
+        const data = JSON.stringify({ value });
+        const latest = await db.healthMarker.findFirst({
+          where: {
+            sessionId: input.sessionId,
+            markerType: type,
+            source: "llmExtraction",
+          },
+          orderBy: { capturedAt: "desc" },
+          select: { data: true },
+        });
+        if (latest?.data === data) continue;
+
+        results.push(
+          await db.healthMarker.create({
+            data: {
+              sessionId: input.sessionId,
+              markerType: type,
+              data,
+              source: "llmExtraction",
+            },
+          }),
+        );
+      }
+
+      const readings: MarkerReading[] = [];
+      for (const type of SCALAR_MARKERS) {
+        const measurement = metrics[type];
+        if (measurement === null) continue;
+        readings.push({
+          type,
+          value: measurement.value,
+          unit: measurement.unit,
+          ...("inches" in measurement && measurement.inches !== null
+            ? { inches: measurement.inches }
+            : {}),
+        });
+      }
+      if (metrics.bloodPressure) {
+        readings.push({ type: "bloodPressure", ...metrics.bloodPressure });
+      }
+
+      // Unit conversion and plausibility checks happen in the catalogue
+      results.push(
+        ...(await recordHealthMarkers({
+          sessionId: input.sessionId,
+          source: "llmExtraction",
+          readings,
+          skipUnchanged: true,
+        })),
+      );
+
+      // Reconcile against every source, including the Google Fit import
+      const allMarkers = await db.healthMarker.findMany({
+        where: { sessionId: input.sessionId },
+      });
+      const reconciled = reconcileMarkers(allMarkers);
+
+      for (const marker of reconciled) {
+        if (marker.conflict) {
+          console.log(`Marker conflict for session ${input.sessionId}: ${marker.conflict}`);
+        }
+      }
+
+      return {
+        processed: true as const,
+        data: results,
+        reconciled,
+        reconciledAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("Error in health metrics extraction:", error);
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { enqueueAnalysisJob } from "~/server/background/AnalysisManager";
+import { defineAnalysisModule } from "~/server/background/analysisModule";
+import { generateClinicalNote } from "~/server/clinicalNote";
+
+/**
+ * Writes the clinician-facing SOAP note for a session as a new ClinicalNote
+ * version. Enqueued alongside the patient summary by /api/generate-summary,
+ * and on request through `clinicalNote.generate`. Recommendations are
+ * regenerated from each new note.
+ */
+export const generateClinicalNoteModule = defineAnalysisModule({
+  name: "generateClinicalNote",
+  description: "Clinician-facing SOAP note with citations",
+  priority: 2,
+  inputSchema: z.object({
+    sessionId: z.string().uuid(),
+  }),
+  outputSchema: z.object({
+    processed: z.literal(true),
+    noteId: z.string(),
+    version: z.number().int(),
+    droppedStatements: z.number().int(),
+    recommendationsJobId: z.string(),
+  }),
+  async handler(job, input) {
+    const note = await generateClinicalNote({
+      sessionId: input.sessionId,
+      jobId: job.id,
+    });
+
+    console.log(
+      `Clinical note v${note.version} generated for session ${input.sessionId}`,
+    );
+    const recommendationsJobId = await enqueueAnalysisJob(
+      "generateRecommendations",
+      { sessionId: input.sessionId },
+    );
+    return {
+      processed: true,
+      noteId: note.id,
+      version: note.version,
+      droppedStatements: note.content.droppedStatements,
+      recommendationsJobId,
+    };
+  },
+});
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { defineAnalysisModule } from "~/server/background/analysisModule";
+import { generateRecommendations } from "~/server/recommendations";
+
+/**
+ * Turns the final assessment into Recommendation and Referral rows.
+ * Enqueued by generateClinicalNote once the note is stored, and on request
+ * through `recommendation.generate`.
+ */
+export const generateRecommendationsModule = defineAnalysisModule({
+  name: "generateRecommendations",
+  description: "Next steps and referrals from the final assessment",
+  priority: 2,
+  inputSchema: z.object({
+    sessionId: z.string().uuid(),
+  }),
+  outputSchema: z.object({
+    processed: z.literal(true),
+    recommendationIds: z.array(z.string()),
+    referralIds: z.array(z.string()),
+  }),
+  async handler(job, input) {
+    const recommendations = await generateRecommendations({
+      sessionId: input.sessionId,
+      jobId: job.id,
+    });
+
+    return {
+      processed: true,
+      recommendationIds: recommendations.map((r) => r.id),
+      referralIds: recommendations.flatMap((r) =>
+        r.referrals.map((referral) => referral.id),
+      ),
+    };
+  },
+});
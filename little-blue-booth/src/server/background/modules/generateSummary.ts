@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import { llm } from "~/server/llm";
+import { defineAnalysisModule } from "~/server/background/analysisModule";
+import {
+  computeEarlyWarningScores,
+  describeEarlyWarningScores,
+} from "~/lib/earlyWarningScores";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import { describePatientHistory } from "~/lib/patientHistory";
+import { loadPatientHistory } from "~/server/utils/patientHistory";
+
+/**
+ * Writes the patient-facing Markdown summary for a session as a new
+ * ConsultationSummary version. Enqueued explicitly by /api/generate-summary.
+ */
+export const generateSummaryModule = defineAnalysisModule({
+  name: "generateSummary",
+  description: "Patient-facing consultation summary",
+  priority: 1,
+  inputSchema: z.object({
+    sessionId: z.string().uuid(),
+    summaryContent: z.string().optional(),
+  }),
+  outputSchema: z.object({
+    processed: z.literal(true),
+    summaryId: z.string(),
+    version: z.number().int(),
+    summaryContent: z.string(),
+  }),
+  async handler(job, input) {
+    /**
+     * 1) Gather relevant session data (conversation, analysis, markers, etc.)
+     */
+    const sessionId = input.sessionId;
+
+    const session = await db.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        conversation: {
+          include: {
+            chatMessages: {
+              orderBy: [{ sequence: "asc" }, { timestamp: "asc" }],
+            },
+          },
+        },
+        healthMarkers: true,
+        recommendations: true,
+        analysisStatuses: true,
+        metaReasonings: true,
+        // add any other relations you want to incorporate
+      },
+    });
+
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found while generating summary.`);
+    }
+
+    // Convert messages into a user/assistant/system conversation format
+    let conversationText = "";
+    if (session.conversation) {
+      // Messages are already in conversation order
+      for (const msg of session.conversation.chatMessages) {
+        conversationText += `\n[${msg.sender}]: ${msg.messageText}`;
+      }
+    }
+
+    // You can incorporate healthMarkers, recommendations, etc. into a "context" block
+    const earlyWarningScores = computeEarlyWarningScores(
+      reconcileMarkers(session.healthMarkers),
+    );
+    const history = describePatientHistory(
+      await loadPatientHistory(session.userId),
+      sessionId,
+    );
+    const additionalContext = `
+Health Markers: ${JSON.stringify(session.healthMarkers, null, 2)}
+Early Warning Scores: ${describeEarlyWarningScores(earlyWarningScores)}
+Patient History: ${history.length > 0 ? `\n${history.join("\n")}` : "none"}
+Recommendations: ${JSON.stringify(session.recommendations, null, 2)}
+Analysis: ${JSON.stringify(session.analysisStatuses, null, 2)}
+MetaReasoning: ${JSON.stringify(session.metaReasonings, null, 2)}
+`;
+
+    // 2) Prompt GPT-4 or similar
+    const systemPrompt = `
+You are a helpful medical summary assistant.
+Generate a structured summary in valid Markdown, with headings, bullet points, and any relevant details.
+Include key health markers, major conversation points, recommended next steps, etc.
+Report the early warning scores under Health Markers as given, including any missing vitals; do not recalculate them.
+Report every trend in the patient history as given under Changes Since Previous Visits; leave that section out when there is no history.
+
+Format:
+# Consultation Summary
+## Overview
+(brief overview)
+## Key Discussion Points
+- ...
+## Health Markers
+- ...
+- Early warning scores: NEWS2 ..., qSOFA ...
+## Changes Since Previous Visits
+- ...
+## Recommendations
+- ...
+## Additional Notes
+(whatever else)
+  `;
+
+    const response = await llm.chat({
+      task: "summary",
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content: `Conversation:\n${conversationText}\n\nAdditional Context:\n${additionalContext}`,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
+    });
+
+    const summary = response.content || "No summary generated.";
+
+    // 3) Store the summary as the next version for this session
+    const stored = await db.$transaction(async (tx) => {
+      const latest = await tx.consultationSummary.findFirst({
+        where: { sessionId },
+        orderBy: { version: "desc" },
+        select: { version: true },
+      });
+
+      return tx.consultationSummary.create({
+        data: {
+          sessionId,
+          version: (latest?.version ?? 0) + 1,
+          content: summary,
+          model: response.model,
+          jobId: job.id,
+        },
+      });
+    });
+
+    await job.updateData({
+      ...job.data,
+      summaryContent: summary,
+    });
+
+    console.log(
+      `Summary v${stored.version} generated for session ${sessionId}`,
+    );
+    return {
+      processed: true,
+      summaryId: stored.id,
+      version: stored.version,
+      summaryContent: summary,
+    };
+  },
+});
@@ -0,0 +1,31 @@
+// server/background/modules/index.ts
+
+import type { AnalysisModule } from "~/server/background/analysisModule";
+import { checkInformationCompletenessModule } from "./checkInformationCompleteness";
+import { extractHealthMetricsModule } from "./extractHealthMetrics";
+import { generateClinicalNoteModule } from "./generateClinicalNote";
+import { generateRecommendationsModule } from "./generateRecommendations";
+import { generateSummaryModule } from "./generateSummary";
+import { redFlagTriageModule } from "./redFlagTriage";
+import { roughOverviewModule } from "./roughOverview";
+
+/**
+ * Every background analysis module the worker can run. To add a new bot,
+ * create a module file next to this one and list it here; the manager and
+ * the worker pick it up from this registry.
+ */
+export const analysisModules: AnalysisModule[] = [
+  redFlagTriageModule,
+  roughOverviewModule,
+  extractHealthMetricsModule,
+  checkInformationCompletenessModule,
+  generateSummaryModule,
+  generateClinicalNoteModule,
+  generateRecommendationsModule,
+];
+
+const modulesByName = new Map(analysisModules.map((m) => [m.name, m]));
+
+export function getAnalysisModule(name: string): AnalysisModule | undefined {
+  return modulesByName.get(name);
+}
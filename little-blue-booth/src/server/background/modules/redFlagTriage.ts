@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { URGENCY_LEVELS } from "~/lib/triage";
+import {
+  conversationJobInputSchema,
+  defineAnalysisModule,
+} from "~/server/background/analysisModule";
+import { runTriage } from "~/server/triage";
+
+/**
+ * Triages every new patient turn for red flags. Runs ahead of the other
+ * modules; a high urgency interrupts the consultation (see runTriage).
+ */
+export const redFlagTriageModule = defineAnalysisModule({
+  name: "redFlagTriage",
+  description: "Red-flag rules plus an LLM second opinion on urgency",
+  priority: 1,
+  inputSchema: conversationJobInputSchema,
+  outputSchema: z.object({
+    processed: z.literal(true),
+    data: z.object({
+      id: z.string(),
+      sessionId: z.string(),
+      urgencyLevel: z.enum(URGENCY_LEVELS),
+      redFlags: z.array(
+        z.object({
+          id: z.string(),
+          label: z.string(),
+          urgency: z.enum(URGENCY_LEVELS),
+          evidence: z.string(),
+          source: z.enum(["rule", "llm"]),
+        }),
+      ),
+      reasoning: z.string(),
+      timestamp: z.string(),
+    }),
+  }),
+  trigger: { everyNUserTurns: 1 },
+  async handler(_job, input) {
+    const assessment = await runTriage({
+      sessionId: input.sessionId,
+      conversation: input.conversation,
+    });
+    return { processed: true as const, data: assessment };
+  },
+});
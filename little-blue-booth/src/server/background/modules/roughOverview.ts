@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { query_chat_bot } from "~/server/api/reasoning_bots/analyse_data";
+import {
+  conversationJobInputSchema,
+  defineAnalysisModule,
+} from "~/server/background/analysisModule";
+
+/**
+ * Generates working hypotheses and follow-up questions from the transcript.
+ */
+export const roughOverviewModule = defineAnalysisModule({
+  name: "roughOverview",
+  description: "Most likely hypotheses and questions to confirm or deny them",
+  priority: 1,
+  inputSchema: conversationJobInputSchema,
+  outputSchema: z.object({
+    processed: z.literal(true),
+    data: z.string(),
+  }),
+  trigger: { everyNUserTurns: 1 },
+  async handler(job, input) {
+    const res = await query_chat_bot(input.conversation);
+    const analysis = res ?? "";
+
+    await job.updateData({
+      ...job.data,
+      processed: `[Background Analysis]: ${analysis}`,
+    });
+
+    return { processed: true as const, data: analysis };
+  },
+});
@@ -0,0 +1,30 @@
+// server/background/sessionSocket.ts
+
+import type { Server as SocketIOServer } from "socket.io";
+import { sessionRoom } from "~/lib/analysisEvents";
+
+// The Socket.IO server lives on the HTTP server, so it is shared through
+// globalThis with code bundled separately from /api/socket
+const globalForSessionSocket = globalThis as unknown as {
+  sessionSocketServer: SocketIOServer | undefined;
+};
+
+export function setSessionSocketServer(io: SocketIOServer) {
+  globalForSessionSocket.sessionSocketServer = io;
+}
+
+/**
+ * Sends an event straight to a session's room. Returns false when the socket
+ * server has not been started in this process, so callers can rely on the
+ * kiosk's polling fallback instead.
+ */
+export function emitSessionEvent(
+  sessionId: string,
+  event: string,
+  payload: unknown,
+): boolean {
+  const io = globalForSessionSocket.sessionSocketServer;
+  if (!io) return false;
+  io.to(sessionRoom(sessionId)).emit(event, payload);
+  return true;
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { authenticateSocket } from "~/server/background/socketAuth";
+
+const { db, verifyToken } = vi.hoisted(() => ({
+  db: { kiosk: { findUnique: vi.fn() } },
+  verifyToken: vi.fn(),
+}));
+
+vi.mock("~/server/db", () => ({ db }));
+vi.mock("@clerk/nextjs/server", () => ({ verifyToken }));
+
+const kioskCredential = "lbbkiosk_booth";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.kiosk.findUnique.mockResolvedValue(null);
+  verifyToken.mockRejectedValue(new Error("Invalid JWT"));
+});
+
+describe("authenticateSocket", () => {
+  it("refuses a handshake without credentials", async () => {
+    expect(await authenticateSocket({})).toBeNull();
+    expect(await authenticateSocket(undefined)).toBeNull();
+  });
+
+  it("refuses a token Clerk does not accept", async () => {
+    expect(await authenticateSocket({ token: "forged" })).toBeNull();
+  });
+
+  it("refuses a credential no booth holds", async () => {
+    expect(await authenticateSocket({ kioskCredential })).toBeNull();
+  });
+
+  it("identifies a signed-in user by their token", async () => {
+    const claims = { sub: "user_owner", metadata: { role: "clinician" } };
+    verifyToken.mockResolvedValue(claims);
+
+    expect(await authenticateSocket({ token: "valid" })).toEqual({
+      userId: "user_owner",
+      sessionClaims: claims,
+      kioskCredential: null,
+    });
+  });
+
+  it("identifies an enrolled booth by its credential", async () => {
+    db.kiosk.findUnique.mockResolvedValue({ id: "kiosk_1" });
+
+    expect(await authenticateSocket({ kioskCredential })).toEqual({
+      userId: null,
+      sessionClaims: null,
+      kioskCredential,
+    });
+  });
+});
@@ -0,0 +1,45 @@
+// server/background/socketAuth.ts
+
+import { verifyToken } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { env } from "~/env";
+import { authenticateKiosk } from "~/server/kiosks";
+import type { SessionCaller } from "~/server/sessions/access";
+
+/** What the browser sends as the Socket.IO handshake `auth` */
+const handshakeAuthSchema = z.object({
+  token: z.string().nullish(),
+  kioskCredential: z.string().nullish(),
+});
+
+async function verifyClerkToken(token: string) {
+  try {
+    return await verifyToken(token, { secretKey: env.CLERK_SECRET_KEY });
+  } catch {
+    // Expired, forged or issued for another instance
+    return null;
+  }
+}
+
+/**
+ * Identifies a socket from its handshake: a Clerk session token, the booth's
+ * kiosk credential, or both. Returns null when neither checks out, so the
+ * connection can be refused before it joins any room.
+ */
+export async function authenticateSocket(
+  handshakeAuth: unknown,
+): Promise<SessionCaller | null> {
+  const parsed = handshakeAuthSchema.safeParse(handshakeAuth);
+  if (!parsed.success) return null;
+  const { token, kioskCredential = null } = parsed.data;
+
+  const claims = token ? await verifyClerkToken(token) : null;
+  const kiosk = await authenticateKiosk(kioskCredential);
+  if (!claims && !kiosk) return null;
+
+  return {
+    userId: claims?.sub ?? null,
+    sessionClaims: claims,
+    kioskCredential: kiosk ? kioskCredential : null,
+  };
+}
@@ -0,0 +1,169 @@
+// server/clinicalNote/index.ts
+
+import type { ClinicalNote, Prisma, PrismaClient } from "@prisma/client";
+import {
+  clinicalNoteDraftSchema,
+  type ClinicalNoteContent,
+  type ClinicalNoteRecord,
+} from "~/lib/clinicalNote";
+import {
+  computeEarlyWarningScores,
+  describeEarlyWarningScores,
+} from "~/lib/earlyWarningScores";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import { db } from "~/server/db";
+import { chatStructured } from "~/server/llm/structured";
+import { getLatestTriage } from "~/server/triage";
+import { buildNoteSources, keepCited, keepCitedDifferentials } from "./sources";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const toClinicalNoteRecord = (
+  note: ClinicalNote,
+): ClinicalNoteRecord => ({
+  id: note.id,
+  sessionId: note.sessionId,
+  version: note.version,
+  content: JSON.parse(note.content) as ClinicalNoteContent,
+  model: note.model,
+  createdAt: note.createdAt.toISOString(),
+});
+
+/**
+ * Writes the clinician-facing SOAP note for a session as a new ClinicalNote
+ * version. The model writes Subjective, Assessment, Plan and red flags with
+ * citations; Objective measurements come straight from the reconciled
+ * markers, and the triage rules' red flags from the stored triage result. Citations of sources that do not exist are removed, and
+ * statements left uncited are dropped and counted.
+ */
+export async function generateClinicalNote(
+  { sessionId, jobId }: { sessionId: string; jobId?: string },
+  client: DbClient = db,
+): Promise<ClinicalNoteRecord> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      conversation: {
+        include: {
+          chatMessages: {
+            orderBy: [{ sequence: "asc" }, { timestamp: "asc" }],
+          },
+        },
+      },
+      medias: { include: { visionAnalyses: true } },
+      healthMarkers: true,
+    },
+  });
+
+  if (!session) {
+    throw new Error(
+      `Session ${sessionId} not found while writing clinical note.`,
+    );
+  }
+
+  const triage = await getLatestTriage(sessionId, client);
+  const { sources, promptText, objectiveMarkers, triageRedFlags } =
+    buildNoteSources({
+      chatMessages: session.conversation?.chatMessages ?? [],
+      visionAnalyses: session.medias.flatMap((media) => media.visionAnalyses),
+      healthMarkers: session.healthMarkers,
+      triage,
+    });
+  const earlyWarningScores = describeEarlyWarningScores(
+    computeEarlyWarningScores(reconcileMarkers(session.healthMarkers)),
+  );
+  const secondOpinionFlags = (triage?.redFlags ?? []).filter(
+    (flag) => flag.source === "llm",
+  );
+
+  const prompt = `You are writing a clinical handover note for the GP who will follow up on a patient seen at a self-service consultation kiosk. Write a structured SOAP note for a clinician, not the patient.
+
+Rules:
+- Use ONLY the sources below. Every statement must cite the ids of the sources it is based on, e.g. ["T3", "M1"]. Do not state anything you cannot cite.
+- Subjective: the patient's history and symptoms as reported.
+- Objective findings: only findings from uploaded documents or observations described in the transcript. Measurements are added separately; do not repeat them.
+- Assessment: differential diagnoses, most likely first, each with its reasoning.
+- Plan: investigations, management, safety-netting and follow-up.
+- Red flags: every other finding that needs urgent attention. The triage rules' red flags below are added to the note already; do not repeat them. Include each red flag suggested by the triage second opinion that the sources support.
+
+Red flags from the triage rules:
+${triageRedFlags.length > 0 ? triageRedFlags.map((flag) => `- ${flag.text}`).join("\n") : "- none"}
+
+Red flags suggested by the triage second opinion:
+${secondOpinionFlags.length > 0 ? secondOpinionFlags.map((flag) => `- ${flag.label}: ${flag.evidence}`).join("\n") : "- none"}
+
+Early warning scores: ${earlyWarningScores}
+
+${promptText}
+
+Respond in JSON format with:
+{
+  "subjective": [{ "text": string, "citations": string[] }],
+  "objectiveFindings": [{ "text": string, "citations": string[] }],
+  "assessment": [{ "diagnosis": string, "likelihood": "likely" | "possible" | "less likely", "reasoning": [{ "text": string, "citations": string[] }] }],
+  "plan": [{ "text": string, "citations": string[] }],
+  "redFlags": [{ "text": string, "citations": string[] }]
+}`;
+
+  const { data: draft, model } = await chatStructured({
+    task: "clinicalNote",
+    schema: clinicalNoteDraftSchema,
+    sessionId,
+    temperature: 0.2,
+    maxTokens: 3000,
+    messages: [{ role: "user", content: prompt }],
+  });
+
+  const sourceIds = new Set(sources.map((source) => source.id));
+  const subjective = keepCited(draft.subjective, sourceIds);
+  const findings = keepCited(draft.objectiveFindings, sourceIds);
+  const assessment = keepCitedDifferentials(draft.assessment, sourceIds);
+  const plan = keepCited(draft.plan, sourceIds);
+  const redFlags = keepCited(draft.redFlags, sourceIds);
+
+  const content: ClinicalNoteContent = {
+    subjective: subjective.kept,
+    objective: {
+      markers: objectiveMarkers,
+      earlyWarningScores,
+      findings: findings.kept,
+    },
+    assessment: assessment.kept,
+    plan: plan.kept,
+    redFlags: [...triageRedFlags, ...redFlags.kept],
+    sources,
+    droppedStatements:
+      subjective.dropped +
+      findings.dropped +
+      assessment.dropped +
+      plan.dropped +
+      redFlags.dropped,
+  };
+
+  if (content.droppedStatements > 0) {
+    console.warn(
+      `Clinical note for session ${sessionId}: dropped ${content.droppedStatements} uncited statements`,
+    );
+  }
+
+  const stored = await client.clinicalNote.create({
+    data: {
+      sessionId,
+      version: await nextVersion(sessionId, client),
+      content: JSON.stringify(content),
+      model,
+      jobId,
+    },
+  });
+
+  return toClinicalNoteRecord(stored);
+}
+
+async function nextVersion(sessionId: string, client: DbClient) {
+  const latest = await client.clinicalNote.findFirst({
+    where: { sessionId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+  return (latest?.version ?? 0) + 1;
+}
@@ -0,0 +1,119 @@
+import type { ChatMessage, HealthMarker } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import type { TriageAssessment } from "~/lib/triage";
+import { buildNoteSources } from "~/server/clinicalNote/sources";
+
+const sessionId = "7d3f9a52-1c4b-4e8a-9f6d-2b5c8e1a4d70";
+const capturedAt = new Date("2026-03-02T10:00:00Z");
+
+const message = (
+  sequence: number,
+  sender: string,
+  messageText: string,
+): ChatMessage =>
+  ({
+    id: `msg_${sequence}`,
+    sender,
+    messageText,
+    sequence,
+    timestamp: capturedAt,
+  }) as ChatMessage;
+
+const marker = (
+  id: string,
+  markerType: string,
+  data: object,
+  unit: string,
+): HealthMarker =>
+  ({
+    id,
+    sessionId,
+    markerType,
+    data: JSON.stringify(data),
+    unit,
+    source: "device",
+    flagReason: null,
+    capturedAt,
+    deviceId: null,
+  }) as HealthMarker;
+
+const triage: TriageAssessment = {
+  id: "status_1",
+  sessionId,
+  urgencyLevel: "high",
+  redFlags: [
+    {
+      id: "chestPainRadiating",
+      label: "Chest pain radiating to the arm, jaw, neck or back",
+      urgency: "high",
+      evidence: "my chest is tight / the pain goes down my left arm",
+      source: "rule",
+    },
+    {
+      id: "lowOxygen",
+      label: "Blood oxygen below 92%",
+      urgency: "high",
+      evidence: "SpO2 88%",
+      source: "rule",
+    },
+    {
+      id: "llm",
+      label: "Possible acute coronary syndrome",
+      urgency: "high",
+      evidence: "chest pain with radiation",
+      source: "llm",
+    },
+  ],
+  reasoning: "",
+  timestamp: capturedAt.toISOString(),
+};
+
+const build = (triageResult: TriageAssessment | null) =>
+  buildNoteSources({
+    chatMessages: [
+      message(1, "assistant", "What brings you in today?"),
+      message(2, "user", "My chest is tight since this morning."),
+      message(3, "user", "And the pain goes down my left arm."),
+    ],
+    visionAnalyses: [],
+    healthMarkers: [
+      marker("hm_pulse", "heartRate", { value: 104 }, "bpm"),
+      marker("hm_spo2", "bloodOxygen", { value: 88 }, "%"),
+    ],
+    triage: triageResult,
+  });
+
+describe("buildNoteSources", () => {
+  it("turns each rule red flag into a statement citing its evidence", () => {
+    const { sources, triageRedFlags } = build(triage);
+    const spo2 = sources.find((s) => s.refId === "hm_spo2");
+
+    expect(sources).toContainEqual(
+      expect.objectContaining({ id: "R1", kind: "triage", refId: "status_1" }),
+    );
+    expect(triageRedFlags).toEqual([
+      {
+        text: "Chest pain radiating to the arm, jaw, neck or back: my chest is tight / the pain goes down my left arm",
+        citations: ["T2", "T3", "R1"],
+      },
+      {
+        text: "Blood oxygen below 92%: SpO2 88%",
+        citations: [spo2?.id, "R1"],
+      },
+    ]);
+  });
+
+  it("leaves the second opinion's flags to the model", () => {
+    const { triageRedFlags } = build(triage);
+    expect(triageRedFlags.map((flag) => flag.text)).not.toContainEqual(
+      expect.stringContaining("acute coronary syndrome"),
+    );
+  });
+
+  it("adds no triage source for a session without rule red flags", () => {
+    const { sources, triageRedFlags } = build(null);
+    expect(sources.map((s) => s.kind)).not.toContain("triage");
+    expect(triageRedFlags).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+// server/clinicalNote/sources.ts
+
+import type { ChatMessage, HealthMarker, VisionAnalysis } from "@prisma/client";
+import type {
+  CitedStatement,
+  Differential,
+  NoteSource,
+  ObjectiveMarker,
+} from "~/lib/clinicalNote";
+import { MARKER_CATALOGUE } from "~/lib/healthMarkers";
+import {
+  formatMarkerValue,
+  reconcileMarkers,
+} from "~/lib/markerReconciliation";
+import type { TriageAssessment } from "~/lib/triage";
+import { redFlagMarkerTypes } from "~/server/triage/rules";
+
+/** Longest excerpt kept in a source label */
+const LABEL_LENGTH = 160;
+
+const MARKER_SOURCE_LABELS: Record<string, string> = {
+  device: "booth device",
+  manual: "entered manually",
+  llmExtraction: "stated by patient",
+  googleFit: "Google Fit",
+};
+
+const excerpt = (text: string) =>
+  text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text;
+
+export interface NoteSources {
+  sources: NoteSource[];
+  /** The sources as the model sees them, one per line with its id */
+  promptText: string;
+  objectiveMarkers: ObjectiveMarker[];
+  /** The triage rules' red flags, which every note includes */
+  triageRedFlags: CitedStatement[];
+}
+
+/**
+ * Numbers everything a note may cite: transcript turns in conversation
+ * order (T1, ...), document analyses (D1, ...), the current value of each
+ * marker (M1, ...) and the triage result (R1).
+ *
+ * Red flags raised by the triage rules become statements of their own. Each
+ * cites the triage result, the patient's turns its evidence was found in and
+ * the markers the rule read.
+ */
+export function buildNoteSources({
+  chatMessages,
+  visionAnalyses,
+  healthMarkers,
+  triage,
+}: {
+  chatMessages: ChatMessage[];
+  visionAnalyses: VisionAnalysis[];
+  healthMarkers: HealthMarker[];
+  triage: TriageAssessment | null;
+}): NoteSources {
+  const turns = chatMessages
+    .filter((m) => m.sender === "user" || m.sender === "assistant")
+    .map((m, index) => ({ id: `T${index + 1}`, message: m }));
+
+  const documents = visionAnalyses
+    .filter((a) => a.analysisResults)
+    .map((a, index) => ({ id: `D${index + 1}`, analysis: a }));
+
+  const markers = reconcileMarkers(healthMarkers).map((marker, index) => ({
+    id: `M${index + 1}`,
+    marker,
+    label: MARKER_CATALOGUE[marker.markerType].label,
+    value: formatMarkerValue(marker.current.value, marker.current.unit),
+  }));
+
+  const ruleFlags = (triage?.redFlags ?? []).filter(
+    (flag) => flag.source === "rule",
+  );
+
+  const sources: NoteSource[] = [
+    ...turns.map(({ id, message }) => ({
+      id,
+      kind: "transcript" as const,
+      refId: message.id,
+      label: excerpt(`[${message.sender}]: ${message.messageText}`),
+    })),
+    ...documents.map(({ id, analysis }) => ({
+      id,
+      kind: "document" as const,
+      refId: analysis.id,
+      label: excerpt(`${analysis.analysisType}: ${analysis.analysisResults}`),
+    })),
+    ...markers.map(({ id, marker, label, value }) => ({
+      id,
+      kind: "marker" as const,
+      refId: marker.current.id,
+      label: `${label} ${value}`,
+    })),
+    ...(triage && ruleFlags.length > 0
+      ? [
+          {
+            id: "R1",
+            kind: "triage" as const,
+            refId: triage.id,
+            label: excerpt(
+              `Triage (${triage.urgencyLevel}): ${ruleFlags.map((flag) => flag.label).join(", ")}`,
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  const promptText = [
+    "Transcript:",
+    ...turns.map(
+      ({ id, message }) => `${id} [${message.sender}]: ${message.messageText}`,
+    ),
+    "",
+    "Uploaded documents:",
+    ...(documents.length > 0
+      ? documents.map(
+          ({ id, analysis }) =>
+            `${id} (${analysis.analysisType}): ${analysis.analysisResults}`,
+        )
+      : ["none"]),
+    "",
+    "Measurements:",
+    ...(markers.length > 0
+      ? markers.map(
+          ({ id, marker, label, value }) =>
+            `${id} ${label}: ${value} (${MARKER_SOURCE_LABELS[marker.current.source] ?? marker.current.source})`,
+        )
+      : ["none"]),
+  ].join("\n");
+
+  const objectiveMarkers: ObjectiveMarker[] = markers.map(
+    ({ id, marker, label, value }) => ({
+      label,
+      value,
+      source:
+        MARKER_SOURCE_LABELS[marker.current.source] ?? marker.current.source,
+      flagReason: marker.current.flagReason,
+      conflict: marker.conflict,
+      citations: [id],
+    }),
+  );
+
+  const triageRedFlags: CitedStatement[] = ruleFlags.map((flag) => {
+    // Transcript evidence is the patient's clauses, joined with " / "
+    const clauses = flag.evidence.toLowerCase().split(" / ");
+    const markerTypes = redFlagMarkerTypes(flag.id);
+    return {
+      text: `${flag.label}: ${flag.evidence}`,
+      citations: [
+        ...turns
+          .filter(
+            ({ message }) =>
+              message.sender === "user" &&
+              clauses.some((clause) =>
+                message.messageText.toLowerCase().includes(clause),
+              ),
+          )
+          .map(({ id }) => id),
+        ...markers
+          .filter(({ marker }) => markerTypes.includes(marker.markerType))
+          .map(({ id }) => id),
+        "R1",
+      ],
+    };
+  });
+
+  return { sources, promptText, objectiveMarkers, triageRedFlags };
+}
+
+/**
+ * Keeps only citations of real sources. A statement left without any is
+ * dropped, since an uncited claim is what the note must not contain.
+ */
+export function keepCited(
+  statements: CitedStatement[],
+  sourceIds: Set<string>,
+): { kept: CitedStatement[]; dropped: number } {
+  const kept = statements
+    .map((s) => ({
+      ...s,
+      citations: [...new Set(s.citations.filter((id) => sourceIds.has(id)))],
+    }))
+    .filter((s) => s.citations.length > 0);
+  return { kept, dropped: statements.length - kept.length };
+}
+
+/** keepCited for differentials; one left with no cited reasoning is dropped */
+export function keepCitedDifferentials(
+  differentials: Differential[],
+  sourceIds: Set<string>,
+): { kept: Differential[]; dropped: number } {
+  let dropped = 0;
+  const kept = differentials.flatMap((differential) => {
+    const reasoning = keepCited(differential.reasoning, sourceIds);
+    dropped += reasoning.dropped;
+    if (reasoning.kept.length === 0) return [];
+    return [{ ...differential, reasoning: reasoning.kept }];
+  });
+  return { kept, dropped };
+}
@@ -0,0 +1,157 @@
+// server/devices/index.ts
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type {
+  Device,
+  HealthMarker,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import {
+  DEVICE_TYPES,
+  isDeviceTypeKey,
+  type DeviceReadings,
+  type DeviceTypeKey,
+} from "~/lib/devices";
+import { OPEN_SESSION_STATES } from "~/lib/sessions";
+import { db } from "~/server/db";
+import { touchSession } from "~/server/sessions";
+import { recordHealthMarkers } from "~/server/utils/healthMarkers";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Prefix of device API keys, so a leaked key is recognisable */
+const KEY_PREFIX = "lbbdev_";
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/** A new device API key and the hash stored in Device.apiKeyHash */
+export function generateDeviceKey() {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, hash: hashKey(key) };
+}
+
+/**
+ * Checks a request's `Authorization: Bearer <key>` against the device's
+ * stored key hash. Returns the device when the key matches and the device
+ * is active, otherwise null.
+ */
+export async function authenticateDevice(
+  deviceId: string,
+  authorization: string | null,
+  client: DbClient = db,
+) {
+  const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!key) return null;
+
+  const device = await client.device.findUnique({
+    where: { id: deviceId },
+    include: { deviceType: true },
+  });
+  if (!device?.active || !device.apiKeyHash) return null;
+
+  const expected = Buffer.from(device.apiKeyHash, "hex");
+  const actual = Buffer.from(hashKey(key), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+    ? device
+    : null;
+}
+
+/**
+ * Registers a peripheral against a kiosk. The DeviceType row is created
+ * from the catalogue on first use. The plain API key is returned once and
+ * only its hash is stored.
+ */
+export async function registerDevice(
+  {
+    kioskId,
+    typeKey,
+    name,
+    connectionMethod,
+  }: {
+    kioskId: string;
+    typeKey: DeviceTypeKey;
+    name?: string;
+    connectionMethod?: string;
+  },
+  client: DbClient = db,
+): Promise<{ device: Device; apiKey: string }> {
+  const deviceType = await client.deviceType.upsert({
+    where: { typeKey },
+    create: { typeKey, description: DEVICE_TYPES[typeKey].label },
+    update: {},
+  });
+
+  const { key, hash } = generateDeviceKey();
+  const device = await client.device.create({
+    data: {
+      name: name ?? DEVICE_TYPES[typeKey].label,
+      deviceTypeId: deviceType.id,
+      kioskId,
+      connectionMethod,
+      apiKeyHash: hash,
+    },
+  });
+
+  return { device, apiKey: key };
+}
+
+export type DeviceIngestResult =
+  | { status: "noKiosk" }
+  | { status: "noActiveSession" }
+  | { status: "unsupported"; markerTypes: string[] }
+  | { status: "stored"; sessionId: string; markers: HealthMarker[] };
+
+/**
+ * Stores a device's readings as device-sourced markers on the session in
+ * progress at the device's kiosk, and records when the device last
+ * reported. Readings of markers the device type cannot produce are refused.
+ */
+export async function ingestDeviceReadings(
+  device: Device & { deviceType: { typeKey: string } },
+  { readings, capturedAt }: DeviceReadings,
+  client: DbClient = db,
+): Promise<DeviceIngestResult> {
+  const { typeKey } = device.deviceType;
+  const allowed: readonly string[] = isDeviceTypeKey(typeKey)
+    ? DEVICE_TYPES[typeKey].markerTypes
+    : [];
+  const unsupported = readings
+    .map((reading) => reading.type)
+    .filter((type) => !allowed.includes(type));
+  if (unsupported.length > 0) {
+    return { status: "unsupported", markerTypes: unsupported };
+  }
+
+  if (!device.kioskId) return { status: "noKiosk" };
+
+  const session = await client.session.findFirst({
+    where: {
+      kioskId: device.kioskId,
+      state: { in: [...OPEN_SESSION_STATES] },
+    },
+    orderBy: { startTime: "desc" },
+    select: { id: true },
+  });
+
+  await client.device.update({
+    where: { id: device.id },
+    data: { lastReadingAt: new Date() },
+  });
+
+  if (!session) return { status: "noActiveSession" };
+  await touchSession(session.id, client);
+
+  const markers = await recordHealthMarkers(
+    {
+      sessionId: session.id,
+      source: "device",
+      readings,
+      deviceId: device.id,
+      capturedAt,
+    },
+    client,
+  );
+
+  return { status: "stored", sessionId: session.id, markers };
+}
@@ -0,0 +1,103 @@
+// server/emergency/escalate.ts
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { env } from "~/env";
+import type { TriageAssessment } from "~/lib/triage";
+import { db } from "~/server/db";
+import { resolveEmergencyConfig } from "~/server/emergency";
+import type { EscalationAlert } from "~/server/emergency/notifier";
+import { getEscalationNotifier } from "~/server/emergency/notifiers";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type EscalationOutcome =
+  | { notified: true; notifier: string }
+  | { notified: false; reason: string };
+
+/**
+ * Tells the kiosk's on-site contact about an escalated consultation through
+ * the configured notifier. Never throws: a failed notification must not stop
+ * the kiosk showing the emergency screen. Every outcome except "no pager
+ * configured" is written to AuditLog.
+ */
+export async function notifyOnSiteStaff(
+  assessment: Pick<TriageAssessment, "sessionId" | "urgencyLevel" | "redFlags">,
+  client: DbClient = db,
+): Promise<EscalationOutcome> {
+  try {
+    const session = await client.session.findUnique({
+      where: { id: assessment.sessionId },
+      select: {
+        kiosk: {
+          select: {
+            id: true,
+            location: true,
+            country: true,
+            emergencyConfig: true,
+          },
+        },
+      },
+    });
+    if (!session) return { notified: false, reason: "Session not found" };
+
+    const { kiosk } = session;
+    const { staffPager } = resolveEmergencyConfig(kiosk);
+    if (!staffPager) {
+      return { notified: false, reason: "No staff pager configured" };
+    }
+
+    const notifier = getEscalationNotifier(env.ESCALATION_NOTIFIER);
+    if (!notifier) {
+      throw new Error(`Unknown escalation notifier ${env.ESCALATION_NOTIFIER}`);
+    }
+
+    const alert: EscalationAlert = {
+      sessionId: assessment.sessionId,
+      kioskId: kiosk.id,
+      location: kiosk.location,
+      pager: staffPager,
+      urgencyLevel: assessment.urgencyLevel,
+      redFlags: assessment.redFlags.map((flag) => flag.label),
+      raisedAt: new Date().toISOString(),
+    };
+
+    try {
+      await notifier.notify(alert);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await client.auditLog.create({
+        data: {
+          eventType: "error",
+          description: "On-site staff notification failed",
+          details: JSON.stringify({ notifier: notifier.name, error: message }),
+          sessionId: assessment.sessionId,
+          associatedId: kiosk.id,
+          associatedType: "kiosk",
+        },
+      });
+      return { notified: false, reason: message };
+    }
+
+    await client.auditLog.create({
+      data: {
+        eventType: "info",
+        description: "On-site staff notified",
+        details: JSON.stringify({
+          notifier: notifier.name,
+          pager: staffPager.name,
+          redFlags: alert.redFlags,
+        }),
+        sessionId: assessment.sessionId,
+        associatedId: kiosk.id,
+        associatedType: "kiosk",
+      },
+    });
+    return { notified: true, notifier: notifier.name };
+  } catch (error) {
+    console.error("Failed to notify on-site staff:", error);
+    return {
+      notified: false,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+// server/emergency/index.ts
+
+import type { Kiosk, Prisma, PrismaClient } from "@prisma/client";
+import {
+  COUNTRY_EMERGENCY_DEFAULTS,
+  DEFAULT_EMERGENCY_COUNTRY,
+  emergencyConfigOverridesSchema,
+  type EmergencyConfig,
+  type EmergencyConfigOverrides,
+} from "~/lib/emergency";
+import { db } from "~/server/db";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Countries without defaults still get the number that works across Europe */
+const fallbackConfig = (country: string): EmergencyConfig => ({
+  country,
+  emergencyNumbers: ["112"],
+  outOfHoursGp: null,
+  poisonLine: null,
+  mentalHealthLine: null,
+  staffPager: null,
+});
+
+const parseOverrides = (json: string | null): EmergencyConfigOverrides => {
+  if (!json) return {};
+  try {
+    const result = emergencyConfigOverridesSchema.safeParse(JSON.parse(json));
+    if (result.success) return result.data;
+    console.error("Ignoring invalid kiosk emergency config:", result.error);
+  } catch (error) {
+    console.error("Ignoring unparseable kiosk emergency config:", error);
+  }
+  return {};
+};
+
+/** The kiosk's country defaults with its own overrides applied */
+export function resolveEmergencyConfig(
+  kiosk: Pick<Kiosk, "country" | "emergencyConfig">,
+): EmergencyConfig {
+  const country = kiosk.country.toUpperCase();
+  return {
+    ...(COUNTRY_EMERGENCY_DEFAULTS[country] ?? fallbackConfig(country)),
+    ...parseOverrides(kiosk.emergencyConfig),
+  };
+}
+
+export const defaultEmergencyConfig = () =>
+  resolveEmergencyConfig({
+    country: DEFAULT_EMERGENCY_COUNTRY,
+    emergencyConfig: null,
+  });
+
+export async function getKioskEmergencyConfig(
+  kioskId: string,
+  client: DbClient = db,
+): Promise<EmergencyConfig> {
+  const kiosk = await client.kiosk.findUnique({
+    where: { id: kioskId },
+    select: { country: true, emergencyConfig: true },
+  });
+  return kiosk ? resolveEmergencyConfig(kiosk) : defaultEmergencyConfig();
+}
+
+export async function getSessionEmergencyConfig(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<EmergencyConfig> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    select: { kiosk: { select: { country: true, emergencyConfig: true } } },
+  });
+  return session
+    ? resolveEmergencyConfig(session.kiosk)
+    : defaultEmergencyConfig();
+}
+
+/**
+ * Sets a kiosk's country and replaces its overrides. Returns the resolved
+ * configuration.
+ */
+export async function updateKioskEmergencyConfig(
+  {
+    kioskId,
+    country,
+    overrides,
+  }: { kioskId: string; country: string; overrides: EmergencyConfigOverrides },
+  client: DbClient = db,
+): Promise<EmergencyConfig> {
+  const kiosk = await client.kiosk.update({
+    where: { id: kioskId },
+    data: {
+      country: country.toUpperCase(),
+      emergencyConfig:
+        Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : null,
+    },
+    select: { country: true, emergencyConfig: true },
+  });
+  return resolveEmergencyConfig(kiosk);
+}
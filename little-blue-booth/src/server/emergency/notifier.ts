@@ -0,0 +1,25 @@
+// server/emergency/notifier.ts
+
+import type { StaffPager } from "~/lib/emergency";
+import type { UrgencyLevel } from "~/lib/triage";
+
+/** What on-site staff are told when a consultation is escalated */
+export interface EscalationAlert {
+  sessionId: string;
+  kioskId: string;
+  /** Kiosk.location, so staff know which booth to go to */
+  location: string | null;
+  pager: StaffPager;
+  urgencyLevel: UrgencyLevel;
+  redFlags: string[];
+  raisedAt: string;
+}
+
+/**
+ * A way of reaching on-site staff. `ESCALATION_NOTIFIER` picks which one is
+ * used; `notify` should throw if the alert could not be delivered.
+ */
+export interface EscalationNotifier {
+  name: string;
+  notify(alert: EscalationAlert): Promise<void>;
+}
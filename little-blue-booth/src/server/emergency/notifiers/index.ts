@@ -0,0 +1,23 @@
+// server/emergency/notifiers/index.ts
+
+import type { EscalationNotifier } from "~/server/emergency/notifier";
+import { logNotifier } from "./log";
+import { webhookNotifier } from "./webhook";
+
+/**
+ * Every way of reaching on-site staff. To add one (SMS, a pager API, ...),
+ * create a file next to this one, list it here and add its name to
+ * `ESCALATION_NOTIFIER` in env.js.
+ */
+export const escalationNotifiers: EscalationNotifier[] = [
+  logNotifier,
+  webhookNotifier,
+];
+
+const notifiersByName = new Map(escalationNotifiers.map((n) => [n.name, n]));
+
+export function getEscalationNotifier(
+  name: string,
+): EscalationNotifier | undefined {
+  return notifiersByName.get(name);
+}
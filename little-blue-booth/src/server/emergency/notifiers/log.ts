@@ -0,0 +1,11 @@
+import type { EscalationNotifier } from "~/server/emergency/notifier";
+
+/** Writes the alert to the server log. For development and booths without a pager. */
+export const logNotifier: EscalationNotifier = {
+  name: "log",
+  async notify(alert) {
+    console.warn(
+      `[Escalation] ${alert.pager.name} (${alert.pager.address}): ${alert.urgencyLevel} urgency at ${alert.location ?? `kiosk ${alert.kioskId}`}, session ${alert.sessionId}: ${alert.redFlags.join(", ")}`,
+    );
+  },
+};
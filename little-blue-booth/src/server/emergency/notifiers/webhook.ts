@@ -0,0 +1,31 @@
+import { env } from "~/env";
+import type { EscalationNotifier } from "~/server/emergency/notifier";
+
+/** Gives up on a pager gateway that doesn't answer within this long */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * POSTs the alert as JSON to `ESCALATION_WEBHOOK_URL`, e.g. a paging or
+ * messaging gateway, which delivers it to `pager.address`. Without the
+ * variable, the pager address itself must be the URL.
+ */
+export const webhookNotifier: EscalationNotifier = {
+  name: "webhook",
+  async notify(alert) {
+    const url = env.ESCALATION_WEBHOOK_URL ?? alert.pager.address;
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`No webhook URL for pager ${alert.pager.name}`);
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Escalation webhook responded ${response.status}`);
+    }
+  },
+};
@@ -0,0 +1,361 @@
+// server/fhir/bundle.ts
+
+import { randomUUID } from "crypto";
+import type {
+  HealthMarker,
+  Media,
+  Recommendation,
+  Referral,
+  VisionAnalysis,
+} from "@prisma/client";
+import type { ClinicalNoteRecord } from "~/lib/clinicalNote";
+import { MARKER_CATALOGUE, isMarkerType } from "~/lib/healthMarkers";
+import {
+  BLOOD_PRESSURE_CODES,
+  LOINC,
+  OBSERVATION_CATEGORY,
+  OBSERVATION_CODES,
+  SUMMARY_NOTE_CODE,
+  UCUM,
+} from "./codes";
+import type {
+  FhirBundle,
+  FhirCarePlan,
+  FhirComposition,
+  FhirCondition,
+  FhirDocumentReference,
+  FhirEncounter,
+  FhirObservation,
+  FhirPatient,
+  FhirReference,
+  FhirResource,
+  FhirServiceRequest,
+} from "./types";
+
+/** Identifier system for the Clerk user a session belongs to */
+export const PATIENT_IDENTIFIER_SYSTEM = "urn:little-blue-booth:user-id";
+
+const AUTHOR: FhirReference = { display: "Little Blue Booth kiosk" };
+
+export interface SessionExportData {
+  session: {
+    id: string;
+    userId: string;
+    startTime: Date | null;
+    endTime: Date | null;
+    createdAt: Date;
+    kioskLocation: string | null;
+  };
+  healthMarkers: HealthMarker[];
+  medias: (Media & { visionAnalyses: VisionAnalysis[] })[];
+  recommendations: Recommendation[];
+  referrals: Referral[];
+  summary: { id: string; content: string; createdAt: Date } | null;
+  clinicalNote: (ClinicalNoteRecord & { markdown: string }) | null;
+}
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+const escapeXhtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const preformatted = (text: string) =>
+  `<div xmlns="http://www.w3.org/1999/xhtml"><pre>${escapeXhtml(text)}</pre></div>`;
+
+const category = (code: string) => ({
+  coding: [{ system: OBSERVATION_CATEGORY, code }],
+});
+
+const loinc = (code: { loinc: string; display: string }) => ({
+  coding: [{ system: LOINC, code: code.loinc, display: code.display }],
+  text: code.display,
+});
+
+const MARKER_SOURCE_NOTES: Record<string, string> = {
+  device: "Measured by the booth device",
+  manual: "Entered manually",
+  llmExtraction: "Stated by the patient",
+  googleFit: "Imported from Google Fit",
+};
+
+function toObservation(
+  marker: HealthMarker,
+  refs: { subject: FhirReference; encounter: FhirReference },
+): FhirObservation | null {
+  if (!isMarkerType(marker.markerType)) return null;
+
+  let value: Partial<Record<string, unknown>>;
+  try {
+    value = JSON.parse(marker.data) as Partial<Record<string, unknown>>;
+  } catch {
+    return null;
+  }
+
+  const note = [
+    { text: MARKER_SOURCE_NOTES[marker.source] ?? `Source: ${marker.source}` },
+    ...(marker.flagReason ? [{ text: `Flagged: ${marker.flagReason}` }] : []),
+  ];
+  const base = {
+    resourceType: "Observation" as const,
+    id: marker.id,
+    status: "final" as const,
+    ...refs,
+    effectiveDateTime: marker.capturedAt.toISOString(),
+    note,
+  };
+  const unit = MARKER_CATALOGUE[marker.markerType].unit;
+
+  if (marker.markerType === "bloodPressure") {
+    if (
+      typeof value.systolic !== "number" ||
+      typeof value.diastolic !== "number"
+    ) {
+      return null;
+    }
+    const quantity = (
+      n: number,
+    ): NonNullable<FhirObservation["valueQuantity"]> => ({
+      value: n,
+      unit,
+      system: UCUM,
+      code: BLOOD_PRESSURE_CODES.ucum,
+    });
+    return {
+      ...base,
+      category: [category("vital-signs")],
+      code: loinc(BLOOD_PRESSURE_CODES.panel),
+      component: [
+        {
+          code: loinc(BLOOD_PRESSURE_CODES.systolic),
+          valueQuantity: quantity(value.systolic),
+        },
+        {
+          code: loinc(BLOOD_PRESSURE_CODES.diastolic),
+          valueQuantity: quantity(value.diastolic),
+        },
+      ],
+    };
+  }
+
+  if (typeof value.value !== "number") return null;
+  const code = OBSERVATION_CODES[marker.markerType];
+  return {
+    ...base,
+    category: [category(code.category)],
+    code: loinc(code),
+    valueQuantity: { value: value.value, unit, system: UCUM, code: code.ucum },
+  };
+}
+
+/**
+ * Maps a session to a FHIR R4 collection Bundle: the Patient and Encounter,
+ * an Observation per stored marker, the clinical note's differentials as
+ * Conditions, uploads as DocumentReferences, recommendations as a CarePlan,
+ * referrals as ServiceRequests, and a Composition holding the summaries.
+ */
+export function buildSessionBundle(data: SessionExportData): FhirBundle {
+  const { session } = data;
+  const patientId = randomUUID();
+  const subject = { reference: urn(patientId) };
+  const encounter = { reference: urn(session.id) };
+  const refs = { subject, encounter };
+
+  const patient: FhirPatient = {
+    resourceType: "Patient",
+    id: patientId,
+    identifier: [{ system: PATIENT_IDENTIFIER_SYSTEM, value: session.userId }],
+  };
+
+  const encounterResource: FhirEncounter = {
+    resourceType: "Encounter",
+    id: session.id,
+    status: session.endTime ? "finished" : "in-progress",
+    class: {
+      system: "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+      code: "AMB",
+      display: "ambulatory",
+    },
+    subject,
+    period: {
+      start: (session.startTime ?? session.createdAt).toISOString(),
+      end: session.endTime?.toISOString(),
+    },
+    ...(session.kioskLocation
+      ? {
+          serviceType: { text: `Kiosk consultation, ${session.kioskLocation}` },
+        }
+      : {}),
+  };
+
+  const observations = data.healthMarkers
+    .map((marker) => toObservation(marker, refs))
+    .filter((o): o is FhirObservation => o !== null);
+
+  const conditions: FhirCondition[] = (
+    data.clinicalNote?.content.assessment ?? []
+  ).map((differential) => ({
+    resourceType: "Condition",
+    id: randomUUID(),
+    clinicalStatus: {
+      coding: [
+        {
+          system: "http://terminology.hl7.org/CodeSystem/condition-clinical",
+          code: "active",
+        },
+      ],
+    },
+    verificationStatus: {
+      coding: [
+        {
+          system: "http://terminology.hl7.org/CodeSystem/condition-ver-status",
+          code:
+            differential.likelihood === "likely"
+              ? "provisional"
+              : "differential",
+        },
+      ],
+    },
+    category: [
+      {
+        coding: [
+          {
+            system: "http://terminology.hl7.org/CodeSystem/condition-category",
+            code: "encounter-diagnosis",
+          },
+        ],
+      },
+    ],
+    code: { text: differential.diagnosis },
+    ...refs,
+    note: differential.reasoning.map((s) => ({ text: s.text })),
+  }));
+
+  const documents: FhirDocumentReference[] = data.medias.map((media) => {
+    const analysis = media.visionAnalyses.find((a) => a.analysisResults);
+    return {
+      resourceType: "DocumentReference",
+      id: media.id,
+      status: "current",
+      subject,
+      date: media.capturedAt.toISOString(),
+      description: analysis?.analysisResults ?? undefined,
+      content: [
+        {
+          attachment: {
+            url: media.storageLocation,
+            title: analysis?.analysisType ?? media.mediaType,
+          },
+        },
+      ],
+      context: { encounter: [encounter] },
+    };
+  });
+
+  const carePlans: FhirCarePlan[] =
+    data.recommendations.length > 0
+      ? [
+          {
+            resourceType: "CarePlan",
+            id: randomUUID(),
+            status: "active",
+            intent: "proposal",
+            title: "Kiosk consultation recommendations",
+            ...refs,
+            activity: data.recommendations.map((rec) => ({
+              detail: {
+                status: "not-started" as const,
+                description: [rec.title, rec.description]
+                  .filter(Boolean)
+                  .join(": "),
+              },
+            })),
+          },
+        ]
+      : [];
+
+  const serviceRequests: FhirServiceRequest[] = data.referrals.map(
+    (referral) => ({
+      resourceType: "ServiceRequest",
+      id: referral.id,
+      status:
+        referral.status === "cancelled"
+          ? "revoked"
+          : referral.status === "pending" || referral.status === "confirmed"
+            ? "active"
+            : "unknown",
+      intent: "proposal",
+      code: { text: "Referral" },
+      ...(referral.reason ? { reasonCode: [{ text: referral.reason }] } : {}),
+      ...refs,
+      occurrenceDateTime: referral.scheduledTime?.toISOString(),
+      authoredOn: referral.createdAt.toISOString(),
+      ...(referral.referredTo
+        ? { performer: [{ display: referral.referredTo }] }
+        : {}),
+    }),
+  );
+
+  const sections = [
+    ...(data.summary
+      ? [
+          {
+            title: "Consultation summary",
+            text: {
+              status: "generated" as const,
+              div: preformatted(data.summary.content),
+            },
+          },
+        ]
+      : []),
+    ...(data.clinicalNote
+      ? [
+          {
+            title: "Clinical handover note",
+            text: {
+              status: "generated" as const,
+              div: preformatted(data.clinicalNote.markdown),
+            },
+          },
+        ]
+      : []),
+  ];
+  const compositions: FhirComposition[] =
+    sections.length > 0
+      ? [
+          {
+            resourceType: "Composition",
+            id: data.summary?.id ?? randomUUID(),
+            status: "final",
+            type: loinc(SUMMARY_NOTE_CODE),
+            ...refs,
+            date: data.summary
+              ? data.summary.createdAt.toISOString()
+              : (data.clinicalNote?.createdAt ?? new Date().toISOString()),
+            author: [AUTHOR],
+            title: "Kiosk consultation summary",
+            section: sections,
+          },
+        ]
+      : [];
+
+  const resources: FhirResource[] = [
+    patient,
+    encounterResource,
+    ...observations,
+    ...conditions,
+    ...documents,
+    ...carePlans,
+    ...serviceRequests,
+    ...compositions,
+  ];
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: resources.map((resource) => ({
+      fullUrl: urn(resource.id),
+      resource,
+    })),
+  };
+}
@@ -0,0 +1,86 @@
+// server/fhir/codes.ts
+
+import type { MarkerType } from "~/lib/healthMarkers";
+
+export const LOINC = "http://loinc.org";
+export const UCUM = "http://unitsofmeasure.org";
+export const OBSERVATION_CATEGORY =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+
+/** LOINC code and UCUM unit for a value in the catalogue's canonical unit */
+interface ObservationCode {
+  loinc: string;
+  display: string;
+  ucum: string;
+  category: "vital-signs" | "laboratory";
+}
+
+export const OBSERVATION_CODES: Record<
+  Exclude<MarkerType, "bloodPressure">,
+  ObservationCode
+> = {
+  weight: {
+    loinc: "29463-7",
+    display: "Body weight",
+    ucum: "kg",
+    category: "vital-signs",
+  },
+  height: {
+    loinc: "8302-2",
+    display: "Body height",
+    ucum: "cm",
+    category: "vital-signs",
+  },
+  bmi: {
+    loinc: "39156-5",
+    display: "Body mass index (BMI) [Ratio]",
+    ucum: "kg/m2",
+    category: "vital-signs",
+  },
+  heartRate: {
+    loinc: "8867-4",
+    display: "Heart rate",
+    ucum: "/min",
+    category: "vital-signs",
+  },
+  bloodOxygen: {
+    loinc: "59408-5",
+    display: "Oxygen saturation in Arterial blood by Pulse oximetry",
+    ucum: "%",
+    category: "vital-signs",
+  },
+  temperature: {
+    loinc: "8310-5",
+    display: "Body temperature",
+    ucum: "Cel",
+    category: "vital-signs",
+  },
+  glucose: {
+    loinc: "15074-8",
+    display: "Glucose [Moles/volume] in Blood",
+    ucum: "mmol/L",
+    category: "laboratory",
+  },
+  respiratoryRate: {
+    loinc: "9279-1",
+    display: "Respiratory rate",
+    ucum: "/min",
+    category: "vital-signs",
+  },
+};
+
+export const BLOOD_PRESSURE_CODES = {
+  panel: {
+    loinc: "85354-9",
+    display: "Blood pressure panel with all children optional",
+  },
+  systolic: { loinc: "8480-6", display: "Systolic blood pressure" },
+  diastolic: { loinc: "8462-4", display: "Diastolic blood pressure" },
+  ucum: "mm[Hg]",
+} as const;
+
+/** Summary of episode note */
+export const SUMMARY_NOTE_CODE = {
+  loinc: "34133-9",
+  display: "Summary of episode note",
+};
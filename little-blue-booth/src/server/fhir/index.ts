@@ -0,0 +1,59 @@
+// server/fhir/index.ts
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { renderClinicalNoteMarkdown } from "~/lib/clinicalNote";
+import { toClinicalNoteRecord } from "~/server/clinicalNote";
+import { db } from "~/server/db";
+import { buildSessionBundle } from "./bundle";
+import { validateFhirBundle, type FhirValidationResult } from "./validate";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Builds and validates the FHIR R4 Bundle for a session. Returns null when
+ * the session does not exist. The latest consultation summary and clinical
+ * note versions are the ones exported.
+ */
+export async function exportSessionFhir(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<FhirValidationResult | null> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      kiosk: { select: { location: true } },
+      healthMarkers: { orderBy: { capturedAt: "asc" } },
+      medias: { include: { visionAnalyses: true } },
+      recommendations: true,
+      referrals: true,
+      consultationSummaries: { orderBy: { version: "desc" }, take: 1 },
+      clinicalNotes: { orderBy: { version: "desc" }, take: 1 },
+    },
+  });
+  if (!session) return null;
+
+  const [summary] = session.consultationSummaries;
+  const [note] = session.clinicalNotes;
+  const clinicalNote = note ? toClinicalNoteRecord(note) : null;
+
+  const bundle = buildSessionBundle({
+    session: {
+      id: session.id,
+      userId: session.userId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      createdAt: session.createdAt,
+      kioskLocation: session.kiosk.location,
+    },
+    healthMarkers: session.healthMarkers,
+    medias: session.medias,
+    recommendations: session.recommendations,
+    referrals: session.referrals,
+    summary: summary ?? null,
+    clinicalNote: clinicalNote
+      ? { ...clinicalNote, markdown: renderClinicalNoteMarkdown(clinicalNote) }
+      : null,
+  });
+
+  return validateFhirBundle(bundle);
+}
@@ -0,0 +1,221 @@
+// server/fhir/types.ts
+//
+// The FHIR R4 (4.0.1) elements a session export emits, as types for building
+// a Bundle. Bundles are checked against the official R4 JSON schema, vendored
+// in r4/fhir.schema.json, before they leave the server (see validate.ts).
+
+/** The resource types a Bundle may hold; the vendored schema covers these */
+export const FHIR_RESOURCE_TYPES = [
+  "Patient",
+  "Encounter",
+  "Observation",
+  "Condition",
+  "DocumentReference",
+  "CarePlan",
+  "ServiceRequest",
+  "Composition",
+] as const;
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+/** A literal reference, or a display-only one for things we do not model */
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: "http://unitsofmeasure.org";
+  code: string;
+}
+
+interface FhirNarrative {
+  status: "generated" | "extensions" | "additional" | "empty";
+  div: string;
+}
+
+interface FhirAnnotation {
+  text: string;
+}
+
+export interface FhirPatient {
+  resourceType: "Patient";
+  id: string;
+  identifier: { system: string; value: string }[];
+  name?: { text: string }[];
+}
+
+export interface FhirEncounter {
+  resourceType: "Encounter";
+  id: string;
+  status:
+    | "planned"
+    | "arrived"
+    | "triaged"
+    | "in-progress"
+    | "onleave"
+    | "finished"
+    | "cancelled"
+    | "entered-in-error"
+    | "unknown";
+  class: FhirCoding;
+  subject: FhirReference;
+  period: { start?: string; end?: string };
+  serviceType?: FhirCodeableConcept;
+}
+
+/** Needs valueQuantity or component; checked by validateFhirBundle */
+export interface FhirObservation {
+  resourceType: "Observation";
+  id: string;
+  status:
+    | "registered"
+    | "preliminary"
+    | "final"
+    | "amended"
+    | "corrected"
+    | "cancelled"
+    | "entered-in-error"
+    | "unknown";
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  effectiveDateTime: string;
+  valueQuantity?: FhirQuantity;
+  component?: { code: FhirCodeableConcept; valueQuantity: FhirQuantity }[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirCondition {
+  resourceType: "Condition";
+  id: string;
+  clinicalStatus: FhirCodeableConcept;
+  verificationStatus: FhirCodeableConcept;
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  note?: FhirAnnotation[];
+}
+
+export interface FhirDocumentReference {
+  resourceType: "DocumentReference";
+  id: string;
+  status: "current" | "superseded" | "entered-in-error";
+  subject: FhirReference;
+  date: string;
+  description?: string;
+  content: {
+    attachment: { url?: string; contentType?: string; title?: string };
+  }[];
+  context?: { encounter: FhirReference[] };
+}
+
+type RequestStatus =
+  | "draft"
+  | "active"
+  | "on-hold"
+  | "revoked"
+  | "completed"
+  | "entered-in-error"
+  | "unknown";
+
+export interface FhirCarePlan {
+  resourceType: "CarePlan";
+  id: string;
+  status: RequestStatus;
+  intent: "proposal" | "plan" | "order" | "option";
+  title?: string;
+  subject: FhirReference;
+  encounter: FhirReference;
+  created?: string;
+  activity?: {
+    detail: {
+      status:
+        | "not-started"
+        | "scheduled"
+        | "in-progress"
+        | "on-hold"
+        | "completed"
+        | "cancelled"
+        | "stopped"
+        | "unknown"
+        | "entered-in-error";
+      description?: string;
+    };
+  }[];
+}
+
+export interface FhirServiceRequest {
+  resourceType: "ServiceRequest";
+  id: string;
+  status: RequestStatus;
+  intent:
+    | "proposal"
+    | "plan"
+    | "directive"
+    | "order"
+    | "original-order"
+    | "reflex-order"
+    | "filler-order"
+    | "instance-order"
+    | "option";
+  code?: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  occurrenceDateTime?: string;
+  authoredOn?: string;
+  reasonCode?: FhirCodeableConcept[];
+  performer?: FhirReference[];
+}
+
+export interface FhirComposition {
+  resourceType: "Composition";
+  id: string;
+  status: "preliminary" | "final" | "amended" | "entered-in-error";
+  type: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  date: string;
+  author: FhirReference[];
+  title: string;
+  section?: { title: string; text: FhirNarrative }[];
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirEncounter
+  | FhirObservation
+  | FhirCondition
+  | FhirDocumentReference
+  | FhirCarePlan
+  | FhirServiceRequest
+  | FhirComposition;
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  type:
+    | "document"
+    | "message"
+    | "transaction"
+    | "transaction-response"
+    | "batch"
+    | "batch-response"
+    | "history"
+    | "searchset"
+    | "collection";
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
@@ -0,0 +1,370 @@
+import type {
+  HealthMarker,
+  Media,
+  Recommendation,
+  Referral,
+  VisionAnalysis,
+} from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import {
+  renderClinicalNoteMarkdown,
+  type ClinicalNoteRecord,
+} from "~/lib/clinicalNote";
+import { buildSessionBundle, type SessionExportData } from "./bundle";
+import type { FhirBundle, FhirObservation } from "./types";
+import { validateFhirBundle } from "./validate";
+
+const sessionId = "7d3f9a52-1c4b-4e8a-9f6d-2b5c8e1a4d70";
+const startTime = new Date("2026-03-02T10:00:00Z");
+const capturedAt = new Date("2026-03-02T10:05:00Z");
+const bloodPressureId = "a1b2c3d4-0004-4e5f-8a9b-0c1d2e3f4a54";
+
+const marker = (
+  id: string,
+  markerType: string,
+  data: object,
+  unit: string,
+  source = "device",
+): HealthMarker => ({
+  id,
+  sessionId,
+  markerType,
+  data: JSON.stringify(data),
+  unit,
+  source,
+  flagReason: null,
+  capturedAt,
+  deviceId: null,
+});
+
+const clinicalNote: ClinicalNoteRecord = {
+  id: "5c2e8a14-6f3b-4d9e-a1c7-0b8d2f4e6a93",
+  sessionId,
+  version: 1,
+  content: {
+    subjective: [{ text: "Cough for five days", citations: ["T2"] }],
+    objective: {
+      markers: [],
+      earlyWarningScores: "NEWS2 1 (low risk), qSOFA 0 (negative)",
+      findings: [],
+    },
+    assessment: [
+      {
+        diagnosis: "Viral upper respiratory tract infection",
+        likelihood: "likely",
+        reasoning: [{ text: "Cough without fever", citations: ["T2", "M1"] }],
+      },
+      {
+        diagnosis: "Community-acquired pneumonia",
+        likelihood: "less likely",
+        reasoning: [{ text: "Normal oxygen saturation", citations: ["M2"] }],
+      },
+    ],
+    plan: [{ text: "Rest and fluids", citations: ["T4"] }],
+    redFlags: [],
+    sources: [],
+    droppedStatements: 0,
+  },
+  model: "fake",
+  createdAt: "2026-03-02T10:20:00.000Z",
+};
+
+const recommendation: Recommendation = {
+  id: "9e1f3b57-2a6c-4d8e-b0f4-7c3a5e9d1b26",
+  sessionId,
+  title: "See a pharmacist",
+  description: "Ask about cough remedies",
+  category: "pharmacy",
+  priority: "routine",
+  externalLinks: null,
+  clinicalNoteId: clinicalNote.id,
+  jobId: null,
+  createdAt: capturedAt,
+};
+
+const referral: Referral = {
+  id: "2d8b4f60-7e1a-4c3d-9b5f-8a6e0c2d4f17",
+  sessionId,
+  recommendationId: recommendation.id,
+  referredTo: "Main Street Pharmacy",
+  reason: "Persistent cough",
+  scheduledTime: null,
+  status: "pending",
+  statusChangedAt: null,
+  createdAt: capturedAt,
+};
+
+const media: Media & { visionAnalyses: VisionAnalysis[] } = {
+  id: "6a4c2e80-1b3d-4f5a-8c7e-9d0b2a4c6e81",
+  sessionId,
+  mediaType: "image",
+  storageLocation: "https://uploads.example.com/throat.jpg",
+  capturedAt,
+  metadata: null,
+  visionAnalyses: [
+    {
+      id: "3f5b7d91-4c6e-4a8b-9d2f-1e3a5c7b9d04",
+      mediaId: "6a4c2e80-1b3d-4f5a-8c7e-9d0b2a4c6e81",
+      analysisType: "throat photo",
+      analysisResults: "Mild redness, no exudate",
+      createdAt: capturedAt,
+    },
+  ],
+};
+
+/** A finished consultation with every kind of record a session can export */
+const fixtureSession: SessionExportData = {
+  session: {
+    id: sessionId,
+    userId: "user_owner",
+    startTime,
+    endTime: new Date("2026-03-02T10:25:00Z"),
+    createdAt: startTime,
+    kioskLocation: "Main Street Pharmacy",
+  },
+  healthMarkers: [
+    marker(
+      "a1b2c3d4-0001-4e5f-8a9b-0c1d2e3f4a51",
+      "temperature",
+      { value: 37.2 },
+      "°C",
+    ),
+    marker(
+      "a1b2c3d4-0002-4e5f-8a9b-0c1d2e3f4a52",
+      "bloodOxygen",
+      { value: 97 },
+      "%",
+    ),
+    marker(
+      "a1b2c3d4-0003-4e5f-8a9b-0c1d2e3f4a53",
+      "heartRate",
+      { value: 82 },
+      "bpm",
+    ),
+    marker(
+      bloodPressureId,
+      "bloodPressure",
+      { systolic: 128, diastolic: 82 },
+      "mmHg",
+    ),
+    marker(
+      "a1b2c3d4-0005-4e5f-8a9b-0c1d2e3f4a55",
+      "weight",
+      { value: 72.5 },
+      "kg",
+      "llmExtraction",
+    ),
+  ],
+  medias: [media],
+  recommendations: [recommendation],
+  referrals: [referral],
+  summary: {
+    id: "8c0e2a46-5d7f-4b9c-a3e1-6f8b0d2c4e57",
+    content: "Five-day cough, observations normal. See a pharmacist.",
+    createdAt: new Date("2026-03-02T10:21:00Z"),
+  },
+  clinicalNote: {
+    ...clinicalNote,
+    markdown: renderClinicalNoteMarkdown(clinicalNote),
+  },
+};
+
+const observations = (bundle: FhirBundle) =>
+  bundle.entry
+    .map((entry) => entry.resource)
+    .filter(
+      (resource): resource is FhirObservation =>
+        resource.resourceType === "Observation",
+    );
+
+/** The fixture bundle with one resource changed */
+const withObservation = (
+  change: (observation: Record<string, unknown>) => void,
+) => {
+  const bundle = structuredClone(buildSessionBundle(fixtureSession));
+  const [first] = observations(bundle);
+  change(first as unknown as Record<string, unknown>);
+  return bundle;
+};
+
+describe("validateFhirBundle", () => {
+  it("accepts the bundle built from a session", () => {
+    const bundle = buildSessionBundle(fixtureSession);
+    const result = validateFhirBundle(bundle);
+
+    expect(result).toEqual({ valid: true, bundle });
+    expect(bundle.entry.map((entry) => entry.resource.resourceType)).toEqual([
+      "Patient",
+      "Encounter",
+      "Observation",
+      "Observation",
+      "Observation",
+      "Observation",
+      "Observation",
+      "Condition",
+      "Condition",
+      "DocumentReference",
+      "CarePlan",
+      "ServiceRequest",
+      "Composition",
+    ]);
+  });
+
+  it("accepts a session with nothing recorded yet", () => {
+    const result = validateFhirBundle(
+      buildSessionBundle({
+        ...fixtureSession,
+        session: { ...fixtureSession.session, endTime: null },
+        healthMarkers: [],
+        medias: [],
+        recommendations: [],
+        referrals: [],
+        summary: null,
+        clinicalNote: null,
+      }),
+    );
+    expect(result.valid).toBe(true);
+  });
+
+  it("records blood pressure as a panel in mm[Hg]", () => {
+    const bloodPressure = observations(buildSessionBundle(fixtureSession)).find(
+      (o) => o.id === bloodPressureId,
+    );
+
+    expect(bloodPressure?.valueQuantity).toBeUndefined();
+    expect(
+      bloodPressure?.component?.map((c) => [
+        c.code.coding?.[0]?.code,
+        c.valueQuantity.value,
+        c.valueQuantity.code,
+      ]),
+    ).toEqual([
+      ["8480-6", 128, "mm[Hg]"],
+      ["8462-4", 82, "mm[Hg]"],
+    ]);
+  });
+
+  it("rejects an Observation without a code", () => {
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        delete observation.code;
+      }),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues).toContainEqual(
+      expect.stringMatching(/^entry\.2\.resource\.code: /),
+    );
+  });
+
+  it("rejects an element FHIR does not define", () => {
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        observation.severity = "high";
+      }),
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [
+        "entry.2.resource.severity: must NOT have additional properties",
+      ],
+    });
+  });
+
+  it("rejects a dateTime that is not in FHIR's format", () => {
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        observation.effectiveDateTime = "2026-03-02 10:05";
+      }),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues).toContainEqual(
+      expect.stringMatching(
+        /^entry\.2\.resource\.effectiveDateTime: must match pattern/,
+      ),
+    );
+  });
+
+  it("rejects a resource type the export does not emit", () => {
+    const bundle = buildSessionBundle(fixtureSession);
+    const result = validateFhirBundle({
+      ...bundle,
+      entry: [
+        ...bundle.entry,
+        {
+          fullUrl: "urn:uuid:0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0",
+          resource: { resourceType: "Medication" },
+        },
+      ],
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [
+        "entry.13.resource.resourceType: must be one of Patient, Encounter, Observation, Condition, DocumentReference, CarePlan, ServiceRequest, Composition",
+      ],
+    });
+  });
+
+  it("rejects an Observation without a value", () => {
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        delete observation.valueQuantity;
+      }),
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      issues: ["entry.2.resource: Observation needs a value or components"],
+    });
+  });
+
+  it("rejects a unit that is not UCUM", () => {
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        observation.valueQuantity = {
+          value: 37.2,
+          unit: "°C",
+          system: "http://unitsofmeasure.org",
+          code: "degC",
+        };
+      }),
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      issues: ["entry.2.resource: unknown UCUM code degC"],
+    });
+  });
+
+  it("rejects a reference to a resource that is not in the bundle", () => {
+    const missing = "urn:uuid:0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0";
+    const result = validateFhirBundle(
+      withObservation((observation) => {
+        observation.subject = { reference: missing };
+      }),
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [`entry.2.resource: unresolved reference ${missing}`],
+    });
+  });
+
+  it("rejects duplicate fullUrls", () => {
+    const bundle = buildSessionBundle(fixtureSession);
+    const [patient] = bundle.entry;
+    const result = validateFhirBundle({
+      ...bundle,
+      entry: [...bundle.entry, patient],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues).toContainEqual(
+      expect.stringContaining("duplicate"),
+    );
+  });
+});
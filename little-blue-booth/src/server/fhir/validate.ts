@@ -0,0 +1,164 @@
+// server/fhir/validate.ts
+
+import { Ajv, type ErrorObject } from "ajv";
+import draft06MetaSchema from "ajv/dist/refs/json-schema-draft-06.json";
+import { BLOOD_PRESSURE_CODES, OBSERVATION_CODES } from "./codes";
+import fhirSchema from "./r4/fhir.schema.json";
+import { FHIR_RESOURCE_TYPES, type FhirBundle } from "./types";
+
+export type FhirValidationResult =
+  | { valid: true; bundle: FhirBundle }
+  | { valid: false; issues: string[] };
+
+/** The UCUM codes our Observations are recorded in */
+const UCUM_CODES = new Set<string>([
+  ...Object.values(OBSERVATION_CODES).map((code) => code.ucum),
+  BLOOD_PRESSURE_CODES.ucum,
+]);
+
+// The FHIR schema is draft-06 and uses no formats, so strict mode only gets
+// in the way of its untyped `const`s
+const ajv = new Ajv({ allErrors: true, strict: false });
+ajv.addMetaSchema(draft06MetaSchema);
+ajv.addSchema(fhirSchema);
+
+const definition = (name: string) => {
+  const validate = ajv.getSchema(`${fhirSchema.$id}#/definitions/${name}`);
+  if (!validate) throw new Error(`No FHIR schema definition for ${name}`);
+  return validate;
+};
+
+const isResourceType = (
+  type: unknown,
+): type is (typeof FHIR_RESOURCE_TYPES)[number] =>
+  FHIR_RESOURCE_TYPES.includes(type as (typeof FHIR_RESOURCE_TYPES)[number]);
+
+/** "entry.2.resource.code: must have required property 'code'" */
+const describeError = (prefix: string, error: ErrorObject) => {
+  const params = error.params as {
+    missingProperty?: string;
+    additionalProperty?: string;
+  };
+  const path = [
+    prefix,
+    ...error.instancePath.split("/").filter(Boolean),
+    params.missingProperty ?? params.additionalProperty,
+  ]
+    .filter(Boolean)
+    .join(".");
+  return `${path || "(root)"}: ${error.message ?? error.keyword}`;
+};
+
+/**
+ * Schema issues for a Bundle. A resource that fails is checked again against
+ * its own definition, rather than reporting every ResourceList branch it
+ * did not match.
+ */
+const schemaIssues = (input: unknown): string[] => {
+  const validateBundle = definition("Bundle");
+  if (validateBundle(input)) return [];
+
+  const inResource = /^\/entry\/(\d+)\/resource(\/|$)/;
+  const issues = (validateBundle.errors ?? [])
+    .filter((error) => !inResource.test(error.instancePath))
+    .map((error) => describeError("", error));
+
+  const entries = (input as { entry?: { resource?: unknown }[] }).entry;
+  entries?.forEach(({ resource }, index) => {
+    const prefix = `entry.${index}.resource`;
+    const resourceType = (resource as { resourceType?: unknown } | undefined)
+      ?.resourceType;
+    if (!isResourceType(resourceType)) {
+      issues.push(
+        `${prefix}.resourceType: must be one of ${FHIR_RESOURCE_TYPES.join(", ")}`,
+      );
+      return;
+    }
+    const validateResource = definition(resourceType);
+    if (!validateResource(resource)) {
+      issues.push(
+        ...(validateResource.errors ?? []).map((error) =>
+          describeError(prefix, error),
+        ),
+      );
+    }
+  });
+
+  return [...new Set(issues)];
+};
+
+/** Every `reference` string in a resource, at any depth */
+const referencesIn = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(referencesIn);
+  if (value === null || typeof value !== "object") return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === "reference" && typeof child === "string"
+      ? [child]
+      : referencesIn(child),
+  );
+};
+
+/**
+ * Checks a Bundle against the official FHIR R4 JSON schema, then the rules
+ * the schema cannot express: unique fullUrls, every urn:uuid reference
+ * resolving to an entry, and Observations carrying a value in a known UCUM
+ * unit.
+ */
+export function validateFhirBundle(input: unknown): FhirValidationResult {
+  const invalid = schemaIssues(input);
+  if (invalid.length > 0) return { valid: false, issues: invalid };
+
+  // The schema allows more than we emit, e.g. a Bundle without entries
+  const bundle = input as FhirBundle;
+  const entries = bundle.entry ?? [];
+  const issues: string[] = [];
+  const fullUrls = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    // The schema leaves both optional, but references resolve through them
+    if (!entry.fullUrl || !entry.resource) {
+      issues.push(`entry.${index}: needs a fullUrl and a resource`);
+      return;
+    }
+    if (fullUrls.has(entry.fullUrl)) {
+      issues.push(`entry.${index}.fullUrl: duplicate ${entry.fullUrl}`);
+    }
+    fullUrls.add(entry.fullUrl);
+
+    const { resource } = entry;
+    if (
+      resource.resourceType === "Observation" &&
+      !resource.valueQuantity &&
+      !resource.component
+    ) {
+      issues.push(
+        `entry.${index}.resource: Observation needs a value or components`,
+      );
+    }
+    if (resource.resourceType === "Observation") {
+      const quantities = [
+        resource.valueQuantity,
+        ...(resource.component ?? []).map((c) => c.valueQuantity),
+      ];
+      for (const quantity of quantities) {
+        if (quantity && !UCUM_CODES.has(quantity.code)) {
+          issues.push(
+            `entry.${index}.resource: unknown UCUM code ${quantity.code}`,
+          );
+        }
+      }
+    }
+  });
+
+  entries.forEach((entry, index) => {
+    for (const reference of referencesIn(entry.resource)) {
+      if (reference.startsWith("urn:uuid:") && !fullUrls.has(reference)) {
+        issues.push(
+          `entry.${index}.resource: unresolved reference ${reference}`,
+        );
+      }
+    }
+  });
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, bundle };
+}
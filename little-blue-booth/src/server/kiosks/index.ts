@@ -0,0 +1,247 @@
+// server/kiosks/index.ts
+
+import { createHash, randomBytes, randomInt } from "crypto";
+import type { Kiosk, Prisma, PrismaClient } from "@prisma/client";
+import {
+  KIOSK_OFFLINE_AFTER_MS,
+  normalizeEnrollmentCode,
+  type KioskHealth,
+  type KioskStatus,
+} from "~/lib/kiosks";
+import { db } from "~/server/db";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** How long an enrollment code can be used */
+export const ENROLLMENT_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** No 0/O, 1/I/L, so codes can be read off a screen and typed in */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+/** Prefix of kiosk credentials, so a leaked credential is recognisable */
+const CREDENTIAL_PREFIX = "lbbkiosk_";
+
+const hash = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+/**
+ * Issues a one-time enrollment code. Without a kioskId a new booth is
+ * created; with one, the booth is re-enrolled and its current credential
+ * stops working. Only the code's hash is stored.
+ */
+export async function createEnrollmentCode(
+  { kioskId, name }: { kioskId?: string; name?: string },
+  client: DbClient = db,
+): Promise<{ kioskId: string; code: string; expiresAt: Date }> {
+  const raw = Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+  ).join("");
+  const expiresAt = new Date(Date.now() + ENROLLMENT_CODE_TTL_MS);
+  const enrollment = {
+    enrollmentCodeHash: hash(raw),
+    enrollmentCodeExpiresAt: expiresAt,
+  };
+
+  const kiosk = kioskId
+    ? await client.kiosk.update({
+        where: { id: kioskId },
+        data: {
+          ...enrollment,
+          credentialHash: null,
+          status: "OFFLINE",
+          statusChangedAt: new Date(),
+        },
+      })
+    : await client.kiosk.create({
+        data: { ...enrollment, name, status: "OFFLINE" },
+      });
+
+  return {
+    kioskId: kiosk.id,
+    code: `${raw.slice(0, 4)}-${raw.slice(4)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Exchanges an enrollment code for the booth's credential. The code works
+ * once and only before it expires. Returns null for an unknown, used or
+ * expired code.
+ */
+export async function enrollKiosk(
+  code: string,
+  client: DbClient = db,
+): Promise<{ kioskId: string; credential: string } | null> {
+  const codeHash = hash(normalizeEnrollmentCode(code));
+  const kiosk = await client.kiosk.findUnique({
+    where: { enrollmentCodeHash: codeHash },
+    select: { id: true, enrollmentCodeExpiresAt: true },
+  });
+  if (!kiosk?.enrollmentCodeExpiresAt) return null;
+  if (kiosk.enrollmentCodeExpiresAt < new Date()) return null;
+
+  const credential = `${CREDENTIAL_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const now = new Date();
+  // Matching on the code hash makes a second use of the same code a no-op
+  const { count } = await client.kiosk.updateMany({
+    where: { id: kiosk.id, enrollmentCodeHash: codeHash },
+    data: {
+      credentialHash: hash(credential),
+      enrollmentCodeHash: null,
+      enrollmentCodeExpiresAt: null,
+      enrolledAt: now,
+      status: "ACTIVE",
+      statusChangedAt: now,
+      lastHeartbeatAt: now,
+    },
+  });
+  if (count === 0) return null;
+
+  return { kioskId: kiosk.id, credential };
+}
+
+/** The booth a request's kiosk credential belongs to, or null */
+export async function authenticateKiosk(
+  credential: string | null,
+  client: DbClient = db,
+): Promise<Kiosk | null> {
+  if (!credential?.startsWith(CREDENTIAL_PREFIX)) return null;
+  return client.kiosk.findUnique({
+    where: { credentialHash: hash(credential) },
+  });
+}
+
+async function auditStatusChange(
+  kioskId: string,
+  from: string,
+  to: KioskStatus,
+  reason: string,
+  client: DbClient,
+  userId?: string,
+) {
+  await client.auditLog.create({
+    data: {
+      eventType: to === "OFFLINE" ? "warning" : "info",
+      description: `Kiosk ${to.toLowerCase()}`,
+      details: JSON.stringify({ from, to, reason }),
+      userId,
+      associatedId: kioskId,
+      associatedType: "kiosk",
+    },
+  });
+}
+
+/**
+ * Records a heartbeat. An OFFLINE booth comes back ACTIVE; a booth in
+ * MAINTENANCE stays there. Returns the booth's status afterwards.
+ */
+export async function recordKioskHeartbeat(
+  kiosk: Pick<Kiosk, "id" | "status">,
+  { appVersion, health }: { appVersion: string; health: KioskHealth },
+  client: DbClient = db,
+): Promise<KioskStatus> {
+  const now = new Date();
+  const reconnected = kiosk.status === "OFFLINE";
+
+  const updated = await client.kiosk.update({
+    where: { id: kiosk.id },
+    data: {
+      lastHeartbeatAt: now,
+      appVersion,
+      health: JSON.stringify(health),
+      ...(reconnected ? { status: "ACTIVE", statusChangedAt: now } : {}),
+    },
+    select: { status: true },
+  });
+
+  if (reconnected) {
+    await auditStatusChange(kiosk.id, "OFFLINE", "ACTIVE", "heartbeat", client);
+  }
+  return updated.status as KioskStatus;
+}
+
+/**
+ * Marks ACTIVE booths that have stopped sending heartbeats as OFFLINE. Run
+ * by the maintenance worker.
+ */
+export async function markOfflineKiosks(
+  now = new Date(),
+  client: DbClient = db,
+): Promise<number> {
+  const silent = await client.kiosk.findMany({
+    where: {
+      status: "ACTIVE",
+      OR: [
+        { lastHeartbeatAt: null },
+        {
+          lastHeartbeatAt: {
+            lt: new Date(now.getTime() - KIOSK_OFFLINE_AFTER_MS),
+          },
+        },
+      ],
+    },
+    select: { id: true },
+  });
+
+  for (const kiosk of silent) {
+    const { count } = await client.kiosk.updateMany({
+      where: { id: kiosk.id, status: "ACTIVE" },
+      data: { status: "OFFLINE", statusChangedAt: now },
+    });
+    if (count > 0) {
+      await auditStatusChange(
+        kiosk.id,
+        "ACTIVE",
+        "OFFLINE",
+        "missedHeartbeats",
+        client,
+      );
+    }
+  }
+
+  if (silent.length > 0) {
+    console.log(`Marked ${silent.length} kiosk(s) offline`);
+  }
+  return silent.length;
+}
+
+/**
+ * Puts a booth into or out of maintenance. Leaving maintenance goes to
+ * ACTIVE if the booth is still sending heartbeats, otherwise OFFLINE.
+ */
+export async function setKioskMaintenance(
+  kioskId: string,
+  maintenance: boolean,
+  userId: string,
+  client: DbClient = db,
+): Promise<Kiosk> {
+  const kiosk = await client.kiosk.findUniqueOrThrow({
+    where: { id: kioskId },
+  });
+
+  const recentlySeen =
+    !!kiosk.lastHeartbeatAt &&
+    Date.now() - kiosk.lastHeartbeatAt.getTime() < KIOSK_OFFLINE_AFTER_MS;
+  const status: KioskStatus = maintenance
+    ? "MAINTENANCE"
+    : recentlySeen
+      ? "ACTIVE"
+      : "OFFLINE";
+  if (status === kiosk.status) return kiosk;
+
+  const updated = await client.kiosk.update({
+    where: { id: kioskId },
+    data: { status, statusChangedAt: new Date() },
+  });
+  await auditStatusChange(
+    kioskId,
+    kiosk.status,
+    status,
+    maintenance ? "maintenanceStarted" : "maintenanceEnded",
+    client,
+    userId,
+  );
+  return updated;
+}
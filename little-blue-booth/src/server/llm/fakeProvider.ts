@@ -0,0 +1,57 @@
+// server/llm/fakeProvider.ts
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { LlmClient, LlmTask } from "~/server/llm/types";
+
+const FAKE_MODEL = "fake";
+
+/**
+ * One file per task, `<task>.json`. `content` is returned as-is from `chat`
+ * and `vision`; `chatJson` accepts either an object or a JSON string.
+ */
+const fixtureSchema = z.object({
+  content: z.union([z.string(), z.record(z.unknown())]),
+});
+
+/**
+ * Deterministic provider for CI and offline development. Every call for a
+ * task returns that task's fixture, whatever the prompt.
+ */
+export function createFakeLlmClient(fixturesDir: string): LlmClient {
+  const loadFixture = async (task: LlmTask) => {
+    const file = path.join(fixturesDir, `${task}.json`);
+    try {
+      const raw = await readFile(file, "utf8");
+      return fixtureSchema.parse(JSON.parse(raw)).content;
+    } catch (error) {
+      throw new Error(
+        `No usable LLM fixture for task ${task} at ${file}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  const loadText = async (task: LlmTask) => {
+    const content = await loadFixture(task);
+    return typeof content === "string" ? content : JSON.stringify(content);
+  };
+
+  return {
+    async chat({ task }) {
+      return { content: await loadText(task), model: FAKE_MODEL };
+    },
+
+    async chatJson({ task }) {
+      const content = await loadFixture(task);
+      return {
+        data: typeof content === "string" ? (JSON.parse(content) as unknown) : content,
+        model: FAKE_MODEL,
+      };
+    },
+
+    async vision({ task }) {
+      return { content: await loadText(task), model: FAKE_MODEL };
+    },
+  };
+}
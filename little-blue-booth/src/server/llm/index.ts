@@ -0,0 +1,27 @@
+// server/llm/index.ts
+
+import path from "path";
+import { env } from "~/env";
+import { createFakeLlmClient } from "~/server/llm/fakeProvider";
+import { createOpenAiLlmClient } from "~/server/llm/openaiProvider";
+import type { LlmClient } from "~/server/llm/types";
+
+const createLlmClient = (): LlmClient => {
+  if (env.LLM_PROVIDER === "fake") {
+    const fixturesDir =
+      env.LLM_FIXTURES_DIR ??
+      path.join(process.cwd(), "src/server/llm/fixtures");
+    console.log(`Using fake LLM provider with fixtures from ${fixturesDir}`);
+    return createFakeLlmClient(fixturesDir);
+  }
+  return createOpenAiLlmClient();
+};
+
+const globalForLlm = globalThis as unknown as {
+  llm: LlmClient | undefined;
+};
+
+/** The server-side LLM client; every model call goes through this */
+export const llm = globalForLlm.llm ?? createLlmClient();
+
+if (env.NODE_ENV !== "production") globalForLlm.llm = llm;
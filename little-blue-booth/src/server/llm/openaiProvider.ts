@@ -0,0 +1,86 @@
+// server/llm/openaiProvider.ts
+
+import OpenAI from "openai";
+import { env } from "~/env";
+import type { LlmClient, LlmTask } from "~/server/llm/types";
+
+const MODEL_FOR_TASK: Record<LlmTask, string> = {
+  roughOverview: env.LLM_MODEL_ROUGH_OVERVIEW,
+  healthMetrics: env.LLM_MODEL_HEALTH_METRICS,
+  informationCompleteness: env.LLM_MODEL_INFORMATION_COMPLETENESS,
+  summary: env.LLM_MODEL_SUMMARY,
+  mediaAnalysis: env.LLM_MODEL_MEDIA_ANALYSIS,
+  heartCheck: env.LLM_MODEL_HEART_CHECK,
+  redFlagTriage: env.LLM_MODEL_RED_FLAG_TRIAGE,
+  clinicalNote: env.LLM_MODEL_CLINICAL_NOTE,
+  recommendations: env.LLM_MODEL_RECOMMENDATIONS,
+};
+
+export function modelForTask(task: LlmTask) {
+  return MODEL_FOR_TASK[task];
+}
+
+export function createOpenAiLlmClient(): LlmClient {
+  const openai = new OpenAI({
+    apiKey: env.OPENAI_API_KEY,
+  });
+
+  return {
+    async chat({ task, messages, temperature, maxTokens }) {
+      const model = modelForTask(task);
+      const completion = await openai.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? "",
+        model,
+      };
+    },
+
+    async chatJson({ task, messages, temperature, maxTokens }) {
+      const model = modelForTask(task);
+      const completion = await openai.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        response_format: { type: "json_object" },
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No content in OpenAI response");
+      }
+
+      return { data: JSON.parse(content) as unknown, model };
+    },
+
+    async vision({ task, prompt, imageUrls }) {
+      const model = modelForTask(task);
+      const completion = await openai.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              ...imageUrls.map((url) => ({
+                type: "image_url" as const,
+                image_url: { url },
+              })),
+            ],
+          },
+        ],
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? "",
+        model,
+      };
+    },
+  };
+}
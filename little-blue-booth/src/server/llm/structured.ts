@@ -0,0 +1,135 @@
+// server/llm/structured.ts
+
+import type { z } from "zod";
+import { db } from "~/server/db";
+import { llm } from "~/server/llm";
+import type { LlmChatRequest, LlmMessage, LlmTask } from "~/server/llm/types";
+
+/** AuditLog.description for every rejected model output */
+export const INVALID_OUTPUT_EVENT = "Invalid structured LLM output";
+
+/** How many times a rejected output is sent back to the model for repair */
+const DEFAULT_MAX_REPAIRS = 2;
+
+/** For extractor schemas: a field the model leaves out was not mentioned */
+export const notMentioned = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullable().default(null);
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly task: LlmTask,
+    public readonly issues: string[],
+  ) {
+    super(`LLM output for ${task} failed validation: ${issues.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+interface StructuredChatRequest<TSchema extends z.ZodTypeAny>
+  extends LlmChatRequest {
+  schema: TSchema;
+  /** Attached to the AuditLog rows written for rejected outputs */
+  sessionId?: string;
+  maxRepairs?: number;
+}
+
+async function recordInvalidOutput(details: {
+  task: LlmTask;
+  sessionId?: string;
+  model: string | null;
+  attempt: number;
+  final: boolean;
+  issues: string[];
+  output: unknown;
+}) {
+  try {
+    // Keyed by task so invalid outputs can be counted per prompt
+    await db.auditLog.create({
+      data: {
+        eventType: details.final ? "error" : "warning",
+        description: INVALID_OUTPUT_EVENT,
+        details: JSON.stringify({
+          model: details.model,
+          attempt: details.attempt,
+          issues: details.issues,
+          output: details.output,
+        }),
+        sessionId: details.sessionId,
+        associatedId: details.task,
+        associatedType: "llmTask",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record invalid LLM output:", error);
+  }
+}
+
+/**
+ * JSON-mode chat whose result is validated against `schema`. An output that
+ * is not JSON or fails validation is recorded to AuditLog and sent back to
+ * the model with the validation errors, up to `maxRepairs` times, before a
+ * StructuredOutputError is thrown. Callers can rely on the returned data
+ * matching the schema before writing anything to the database.
+ */
+export async function chatStructured<TSchema extends z.ZodTypeAny>({
+  schema,
+  sessionId,
+  maxRepairs = DEFAULT_MAX_REPAIRS,
+  ...request
+}: StructuredChatRequest<TSchema>): Promise<{
+  data: z.infer<TSchema>;
+  model: string;
+}> {
+  const messages: LlmMessage[] = [...request.messages];
+
+  for (let attempt = 1; ; attempt++) {
+    let output: unknown = null;
+    let model: string | null = null;
+    let issues: string[];
+
+    try {
+      const completion = await llm.chatJson({ ...request, messages });
+      output = completion.data;
+      model = completion.model;
+
+      const parsed = schema.safeParse(output);
+      if (parsed.success) {
+        return { data: parsed.data as z.infer<TSchema>, model };
+      }
+      issues = parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      );
+    } catch (error) {
+      // Only malformed JSON is repairable; provider errors propagate
+      if (!(error instanceof SyntaxError)) throw error;
+      issues = [`Response was not valid JSON: ${error.message}`];
+    }
+
+    const final = attempt > maxRepairs;
+    console.warn(
+      `Invalid ${request.task} output (attempt ${attempt}):`,
+      issues,
+    );
+    await recordInvalidOutput({
+      task: request.task,
+      sessionId,
+      model,
+      attempt,
+      final,
+      issues,
+      output,
+    });
+
+    if (final) {
+      throw new StructuredOutputError(request.task, issues);
+    }
+
+    if (output !== null) {
+      messages.push({ role: "assistant", content: JSON.stringify(output) });
+    }
+    messages.push({
+      role: "user",
+      content: `Your previous response did not match the required format:\n${issues.map((i) => `- ${i}`).join("\n")}\nRespond again with the corrected JSON object only.`,
+    });
+  }
+}
@@ -0,0 +1,54 @@
+// server/llm/types.ts
+
+/**
+ * Every LLM call site is identified by a task. The task picks the model
+ * (`LLM_MODEL_*` in env.js) and, for the fake provider, the fixture.
+ */
+export type LlmTask =
+  | "roughOverview"
+  | "healthMetrics"
+  | "informationCompleteness"
+  | "summary"
+  | "mediaAnalysis"
+  | "heartCheck"
+  | "redFlagTriage"
+  | "clinicalNote"
+  | "recommendations";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmChatRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmVisionRequest {
+  task: LlmTask;
+  prompt: string;
+  /** Public/presigned URLs or data URLs */
+  imageUrls: string[];
+}
+
+export interface LlmChatResult {
+  content: string;
+  model: string;
+}
+
+export interface LlmJsonResult {
+  data: unknown;
+  model: string;
+}
+
+export interface LlmClient {
+  /** Free-text chat completion */
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+  /** Chat completion constrained to a JSON object, returned parsed */
+  chatJson(request: LlmChatRequest): Promise<LlmJsonResult>;
+  /** Single-turn prompt over one or more images */
+  vision(request: LlmVisionRequest): Promise<LlmChatResult>;
+}
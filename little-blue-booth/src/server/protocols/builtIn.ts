@@ -0,0 +1,242 @@
+// server/protocols/builtIn.ts
+
+import type { ProtocolDefinitionInput } from "~/server/protocols/types";
+
+/** Used when neither the session nor its kiosk names a protocol */
+export const DEFAULT_PROTOCOL_KEY = "gp-triage";
+
+const drPhil = {
+  name: "Dr. Phil",
+  role: "a friendly, direct, and professional AI GP doctor",
+  voice: "ballad",
+  style:
+    "Your voice and personality should be warm and reassuring. Talk quickly.",
+} as const;
+
+const basicDetails = {
+  id: "basic-details",
+  title: "Gathering basic data",
+  instructions: "Find out who the patient is.",
+  requiredDataPoints: ["name", "date of birth", "address"],
+};
+
+/**
+ * Protocols every deployment starts with. They are stored as version 1 of
+ * their key the first time protocols are read; later edits are published as
+ * new versions and never overwritten from here.
+ */
+export const BUILT_IN_PROTOCOLS: ProtocolDefinitionInput[] = [
+  {
+    key: "gp-triage",
+    name: "GP triage",
+    description:
+      "General practice consultation: history, vitals, current complaint and next steps.",
+    persona: drPhil,
+    phases: [
+      basicDetails,
+      {
+        id: "health-markers",
+        title: "Gathering basic health markers",
+        instructions:
+          "Ask the patient to step on the scales, use the measuring tape and take their blood pressure with the booth cuff.",
+        requiredDataPoints: ["weight", "height", "blood pressure"],
+      },
+      {
+        id: "medical-history",
+        title: "Medical history",
+        instructions:
+          "Gather a very brief medical history. Keep this short and snappy.",
+        requiredDataPoints: [
+          "past medical history",
+          "current medications",
+          "allergies",
+        ],
+      },
+      {
+        id: "current-complaint",
+        title: "Current complaint",
+        instructions: "Briefly go through the current complaint.",
+        requiredDataPoints: ["onset", "duration", "severity"],
+      },
+      {
+        id: "examination",
+        title: "Clinical examination",
+        instructions:
+          "Based on the current complaint, go through the relevant parts of a clinical examination the patient can do themselves.",
+        examSteps: [
+          "feel the neck for swollen lymph nodes",
+          "press on the area of pain and rate the tenderness",
+          "check the skin for rashes or colour change",
+          "take a deep breath and report any pain or shortness of breath",
+        ],
+      },
+      {
+        id: "differential",
+        title: "Refine the differential",
+        instructions:
+          "Ask questions to confirm or deny your hypotheses as you hone in on the most likely diagnosis.",
+      },
+      {
+        id: "summary",
+        title: "Analysis of all data",
+        instructions:
+          "After exhausting different hypotheses, give the most likely issue, a differential diagnosis and next steps (e.g. referral, further investigation, physio, do nothing).",
+      },
+    ],
+  },
+  {
+    key: "neuro-spine",
+    name: "Lumbar spine assessment",
+    description:
+      "Neurosurgical back pain consultation focused on L4-5 and L5-S1 disc disease.",
+    persona: drPhil,
+    phases: [
+      basicDetails,
+      {
+        id: "health-markers",
+        title: "Gathering basic health markers",
+        instructions:
+          "Ask the patient to step on the scales and use the measuring tape.",
+        requiredDataPoints: ["weight", "height"],
+      },
+      {
+        id: "medical-history",
+        title: "Medical history",
+        instructions:
+          "Gather a very brief medical history, including previous back problems or spinal surgery. Keep this short and snappy.",
+        requiredDataPoints: ["past medical history", "current medications"],
+      },
+      {
+        id: "current-complaint",
+        title: "Current complaint",
+        instructions:
+          "Go through the back pain, where it radiates, and ask directly about red flags: saddle numbness, new bladder or bowel problems, and progressive leg weakness.",
+        requiredDataPoints: [
+          "pain location",
+          "radiation",
+          "duration",
+          "bladder or bowel changes",
+        ],
+      },
+      {
+        id: "examination",
+        title: "Neurosurgical examination",
+        instructions:
+          "Run a neurosurgical examination looking for disc herniation at L4-5 and L5-S1.",
+        examSteps: [
+          "walk on the heels",
+          "walk on the tiptoes",
+          "lie down and raise each straight leg in turn, reporting where pain starts",
+          "bend forward to touch the toes",
+          "compare light touch on the top and outer edge of each foot",
+        ],
+      },
+      {
+        id: "differential",
+        title: "Refine the differential",
+        instructions:
+          "Ask questions to confirm or deny your hypotheses about the affected level and nerve root.",
+      },
+      {
+        id: "summary",
+        title: "Analysis of all data",
+        instructions:
+          "Give the most likely diagnosis, a differential and next steps. Reference any uploaded imaging only at this point.",
+      },
+    ],
+  },
+  {
+    key: "pharmacy-bp-check",
+    name: "Pharmacy blood pressure check",
+    description:
+      "Short blood pressure check for pharmacy booths, with lifestyle advice and referral when high.",
+    persona: {
+      name: "Pip",
+      role: "a friendly AI pharmacy assistant",
+      voice: "coral",
+      style: "Be upbeat and brief. The whole check should take a few minutes.",
+    },
+    phases: [
+      {
+        id: "basic-details",
+        title: "Basic details",
+        instructions: "Find out who the patient is.",
+        requiredDataPoints: ["name", "date of birth"],
+      },
+      {
+        id: "risk-factors",
+        title: "Risk factors",
+        instructions:
+          "Ask about known high blood pressure, blood pressure medication, smoking and family history of heart disease.",
+        requiredDataPoints: [
+          "known hypertension",
+          "blood pressure medication",
+          "smoking status",
+        ],
+      },
+      {
+        id: "measurement",
+        title: "Blood pressure measurement",
+        instructions:
+          "Guide the patient through the measurement: sit back, feet flat, arm resting at heart height, no talking during the reading.",
+        requiredDataPoints: ["blood pressure", "heart rate"],
+        examSteps: [
+          "sit quietly for five minutes before the reading",
+          "place the cuff on the upper arm at heart height",
+          "take a second reading one minute after the first",
+        ],
+      },
+      {
+        id: "advice",
+        title: "Result and advice",
+        instructions:
+          "Explain the reading in plain language. If it is high, recommend seeing a GP within the advised timeframe; otherwise give brief lifestyle advice.",
+      },
+    ],
+  },
+  {
+    key: "sports-injury",
+    name: "Sports injury assessment",
+    description:
+      "Musculoskeletal assessment of an acute sports injury with return-to-play advice.",
+    persona: {
+      name: "Coach Sam",
+      role: "an encouraging AI sports medicine physician",
+      voice: "verse",
+      style: "Be energetic and practical. Use plain language.",
+    },
+    phases: [
+      basicDetails,
+      {
+        id: "injury",
+        title: "Mechanism of injury",
+        instructions:
+          "Find out what sport, how the injury happened, and whether the patient could carry on playing.",
+        requiredDataPoints: [
+          "sport",
+          "mechanism of injury",
+          "time since injury",
+          "able to bear weight",
+        ],
+      },
+      {
+        id: "examination",
+        title: "Self-examination",
+        instructions:
+          "Examine the injured area, always comparing with the uninjured side.",
+        examSteps: [
+          "look for swelling or bruising compared with the other side",
+          "press along the bone and report any point tenderness",
+          "move the joint through its full range and report where it hurts",
+          "take four steps on the injured leg if it is a leg injury",
+        ],
+      },
+      {
+        id: "plan",
+        title: "Plan",
+        instructions:
+          "Give the likely injury, whether an X-ray or urgent review is needed, first aid, and a graded return-to-play plan.",
+      },
+    ],
+  },
+];
@@ -0,0 +1,173 @@
+// server/protocols/index.ts
+
+import type {
+  ConsultationProtocol,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { db } from "~/server/db";
+import {
+  BUILT_IN_PROTOCOLS,
+  DEFAULT_PROTOCOL_KEY,
+} from "~/server/protocols/builtIn";
+import {
+  protocolPersonaSchema,
+  protocolPhaseSchema,
+  protocolDefinitionSchema,
+  type ConsultationProtocolVersion,
+  type ProtocolDefinitionInput,
+} from "~/server/protocols/types";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export class ProtocolNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Consultation protocol "${key}" not found`);
+    this.name = "ProtocolNotFoundError";
+  }
+}
+
+/** Parses the JSON columns of a stored protocol */
+export function toProtocolVersion(
+  row: ConsultationProtocol,
+): ConsultationProtocolVersion {
+  return {
+    id: row.id,
+    key: row.key,
+    version: row.version,
+    name: row.name,
+    description: row.description ?? undefined,
+    persona: protocolPersonaSchema.parse(JSON.parse(row.persona)),
+    phases: protocolPhaseSchema.array().parse(JSON.parse(row.phases)),
+  };
+}
+
+/** Stores version 1 of every built-in protocol whose key is not stored yet */
+export async function ensureBuiltInProtocols(client: DbClient = db) {
+  const existing = await client.consultationProtocol.findMany({
+    where: { key: { in: BUILT_IN_PROTOCOLS.map((p) => p.key) } },
+    select: { key: true },
+    distinct: ["key"],
+  });
+  const existingKeys = new Set(existing.map((p) => p.key));
+
+  for (const protocol of BUILT_IN_PROTOCOLS) {
+    if (existingKeys.has(protocol.key)) continue;
+    console.log(`Storing built-in consultation protocol ${protocol.key}`);
+    await publishProtocol(protocol, client);
+  }
+}
+
+/**
+ * Stores `definition` as the next version of its key. Earlier versions are
+ * kept so sessions that ran on them can still be explained.
+ */
+export async function publishProtocol(
+  definition: ProtocolDefinitionInput,
+  client: DbClient = db,
+): Promise<ConsultationProtocolVersion> {
+  const parsed = protocolDefinitionSchema.parse(definition);
+
+  const latest = await client.consultationProtocol.findFirst({
+    where: { key: parsed.key },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  const row = await client.consultationProtocol.create({
+    data: {
+      key: parsed.key,
+      version: (latest?.version ?? 0) + 1,
+      name: parsed.name,
+      description: parsed.description,
+      persona: JSON.stringify(parsed.persona),
+      phases: JSON.stringify(parsed.phases),
+    },
+  });
+
+  return toProtocolVersion(row);
+}
+
+/** The latest version of `key`, or null if no version is stored */
+export async function getLatestProtocol(
+  key: string,
+  client: DbClient = db,
+): Promise<ConsultationProtocolVersion | null> {
+  await ensureBuiltInProtocols(client);
+  const row = await client.consultationProtocol.findFirst({
+    where: { key },
+    orderBy: { version: "desc" },
+  });
+  return row ? toProtocolVersion(row) : null;
+}
+
+/** The latest version of every protocol key */
+export async function listLatestProtocols(
+  client: DbClient = db,
+): Promise<ConsultationProtocolVersion[]> {
+  await ensureBuiltInProtocols(client);
+  const rows = await client.consultationProtocol.findMany({
+    orderBy: [{ key: "asc" }, { version: "desc" }],
+  });
+  const latest = new Map<string, ConsultationProtocol>();
+  for (const row of rows) {
+    if (!latest.has(row.key)) latest.set(row.key, row);
+  }
+  return [...latest.values()].map(toProtocolVersion);
+}
+
+/**
+ * Picks the protocol for a new session: an explicitly requested key first,
+ * then the kiosk's assigned key, then DEFAULT_PROTOCOL_KEY. The latest
+ * version of the chosen key is returned.
+ */
+export async function selectProtocolForKiosk(
+  { kioskId, protocolKey }: { kioskId?: string | null; protocolKey?: string },
+  client: DbClient = db,
+): Promise<ConsultationProtocolVersion> {
+  let key = protocolKey;
+
+  if (!key && kioskId) {
+    const kiosk = await client.kiosk.findUnique({
+      where: { id: kioskId },
+      select: { protocolKey: true },
+    });
+    key = kiosk?.protocolKey ?? undefined;
+  }
+
+  key ??= DEFAULT_PROTOCOL_KEY;
+  const protocol = await getLatestProtocol(key, client);
+  if (!protocol) throw new ProtocolNotFoundError(key);
+  return protocol;
+}
+
+/**
+ * The protocol version a session runs. Sessions are pinned to a version
+ * when they are created; older sessions without one are pinned to the
+ * kiosk's protocol on first use.
+ */
+export async function getSessionProtocol(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<ConsultationProtocolVersion> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    select: { kioskId: true, protocol: true },
+  });
+
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  if (session.protocol) return toProtocolVersion(session.protocol);
+
+  const protocol = await selectProtocolForKiosk(
+    { kioskId: session.kioskId },
+    client,
+  );
+  await client.session.update({
+    where: { id: sessionId },
+    data: { protocolId: protocol.id },
+  });
+  return protocol;
+}
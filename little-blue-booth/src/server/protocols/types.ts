@@ -0,0 +1,56 @@
+// server/protocols/types.ts
+
+import { z } from "zod";
+
+/** Voices offered by the OpenAI realtime API */
+export const REALTIME_VOICES = [
+  "alloy",
+  "ash",
+  "ballad",
+  "coral",
+  "echo",
+  "sage",
+  "shimmer",
+  "verse",
+] as const;
+
+export const protocolPersonaSchema = z.object({
+  /** How the agent introduces itself, e.g. "Dr. Phil" */
+  name: z.string().min(1),
+  /** Completes "You are ...", e.g. "a friendly AI GP doctor" */
+  role: z.string().min(1),
+  voice: z.enum(REALTIME_VOICES),
+  /** Tone and pacing guidance read by the agent */
+  style: z.string().min(1),
+});
+
+export const protocolPhaseSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9-]+$/),
+  title: z.string().min(1),
+  instructions: z.string().min(1),
+  /** Data the agent must collect before moving on, e.g. "date of birth" */
+  requiredDataPoints: z.array(z.string().min(1)).default([]),
+  /** The only examination steps the patient may be asked to perform */
+  examSteps: z.array(z.string().min(1)).default([]),
+});
+
+export const protocolDefinitionSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  persona: protocolPersonaSchema,
+  phases: z.array(protocolPhaseSchema).min(1),
+});
+
+export type ProtocolPersona = z.infer<typeof protocolPersonaSchema>;
+export type ProtocolPhase = z.infer<typeof protocolPhaseSchema>;
+export type ProtocolDefinition = z.infer<typeof protocolDefinitionSchema>;
+export type ProtocolDefinitionInput = z.input<typeof protocolDefinitionSchema>;
+
+/** A stored protocol version */
+export interface ConsultationProtocolVersion extends ProtocolDefinition {
+  id: string;
+  version: number;
+}
@@ -0,0 +1,103 @@
+// server/realtime/runTool.ts
+
+import { db } from "~/server/db";
+import type { RealtimeToolResult } from "~/lib/realtimeTools";
+import { getRealtimeTool } from "~/server/realtime/tools";
+
+class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`${name} did not finish within ${timeoutMs} ms`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, name: string, timeoutMs: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new ToolTimeoutError(name, timeoutMs)),
+      timeoutMs,
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+/**
+ * Runs a tool call the voice agent made. Never throws: unknown tools,
+ * invalid arguments, handler errors and timeouts come back as an error
+ * result the model can read and recover from. Every call is recorded to
+ * AuditLog.
+ */
+export async function runRealtimeTool({
+  sessionId,
+  name,
+  args,
+  callId,
+}: {
+  sessionId: string;
+  name: string;
+  /** The JSON arguments string exactly as the model sent it */
+  args: string;
+  callId: string;
+}): Promise<RealtimeToolResult> {
+  const startedAt = Date.now();
+  const tool = getRealtimeTool(name);
+
+  const run = async (): Promise<RealtimeToolResult> => {
+    if (!tool) return { ok: false, error: `Unknown tool ${name}` };
+
+    let parsedArgs: unknown;
+    try {
+      parsedArgs = JSON.parse(args || "{}");
+    } catch {
+      return { ok: false, error: "Arguments were not valid JSON" };
+    }
+
+    const input = tool.inputSchema.safeParse(parsedArgs);
+    if (!input.success) {
+      return {
+        ok: false,
+        error: `Invalid arguments: ${input.error.issues
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ")}`,
+      };
+    }
+
+    try {
+      const output = await withTimeout(
+        tool.handler(input.data, { sessionId }),
+        name,
+        tool.timeoutMs,
+      );
+      return { ok: true, output };
+    } catch (error) {
+      console.error(`Realtime tool ${name} failed:`, error);
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Tool failed",
+      };
+    }
+  };
+
+  const result = await run();
+
+  try {
+    await db.auditLog.create({
+      data: {
+        eventType: result.ok ? "info" : "warning",
+        description: result.ok ? "Realtime tool call" : "Realtime tool call failed",
+        details: JSON.stringify({
+          callId,
+          arguments: args,
+          durationMs: Date.now() - startedAt,
+          ...(result.ok ? {} : { error: result.error }),
+        }),
+        sessionId,
+        associatedId: name,
+        associatedType: "realtimeTool",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record realtime tool call:", error);
+  }
+
+  return result;
+}
@@ -0,0 +1,151 @@
+// server/realtime/sessions.ts
+
+import type { Prisma, PrismaClient, RealtimeSession } from "@prisma/client";
+import { db } from "~/server/db";
+
+/** Why a realtime connection stopped */
+export const REALTIME_END_REASONS = [
+  /** The kiosk hung up, e.g. the patient ended the consultation */
+  "ended",
+  /** The WebRTC peer connection failed */
+  "connectionFailed",
+  /** A newer connection was opened for the same kiosk session */
+  "replaced",
+  /** The kiosk session itself was ended */
+  "sessionEnded",
+  /** No heartbeat arrived in time; closed by the sweeper */
+  "stale",
+  /** Triage found a possible emergency and the kiosk stopped the agent */
+  "emergency",
+] as const;
+
+export type RealtimeEndReason = (typeof REALTIME_END_REASONS)[number];
+
+/** Stages of the kiosk re-establishing a dropped voice link */
+export const REALTIME_RECONNECT_EVENTS = [
+  /** The link dropped; the first reconnect attempt is scheduled */
+  "connectionLost",
+  /** A further attempt after the previous one failed */
+  "reconnecting",
+  /** A new connection is up and the conversation was replayed into it */
+  "reconnected",
+  /** The kiosk stopped retrying */
+  "gaveUp",
+] as const;
+
+export type RealtimeReconnectEvent = (typeof REALTIME_RECONNECT_EVENTS)[number];
+
+/** The kiosk sends a heartbeat this often while connected */
+export const REALTIME_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** A connection with no heartbeat for this long is considered gone */
+export const REALTIME_STALE_AFTER_MS = 2 * 60 * 1000;
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+interface RegisterRealtimeSessionOptions {
+  sessionId: string;
+  openaiSessionId: string;
+  ephemeralKey: string;
+  keyExpiresAt: Date | null;
+  model: string;
+  voice: string;
+  turnDetection: unknown;
+  context: unknown;
+}
+
+/**
+ * Records a newly minted realtime connection against its kiosk session.
+ * Any connection still open for the same session is closed as "replaced".
+ */
+export async function registerRealtimeSession(
+  options: RegisterRealtimeSessionOptions,
+  client: DbClient = db,
+): Promise<RealtimeSession> {
+  await endActiveRealtimeSessions(options.sessionId, "replaced", client);
+
+  return client.realtimeSession.create({
+    data: {
+      sessionId: options.sessionId,
+      openaiSessionId: options.openaiSessionId,
+      ephemeralKey: options.ephemeralKey,
+      keyExpiresAt: options.keyExpiresAt,
+      model: options.model,
+      voice: options.voice,
+      turnDetection: JSON.stringify(options.turnDetection),
+      context: JSON.stringify(options.context),
+    },
+  });
+}
+
+/** Marks a connection as still alive. Returns false if it was already closed. */
+export async function recordRealtimeHeartbeat(
+  realtimeSessionId: string,
+  client: DbClient = db,
+): Promise<boolean> {
+  const { count } = await client.realtimeSession.updateMany({
+    where: { id: realtimeSessionId, active: true },
+    data: { lastHeartbeatAt: new Date() },
+  });
+  return count > 0;
+}
+
+/** Closes one connection. Closing an already closed connection does nothing. */
+export async function endRealtimeSession(
+  realtimeSessionId: string,
+  reason: RealtimeEndReason,
+  client: DbClient = db,
+): Promise<boolean> {
+  const { count } = await client.realtimeSession.updateMany({
+    where: { id: realtimeSessionId, active: true },
+    data: { active: false, endedAt: new Date(), endReason: reason },
+  });
+  return count > 0;
+}
+
+/** Closes every open connection of a kiosk session */
+export async function endActiveRealtimeSessions(
+  sessionId: string,
+  reason: RealtimeEndReason,
+  client: DbClient = db,
+): Promise<number> {
+  const { count } = await client.realtimeSession.updateMany({
+    where: { sessionId, active: true },
+    data: { active: false, endedAt: new Date(), endReason: reason },
+  });
+  return count;
+}
+
+/**
+ * Closes connections whose kiosk stopped sending heartbeats, e.g. because
+ * the tab was closed or the booth lost power. The end time is taken as the
+ * last heartbeat so durations aren't inflated by the sweep interval.
+ */
+export async function closeStaleRealtimeSessions(
+  now = new Date(),
+  client: DbClient = db,
+): Promise<number> {
+  const stale = await client.realtimeSession.findMany({
+    where: {
+      active: true,
+      lastHeartbeatAt: { lt: new Date(now.getTime() - REALTIME_STALE_AFTER_MS) },
+    },
+    select: { id: true, lastHeartbeatAt: true },
+  });
+
+  for (const session of stale) {
+    await client.realtimeSession.updateMany({
+      where: { id: session.id, active: true },
+      data: {
+        active: false,
+        endedAt: session.lastHeartbeatAt,
+        endReason: "stale",
+      },
+    });
+  }
+
+  if (stale.length > 0) {
+    console.log(`Closed ${stale.length} stale realtime session(s)`);
+  }
+  return stale.length;
+}
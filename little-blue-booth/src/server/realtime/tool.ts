@@ -0,0 +1,53 @@
+// server/realtime/tool.ts
+
+import type { z } from "zod";
+import type {
+  RealtimeToolDescriptor,
+  ToolParametersSchema,
+} from "~/lib/realtimeTools";
+
+/** What a tool handler knows about the call */
+export interface RealtimeToolContext {
+  /** The kiosk session the voice agent is running in */
+  sessionId: string;
+}
+
+/**
+ * A function the realtime voice agent can call. `parameters` is what the
+ * model sees; `inputSchema` validates the arguments it actually sends
+ * before `handler` runs.
+ */
+export interface RealtimeTool<TInput = unknown, TOutput = unknown> {
+  name: string;
+  description: string;
+  parameters: ToolParametersSchema;
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  timeoutMs: number;
+  muteMicrophone: boolean;
+  handler(input: TInput, context: RealtimeToolContext): Promise<TOutput>;
+}
+
+/**
+ * Identity helper that infers a tool's input and output types from its
+ * schema and handler.
+ */
+export function defineRealtimeTool<TInput, TOutput>(
+  tool: RealtimeTool<TInput, TOutput>,
+) {
+  return tool;
+}
+
+/** The part of a tool the kiosk gets */
+export const toToolDescriptor = ({
+  name,
+  description,
+  parameters,
+  timeoutMs,
+  muteMicrophone,
+}: RealtimeTool): RealtimeToolDescriptor => ({
+  name,
+  description,
+  parameters,
+  timeoutMs,
+  muteMicrophone,
+});
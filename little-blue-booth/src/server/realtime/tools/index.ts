@@ -0,0 +1,25 @@
+// server/realtime/tools/index.ts
+
+import type { RealtimeTool } from "~/server/realtime/tool";
+import { lookupDocumentTool } from "./lookupDocument";
+import { recordVitalTool } from "./recordVital";
+import { redFlagCheckTool } from "./redFlagCheck";
+import { searchGuidelinesTool } from "./searchGuidelines";
+
+/**
+ * Every tool the realtime voice agent can call. To add one, create a tool
+ * file next to this one and list it here; /api/session hands it to the
+ * kiosk, which registers it with the model.
+ */
+export const realtimeTools: RealtimeTool[] = [
+  recordVitalTool,
+  lookupDocumentTool,
+  redFlagCheckTool,
+  searchGuidelinesTool,
+];
+
+const toolsByName = new Map(realtimeTools.map((t) => [t.name, t]));
+
+export function getRealtimeTool(name: string): RealtimeTool | undefined {
+  return toolsByName.get(name);
+}
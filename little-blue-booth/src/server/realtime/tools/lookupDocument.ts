@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import { defineRealtimeTool } from "~/server/realtime/tool";
+
+/** Most documents returned per lookup */
+const MAX_RESULTS = 3;
+/** Characters of analysis returned around the first match */
+const EXCERPT_LENGTH = 1200;
+
+const terms = (query: string) =>
+  query
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 2);
+
+const excerptAround = (text: string, term: string | undefined) => {
+  const index = term ? text.toLowerCase().indexOf(term) : -1;
+  const start = Math.max(0, index - EXCERPT_LENGTH / 4);
+  const excerpt = text.slice(start, start + EXCERPT_LENGTH);
+  return `${start > 0 ? "..." : ""}${excerpt}${start + EXCERPT_LENGTH < text.length ? "..." : ""}`;
+};
+
+/**
+ * Searches the analyses of documents and images the patient has uploaded,
+ * in this or an earlier session, so the agent can quote e.g. an MRI report.
+ */
+export const lookupDocumentTool = defineRealtimeTool({
+  name: "lookup_document",
+  description:
+    "Search the documents and images the patient has uploaded (scans, letters, test results) and return the relevant parts of their analyses.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          "What to look for, e.g. 'MRI lumbar spine' or 'cholesterol'",
+      },
+    },
+    required: ["query"],
+  },
+  inputSchema: z.object({ query: z.string().min(1) }),
+  timeoutMs: 10_000,
+  muteMicrophone: false,
+  async handler({ query }, { sessionId }) {
+    const session = await db.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+
+    const analyses = await db.visionAnalysis.findMany({
+      where: {
+        media: { session: { userId: session.userId } },
+        analysisResults: { not: null },
+      },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        analysisType: true,
+        analysisResults: true,
+        createdAt: true,
+      },
+    });
+
+    if (analyses.length === 0) {
+      return { documents: [], note: "The patient has not uploaded any documents." };
+    }
+
+    const queryTerms = terms(query);
+    const ranked = analyses
+      .map((analysis) => {
+        const text = (analysis.analysisResults ?? "").toLowerCase();
+        const matched = queryTerms.filter((term) => text.includes(term));
+        return { analysis, matched };
+      })
+      .filter(({ matched }) => matched.length > 0)
+      .sort((a, b) => b.matched.length - a.matched.length)
+      .slice(0, MAX_RESULTS);
+
+    if (ranked.length === 0) {
+      return {
+        documents: [],
+        note: `No uploaded document mentions "${query}". The patient has uploaded ${analyses.length} document(s): ${analyses
+          .map((a) => `${a.analysisType} on ${a.createdAt.toISOString().slice(0, 10)}`)
+          .join(", ")}.`,
+      };
+    }
+
+    return {
+      documents: ranked.map(({ analysis, matched }) => ({
+        type: analysis.analysisType,
+        uploadedOn: analysis.createdAt.toISOString().slice(0, 10),
+        excerpt: excerptAround(analysis.analysisResults ?? "", matched[0]),
+      })),
+    };
+  },
+});
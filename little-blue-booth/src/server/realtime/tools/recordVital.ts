@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import {
+  MARKER_CATALOGUE,
+  MARKER_TYPES,
+  normalizeMarkerReading,
+  type MarkerReading,
+} from "~/lib/healthMarkers";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import { recordHealthMarkers } from "~/server/utils/healthMarkers";
+import { defineRealtimeTool } from "~/server/realtime/tool";
+
+const inputSchema = z
+  .object({
+    markerType: z.enum(MARKER_TYPES as [string, ...string[]]),
+    value: z.number().optional(),
+    systolic: z.number().optional(),
+    diastolic: z.number().optional(),
+    unit: z.string().optional(),
+  })
+  .refine(
+    (input) =>
+      input.markerType === "bloodPressure"
+        ? input.systolic !== undefined && input.diastolic !== undefined
+        : input.value !== undefined,
+    "Give systolic and diastolic for bloodPressure, otherwise value",
+  );
+
+/**
+ * Stores a reading the patient reports during the conversation, e.g. off the
+ * booth scales, through the marker catalogue so it is converted and checked
+ * like every other reading.
+ */
+export const recordVitalTool = defineRealtimeTool({
+  name: "record_vital",
+  description:
+    "Record a vital sign or body measurement the patient has just taken or read out, e.g. their weight from the scales or their blood pressure from the cuff. Tells you whether the value was accepted and whether it disagrees with another source.",
+  parameters: {
+    type: "object",
+    properties: {
+      markerType: {
+        type: "string",
+        enum: MARKER_TYPES,
+        description: "Which measurement this is",
+      },
+      value: {
+        type: "number",
+        description: "The reading, for every type except bloodPressure",
+      },
+      systolic: {
+        type: "number",
+        description: "Systolic pressure, for bloodPressure only",
+      },
+      diastolic: {
+        type: "number",
+        description: "Diastolic pressure, for bloodPressure only",
+      },
+      unit: {
+        type: "string",
+        description:
+          "Unit as the patient said it, e.g. kg, lb, st, cm, ft, in, mmHg, C, F. Omit to use the standard unit.",
+      },
+    },
+    required: ["markerType"],
+  },
+  inputSchema,
+  timeoutMs: 10_000,
+  muteMicrophone: false,
+  async handler(input, { sessionId }) {
+    const markerType = input.markerType as MarkerReading["type"];
+    const reading: MarkerReading =
+      markerType === "bloodPressure"
+        ? {
+            type: "bloodPressure",
+            systolic: input.systolic!,
+            diastolic: input.diastolic!,
+            unit: input.unit,
+          }
+        : { type: markerType, value: input.value!, unit: input.unit };
+
+    const normalized = normalizeMarkerReading(reading);
+    if (normalized.status === "rejected") {
+      // recordHealthMarkers audits the rejection
+      await recordHealthMarkers({
+        sessionId,
+        source: "llmExtraction",
+        readings: [reading],
+      });
+      return {
+        status: "rejected",
+        reason: `${normalized.reason}. Ask the patient to check the reading.`,
+      };
+    }
+
+    await recordHealthMarkers({
+      sessionId,
+      source: "llmExtraction",
+      readings: [reading],
+      skipUnchanged: true,
+    });
+
+    const markers = await db.healthMarker.findMany({
+      where: { sessionId, markerType: normalized.markerType },
+    });
+    const [reconciled] = reconcileMarkers(markers);
+
+    return {
+      status: normalized.status === "flagged" ? "flagged" : "recorded",
+      marker: MARKER_CATALOGUE[normalized.markerType].label,
+      recorded: { ...normalized.data, unit: normalized.unit },
+      flagReason: normalized.flagReason,
+      conflict: reconciled?.conflict ?? null,
+    };
+  },
+});
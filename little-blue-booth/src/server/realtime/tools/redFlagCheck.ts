@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { db } from "~/server/db";
+import { getSessionEmergencyConfig } from "~/server/emergency";
+import { defineRealtimeTool } from "~/server/realtime/tool";
+import { runTriage } from "~/server/triage";
+
+/** Recent turns triaged alongside the agent's summary */
+const RECENT_TURNS = 12;
+
+/**
+ * Lets the agent ask for a triage the moment the patient describes worrying
+ * symptoms, rather than waiting for the next background run. A high result
+ * interrupts the consultation the same way the background triage does.
+ */
+export const redFlagCheckTool = defineRealtimeTool({
+  name: "red_flag_check",
+  description:
+    "Check the patient's symptoms for red flags that need emergency care, e.g. chest pain that could be a heart attack, stroke signs or anaphylaxis. Call this as soon as the patient describes a potentially serious symptom.",
+  parameters: {
+    type: "object",
+    properties: {
+      symptoms: {
+        type: "string",
+        description:
+          "The patient's symptoms in your own words, including onset, location, radiation and associated symptoms",
+      },
+    },
+    required: ["symptoms"],
+  },
+  inputSchema: z.object({ symptoms: z.string().min(1) }),
+  timeoutMs: 20_000,
+  muteMicrophone: true,
+  async handler({ symptoms }, { sessionId }) {
+    const recentTurns = await db.chatMessage.findMany({
+      where: {
+        conversation: { sessionId },
+        sender: { in: ["user", "assistant"] },
+      },
+      orderBy: [{ sequence: "desc" }, { timestamp: "desc" }],
+      take: RECENT_TURNS,
+      select: { sender: true, messageText: true },
+    });
+
+    // Rules only read the patient's own words; the summary is for the model
+    const conversation = [
+      ...recentTurns
+        .reverse()
+        .map((turn) => `[${turn.sender}]: ${turn.messageText}`),
+      `[assistant]: Symptom summary: ${symptoms}`,
+    ].join("\n");
+
+    const [{ urgencyLevel, redFlags }, { emergencyNumbers }] =
+      await Promise.all([
+        runTriage({ sessionId, conversation }),
+        getSessionEmergencyConfig(sessionId),
+      ]);
+
+    return {
+      urgencyLevel,
+      redFlags: redFlags.map((flag) => flag.label),
+      instruction:
+        urgencyLevel === "high"
+          ? `Tell the patient calmly that their symptoms need emergency care now and that they should call ${emergencyNumbers.join(" or ")}. The kiosk will show them the number.`
+          : urgencyLevel === "medium"
+            ? "Continue the consultation, and advise the patient to be seen by a clinician today."
+            : "Continue the consultation.",
+    };
+  },
+});
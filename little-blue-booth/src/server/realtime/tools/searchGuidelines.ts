@@ -0,0 +1,55 @@
+import { tavily } from "@tavily/core";
+import { z } from "zod";
+import { env } from "~/env";
+import { defineRealtimeTool } from "~/server/realtime/tool";
+
+/** Sources the agent may quote guidance from */
+export const GUIDELINE_DOMAINS = [
+  "nice.org.uk",
+  "cks.nice.org.uk",
+  "hse.ie",
+  "nhs.uk",
+  "sign.ac.uk",
+];
+
+/**
+ * Web search restricted to clinical guideline publishers, for when the
+ * agent needs current guidance on management or referral thresholds.
+ */
+export const searchGuidelinesTool = defineRealtimeTool({
+  name: "search_guidelines",
+  description:
+    "Search published clinical guidelines (NICE, HSE, NHS, SIGN) for current advice on a condition, e.g. management, red flags or when to refer.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          "What to look up, e.g. 'sciatica management guideline' or 'hypertension referral threshold'",
+      },
+    },
+    required: ["query"],
+  },
+  inputSchema: z.object({ query: z.string().min(1) }),
+  timeoutMs: 15_000,
+  muteMicrophone: true,
+  async handler({ query }) {
+    const client = tavily({ apiKey: env.TAVILY_API_KEY });
+    const result = await client.search(query, {
+      searchDepth: "basic",
+      maxResults: 3,
+      includeAnswer: true,
+      includeDomains: GUIDELINE_DOMAINS,
+    });
+
+    return {
+      answer: result.answer ?? null,
+      sources: result.results.map((source) => ({
+        title: source.title,
+        url: source.url,
+        content: source.content,
+      })),
+    };
+  },
+});
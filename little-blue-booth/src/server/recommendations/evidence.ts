@@ -0,0 +1,35 @@
+// server/recommendations/evidence.ts
+
+import { tavily } from "@tavily/core";
+import { env } from "~/env";
+import type { EvidenceLink } from "~/lib/recommendations";
+import { GUIDELINE_DOMAINS } from "~/server/realtime/tools/searchGuidelines";
+
+/** Evidence links kept per recommendation */
+const MAX_LINKS = 2;
+
+/**
+ * Looks up guideline pages supporting a recommendation. Links only come
+ * from the search, never from the model, so they always point at a real
+ * page on a guideline publisher. A failed search gives no links rather than
+ * failing the recommendation.
+ */
+export async function findEvidenceLinks(
+  query: string,
+): Promise<EvidenceLink[]> {
+  try {
+    const client = tavily({ apiKey: env.TAVILY_API_KEY });
+    const result = await client.search(query, {
+      searchDepth: "basic",
+      maxResults: MAX_LINKS,
+      includeDomains: GUIDELINE_DOMAINS,
+    });
+    return result.results.map((source) => ({
+      title: source.title,
+      url: source.url,
+    }));
+  } catch (error) {
+    console.warn(`Evidence search failed for "${query}":`, error);
+    return [];
+  }
+}
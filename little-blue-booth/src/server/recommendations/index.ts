@@ -0,0 +1,191 @@
+// server/recommendations/index.ts
+
+import type { Recommendation, Referral } from "@prisma/client";
+import { renderClinicalNoteMarkdown } from "~/lib/clinicalNote";
+import {
+  computeEarlyWarningScores,
+  describeEarlyWarningScores,
+} from "~/lib/earlyWarningScores";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import {
+  CATEGORY_LABELS,
+  parseEvidenceLinks,
+  recommendationsDraftSchema,
+  type RecommendationCategory,
+  type RecommendationRecord,
+  type ReferralRecord,
+} from "~/lib/recommendations";
+import { toClinicalNoteRecord } from "~/server/clinicalNote";
+import { db } from "~/server/db";
+import { chatStructured } from "~/server/llm/structured";
+import { getLatestTriage } from "~/server/triage";
+import { findEvidenceLinks } from "./evidence";
+
+/** Who a GP or A&E recommendation refers to when the model names no one */
+const DEFAULT_REFERRALS: Partial<Record<RecommendationCategory, string>> = {
+  gp: "GP",
+  emergency: "Emergency department",
+};
+
+export const toReferralRecord = (referral: Referral): ReferralRecord => ({
+  id: referral.id,
+  recommendationId: referral.recommendationId,
+  referredTo: referral.referredTo,
+  reason: referral.reason,
+  scheduledTime: referral.scheduledTime?.toISOString() ?? null,
+  status: referral.status,
+  statusChangedAt: referral.statusChangedAt?.toISOString() ?? null,
+  createdAt: referral.createdAt.toISOString(),
+});
+
+export const toRecommendationRecord = (
+  recommendation: Recommendation & { referrals: Referral[] },
+): RecommendationRecord => ({
+  id: recommendation.id,
+  sessionId: recommendation.sessionId,
+  title: recommendation.title,
+  description: recommendation.description,
+  category: recommendation.category,
+  priority: recommendation.priority,
+  evidenceLinks: parseEvidenceLinks(recommendation.externalLinks),
+  referrals: recommendation.referrals.map(toReferralRecord),
+  createdAt: recommendation.createdAt.toISOString(),
+});
+
+/**
+ * Turns the session's final assessment (the latest clinical note, or the
+ * patient summary when there is no note yet) into Recommendation rows with
+ * evidence links, plus a pending Referral for each one that needs someone
+ * else to act. Replaces the session's earlier recommendations; referrals
+ * that were already confirmed or cancelled are kept.
+ */
+export async function generateRecommendations({
+  sessionId,
+  jobId,
+}: {
+  sessionId: string;
+  jobId?: string;
+}): Promise<RecommendationRecord[]> {
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      healthMarkers: true,
+      clinicalNotes: { orderBy: { version: "desc" }, take: 1 },
+      consultationSummaries: { orderBy: { version: "desc" }, take: 1 },
+    },
+  });
+
+  if (!session) {
+    throw new Error(
+      `Session ${sessionId} not found while generating recommendations.`,
+    );
+  }
+
+  const [note] = session.clinicalNotes;
+  const [summary] = session.consultationSummaries;
+  const assessment = note
+    ? renderClinicalNoteMarkdown(toClinicalNoteRecord(note))
+    : summary?.content;
+  if (!assessment) {
+    throw new Error(
+      `Session ${sessionId} has no clinical note or summary to recommend from.`,
+    );
+  }
+
+  const triage = await getLatestTriage(sessionId);
+  const earlyWarningScores = describeEarlyWarningScores(
+    computeEarlyWarningScores(reconcileMarkers(session.healthMarkers)),
+  );
+
+  const prompt = `You are advising a patient seen at a self-service consultation kiosk on what to do next. Turn the final assessment below into a short list of concrete recommendations, most important first.
+
+Rules:
+- Base every recommendation on the assessment. Do not add new diagnoses.
+- category: "selfCare" (things the patient can do at home), "pharmacy" (see a pharmacist or buy over-the-counter treatment), "gp" (book a GP appointment) or "emergency" (go to A&E now).
+- priority: "routine", "soon" (within a few days) or "urgent" (today).
+- If the triage urgency is high, or the assessment has red flags needing urgent care, include an "emergency" recommendation with priority "urgent".
+- referral: who should see the patient, with the reason, for recommendations another service must act on (GP, A&E or a named specialist). null otherwise.
+- evidenceQuery: a short search for the clinical guideline behind the recommendation, e.g. "sore throat self-care NICE".
+- Write titles and descriptions for the patient, in plain language.
+
+Triage urgency: ${triage?.urgencyLevel ?? "unknown"}
+Triage red flags: ${triage && triage.redFlags.length > 0 ? triage.redFlags.map((flag) => flag.label).join("; ") : "none"}
+Early warning scores: ${earlyWarningScores}
+
+Final assessment:
+${assessment}
+
+Respond in JSON format with:
+{
+  "recommendations": [{
+    "title": string,
+    "description": string,
+    "category": "selfCare" | "pharmacy" | "gp" | "emergency",
+    "priority": "routine" | "soon" | "urgent",
+    "evidenceQuery": string,
+    "referral": { "referredTo": string, "reason": string } | null
+  }]
+}`;
+
+  const { data: draft } = await chatStructured({
+    task: "recommendations",
+    schema: recommendationsDraftSchema,
+    sessionId,
+    temperature: 0.2,
+    maxTokens: 1500,
+    messages: [{ role: "user", content: prompt }],
+  });
+
+  const evidence = await Promise.all(
+    draft.recommendations.map((recommendation) =>
+      recommendation.evidenceQuery
+        ? findEvidenceLinks(recommendation.evidenceQuery)
+        : [],
+    ),
+  );
+
+  const stored = await db.$transaction(async (tx) => {
+    // Referrals nobody has acted on are superseded with their recommendation
+    await tx.referral.deleteMany({
+      where: { sessionId, status: "pending", recommendationId: { not: null } },
+    });
+    await tx.recommendation.deleteMany({ where: { sessionId } });
+
+    const created = [];
+    for (const [index, recommendation] of draft.recommendations.entries()) {
+      const defaultReferral = DEFAULT_REFERRALS[recommendation.category];
+      const referral =
+        recommendation.referral ??
+        (defaultReferral
+          ? { referredTo: defaultReferral, reason: recommendation.title }
+          : null);
+
+      created.push(
+        await tx.recommendation.create({
+          data: {
+            sessionId,
+            title: recommendation.title,
+            description: recommendation.description,
+            category: recommendation.category,
+            priority: recommendation.priority,
+            externalLinks: JSON.stringify(evidence[index] ?? []),
+            clinicalNoteId: note?.id,
+            jobId,
+            referrals: referral
+              ? { create: { sessionId, ...referral, status: "pending" } }
+              : undefined,
+          },
+          include: { referrals: true },
+        }),
+      );
+    }
+    return created;
+  });
+
+  console.log(
+    `Generated ${stored.length} recommendations for session ${sessionId}: ${stored
+      .map((r) => CATEGORY_LABELS[r.category as RecommendationCategory])
+      .join(", ")}`,
+  );
+  return stored.map(toRecommendationRecord);
+}
@@ -0,0 +1,87 @@
+// server/sessions/abandon.ts
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import {
+  PAUSED_SESSION_TIMEOUT_MS,
+  SESSION_INACTIVITY_TIMEOUT_MS,
+} from "~/lib/sessions";
+import { enqueueAnalysisJob } from "~/server/background/AnalysisManager";
+import { db } from "~/server/db";
+import {
+  InvalidSessionTransitionError,
+  transitionSession,
+} from "~/server/sessions";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Whether the patient said or measured anything worth summarising */
+async function hasCapturedData(sessionId: string, client: DbClient) {
+  const [messages, markers] = await Promise.all([
+    client.chatMessage.count({
+      where: { conversation: { sessionId }, sender: "user" },
+    }),
+    client.healthMarker.count({ where: { sessionId } }),
+  ]);
+  return messages + markers > 0;
+}
+
+/**
+ * Ends a session the patient walked away from. The summary and clinical note
+ * are still written from whatever was captured. Returns false if the
+ * session had already ended.
+ */
+export async function abandonSession(
+  sessionId: string,
+  reason: "inactivity" | "nextSession",
+  client: DbClient = db,
+): Promise<boolean> {
+  try {
+    await transitionSession(sessionId, "ABANDONED", { reason }, client);
+  } catch (error) {
+    if (error instanceof InvalidSessionTransitionError) return false;
+    throw error;
+  }
+
+  if (await hasCapturedData(sessionId, client)) {
+    await enqueueAnalysisJob("generateSummary", { sessionId });
+    await enqueueAnalysisJob("generateClinicalNote", { sessionId });
+  }
+  return true;
+}
+
+/**
+ * Abandons open sessions with no patient activity for
+ * `SESSION_INACTIVITY_TIMEOUT_MS`, or `PAUSED_SESSION_TIMEOUT_MS` while
+ * paused. Run by the maintenance worker.
+ */
+export async function sweepInactiveSessions(
+  now = new Date(),
+  client: DbClient = db,
+): Promise<number> {
+  const before = (ms: number) => new Date(now.getTime() - ms);
+  const inactive = await client.session.findMany({
+    where: {
+      OR: [
+        {
+          state: { in: ["CREATED", "IN_PROGRESS"] },
+          lastActivityAt: { lt: before(SESSION_INACTIVITY_TIMEOUT_MS) },
+        },
+        {
+          state: "PAUSED",
+          lastActivityAt: { lt: before(PAUSED_SESSION_TIMEOUT_MS) },
+        },
+      ],
+    },
+    select: { id: true },
+  });
+
+  let abandoned = 0;
+  for (const session of inactive) {
+    if (await abandonSession(session.id, "inactivity", client)) abandoned++;
+  }
+
+  if (abandoned > 0) {
+    console.log(`Abandoned ${abandoned} inactive session(s)`);
+  }
+  return abandoned;
+}
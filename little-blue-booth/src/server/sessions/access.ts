@@ -0,0 +1,74 @@
+// server/sessions/access.ts
+
+import { auth } from "@clerk/nextjs/server";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { KIOSK_CREDENTIAL_HEADER } from "~/lib/kiosks";
+import { hasRole } from "~/lib/roles";
+import { db } from "~/server/db";
+import { authenticateKiosk } from "~/server/kiosks";
+import { resolveUserRole } from "~/server/staff";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Who is asking: a Clerk user, a booth holding a kiosk credential, or both */
+export interface SessionCaller {
+  userId: string | null;
+  sessionClaims: unknown;
+  kioskCredential: string | null;
+}
+
+export type SessionAccess =
+  | "granted"
+  | "notFound"
+  | "forbidden"
+  | "unauthenticated";
+
+/**
+ * Whether `caller` may act on a kiosk session: its patient and the booth it
+ * runs on always may, clinicians only when `clinicians` is set. Shared by the
+ * tRPC session procedures and the analysis socket.
+ */
+export async function checkSessionAccess(
+  caller: SessionCaller,
+  sessionId: string,
+  { clinicians = false }: { clinicians?: boolean } = {},
+  client: DbClient = db,
+): Promise<SessionAccess> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, kioskId: true },
+  });
+  if (!session) return "notFound";
+
+  const { userId } = caller;
+  if (userId && userId === session.userId) return "granted";
+
+  const kiosk = await authenticateKiosk(caller.kioskCredential, client);
+  if (kiosk && kiosk.id === session.kioskId) return "granted";
+
+  if (clinicians && userId) {
+    const role = await resolveUserRole(userId, caller.sessionClaims, client);
+    if (hasRole(role, "clinician")) return "granted";
+  }
+
+  return userId || kiosk ? "forbidden" : "unauthenticated";
+}
+
+/** How a route handler answers a caller that was not granted access */
+export const SESSION_ACCESS_DENIED = {
+  notFound: { status: 404, error: "Session not found" },
+  forbidden: { status: 403, error: "Forbidden" },
+  unauthenticated: { status: 401, error: "Unauthorized" },
+} as const;
+
+/** The caller of a route handler: the Clerk session and the kiosk header */
+export async function sessionCallerFromRequest(
+  request: Request,
+): Promise<SessionCaller> {
+  const { userId, sessionClaims } = await auth();
+  return {
+    userId,
+    sessionClaims,
+    kioskCredential: request.headers.get(KIOSK_CREDENTIAL_HEADER),
+  };
+}
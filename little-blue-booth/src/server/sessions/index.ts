@@ -0,0 +1,114 @@
+// server/sessions/index.ts
+
+import type { Prisma, PrismaClient, Session } from "@prisma/client";
+import { ANALYSIS_EVENTS } from "~/lib/analysisEvents";
+import {
+  OPEN_SESSION_STATES,
+  canTransitionSession,
+  isOpenSessionState,
+  type SessionEndedEvent,
+  type SessionState,
+  type SessionTransitionReason,
+} from "~/lib/sessions";
+import { emitSessionEvent } from "~/server/background/sessionSocket";
+import { db } from "~/server/db";
+import { endActiveRealtimeSessions } from "~/server/realtime/sessions";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export class InvalidSessionTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: SessionState,
+  ) {
+    super(`Session cannot go from ${from} to ${to}`);
+    this.name = "InvalidSessionTransitionError";
+  }
+}
+
+interface TransitionOptions {
+  reason: SessionTransitionReason;
+  userId?: string;
+}
+
+/**
+ * Moves a session to another state if `SESSION_TRANSITIONS` allows it, and
+ * audits the change. Ending a session closes its voice agent connections
+ * and tells the kiosk over the session's socket room.
+ */
+export async function transitionSession(
+  sessionId: string,
+  to: SessionState,
+  { reason, userId }: TransitionOptions,
+  client: DbClient = db,
+): Promise<Session> {
+  const session = await client.session.findUnique({
+    where: { id: sessionId },
+    select: { state: true },
+  });
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  if (!canTransitionSession(session.state, to)) {
+    throw new InvalidSessionTransitionError(session.state, to);
+  }
+
+  const now = new Date();
+  const ending = !isOpenSessionState(to);
+  // Matching on the state read above makes the loser of two concurrent
+  // transitions fail instead of overwriting the winner
+  const { count } = await client.session.updateMany({
+    where: { id: sessionId, state: session.state },
+    data: {
+      state: to,
+      lastActivityAt: now,
+      ...(ending ? { endTime: now, endReason: reason } : {}),
+    },
+  });
+  if (count === 0) {
+    const current = await client.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      select: { state: true },
+    });
+    throw new InvalidSessionTransitionError(current.state, to);
+  }
+
+  await client.auditLog.create({
+    data: {
+      eventType: to === "ABANDONED" || to === "ESCALATED" ? "warning" : "info",
+      description: `Session ${to.toLowerCase().replace("_", " ")}`,
+      details: JSON.stringify({ from: session.state, to, reason }),
+      sessionId,
+      userId,
+      associatedId: sessionId,
+      associatedType: "session",
+    },
+  });
+
+  if (ending) {
+    await endActiveRealtimeSessions(
+      sessionId,
+      to === "ESCALATED" ? "emergency" : "sessionEnded",
+      client,
+    );
+    const event: SessionEndedEvent = { sessionId, state: to, reason };
+    emitSessionEvent(sessionId, ANALYSIS_EVENTS.sessionEnded, event);
+  }
+
+  return client.session.findUniqueOrThrow({ where: { id: sessionId } });
+}
+
+/**
+ * Records patient activity on an open session, postponing the inactivity
+ * sweeper. Returns false if the session has already ended.
+ */
+export async function touchSession(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<boolean> {
+  const { count } = await client.session.updateMany({
+    where: { id: sessionId, state: { in: [...OPEN_SESSION_STATES] } },
+    data: { lastActivityAt: new Date() },
+  });
+  return count > 0;
+}
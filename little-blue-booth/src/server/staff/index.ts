@@ -0,0 +1,84 @@
+// server/staff/index.ts
+
+import type { Prisma, PrismaClient, StaffMember } from "@prisma/client";
+import { z } from "zod";
+import { isRole, roleSchema, type Role } from "~/lib/roles";
+import { db } from "~/server/db";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const metadataSchema = z.object({ role: roleSchema });
+const sessionClaimsSchema = z.object({ metadata: metadataSchema });
+
+/** The role in a user's Clerk public metadata, if it names one */
+export const roleFromMetadata = (metadata: unknown): Role | null => {
+  const parsed = metadataSchema.safeParse(metadata);
+  return parsed.success ? parsed.data.role : null;
+};
+
+/**
+ * The signed-in user's role. A StaffMember row wins; otherwise the role in
+ * their Clerk public metadata, which reaches the session token once it is
+ * customised with `{ "metadata": "{{user.public_metadata}}" }`.
+ */
+export async function resolveUserRole(
+  userId: string,
+  sessionClaims: unknown,
+  client: DbClient = db,
+): Promise<Role> {
+  const staff = await client.staffMember.findUnique({
+    where: { userId },
+    select: { role: true },
+  });
+  if (staff && isRole(staff.role)) return staff.role;
+
+  const claims = sessionClaimsSchema.safeParse(sessionClaims);
+  return claims.success ? claims.data.metadata.role : "patient";
+}
+
+/** Roles stored locally for the given users */
+export async function findStaffRoles(
+  userIds: string[],
+  client: DbClient = db,
+): Promise<Map<string, Role>> {
+  const staff = await client.staffMember.findMany({
+    where: { userId: { in: userIds } },
+    select: { userId: true, role: true },
+  });
+  return new Map(
+    staff.flatMap(({ userId, role }) =>
+      isRole(role) ? [[userId, role] as const] : [],
+    ),
+  );
+}
+
+/** Sets a user's role, overriding whatever their Clerk metadata says */
+export async function setUserRole(
+  userId: string,
+  role: Role,
+  grantedBy: string,
+  client: DbClient = db,
+): Promise<StaffMember> {
+  const previous = await client.staffMember.findUnique({
+    where: { userId },
+    select: { role: true },
+  });
+  const staff = await client.staffMember.upsert({
+    where: { userId },
+    create: { userId, role, grantedBy },
+    update: { role, grantedBy },
+  });
+
+  await client.auditLog.create({
+    data: {
+      eventType: "info",
+      description: `Role set to ${role}`,
+      details: JSON.stringify({ from: previous?.role ?? null, to: role }),
+      userId: grantedBy,
+      associatedId: userId,
+      associatedType: "user",
+    },
+  });
+
+  return staff;
+}
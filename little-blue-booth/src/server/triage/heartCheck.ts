@@ -0,0 +1,46 @@
+// server/triage/heartCheck.ts
+
+import { z } from "zod";
+import { chatStructured } from "~/server/llm/structured";
+
+export const heartCheckSchema = z.object({
+  isHeartAttack: z.boolean(),
+  confidence: z.string(),
+  emergencyLevel: z.enum(["high", "medium", "low"]),
+});
+
+export type HeartCheckResult = z.infer<typeof heartCheckSchema>;
+
+/** Asks the model whether `text` describes heart attack symptoms */
+export async function checkHeartSymptoms(
+  text: string,
+  sessionId?: string,
+): Promise<HeartCheckResult> {
+  const prompt = `
+      Analyze the following text and determine if the symptoms suggest a heart attack. 
+      Common heart attack symptoms include:
+      - Chest pain or pressure
+      - Pain radiating to arm, neck, or jaw
+      - Shortness of breath
+      - Cold sweats
+      - Nausea
+      - Lightheadedness
+      
+      Text to analyze: "${text}"
+      
+      Respond in JSON format with:
+      {
+        "isHeartAttack": boolean (true if symptoms suggest heart attack),
+        "confidence": string (explanation of your assessment),
+        "emergencyLevel": "high"|"medium"|"low"
+      }
+    `;
+
+  const { data } = await chatStructured({
+    task: "heartCheck",
+    schema: heartCheckSchema,
+    sessionId,
+    messages: [{ role: "user", content: prompt }],
+  });
+  return data;
+}
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RedFlag } from "~/lib/triage";
+import { runTriage } from "~/server/triage";
+
+const { client, notifyOnSiteStaff, emitSessionEvent } = vi.hoisted(() => ({
+  client: {
+    healthMarker: { findMany: vi.fn() },
+    analysisStatus: { create: vi.fn() },
+    session: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    realtimeSession: { updateMany: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+  notifyOnSiteStaff: vi.fn(),
+  emitSessionEvent: vi.fn(),
+}));
+
+vi.mock("~/server/db", () => ({ db: client }));
+vi.mock("~/server/emergency/escalate", () => ({ notifyOnSiteStaff }));
+vi.mock("~/server/background/sessionSocket", () => ({ emitSessionEvent }));
+vi.mock("~/server/triage/secondOpinion", () => ({
+  getTriageOpinion: vi.fn().mockResolvedValue(null),
+}));
+vi.mock("~/server/triage/rules", () => ({
+  evaluateRedFlagRules: (): RedFlag[] => [
+    {
+      id: "chestPain",
+      label: "Chest pain",
+      urgency: "high",
+      evidence: "crushing pain in my chest",
+      source: "rule",
+    },
+  ],
+}));
+
+const sessionId = "7d3f9a52-1c4b-4e8a-9f6d-2b5c8e1a4d70";
+const conversation = "[user]: I have a crushing pain in my chest";
+
+const triageInterrupts = () =>
+  (client.auditLog.create.mock.calls as [{ data: { description: string } }][])
+    .map(([{ data }]) => data)
+    .filter((data) => data.description === "Triage interrupt");
+
+/** The session is in `state` when triage reads it */
+const sessionIn = (state: string) => {
+  client.session.findUnique.mockResolvedValue({ state });
+  client.session.findUniqueOrThrow.mockResolvedValue({ id: sessionId, state });
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  client.healthMarker.findMany.mockResolvedValue([]);
+  client.analysisStatus.create.mockImplementation(
+    ({ data }: { data: { urgencyLevel: string; redFlags: string } }) =>
+      Promise.resolve({
+        id: "status_1",
+        sessionId,
+        urgencyLevel: data.urgencyLevel,
+        redFlags: data.redFlags,
+        reasoning: "",
+        timestamp: new Date(),
+      }),
+  );
+  client.session.updateMany.mockResolvedValue({ count: 1 });
+  client.realtimeSession.updateMany.mockResolvedValue({ count: 0 });
+  notifyOnSiteStaff.mockResolvedValue({ notified: true, notifier: "log" });
+  emitSessionEvent.mockReturnValue(true);
+});
+
+describe("runTriage", () => {
+  it("escalates an open session and pages staff once", async () => {
+    sessionIn("IN_PROGRESS");
+
+    const assessment = await runTriage(
+      { sessionId, conversation },
+      client as never,
+    );
+
+    expect(assessment.urgencyLevel).toBe("high");
+    expect(client.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ state: "ESCALATED" }) as unknown,
+      }),
+    );
+    expect(notifyOnSiteStaff).toHaveBeenCalledTimes(1);
+    expect(emitSessionEvent).toHaveBeenCalledWith(
+      sessionId,
+      "triage-interrupt",
+      assessment,
+    );
+    expect(triageInterrupts()).toHaveLength(1);
+  });
+
+  it("does not page staff again for a session that is already escalated", async () => {
+    sessionIn("ESCALATED");
+
+    const assessment = await runTriage(
+      { sessionId, conversation },
+      client as never,
+    );
+
+    expect(assessment.urgencyLevel).toBe("high");
+    expect(notifyOnSiteStaff).not.toHaveBeenCalled();
+    expect(emitSessionEvent).not.toHaveBeenCalledWith(
+      sessionId,
+      "triage-interrupt",
+      expect.anything(),
+    );
+    expect(triageInterrupts()).toHaveLength(0);
+  });
+
+  it("leaves the paging to whichever run escalated first", async () => {
+    // Another job escalated between this run's read and its update
+    client.session.findUnique.mockResolvedValue({ state: "IN_PROGRESS" });
+    client.session.updateMany.mockResolvedValue({ count: 0 });
+    client.session.findUniqueOrThrow.mockResolvedValue({ state: "ESCALATED" });
+
+    await runTriage({ sessionId, conversation }, client as never);
+
+    expect(notifyOnSiteStaff).not.toHaveBeenCalled();
+    expect(triageInterrupts()).toHaveLength(0);
+  });
+});
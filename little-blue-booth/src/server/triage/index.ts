@@ -0,0 +1,215 @@
+// server/triage/index.ts
+
+import type { AnalysisStatus, Prisma, PrismaClient } from "@prisma/client";
+import { ANALYSIS_EVENTS } from "~/lib/analysisEvents";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import {
+  URGENCY_LEVELS,
+  higherUrgency,
+  shouldInterrupt,
+  type RedFlag,
+  type TriageAssessment,
+  type UrgencyLevel,
+} from "~/lib/triage";
+import { emitSessionEvent } from "~/server/background/sessionSocket";
+import { db } from "~/server/db";
+import {
+  notifyOnSiteStaff,
+  type EscalationOutcome,
+} from "~/server/emergency/escalate";
+import {
+  InvalidSessionTransitionError,
+  transitionSession,
+} from "~/server/sessions";
+import { evaluateRedFlagRules } from "./rules";
+import { getTriageOpinion, type TriageOpinion } from "./secondOpinion";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** The audit row written when triage interrupts a session */
+const TRIAGE_INTERRUPT = "Triage interrupt";
+
+/** The patient's turns of a transcript formatted as `[role]: content` lines */
+const patientStatementsOf = (conversation: string) =>
+  conversation
+    .split("\n")
+    .filter((line) => line.startsWith("[user]:"))
+    .map((line) => line.slice("[user]:".length).trim());
+
+const isUrgencyLevel = (value: string | null): value is UrgencyLevel =>
+  URGENCY_LEVELS.includes(value as UrgencyLevel);
+
+const parseRedFlags = (json: string | null): RedFlag[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed) ? (parsed as RedFlag[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const toTriageAssessment = (
+  status: AnalysisStatus,
+): TriageAssessment => ({
+  id: status.id,
+  sessionId: status.sessionId,
+  urgencyLevel: isUrgencyLevel(status.urgencyLevel)
+    ? status.urgencyLevel
+    : "low",
+  redFlags: parseRedFlags(status.redFlags),
+  reasoning: status.reasoning ?? "",
+  timestamp: status.timestamp.toISOString(),
+});
+
+/**
+ * Moves the session to ESCALATED. Only the run that makes the transition
+ * interrupts the kiosk and pages staff, so queued jobs and retries for a
+ * session that is already escalated, or has ended, stay quiet.
+ */
+async function claimEscalation(sessionId: string, client: DbClient) {
+  try {
+    await transitionSession(
+      sessionId,
+      "ESCALATED",
+      { reason: "triageInterrupt" },
+      client,
+    );
+    return true;
+  } catch (error) {
+    if (!(error instanceof InvalidSessionTransitionError)) throw error;
+    return false;
+  }
+}
+
+/**
+ * Triages the conversation so far: deterministic red-flag rules over the
+ * patient's words and the session's markers, plus an LLM second opinion.
+ * The result is the more urgent of the two, so the model can escalate but
+ * never overrule a rule; if the model fails, the rules stand alone.
+ *
+ * The assessment is stored as an AnalysisStatus row. A high urgency is
+ * pushed to the kiosk to interrupt the consultation, and the kiosk's on-site
+ * contact is notified, once per session.
+ */
+export async function runTriage(
+  { sessionId, conversation }: { sessionId: string; conversation: string },
+  client: DbClient = db,
+): Promise<TriageAssessment> {
+  const healthMarkers = await client.healthMarker.findMany({
+    where: { sessionId },
+  });
+
+  const ruleFlags = evaluateRedFlagRules({
+    patientStatements: patientStatementsOf(conversation),
+    markers: reconcileMarkers(healthMarkers),
+  });
+  const ruleUrgency = ruleFlags.reduce<UrgencyLevel>(
+    (level, flag) => higherUrgency(level, flag.urgency),
+    "low",
+  );
+
+  let opinion: TriageOpinion | null = null;
+  try {
+    opinion = await getTriageOpinion(conversation, ruleFlags, sessionId);
+  } catch (error) {
+    console.error("Triage second opinion failed, using rules only:", error);
+  }
+
+  const opinionFlags: RedFlag[] = (opinion?.redFlags ?? []).map((flag) => ({
+    id: "llm",
+    label: flag.label,
+    urgency: opinion?.urgencyLevel ?? "low",
+    evidence: flag.evidence,
+    source: "llm",
+  }));
+
+  const urgencyLevel = opinion
+    ? higherUrgency(ruleUrgency, opinion.urgencyLevel)
+    : ruleUrgency;
+
+  const reasoning = [
+    ruleFlags.length > 0
+      ? `Rules: ${ruleFlags.map((flag) => flag.label).join(", ")}.`
+      : "Rules: no red flags.",
+    opinion
+      ? `Second opinion (${opinion.urgencyLevel}): ${opinion.reasoning}`
+      : "Second opinion unavailable.",
+  ].join(" ");
+
+  const status = await client.analysisStatus.create({
+    data: {
+      sessionId,
+      urgencyLevel,
+      reasoning,
+      redFlags: JSON.stringify([...ruleFlags, ...opinionFlags]),
+    },
+  });
+  const assessment = toTriageAssessment(status);
+
+  if (
+    shouldInterrupt(assessment) &&
+    (await claimEscalation(sessionId, client))
+  ) {
+    const pushed = emitSessionEvent(
+      sessionId,
+      ANALYSIS_EVENTS.triageInterrupt,
+      assessment,
+    );
+    const escalation = await notifyOnSiteStaff(assessment, client);
+
+    await client.auditLog.create({
+      data: {
+        eventType: "warning",
+        description: TRIAGE_INTERRUPT,
+        details: JSON.stringify({
+          redFlags: assessment.redFlags.map((flag) => flag.label),
+          pushed,
+          escalation,
+        }),
+        sessionId,
+        associatedId: assessment.id,
+        associatedType: "analysisStatus",
+      },
+    });
+  }
+
+  return assessment;
+}
+
+/** The session's most recent triage result, if it has been triaged */
+export async function getLatestTriage(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<TriageAssessment | null> {
+  const status = await client.analysisStatus.findFirst({
+    where: { sessionId, redFlags: { not: null } },
+    orderBy: { timestamp: "desc" },
+  });
+  return status ? toTriageAssessment(status) : null;
+}
+
+/**
+ * Whether on-site staff were reached when triage interrupted the session,
+ * as recorded with the interrupt. Null until the session is interrupted.
+ */
+export async function getTriageEscalation(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<{ staffAlerted: boolean } | null> {
+  const interrupt = await client.auditLog.findFirst({
+    where: { sessionId, description: TRIAGE_INTERRUPT },
+    orderBy: { createdAt: "asc" },
+    select: { details: true },
+  });
+  if (!interrupt) return null;
+
+  try {
+    const { escalation } = JSON.parse(interrupt.details ?? "{}") as {
+      escalation?: EscalationOutcome;
+    };
+    return { staffAlerted: escalation?.notified === true };
+  } catch {
+    return { staffAlerted: false };
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { evaluateRedFlagRules } from "~/server/triage/rules";
+
+/** The ids of the rules that fire on what the patient said */
+const flagsFor = (...patientStatements: string[]) =>
+  evaluateRedFlagRules({ patientStatements, markers: [] }).map(
+    (flag) => flag.id,
+  );
+
+describe("evaluateRedFlagRules", () => {
+  it.each([
+    ["chest pain", ["I have a crushing pain in my chest"], ["chestPain"]],
+    [
+      "chest pain radiating to the arm",
+      ["My chest is tight", "And the pain goes down my left arm"],
+      ["chestPainRadiating"],
+    ],
+    [
+      "a drooping face with slurred speech",
+      ["My face is drooping on one side and my speech is slurred"],
+      ["strokeSigns"],
+    ],
+    [
+      "an arm that suddenly went weak",
+      ["Suddenly my left arm went weak"],
+      ["strokeSigns"],
+    ],
+    ["a swelling throat", ["My throat is swelling up"], ["anaphylaxis"]],
+    [
+      "breathing trouble after a sting",
+      ["I was stung by a wasp", "Now I can't breathe properly"],
+      ["anaphylaxis"],
+    ],
+  ])("flags %s", (_, statements, expected) => {
+    expect(flagsFor(...statements)).toEqual(expected);
+  });
+
+  it.each([
+    ["chest pain", ["No chest pain, but my knee hurts"]],
+    ["stroke signs", ["My face isn't drooping and I have no trouble talking"]],
+    ["a swollen throat", ["My throat is not swollen"]],
+  ])("ignores negated %s", (_, statements) => {
+    expect(flagsFor(...statements)).toEqual([]);
+  });
+
+  it.each([
+    ["chest pain", ["I had chest pain last year but it's gone now"]],
+    ["chest pain that went away", ["My chest hurt, it went away"]],
+    ["stroke signs", ["Years ago my face drooped and my speech was slurred"]],
+    ["anaphylaxis", ["I had anaphylaxis as a child"]],
+  ])("ignores past %s", (_, statements) => {
+    expect(flagsFor(...statements)).toEqual([]);
+  });
+
+  it.each([
+    ["a hand numb from typing", ["My hand is numb from typing"]],
+    [
+      "a known allergy alongside asthma",
+      [
+        "I'm allergic to penicillin and I've been wheezing a bit with my asthma",
+      ],
+    ],
+    [
+      "an allergen exposure long before the breathing trouble",
+      [
+        "I got stung by a bee this morning",
+        "It's been itchy",
+        "I get wheezy when I run",
+      ],
+    ],
+  ])("ignores %s", (_, statements) => {
+    expect(flagsFor(...statements)).toEqual([]);
+  });
+});
@@ -0,0 +1,265 @@
+// server/triage/rules.ts
+
+import { computeEarlyWarningScores } from "~/lib/earlyWarningScores";
+import type { MarkerType } from "~/lib/healthMarkers";
+import type { ReconciledMarker } from "~/lib/markerReconciliation";
+import type { RedFlag, UrgencyLevel } from "~/lib/triage";
+
+/** What the rules look at */
+export interface RedFlagRuleInput {
+  /** The patient's own turns, oldest first */
+  patientStatements: string[];
+  markers: ReconciledMarker[];
+}
+
+/**
+ * A deterministic red flag. `evaluate` returns the evidence when the rule
+ * fires and null otherwise.
+ */
+interface RedFlagRule {
+  id: string;
+  label: string;
+  urgency: UrgencyLevel;
+  /** The markers a marker-based rule reads */
+  markerTypes?: readonly MarkerType[];
+  evaluate(input: RedFlagRuleInput): string | null;
+}
+
+/** SpO2 below this is an emergency */
+const MIN_SAFE_SPO2 = 92;
+/** Systolic pressure above this is an emergency */
+const MAX_SAFE_SYSTOLIC = 180;
+
+const NEGATION =
+  /\b(no|not|never|without|denies|deny|don't|dont|do not|haven't|hasn't|isn't|wasn't|none)\b/i;
+
+/** Time words that put a symptom in the past: "last year", "as a child" */
+const PAST_TIME =
+  /\b(last (year|month|week|winter|summer|spring|autumn)|(years?|months?|weeks?) ago|a (long )?(time|while) ago|used to|in the past|previously|history of|as a (child|kid|teenager)|when I was (young|little|a (child|kid)))\b/i;
+/** A symptom that has cleared up: "it's gone now", "it went away" */
+const RESOLVED =
+  /\b((it|that|this|the pain)('s| is| has) (gone|better|resolved|cleared up|settled)|gone now|went away|cleared up|no longer|any ?more)\b/i;
+
+interface Clause {
+  text: string;
+  /** Describes something that is over, so it is no red flag now */
+  past: boolean;
+}
+
+/**
+ * Splits statements into clauses so "no chest pain, but my arm hurts" can be
+ * negated per clause. A clause is in the past when it says so, or when the
+ * next clause of the statement says it has resolved.
+ */
+const clausesOf = (statements: string[]): Clause[] =>
+  statements.flatMap((statement) => {
+    const texts = statement
+      .split(/[.!?;,]|\b(?:but|although|though)\b/i)
+      .map((clause) => clause.trim())
+      .filter(Boolean);
+    return texts.map((text, i) => ({
+      text,
+      past:
+        PAST_TIME.test(text) ||
+        RESOLVED.test(text) ||
+        RESOLVED.test(texts[i + 1] ?? ""),
+    }));
+  });
+
+/**
+ * The first current clause matching `pattern` that does not negate the match,
+ * before it ("no chest pain") or inside it ("my throat is not swollen")
+ */
+const findAffirmed = (statements: string[], pattern: RegExp) =>
+  clausesOf(statements).find(({ text, past }) => {
+    if (past) return false;
+    const match = pattern.exec(text);
+    return match
+      ? !NEGATION.test(text.slice(0, match.index + match[0].length))
+      : false;
+  })?.text ?? null;
+
+/** Each statement with the one before it, for findings said close together */
+const adjacentPairs = (statements: string[]) =>
+  statements.map((_, i) => statements.slice(Math.max(0, i - 1), i + 1));
+
+const CHEST_PAIN =
+  /\bchest\b.{0,20}\b(pain|pressure|tight\w*|discomfort|heav\w*|crush\w*|ache|hurts?)\b|\b(pain|pressure|tightness|discomfort)\b.{0,15}\bchest\b/i;
+const PAIN_RADIATION =
+  /\b(radiat\w*|spread\w*|going|goes|moving|moves|shoot\w*|down)\b.{0,25}\b(arm|jaw|neck|back|shoulder)s?\b|\b(left arm|jaw|neck)\b.{0,15}\b(pain|hurts?|ache\w*|numb)\b/i;
+
+const FACE_DROOP =
+  /\b(face|mouth|smile|lip)\b.{0,20}\b(droop\w*|numb|lopsided|fallen|dropp\w*)\b|\bdroop\w*\b.{0,15}\b(face|mouth|eye)\b/i;
+const ARM_WEAKNESS =
+  /\b(arm|leg|hand)\b.{0,25}\b(weak\w*|numb|heavy|can't (lift|move)|cannot (lift|move))\b|\b(weak\w*|numb\w*)\b.{0,20}\b(one|left|right)\b.{0,10}\b(side|arm|leg)\b/i;
+const SPEECH_DIFFICULTY =
+  /\bslurr\w*\b|\b(speech|speak\w*|talk\w*|words?)\b.{0,20}\b(difficult\w*|trouble|hard|strange|garbled|jumbled)\b|\bcan'?t (speak|talk|get (my|the) words)\b/i;
+const SUDDEN_ONSET =
+  /\b(sudden\w*|all of a sudden|out of (nowhere|the blue)|came on (fast|quickly))\b/i;
+
+const AIRWAY_SWELLING =
+  /\banaphyla\w*\b|\b(throat|tongue|lips?|face)\b.{0,20}\b(swell\w*|swollen|closing|closed up)\b|\bswell\w*\b.{0,15}\b(throat|tongue|lips?)\b/i;
+/** Being exposed to an allergen, not just having an allergy */
+const ALLERGEN_EXPOSURE =
+  /\b(allergic reaction|reaction to|reacting to|stung|bitten|used my epi-?pen)\b|\b(after|since|just) (eating|taking|having|ate|took|had)\b/i;
+const BREATHING_DIFFICULTY =
+  /\b(can'?t|cannot|struggl\w* to|hard to|difficult\w* to) breathe?\b|\bwheez\w*\b|\bshort(ness)? of breath\b|\bbreathless\w*\b/i;
+
+const markerValue = (markers: ReconciledMarker[], type: string) =>
+  markers.find((marker) => marker.markerType === type)?.current.value;
+
+/** The markers NEWS2 scores */
+const NEWS2_MARKERS = [
+  "respiratoryRate",
+  "bloodOxygen",
+  "bloodPressure",
+  "heartRate",
+  "temperature",
+] as const satisfies readonly MarkerType[];
+
+/** NEWS2 with the parameters that scored, e.g. "NEWS2 7 (Pulse 3, SpO2 2)" */
+const news2Evidence = (markers: ReconciledMarker[]) => {
+  const { news2 } = computeEarlyWarningScores(markers);
+  const scoring = news2.components
+    .filter((c) => c.points)
+    .map((c) => `${c.label} ${c.value} scores ${c.points}`);
+  return {
+    news2,
+    evidence: `NEWS2 ${news2.total}${scoring.length > 0 ? `: ${scoring.join(", ")}` : ""}`,
+  };
+};
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: "chestPainRadiating",
+    label: "Chest pain radiating to the arm, jaw, neck or back",
+    urgency: "high",
+    evaluate({ patientStatements }) {
+      const pain = findAffirmed(patientStatements, CHEST_PAIN);
+      const radiation = findAffirmed(patientStatements, PAIN_RADIATION);
+      return pain && radiation
+        ? pain === radiation
+          ? pain
+          : `${pain} / ${radiation}`
+        : null;
+    },
+  },
+  {
+    id: "chestPain",
+    label: "Chest pain",
+    urgency: "medium",
+    evaluate: ({ patientStatements }) =>
+      findAffirmed(patientStatements, CHEST_PAIN),
+  },
+  {
+    // A numb hand on its own is usually not a stroke, so one FAST sign needs
+    // another, or a sudden onset, to fire
+    id: "strokeSigns",
+    label: "Possible stroke (FAST: face, arm or speech)",
+    urgency: "high",
+    evaluate({ patientStatements }) {
+      const signs = [FACE_DROOP, ARM_WEAKNESS, SPEECH_DIFFICULTY]
+        .map((sign) => findAffirmed(patientStatements, sign))
+        .filter((clause): clause is string => clause !== null);
+      const onset = findAffirmed(patientStatements, SUDDEN_ONSET);
+      if (signs.length === 0 || (signs.length === 1 && !onset)) return null;
+      return [...new Set(onset ? [...signs, onset] : signs)].join(" / ");
+    },
+  },
+  {
+    // Breathing trouble only counts when said close to an allergen exposure,
+    // so a known allergy and asthma mentioned together do not fire
+    id: "anaphylaxis",
+    label: "Possible anaphylaxis",
+    urgency: "high",
+    evaluate({ patientStatements }) {
+      const swelling = findAffirmed(patientStatements, AIRWAY_SWELLING);
+      if (swelling) return swelling;
+      for (const nearby of adjacentPairs(patientStatements)) {
+        const exposure = findAffirmed(nearby, ALLERGEN_EXPOSURE);
+        const breathing = findAffirmed(nearby, BREATHING_DIFFICULTY);
+        if (exposure && breathing) {
+          return exposure === breathing
+            ? exposure
+            : `${exposure} / ${breathing}`;
+        }
+      }
+      return null;
+    },
+  },
+  {
+    id: "lowOxygen",
+    label: `Blood oxygen below ${MIN_SAFE_SPO2}%`,
+    urgency: "high",
+    markerTypes: ["bloodOxygen"],
+    evaluate({ markers }) {
+      const value = markerValue(markers, "bloodOxygen");
+      return value && "value" in value && value.value < MIN_SAFE_SPO2
+        ? `SpO2 ${value.value}%`
+        : null;
+    },
+  },
+  {
+    id: "severeHypertension",
+    label: `Systolic blood pressure above ${MAX_SAFE_SYSTOLIC} mmHg`,
+    urgency: "high",
+    markerTypes: ["bloodPressure"],
+    evaluate({ markers }) {
+      const value = markerValue(markers, "bloodPressure");
+      return value && "systolic" in value && value.systolic > MAX_SAFE_SYSTOLIC
+        ? `Blood pressure ${value.systolic}/${value.diastolic} mmHg`
+        : null;
+    },
+  },
+  {
+    id: "news2High",
+    label: "NEWS2 of 7 or more",
+    urgency: "high",
+    markerTypes: NEWS2_MARKERS,
+    evaluate({ markers }) {
+      const { news2, evidence } = news2Evidence(markers);
+      return news2.risk === "high" ? evidence : null;
+    },
+  },
+  {
+    id: "news2Elevated",
+    label: "NEWS2 of 5 or more, or a single vital scoring 3",
+    urgency: "medium",
+    markerTypes: NEWS2_MARKERS,
+    evaluate({ markers }) {
+      const { news2, evidence } = news2Evidence(markers);
+      return news2.risk === "medium" || news2.risk === "lowMedium"
+        ? evidence
+        : null;
+    },
+  },
+];
+
+/** The markers the rule `ruleId` reads; none for rules over the transcript */
+export const redFlagMarkerTypes = (ruleId: string): readonly MarkerType[] =>
+  RED_FLAG_RULES.find((rule) => rule.id === ruleId)?.markerTypes ?? [];
+
+/**
+ * Runs every rule. A rule that is a stronger form of another (radiating
+ * chest pain vs chest pain) replaces it rather than both being reported.
+ */
+export function evaluateRedFlagRules(input: RedFlagRuleInput): RedFlag[] {
+  const flags = RED_FLAG_RULES.flatMap((rule): RedFlag[] => {
+    const evidence = rule.evaluate(input);
+    return evidence
+      ? [
+          {
+            id: rule.id,
+            label: rule.label,
+            urgency: rule.urgency,
+            evidence,
+            source: "rule",
+          },
+        ]
+      : [];
+  });
+
+  return flags.some((flag) => flag.id === "chestPainRadiating")
+    ? flags.filter((flag) => flag.id !== "chestPain")
+    : flags;
+}
@@ -0,0 +1,55 @@
+// server/triage/secondOpinion.ts
+
+import { z } from "zod";
+import { URGENCY_LEVELS, type RedFlag } from "~/lib/triage";
+import { chatStructured } from "~/server/llm/structured";
+
+export const triageOpinionSchema = z.object({
+  urgencyLevel: z.enum(URGENCY_LEVELS),
+  redFlags: z
+    .array(z.object({ label: z.string().min(1), evidence: z.string() }))
+    .default([]),
+  reasoning: z.string(),
+});
+
+export type TriageOpinion = z.infer<typeof triageOpinionSchema>;
+
+/**
+ * Asks the model for an independent urgency assessment of the conversation.
+ * The rule results are given as context; the model can add red flags the
+ * rules missed but its answer never lowers the rules' urgency (see
+ * runTriage).
+ */
+export async function getTriageOpinion(
+  conversation: string,
+  ruleFlags: RedFlag[],
+  sessionId?: string,
+): Promise<TriageOpinion> {
+  const prompt = `You are the safety triage check for a self-service GP consultation kiosk. Decide how urgently the patient needs care based ONLY on what they have said and the readings given.
+
+Urgency levels:
+- "high": possible emergency that needs emergency services now, e.g. heart attack, stroke, anaphylaxis, severe breathing difficulty, heavy bleeding, loss of consciousness, suicidal intent
+- "medium": should be seen by a clinician today
+- "low": routine
+
+Red flags already found by deterministic rules:
+${ruleFlags.length > 0 ? ruleFlags.map((flag) => `- ${flag.label}: ${flag.evidence}`).join("\n") : "- none"}
+
+Conversation:
+${conversation}
+
+Respond in JSON format with:
+{
+  "urgencyLevel": "low" | "medium" | "high",
+  "redFlags": [{ "label": string, "evidence": string (the patient's words) }],
+  "reasoning": string (one or two sentences)
+}`;
+
+  const { data } = await chatStructured({
+    task: "redFlagTriage",
+    schema: triageOpinionSchema,
+    sessionId,
+    messages: [{ role: "user", content: prompt }],
+  });
+  return data;
+}
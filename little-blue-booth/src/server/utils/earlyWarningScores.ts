@@ -0,0 +1,64 @@
+// server/utils/earlyWarningScores.ts
+
+import type { EarlyWarningScore, Prisma, PrismaClient } from "@prisma/client";
+import { ANALYSIS_EVENTS } from "~/lib/analysisEvents";
+import {
+  computeEarlyWarningScores,
+  type EarlyWarningScoreRecord,
+  type EarlyWarningScores,
+} from "~/lib/earlyWarningScores";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import { emitSessionEvent } from "~/server/background/sessionSocket";
+import { db } from "~/server/db";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const toEarlyWarningScoreRecord = (
+  row: EarlyWarningScore,
+): EarlyWarningScoreRecord => ({
+  ...(JSON.parse(row.breakdown) as EarlyWarningScores),
+  id: row.id,
+  sessionId: row.sessionId,
+  computedAt: row.computedAt.toISOString(),
+});
+
+/**
+ * Scores the session's current markers, stores the result and pushes it to
+ * the kiosk. Called by recordHealthMarkers whenever a marker lands.
+ */
+export async function recomputeEarlyWarningScores(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<EarlyWarningScoreRecord> {
+  const healthMarkers = await client.healthMarker.findMany({
+    where: { sessionId },
+  });
+  const scores = computeEarlyWarningScores(reconcileMarkers(healthMarkers));
+
+  const row = await client.earlyWarningScore.create({
+    data: {
+      sessionId,
+      news2: scores.news2.total,
+      news2Risk: scores.news2.risk,
+      qsofa: scores.qsofa.score,
+      complete: scores.news2.complete,
+      breakdown: JSON.stringify(scores),
+    },
+  });
+  const record = toEarlyWarningScoreRecord(row);
+
+  emitSessionEvent(sessionId, ANALYSIS_EVENTS.earlyWarningUpdated, record);
+  return record;
+}
+
+/** The session's most recent scores, if any markers have been recorded */
+export async function getLatestEarlyWarningScores(
+  sessionId: string,
+  client: DbClient = db,
+): Promise<EarlyWarningScoreRecord | null> {
+  const row = await client.earlyWarningScore.findFirst({
+    where: { sessionId },
+    orderBy: { computedAt: "desc" },
+  });
+  return row ? toEarlyWarningScoreRecord(row) : null;
+}
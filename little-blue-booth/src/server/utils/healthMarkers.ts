@@ -0,0 +1,102 @@
+import type { HealthMarker, Prisma, PrismaClient } from "@prisma/client";
+import { db } from "~/server/db";
+import {
+  normalizeMarkerReading,
+  type MarkerReading,
+  type MarkerSource,
+} from "~/lib/healthMarkers";
+import { recomputeEarlyWarningScores } from "~/server/utils/earlyWarningScores";
+
+interface RecordHealthMarkersOptions {
+  sessionId: string;
+  source: MarkerSource;
+  readings: MarkerReading[];
+  deviceId?: string;
+  capturedAt?: Date;
+  /**
+   * Skip a reading whose value matches the latest one already stored from
+   * the same source, e.g. a value restated on every extraction run
+   */
+  skipUnchanged?: boolean;
+}
+
+/**
+ * Normalises readings through the marker catalogue and stores them. Flagged
+ * readings are stored with their flagReason; rejected readings are not
+ * stored and are recorded to AuditLog instead. The session's early-warning
+ * scores are recomputed when anything was stored. Returns the stored rows.
+ */
+export async function recordHealthMarkers(
+  {
+    sessionId,
+    source,
+    readings,
+    deviceId,
+    capturedAt,
+    skipUnchanged = false,
+  }: RecordHealthMarkersOptions,
+  client: PrismaClient | Prisma.TransactionClient = db,
+): Promise<HealthMarker[]> {
+  const stored: HealthMarker[] = [];
+
+  for (const reading of readings) {
+    const normalized = normalizeMarkerReading(reading);
+
+    if (normalized.status === "rejected") {
+      console.warn(
+        `Rejected ${source} ${normalized.markerType} reading for session ${sessionId}: ${normalized.reason}`,
+      );
+      await client.auditLog.create({
+        data: {
+          eventType: "warning",
+          description: "Rejected implausible health marker",
+          details: JSON.stringify({ source, reading, reason: normalized.reason }),
+          sessionId,
+          deviceId,
+          associatedType: "healthMarker",
+        },
+      });
+      continue;
+    }
+
+    const data = JSON.stringify(normalized.data);
+
+    if (skipUnchanged) {
+      const latest = await client.healthMarker.findFirst({
+        where: { sessionId, markerType: normalized.markerType, source },
+        orderBy: { capturedAt: "desc" },
+        select: { data: true },
+      });
+      if (latest?.data === data) continue;
+    }
+
+    stored.push(
+      await client.healthMarker.create({
+        data: {
+          sessionId,
+          markerType: normalized.markerType,
+          data,
+          unit: normalized.unit,
+          source,
+          flagReason: normalized.flagReason,
+          deviceId,
+          capturedAt,
+        },
+      }),
+    );
+  }
+
+  if (stored.length > 0) {
+    // The markers are stored either way; a scoring failure must not lose them
+    try {
+      await recomputeEarlyWarningScores(sessionId, client);
+    } catch (error) {
+      console.error(
+        `Failed to recompute early-warning scores for session ${sessionId}:`,
+        error,
+      );
+    }
+  }
+
+  return stored;
+}
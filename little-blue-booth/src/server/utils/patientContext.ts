@@ -0,0 +1,152 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { db } from "~/server/db";
+import { MARKER_CATALOGUE } from "~/lib/healthMarkers";
+import {
+  formatMarkerValue,
+  reconcileMarkers,
+} from "~/lib/markerReconciliation";
+import { describePatientHistory } from "~/lib/patientHistory";
+import { loadPatientHistory } from "~/server/utils/patientHistory";
+
+/** How many earlier consultation summaries are given to the agent */
+const MAX_PRIOR_SUMMARIES = 3;
+/** How many document analyses are given to the agent */
+const MAX_DOCUMENTS = 5;
+/** Long summaries and analyses are cut to keep the prompt small */
+const MAX_EXCERPT_LENGTH = 1500;
+
+/** What the server knows about the patient when the realtime session starts */
+export interface PatientContext {
+  name?: string | null;
+  dateOfBirth?: string | null;
+  /** Current reconciled value of every marker already recorded */
+  markers?: {
+    label: string;
+    value: string;
+    source: string;
+    flagReason: string | null;
+  }[];
+  /** Latest summary of each of the patient's earlier sessions, newest first */
+  priorSummaries?: { date: string; content: string }[];
+  /** Analyses of documents and images the patient has uploaded, newest first */
+  documents?: { analysisType: string; date: string; analysis: string }[];
+  /** Trends across visits and earlier diagnoses, one line each */
+  history?: string[];
+  /** `missingCriticalInfo` from the session's latest AnalysisStatus */
+  missingInformation?: string[];
+}
+
+const excerpt = (text: string) =>
+  text.length > MAX_EXCERPT_LENGTH
+    ? `${text.slice(0, MAX_EXCERPT_LENGTH)}...`
+    : text;
+
+const identityValue = (data: string | undefined) => {
+  if (!data) return null;
+  try {
+    const { value } = JSON.parse(data) as { value?: unknown };
+    return typeof value === "string" ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseStringArray = (json: string | null) => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Gathers everything already known about the patient of `sessionId` from
+ * the database: markers recorded in this session (e.g. the Google Fit
+ * import), summaries of their earlier sessions, analyses of documents they
+ * have uploaded, trends and diagnoses from their history, and what the
+ * latest analysis still considers missing.
+ * `name` overrides the name stated in the conversation, e.g. with the name
+ * on the signed-in account.
+ */
+export async function loadPatientContext(
+  { sessionId, name }: { sessionId: string; name?: string | null },
+  client: PrismaClient | Prisma.TransactionClient = db,
+): Promise<PatientContext> {
+  const session = await client.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      healthMarkers: { orderBy: { capturedAt: "desc" } },
+      analysisStatuses: {
+        where: { missingCriticalInfo: { not: null } },
+        orderBy: { timestamp: "desc" },
+        take: 1,
+        select: { missingCriticalInfo: true },
+      },
+    },
+  });
+
+  const [priorSessions, documents, history] = await Promise.all([
+    client.session.findMany({
+      where: {
+        userId: session.userId,
+        id: { not: sessionId },
+        consultationSummaries: { some: {} },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_PRIOR_SUMMARIES,
+      select: {
+        consultationSummaries: {
+          orderBy: { version: "desc" },
+          take: 1,
+          select: { content: true, createdAt: true },
+        },
+      },
+    }),
+    client.visionAnalysis.findMany({
+      where: {
+        media: { session: { userId: session.userId } },
+        analysisResults: { not: null },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_DOCUMENTS,
+      select: { analysisType: true, analysisResults: true, createdAt: true },
+    }),
+    loadPatientHistory(session.userId, client),
+  ]);
+
+  const latestIdentity = (type: "name" | "dob") =>
+    identityValue(
+      session.healthMarkers.find((marker) => marker.markerType === type)?.data,
+    );
+
+  return {
+    name: name ?? latestIdentity("name"),
+    dateOfBirth: latestIdentity("dob"),
+    markers: reconcileMarkers(session.healthMarkers).map((marker) => ({
+      label: MARKER_CATALOGUE[marker.markerType].label,
+      value: formatMarkerValue(marker.current.value, marker.current.unit),
+      source: marker.current.source,
+      flagReason: marker.current.flagReason,
+    })),
+    priorSummaries: priorSessions.flatMap(({ consultationSummaries }) =>
+      consultationSummaries.map((summary) => ({
+        date: summary.createdAt.toISOString().slice(0, 10),
+        content: excerpt(summary.content),
+      })),
+    ),
+    documents: documents.map((document) => ({
+      analysisType: document.analysisType,
+      date: document.createdAt.toISOString().slice(0, 10),
+      analysis: excerpt(document.analysisResults ?? ""),
+    })),
+    history: describePatientHistory(history, sessionId),
+    missingInformation: parseStringArray(
+      session.analysisStatuses[0]?.missingCriticalInfo ?? null,
+    ),
+  };
+}
@@ -0,0 +1,82 @@
+// server/utils/patientHistory.ts
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { ClinicalNoteContent } from "~/lib/clinicalNote";
+import { reconcileMarkers } from "~/lib/markerReconciliation";
+import {
+  buildMarkerHistories,
+  detectHistoryTrends,
+  type HistoryDiagnosis,
+  type PatientHistory,
+} from "~/lib/patientHistory";
+import { db } from "~/server/db";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const parseDiagnoses = (content: string | undefined): HistoryDiagnosis[] => {
+  if (!content) return [];
+  try {
+    const { assessment } = JSON.parse(content) as ClinicalNoteContent;
+    return assessment.map(({ diagnosis, likelihood }) => ({
+      diagnosis,
+      likelihood,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Everything recorded for a Clerk user across their kiosk sessions: each
+ * session's reconciled markers as a time series, its latest summary and the
+ * differentials of its latest clinical note, plus trend flags across visits.
+ */
+export async function loadPatientHistory(
+  userId: string,
+  client: DbClient = db,
+): Promise<PatientHistory> {
+  const sessions = await client.session.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      startTime: true,
+      endTime: true,
+      createdAt: true,
+      kiosk: { select: { location: true } },
+      healthMarkers: true,
+      consultationSummaries: {
+        orderBy: { version: "desc" },
+        take: 1,
+        select: { content: true },
+      },
+      clinicalNotes: {
+        orderBy: { version: "desc" },
+        take: 1,
+        select: { content: true },
+      },
+    },
+  });
+
+  const markers = buildMarkerHistories(
+    sessions.map((session) => ({
+      sessionId: session.id,
+      markers: reconcileMarkers(session.healthMarkers),
+    })),
+  );
+
+  return {
+    sessions: sessions
+      .map((session) => ({
+        id: session.id,
+        date: (session.startTime ?? session.createdAt).toISOString(),
+        kioskLocation: session.kiosk.location,
+        ended: session.endTime !== null,
+        summary: session.consultationSummaries[0]?.content ?? null,
+        diagnoses: parseDiagnoses(session.clinicalNotes[0]?.content),
+      }))
+      .reverse(),
+    markers,
+    trendFlags: detectHistoryTrends(markers),
+  };
+}
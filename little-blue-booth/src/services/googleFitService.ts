@@ -220,8 +220,9 @@ export async function getFitData(userId: string): Promise<{
     result,
   );
 
+  // Google Fit reports height in metres
   if (finalResult.height && finalResult.weight) {
-    const heightInMeters = finalResult.height / 100;
+    const heightInMeters = finalResult.height;
     finalResult.bmi = finalResult.weight / (heightInMeters * heightInMeters);
   }
 
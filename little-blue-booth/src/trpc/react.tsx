@@ -7,6 +7,8 @@ import { type inferRouterInputs, type inferRouterOutputs } from "@trpc/server";
 import { useState } from "react";
 import SuperJSON from "superjson";
 
+import { loadKioskCredential } from "~/lib/kioskCredential";
+import { KIOSK_CREDENTIAL_HEADER } from "~/lib/kiosks";
 import { type AppRouter } from "~/server/api/root";
 import { createQueryClient } from "./query-client";
 
@@ -53,6 +55,10 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
           headers: () => {
             const headers = new Headers();
             headers.set("x-trpc-source", "nextjs-react");
+            const kioskCredential = loadKioskCredential();
+            if (kioskCredential) {
+              headers.set(KIOSK_CREDENTIAL_HEADER, kioskCredential);
+            }
             return headers;
           },
         }),
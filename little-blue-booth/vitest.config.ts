@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "~": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    // Tests never need credentials: the LLM is the offline fake, and the
+    // database and Clerk are mocked
+    env: { SKIP_ENV_VALIDATION: "1", NODE_ENV: "test", LLM_PROVIDER: "fake" },
+  },
+});